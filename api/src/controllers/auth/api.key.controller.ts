@@ -0,0 +1,131 @@
+"use strict";
+import express from "express";
+import EventEmitter from "events";
+import {BAD_REQUEST_CODE, BaseController, OK_REQUEST_CODE} from "../base.controller";
+import {Service} from "../../services/app.service";
+import {API_KEY_SERVICE, EMITTER_SERVICE} from "../../services/app.constants";
+import {ApiKeySecret, IApiKeyService, toPublicApiKey} from "../../services/api.key.service";
+import {UserEntity} from "../../db/entities/users.entity";
+import {ApiKeyEntity} from "../../db/entities/api.key.entity";
+import {AUDIT_ACTION_API_KEY_CREATE, AUDIT_ACTION_API_KEY_REVOKE} from "../../db/entities/audit.entity";
+import {audit} from "../../util/audit";
+import {ERROR_API_KEY_NOT_FOUND} from "./auth.error.codes";
+
+/**
+ * Personal API keys of the caller, key is sent as bearer token of Authorization header
+ */
+export class ApiKeyController extends BaseController {
+    apiKeys: IApiKeyService
+    emitter: EventEmitter
+    constructor() {
+        super();
+        this.apiKeys = Service.getService<IApiKeyService>(API_KEY_SERVICE);
+        this.emitter = Service.getService<EventEmitter>(EMITTER_SERVICE);
+        this.get    = this.get.bind(this);
+        this.create = this.create.bind(this);
+        this.revoke = this.revoke.bind(this);
+
+        this.emitter.on("apiKey", (message) => {
+            this.compileLogger(message, "api_key", "api_keys");
+        });
+    }
+
+    /**
+     * get /api/v1/auth/api-keys
+     * keys of the caller not revoked yet, secret values are never returned again
+     * @param req
+     * @param res
+     */
+    public get (req: express.Request, res: express.Response): express.Response {
+        try {
+            const user = req.user as UserEntity;
+            this.apiKeys.list(user.id)
+                .then((keys: ApiKeyEntity[]) => {
+                    const list = keys.map(key => toPublicApiKey(key));
+                    this.emitter.emit("apiKey", {
+                        method: "get",
+                        response: {count: list.length},
+                        code: OK_REQUEST_CODE
+                    });
+                    return res.status(OK_REQUEST_CODE).json({keys: list});
+                })
+                .catch(e => {
+                    this.emitter.emit("apiKey", {
+                        method: "get",
+                        response: e,
+                        code: BAD_REQUEST_CODE
+                    });
+                    return res.status(BAD_REQUEST_CODE).json({message: e.message});
+                });
+        } catch (e) {
+            this.emitter.emit("apiKey", {
+                method: "get",
+                response: e,
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: e.message});
+        }
+    }
+
+    /**
+     * post /api/v1/auth/api-keys
+     * create key of the caller signed in to session, keys and tokens do not create keys, scopes are limited to roles the caller acts with,
+     * secret value is returned only in this response
+     * @param req
+     * @param res
+     */
+    public create (req: express.Request, res: express.Response): void {
+        const user = req.user as UserEntity;
+        this.apiKeys.create(user, req.body.name, req.body.scopes, req.body.expires ? new Date(req.body.expires) : undefined)
+            .then(({key, value}: ApiKeySecret) => {
+                const created = toPublicApiKey(key);
+                audit(req, "user", AUDIT_ACTION_API_KEY_CREATE, user.id, null, {apiKey: key.id, name: key.name, scopes: key.scopes});
+                this.emitter.emit("apiKey", {
+                    method: "create",
+                    response: {apiKey: key.id},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({key: created, secret: value});
+            })
+            .catch(e => {
+                this.emitter.emit("apiKey", {
+                    method: "create",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+
+    /**
+     * delete /api/v1/auth/api-keys/:id
+     * revoke key of the caller signed in to session, requests with it are rejected right away
+     * @param req
+     * @param res
+     */
+    public revoke (req: express.Request, res: express.Response): void {
+        const user = req.user as UserEntity;
+        const id = Number(req.params.id);
+        this.apiKeys.revoke(user.id, id)
+            .then((revoked: boolean) => {
+                if (!revoked) {
+                    throw new Error(ERROR_API_KEY_NOT_FOUND);
+                }
+                audit(req, "user", AUDIT_ACTION_API_KEY_REVOKE, user.id, {apiKey: id}, null);
+                this.emitter.emit("apiKey", {
+                    method: "revoke",
+                    response: {apiKey: id},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({revoked: true});
+            })
+            .catch(e => {
+                this.emitter.emit("apiKey", {
+                    method: "revoke",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+}
@@ -1,49 +1,106 @@
 "use strict";
 
-import speakeasy from "speakeasy";
-import Passport2faTotp from "passport-2fa-totp";
 import express from "express";
 import {
     IAuthController,
     BAD_REQUEST_CODE,
-    BaseController, OK_REQUEST_CODE,
+    BaseController, CONFLICT_REQUEST_CODE, NOT_IMPLEMENTED_REQUEST_CODE, OK_REQUEST_CODE,
+    TOO_MANY_REQUESTS_CODE,
     UNAUTHORIZED_REQUEST_CODE
 } from "../base.controller";
 import logger from "../../util/logger";
 import {Service} from "../../services/app.service";
 import {Config} from "../../util/secrets";
 import {UserRepository} from "../../db/storage/postgres/repository/user.repository";
-import {CONFIG_SERVICE, EMITTER_SERVICE, USER_REPOSITORY_SERVICE} from "../../services/app.constants";
+import {
+    CONFIG_SERVICE,
+    EMITTER_SERVICE,
+    LOCKOUT_SERVICE,
+    MAIL_SERVICE,
+    RECOVERY_CODE_SERVICE,
+    SESSION_SERVICE,
+    TOKEN_SERVICE,
+    TOTP_SERVICE,
+    PASSWORD_SERVICE,
+    OIDC_SERVICE,
+    USER_REPOSITORY_SERVICE,
+    WEBAUTHN_SERVICE
+} from "../../services/app.constants";
 import EventEmitter from "events";
 import passport from "passport";
-import oauth, { Token } from "client-oauth2";
 import { IVerifyOptions } from "passport-local";
 import {PublicUser, UserEntity} from "../../db/entities/users.entity";
 import {
     ERROR_AUTH_EMAIL,
     ERROR_AUTH_EMPTY_EMAIL,
+    ERROR_AUTH_EMAIL_NOT_VERIFIED,
+    ERROR_AUTH_EMAIL_VERIFIED,
     ERROR_AUTH_EMPTY_PASSWORD_CREDENTIALS, ERROR_AUTH_INVALID_EMAIL, ERROR_AUTH_INVALID_RESET_TOKEN,
+    ERROR_AUTH_INVALID_VERIFY_TOKEN,
     ERROR_AUTH_PASSWORD_NOT_MATCH_CREDENTIALS,
     ERROR_AUTH_USERNAME,
+    ERROR_AUTH_USER_REMOVED,
     ERROR_GA2FA_INCORRECT_CODE,
     ERROR_GA2FA_NO_CODE,
+    ERROR_GA2FA_NO_SESSION,
+    ERROR_OIDC_INVALID_STATE,
+    ERROR_TOKEN_INVALID,
+    ERROR_TOKEN_NOT_SUPPORTED,
     ERROR_VALIDATION
 } from "./auth.error.codes";
 import crypto from "crypto";
-import {mockProviderData} from "./mock.auth.controller";
-
-const GoogleAuthenticator = Passport2faTotp.GoogeAuthenticator;
+import {ITokenService, TokenData, TokenValidation} from "../../services/token.service";
+import {describeSession, ISessionService, passSecondFactor, signedInUser} from "../../services/session.service";
+import {ILockoutService, LockoutError} from "../../services/lockout.service";
+import {IMailService} from "../../services/mail.service";
+import {IRecoveryCodeService} from "../../services/recovery.service";
+import {IWebAuthnService, takeChallenge, WEBAUTHN_PURPOSE_LOGIN} from "../../services/webauthn.service";
+import {ITotpService, TotpRegistration} from "../../services/totp.service";
+import {IPasswordService, PasswordPolicyError} from "../../services/password.service";
+import {IOidcService, OidcSignIn, takeAuthorization} from "../../services/oidc.service";
+import {MAIL_TEMPLATE_2FA_ENABLED, MAIL_TEMPLATE_PASSWORD_RESET, MAIL_TEMPLATE_VERIFY_EMAIL} from "../../mail/templates";
+import {MailEntity} from "../../db/entities/mail.entity";
+import {audit} from "../../util/audit";
+import {
+    AUDIT_ACTION_CREATE,
+    AUDIT_ACTION_EMAIL_VERIFY,
+    AUDIT_ACTION_GA2FA_FAILED,
+    AUDIT_ACTION_GA2FA_REGISTER,
+    AUDIT_ACTION_GA2FA_VERIFY,
+    AUDIT_ACTION_IDENTITY_LINK,
+    AUDIT_ACTION_PASSWORD_FORGOT,
+    AUDIT_ACTION_PASSWORD_RESET,
+    AUDIT_ACTION_SIGNIN,
+    AUDIT_ACTION_SIGNIN_FAILED,
+    AUDIT_ACTION_SIGNOUT
+} from "../../db/entities/audit.entity";
 
 export class AuthController extends BaseController implements IAuthController {
     config:     Config
     repository: UserRepository
     emitter:    EventEmitter
+    tokens:     ITokenService
+    lockout:    ILockoutService
+    mail:       IMailService
+    recovery:   IRecoveryCodeService
+    webauthn:   IWebAuthnService
+    totp:       ITotpService
+    passwords:  IPasswordService
+    oidc:       IOidcService
 
     constructor() {
         super();
         this.repository = Service.getService<UserRepository>(USER_REPOSITORY_SERVICE);
         this.emitter = Service.getService<EventEmitter>(EMITTER_SERVICE);
         this.config = Service.getService<Config>(CONFIG_SERVICE);
+        this.tokens = Service.getService<ITokenService>(TOKEN_SERVICE);
+        this.lockout = Service.getService<ILockoutService>(LOCKOUT_SERVICE);
+        this.mail = Service.getService<IMailService>(MAIL_SERVICE);
+        this.recovery = Service.getService<IRecoveryCodeService>(RECOVERY_CODE_SERVICE);
+        this.webauthn = Service.getService<IWebAuthnService>(WEBAUTHN_SERVICE);
+        this.totp = Service.getService<ITotpService>(TOTP_SERVICE);
+        this.passwords = Service.getService<IPasswordService>(PASSWORD_SERVICE);
+        this.oidc = Service.getService<IOidcService>(OIDC_SERVICE);
 
         this.get      = this.get.bind(this);
         this.check    = this.check.bind(this);
@@ -54,6 +111,10 @@ export class AuthController extends BaseController implements IAuthController {
         this.forgot   = this.forgot.bind(this);
         this.reset    = this.reset.bind(this);
         this.logout   = this.logout.bind(this);
+        this.token    = this.token.bind(this);
+        this.revoke   = this.revoke.bind(this);
+        this.verify   = this.verify.bind(this);
+        this.resend   = this.resend.bind(this);
 
         this.emitter.on("auth", (message) => {
             this.compileLogger(message, "auth", "");
@@ -68,9 +129,53 @@ export class AuthController extends BaseController implements IAuthController {
         });
     }
 
+    /**
+     * issue email verification token of user and email link of it
+     * @param user
+     * @private
+     */
+    private sendVerification(user: UserEntity): Promise<MailEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const token = await this.createRandomToken();
+                user.emailVerifyToken = token;
+                user.emailVerifyExpires = Date.now() + this.config.verification.ttl * 1000;
+                await user.save();
+                resolve(await this.mail.send(user.email, MAIL_TEMPLATE_VERIFY_EMAIL, {
+                    username: user.username,
+                    link: `${this.config.mail.link}/api/v1/auth/verify/${token}`
+                }));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * reject attempt of locked account or ip, Retry-After tells when next attempt is allowed
+     * @param method
+     * @param e
+     * @param res
+     * @private
+     */
+    private lockedOut (method: string, e: LockoutError, res: express.Response): express.Response {
+        this.emitter.emit("auth", {
+            method: method,
+            response: e,
+            code: TOO_MANY_REQUESTS_CODE
+        });
+        res.setHeader("Retry-After", String(e.retryAfter));
+        return res.status(TOO_MANY_REQUESTS_CODE).json({message: e.message, retryAfter: e.retryAfter});
+    }
+
     private loginUser (req: express.Request, res: express.Response) {
         passport.authenticate("local", (e: Error, user: UserEntity, info: IVerifyOptions) => {
+            if (e instanceof LockoutError) {
+                audit(req, "user", AUDIT_ACTION_SIGNIN_FAILED, null, null, {email: req.body.email, locked: true});
+                return this.lockedOut("loginUser", e, res);
+            }
             if (e) {
+                audit(req, "user", AUDIT_ACTION_SIGNIN_FAILED, null, null, {email: req.body.email});
                 this.emitter.emit("auth", {
                     method: "loginUser",
                     response: new Error(`${req.body.email} ${e.message}`),
@@ -88,6 +193,10 @@ export class AuthController extends BaseController implements IAuthController {
                         });
                         return res.status(UNAUTHORIZED_REQUEST_CODE).json({message: e.message});
                     }
+                    // session is not signed in until user passes 2FA, see passSecondFactor
+                    delete req.session.secondFactor;
+                    describeSession(req);
+                    audit(req, "user", AUDIT_ACTION_SIGNIN, user.id);
                     const publicUser: PublicUser = {
                         id: user.id,
                         username: user.username,
@@ -98,7 +207,10 @@ export class AuthController extends BaseController implements IAuthController {
                         expired: null,
                         token: null,
                         roles: user.roles,
-                        accounts: user.accounts
+                        accounts: user.accounts,
+                        locked: user.isLocked(),
+                        lockedUntil: user.lockedUntil || null,
+                        emailVerified: !!user.emailVerified
                     };
                     this.emitter.emit("auth", {
                         method: "loginUser",
@@ -108,6 +220,7 @@ export class AuthController extends BaseController implements IAuthController {
                     return res.status(OK_REQUEST_CODE).json({user: publicUser});
                 });
             } else {
+                audit(req, "user", AUDIT_ACTION_SIGNIN_FAILED, null, null, {email: req.body.email});
                 this.emitter.emit("auth", {
                     method: "validate",
                     response: new Error("no user"),
@@ -135,71 +248,47 @@ export class AuthController extends BaseController implements IAuthController {
      */
     public check (req: express.Request, res: express.Response): express.Response {
         if (req.headers.authorization) {
-            const authorization = req.headers.authorization.includes("Bearer")
-                ? req.headers.authorization : `Bearer ${req.headers.authorization}`;
-            Service.fetchJSON(`${this.config.services.provider}/api/v1/validate`, {
-                method: "GET",
-                headers: {
-                    "Content-Type": "application/json",
-                    "Authorization": authorization
-                }
-            }).then((r) => {
-                if (typeof r === "string") {
+            this.tokens.validate(req.headers.authorization)
+                .then((validation: TokenValidation) => {
+                    if (!validation) {
+                        this.emitter.emit("auth", {
+                            method: "check",
+                            response: new Error(ERROR_TOKEN_INVALID),
+                            code: UNAUTHORIZED_REQUEST_CODE
+                        });
+                        return res.status(UNAUTHORIZED_REQUEST_CODE).json({ user: null });
+                    }
+                    const user = validation.user;
+                    const publicUser: PublicUser = {
+                        id: user.id,
+                        username: user.username,
+                        gravatar: user.gravatar,
+                        email: user.email,
+                        enabled: user.enabled,
+                        removed: !!user.removed,
+                        expired: validation.expiresIn,
+                        token: validation.accessToken,
+                        roles: user.roles,
+                        accounts: user.accounts,
+                        locked: user.isLocked(),
+                        lockedUntil: user.lockedUntil || null,
+                        emailVerified: !!user.emailVerified
+                    };
+                    this.emitter.emit("auth", {
+                        method: "check",
+                        response: { user: publicUser  },
+                        code: OK_REQUEST_CODE
+                    });
+                    return res.status(OK_REQUEST_CODE).json({ user: publicUser });
+                })
+                .catch(e => {
                     this.emitter.emit("auth", {
                         method: "check",
-                        response: new Error(r),
+                        response: e,
                         code: UNAUTHORIZED_REQUEST_CODE
                     });
-                    return res.status(UNAUTHORIZED_REQUEST_CODE).json({ message: r });
-                }
-                if (r["user_id"]) {
-                    this.repository.getByName(r["user_id"])
-                        .then((user: UserEntity) => {
-                            if (user) {
-                                const publicUser: PublicUser = {
-                                    id: user.id,
-                                    username: user.username,
-                                    gravatar: user.gravatar,
-                                    email: user.email,
-                                    enabled: user.enabled,
-                                    removed: !!user.removed,
-                                    expired: r.expires_in,
-                                    token: r.access_token,
-                                    roles: user.roles,
-                                    accounts: user.accounts
-                                };
-                                this.emitter.emit("auth", {
-                                    method: "check",
-                                    response: { user: publicUser  },
-                                    code: OK_REQUEST_CODE
-                                });
-                                return res.status(OK_REQUEST_CODE).json({ user: publicUser });
-                            } else {
-                                this.emitter.emit("auth", {
-                                    method: "check",
-                                    response: new Error("no user"),
-                                    code: UNAUTHORIZED_REQUEST_CODE
-                                });
-                                return res.status(UNAUTHORIZED_REQUEST_CODE).json({ user: null });
-                            }
-                        })
-                        .catch(e => {
-                            this.emitter.emit("auth", {
-                                method: "check",
-                                response: e,
-                                code: UNAUTHORIZED_REQUEST_CODE
-                            });
-                            return res.status(UNAUTHORIZED_REQUEST_CODE).json({ message: e.message });
-                        });
-                }
-            }).catch (e => {
-                this.emitter.emit("auth", {
-                    method: "check",
-                    response: e,
-                    code: UNAUTHORIZED_REQUEST_CODE
+                    return res.status(UNAUTHORIZED_REQUEST_CODE).json({ message: e.message });
                 });
-                return res.status(UNAUTHORIZED_REQUEST_CODE).json({ message: e.message });
-            });
         } else {
             this.emitter.emit("auth", {
                 method: "check",
@@ -210,6 +299,60 @@ export class AuthController extends BaseController implements IAuthController {
         }
     }
 
+    /**
+     * post /api/v1/auth/token
+     * exchange refresh token for new credentials, used refresh token is revoked
+     * @param req
+     * @param res
+     */
+    public token (req: express.Request, res: express.Response): void {
+        this.tokens.refresh(req.body.refresh_token)
+            .then((data: TokenData) => {
+                this.emitter.emit("auth", {
+                    method: "token",
+                    response: {token_type: data.token_type},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({ data: data });
+            })
+            .catch(e => {
+                const code = e.message === ERROR_TOKEN_NOT_SUPPORTED ? NOT_IMPLEMENTED_REQUEST_CODE : UNAUTHORIZED_REQUEST_CODE;
+                this.emitter.emit("auth", {
+                    method: "token",
+                    response: e,
+                    code: code
+                });
+                return res.status(code).json({ message: e.message });
+            });
+    }
+
+    /**
+     * post /api/v1/auth/revoke
+     * revoke refresh token and access tokens issued with it
+     * @param req
+     * @param res
+     */
+    public revoke (req: express.Request, res: express.Response): void {
+        this.tokens.revoke(req.body.token)
+            .then(() => {
+                this.emitter.emit("auth", {
+                    method: "revoke",
+                    response: {revoked: true},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({ revoked: true });
+            })
+            .catch(e => {
+                const code = e.message === ERROR_TOKEN_NOT_SUPPORTED ? NOT_IMPLEMENTED_REQUEST_CODE : BAD_REQUEST_CODE;
+                this.emitter.emit("auth", {
+                    method: "revoke",
+                    response: e,
+                    code: code
+                });
+                return res.status(code).json({ message: e.message });
+            });
+    }
+
     /**
      * implement AuthControllerInterface
      * @param req
@@ -226,21 +369,37 @@ export class AuthController extends BaseController implements IAuthController {
 
     /**
      * implements AuthControllerInterface
+     * second factor of user signed in to session is TOTP code or assertion of authenticator registered by user,
+     * TOTP secret is registered when user has neither of them
      * @param req
      * @param res
      */
     public ga2fa (req: express.Request, res: express.Response): express.Response {
-        if (req.body.id) {
+        const userId = signedInUser(req);
+        if (userId) {
         Service.getService<UserRepository>(USER_REPOSITORY_SERVICE)
-            .getById(req.body.id)
-            .then((user: UserEntity) => {
+            .getById(userId)
+            .then(async (user: UserEntity) => {
+                if (user && this.config.verification.required && !user.emailVerified) {
+                    this.emitter.emit("auth", {
+                        method: "ga2fa",
+                        response: new Error(ERROR_AUTH_EMAIL_NOT_VERIFIED),
+                        code: UNAUTHORIZED_REQUEST_CODE
+                    });
+                    return res.status(UNAUTHORIZED_REQUEST_CODE).send({ message: ERROR_AUTH_EMAIL_NOT_VERIFIED });
+                }
                 if (user) {
-                    if ((!user.secret || user.secret === "") && !req.body.code) {
-                        const qrInfo = GoogleAuthenticator.register(user.email);
-                        // req.session.qr = qrInfo;
-                        user.setSecret(qrInfo.secret);
+                    const authenticators = (await this.webauthn.list(user.id)).length;
+                    if ((!user.secret || user.secret === "") && !req.body.code && !req.body.credential && !authenticators) {
+                        const qrInfo: TotpRegistration = this.totp.register(user.email);
+                        user.secret = qrInfo.secret;
                         user.save()
-                            .then((u: UserEntity) => {
+                            .then(async (u: UserEntity) => {
+                                // codes are shown only once, user keeps them instead of authenticator
+                                const recoveryCodes = await this.recovery.generate(u.id);
+                                audit(req, "user", AUDIT_ACTION_GA2FA_REGISTER, u.id, null, null, u.id);
+                                this.mail.send(u.email, MAIL_TEMPLATE_2FA_ENABLED, {username: u.username, ip: req.ip})
+                                    .catch(e => logger.error(`ga2fa mail ${e.message}`));
                                 this.emitter.emit("auth", {
                                     method: "ga2fa",
                                     response: {user: u, qrInfo: qrInfo},
@@ -248,7 +407,8 @@ export class AuthController extends BaseController implements IAuthController {
                                 });
                                 return res.status(OK_REQUEST_CODE).send({
                                     qr: qrInfo.qr,
-                                    secret: qrInfo.secret
+                                    secret: qrInfo.secret,
+                                    recoveryCodes
                                 });
                             })
                             .catch((e: Error) => {
@@ -260,90 +420,58 @@ export class AuthController extends BaseController implements IAuthController {
                                 return res.status(UNAUTHORIZED_REQUEST_CODE).json({ message: e.message });
                             });
                     } else {
-                        if (req.body.code) {
-                            const verified = speakeasy.totp.verify({
-                                secret: user.secret,
-                                encoding: "base32",
-                                token: req.body.code
-                            });
-                            if (verified || (user.secret === this.config.testUser.secret && req.body.code === this.config.testUser.code)) {
-                                // get new credentials
-                                if (process.env["NODE_ENV"] === "test") {
-                                    return res.status(OK_REQUEST_CODE).send({
-                                        status: verified,
-                                        data: mockProviderData
-                                    });
-                                }
-                                Service.fetchJSON(`${this.config.services.provider}/api/v1/credentials?domain=${this.config.app.domain}&client_id=${user.email}`)
-                                    .then(oAuthCredentials => {
-                                        const auth = new oauth({
-                                            clientId: oAuthCredentials.client_id,
-                                            clientSecret: oAuthCredentials.client_secret,
-                                            accessTokenUri: `${this.config.services.provider}/api/v1/token`,
-                                            authorizationUri: `${this.config.services.provider}/api/v1/authorize`,
-                                            redirectUri: `//${this.config.app.domain}:${this.config.app.port}/api/v1/auth/callback`,
-                                            scopes: ["all"],
-                                            state: "xyz"
-                                        });
-                                        Service.fetchJSON(auth.code.getUri(), {method: "GET"})
-                                            .then(callback => {
-                                                auth.code.getToken(callback.originalUrl, {
-                                                    query: {
-                                                        "client_id": oAuthCredentials.client_id,
-                                                        "client_secret": oAuthCredentials.client_secret
-                                                    }})
-                                                    .then((r: Token) => {
-                                                        this.emitter.emit("auth", {
-                                                            method: "ga2fa",
-                                                            response: {status: verified, data: r.data},
-                                                            code: OK_REQUEST_CODE
-                                                        });
-                                                        return res.status(OK_REQUEST_CODE).send({
-                                                            status: verified,
-                                                            data: r.data
-                                                        });
-                                                    })
-                                                    .catch(e => {
-                                                        this.emitter.emit("auth", {
-                                                            method: "ga2fa",
-                                                            response: e,
-                                                            code: UNAUTHORIZED_REQUEST_CODE
-                                                        });
-                                                        return res.status(UNAUTHORIZED_REQUEST_CODE).json({ message: e.message });
-                                                    });
-                                            })
-                                            .catch(e => {
-                                                this.emitter.emit("auth", {
-                                                    method: "ga2fa",
-                                                    response: e,
-                                                    code: UNAUTHORIZED_REQUEST_CODE
-                                                });
-                                                return res.status(UNAUTHORIZED_REQUEST_CODE).json({ message: e.message });
-                                            });
-                                    })
-                                    .catch(e => {
+                        if (req.body.code || req.body.credential) {
+                            // challenge is answered once, also by failed attempt
+                            const challenge = takeChallenge(req, WEBAUTHN_PURPOSE_LOGIN, user.id);
+                            this.lockout.check(user.id, req.ip)
+                                .then(async () => {
+                                    const verified = req.body.credential
+                                        ? await this.webauthn.verify(user.id, req.body.credential, challenge)
+                                        : this.totp.verify(user.secret, req.body.code);
+                                    if (verified) {
+                                        audit(req, "user", AUDIT_ACTION_GA2FA_VERIFY, user.id, null,
+                                            req.body.credential ? {method: "webauthn"} : null, user.id);
+                                        await this.lockout.succeed(user.id);
+                                        passSecondFactor(req, user.id);
+                                        const data: TokenData = await this.tokens.issue(user);
                                         this.emitter.emit("auth", {
                                             method: "ga2fa",
-                                            response: e,
-                                            code: UNAUTHORIZED_REQUEST_CODE
+                                            response: {status: verified, token_type: data.token_type},
+                                            code: OK_REQUEST_CODE
                                         });
-                                        return res.status(UNAUTHORIZED_REQUEST_CODE).json({ message: e.message });
+                                        return res.status(OK_REQUEST_CODE).send({
+                                            status: verified,
+                                            data: data
+                                        });
+                                    }
+                                    audit(req, "user", AUDIT_ACTION_GA2FA_FAILED, user.id, null, null, user.id);
+                                    await this.lockout.fail(user.id, req.ip);
+                                    this.emitter.emit("auth", {
+                                        method: "ga2fa",
+                                        response: new Error(ERROR_GA2FA_INCORRECT_CODE),
+                                        code: UNAUTHORIZED_REQUEST_CODE
                                     });
-                            } else {
-                                this.emitter.emit("auth", {
-                                    method: "ga2fa",
-                                    response: new Error(ERROR_GA2FA_INCORRECT_CODE),
-                                    code: UNAUTHORIZED_REQUEST_CODE
+                                    return res.status(UNAUTHORIZED_REQUEST_CODE).send({ message: ERROR_GA2FA_INCORRECT_CODE });
+                                })
+                                .catch(e => {
+                                    if (e instanceof LockoutError) {
+                                        return this.lockedOut("ga2fa", e, res);
+                                    }
+                                    this.emitter.emit("auth", {
+                                        method: "ga2fa",
+                                        response: e,
+                                        code: UNAUTHORIZED_REQUEST_CODE
+                                    });
+                                    return res.status(UNAUTHORIZED_REQUEST_CODE).json({ message: e.message });
                                 });
-                                return res.status(UNAUTHORIZED_REQUEST_CODE).send({ message: ERROR_GA2FA_INCORRECT_CODE });
-                            }
                         } else {
                             this.emitter.emit("auth", {
                                 method: "ga2fa",
                                 response: new Error(ERROR_GA2FA_NO_CODE),
                                 code: OK_REQUEST_CODE
                             });
-                            return res.status(OK_REQUEST_CODE).send({message: ERROR_GA2FA_NO_CODE});
+                            // client offers authenticator when user registered one
+                            return res.status(OK_REQUEST_CODE).send({message: ERROR_GA2FA_NO_CODE, webauthn: authenticators > 0});
                         }
                     }
                 } else {
@@ -366,10 +494,10 @@ export class AuthController extends BaseController implements IAuthController {
         } else {
             this.emitter.emit("auth", {
                 method: "ga2fa",
-                response: new Error(ERROR_GA2FA_INCORRECT_CODE),
+                response: new Error(ERROR_GA2FA_NO_SESSION),
                 code: UNAUTHORIZED_REQUEST_CODE
             });
-            return res.status(UNAUTHORIZED_REQUEST_CODE).send({ message: ERROR_GA2FA_INCORRECT_CODE });
+            return res.status(UNAUTHORIZED_REQUEST_CODE).send({ message: ERROR_GA2FA_NO_SESSION });
         }
     }
 
@@ -399,72 +527,27 @@ export class AuthController extends BaseController implements IAuthController {
         const repository = Service.getService<UserRepository>(USER_REPOSITORY_SERVICE);
         (async () => {
             try {
-                let sent = false;
+                // removed users are brought back only by guarded restore of user route
                 if (credentials.username !== "") {
                     const userByUsername = await repository.getByUsername(credentials.username);
                     if (userByUsername) {
-                        if (userByUsername.removed !== null) {
-                            userByUsername.removed = undefined;
-                            userByUsername.enabled = true;
-                            const user = await userByUsername.save();
-                            const publicUser: PublicUser = {
-                                id: user.id,
-                                username: user.username,
-                                gravatar: user.gravatar,
-                                email: user.email,
-                                enabled: user.enabled,
-                                removed: !!user.removed,
-                                expired: null,
-                                token: null,
-                                roles: user.roles,
-                                accounts: user.accounts
-                            };
-                            this.emitter.emit("auth", {
-                                method: "signup",
-                                response: {user: publicUser},
-                                code: OK_REQUEST_CODE
-                            });
-                            sent = true;
-                            return res.status(OK_REQUEST_CODE).json({user: publicUser});
-                        } else {
-                            sent = true;
-                            throw new Error(userByUsername.username + " " + ERROR_AUTH_USERNAME);
-                        }
+                        throw new Error(userByUsername.removed ? ERROR_AUTH_USER_REMOVED : userByUsername.username + " " + ERROR_AUTH_USERNAME);
                     }
                 }
-                if (credentials.email !== "" && sent === false) {
+                if (credentials.email !== "") {
                     const userByEmail = await repository.getByName(credentials.email);
                     if (userByEmail) {
-                        if (userByEmail.removed !== null) {
-                            userByEmail.removed = undefined;
-                            userByEmail.enabled = true;
-                            const user = await userByEmail.save();
-                            const publicUser: PublicUser = {
-                                id: user.id,
-                                username: user.username,
-                                gravatar: user.gravatar,
-                                email: user.email,
-                                enabled: user.enabled,
-                                removed: !!user.removed,
-                                expired: null,
-                                token: null,
-                                roles: user.roles,
-                                accounts: user.accounts
-                            };
-                            this.emitter.emit("auth", {
-                                method: "signup",
-                                response: {user: publicUser},
-                                code: OK_REQUEST_CODE
-                            });
-                            sent = true;
-                            return res.status(OK_REQUEST_CODE).json({user: publicUser});
-                        } else {
-                            sent = true;
-                            throw new Error(userByEmail.email + " " + ERROR_AUTH_EMAIL);
-                        }
+                        throw new Error(userByEmail.removed ? ERROR_AUTH_USER_REMOVED : userByEmail.email + " " + ERROR_AUTH_EMAIL);
                     }
                 }
+                const violations = await this.passwords.check(credentials.password, {username: credentials.username, email: credentials.email});
+                if (violations.length) {
+                    throw new PasswordPolicyError(violations);
+                }
                 const user = await repository.create(new UserEntity(null, credentials.username, credentials.email, credentials.password, true));
+                audit(req, "user", AUDIT_ACTION_CREATE, user.id, null, user);
+                this.passwords.remember(user.id, user.password).catch(e => logger.error(`signup password history ${e.message}`));
+                this.sendVerification(user).catch(e => logger.error(`signup verification ${e.message}`));
                 const publicUser: PublicUser = {
                     id: user.id,
                     username: user.username,
@@ -475,7 +558,10 @@ export class AuthController extends BaseController implements IAuthController {
                     expired: null,
                     token: null,
                     roles: user.roles,
-                    accounts: user.accounts
+                    accounts: user.accounts,
+                    locked: user.isLocked(),
+                    lockedUntil: user.lockedUntil || null,
+                    emailVerified: !!user.emailVerified
                 };
                 this.emitter.emit("auth", {
                     method: "signup",
@@ -484,28 +570,91 @@ export class AuthController extends BaseController implements IAuthController {
                 });
                 return res.status(OK_REQUEST_CODE).json({ user: publicUser });
             } catch (e) {
+                const code = e.message === ERROR_AUTH_USER_REMOVED ? CONFLICT_REQUEST_CODE : UNAUTHORIZED_REQUEST_CODE;
                 this.emitter.emit("auth", {
                     method: "signup",
                     response: e,
-                    code: UNAUTHORIZED_REQUEST_CODE
+                    code
                 });
-                return res.status(UNAUTHORIZED_REQUEST_CODE).json({ message: e.message });
+                return res.status(code).json({ message: e.message, violations: e.violations });
             }
         })();
     }
 
     /**
      * implement AuthControllerInterface
+     * get /api/v1/auth/callback
+     * identity provider redirects back with code of sign in started by get /api/v1/auth/oidc/:provider,
+     * user of identity is signed in and passes 2FA next as after sign in by password
      * @param req
      * @param res
      */
     public callback(req: express.Request, res: express.Response): express.Response {
-        this.emitter.emit("auth", {
-            method: "callback",
-            response: JSON.stringify({code: req.query.code, state: req.query.state, originalUrl: req.originalUrl}),
-            code: OK_REQUEST_CODE
-        });
-        return res.status(OK_REQUEST_CODE).json({code: req.query.code, state: req.query.state, originalUrl: req.originalUrl});
+        const authorization = takeAuthorization(req, String(req.query.state || ""));
+        if (req.query.error || !authorization || !req.query.code) {
+            const message = req.query.error ? String(req.query.error_description || req.query.error) : ERROR_OIDC_INVALID_STATE;
+            this.emitter.emit("auth", {
+                method: "callback",
+                response: new Error(message),
+                code: UNAUTHORIZED_REQUEST_CODE
+            });
+            return res.status(UNAUTHORIZED_REQUEST_CODE).json({message});
+        }
+        this.oidc.exchange(authorization, String(req.query.code))
+            .then(claims => this.oidc.signIn(authorization.provider, claims))
+            .then((signIn: OidcSignIn) => {
+                const user = signIn.user;
+                if (signIn.created) {
+                    audit(req, "user", AUDIT_ACTION_CREATE, user.id, null, user, user.id);
+                }
+                if (signIn.linked) {
+                    audit(req, "user", AUDIT_ACTION_IDENTITY_LINK, user.id, null, {provider: authorization.provider}, user.id);
+                }
+                req.logIn(user, (e) => {
+                    if (e) {
+                        this.emitter.emit("auth", {
+                            method: "callback",
+                            response: e,
+                            code: UNAUTHORIZED_REQUEST_CODE
+                        });
+                        return res.status(UNAUTHORIZED_REQUEST_CODE).json({message: e.message});
+                    }
+                    // session is not signed in until user passes 2FA, see passSecondFactor
+                    delete req.session.secondFactor;
+                    describeSession(req);
+                    audit(req, "user", AUDIT_ACTION_SIGNIN, user.id, null, {provider: authorization.provider});
+                    const publicUser: PublicUser = {
+                        id: user.id,
+                        username: user.username,
+                        gravatar: user.gravatar,
+                        email: user.email,
+                        enabled: user.enabled,
+                        removed: !!user.removed,
+                        expired: null,
+                        token: null,
+                        roles: user.roles,
+                        accounts: user.accounts,
+                        locked: user.isLocked(),
+                        lockedUntil: user.lockedUntil || null,
+                        emailVerified: !!user.emailVerified
+                    };
+                    this.emitter.emit("auth", {
+                        method: "callback",
+                        response: {user: publicUser, provider: authorization.provider},
+                        code: OK_REQUEST_CODE
+                    });
+                    return res.status(OK_REQUEST_CODE).json({user: publicUser, provider: authorization.provider, linked: signIn.linked});
+                });
+            })
+            .catch(e => {
+                audit(req, "user", AUDIT_ACTION_SIGNIN_FAILED, null, null, {provider: authorization.provider});
+                this.emitter.emit("auth", {
+                    method: "callback",
+                    response: e,
+                    code: UNAUTHORIZED_REQUEST_CODE
+                });
+                return res.status(UNAUTHORIZED_REQUEST_CODE).json({message: e.message});
+            });
     }
 
     /**
@@ -521,6 +670,7 @@ export class AuthController extends BaseController implements IAuthController {
                     if (!user) {
                         throw new Error(ERROR_AUTH_USERNAME);
                     }
+                    audit(req, "user", AUDIT_ACTION_SIGNOUT, user.id, null, null, user.id);
                     const publicUser: PublicUser = {
                         id: user.id,
                         username: user.username,
@@ -531,7 +681,10 @@ export class AuthController extends BaseController implements IAuthController {
                         expired: null,
                         token: null,
                         roles: user.roles,
-                        accounts: user.accounts
+                        accounts: user.accounts,
+                        locked: user.isLocked(),
+                        lockedUntil: user.lockedUntil || null,
+                        emailVerified: !!user.emailVerified
                     };
                     this.emitter.emit("auth", {
                         method: "logout",
@@ -588,25 +741,18 @@ export class AuthController extends BaseController implements IAuthController {
                 user.passwordResetExpires = Date.now() + 3600000;
                 // 1 hour
                 user.save()
-                    .then((u: UserEntity) => {
-                        const publicUser: PublicUser = {
-                            id: u.id,
+                    .then(async (u: UserEntity) => {
+                        audit(req, "user", AUDIT_ACTION_PASSWORD_FORGOT, u.id, null, null, u.id);
+                        await this.mail.send(u.email, MAIL_TEMPLATE_PASSWORD_RESET, {
                             username: u.username,
-                            gravatar: u.gravatar,
-                            email: u.email,
-                            enabled: u.enabled,
-                            removed: !!u.removed,
-                            expired: null,
-                            token: null,
-                            roles: user.roles,
-                            accounts: user.accounts
-                        };
+                            link: `${this.config.mail.link}/auth/reset-password/${token}`
+                        });
                         this.emitter.emit("auth", {
-                            method: "logout",
-                            response: { user: publicUser, token: token },
+                            method: "forgot",
+                            response: {sent: true},
                             code: OK_REQUEST_CODE
                         });
-                        return res.status(OK_REQUEST_CODE).json({ user: publicUser, token: token });
+                        return res.status(OK_REQUEST_CODE).json({sent: true});
                     }).catch((e: Error) => {
                     this.emitter.emit("auth", {
                         method: "forgot",
@@ -626,6 +772,73 @@ export class AuthController extends BaseController implements IAuthController {
         });
     }
 
+    /**
+     * get /api/v1/auth/verify/:token
+     * verify email by token of link sent at sign up
+     * @param req
+     * @param res
+     */
+    public verify (req: express.Request, res: express.Response): void {
+        this.repository.getByEmailVerifyToken(req.params.token)
+            .then(async (user: UserEntity) => {
+                if (!user) {
+                    throw new Error(ERROR_AUTH_INVALID_VERIFY_TOKEN);
+                }
+                user.emailVerified = true;
+                user.emailVerifyToken = null;
+                user.emailVerifyExpires = null;
+                const u = await user.save();
+                audit(req, "user", AUDIT_ACTION_EMAIL_VERIFY, u.id, null, null, u.id);
+                this.emitter.emit("auth", {
+                    method: "verify",
+                    response: {verified: true},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({verified: true});
+            })
+            .catch(e => {
+                this.emitter.emit("auth", {
+                    method: "verify",
+                    response: e,
+                    code: UNAUTHORIZED_REQUEST_CODE
+                });
+                return res.status(UNAUTHORIZED_REQUEST_CODE).json({message: e.message});
+            });
+    }
+
+    /**
+     * post /api/v1/auth/verify/resend
+     * email new verification link, previous link is invalidated
+     * @param req
+     * @param res
+     */
+    public resend (req: express.Request, res: express.Response): void {
+        this.repository.getByName(req.body.email)
+            .then(async (user: UserEntity) => {
+                if (!user) {
+                    throw new Error(ERROR_AUTH_INVALID_EMAIL);
+                }
+                if (user.emailVerified) {
+                    throw new Error(ERROR_AUTH_EMAIL_VERIFIED);
+                }
+                await this.sendVerification(user);
+                this.emitter.emit("auth", {
+                    method: "resend",
+                    response: {sent: true},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({sent: true});
+            })
+            .catch(e => {
+                this.emitter.emit("auth", {
+                    method: "resend",
+                    response: e,
+                    code: UNAUTHORIZED_REQUEST_CODE
+                });
+                return res.status(UNAUTHORIZED_REQUEST_CODE).json({message: e.message});
+            });
+    }
+
     /**
      * implement AuthControllerInterface
      * @param req
@@ -651,12 +864,23 @@ export class AuthController extends BaseController implements IAuthController {
                 return res.status(UNAUTHORIZED_REQUEST_CODE).json({ message: ERROR_AUTH_INVALID_RESET_TOKEN });
             }
             if (user) {
-                Service.hash(req.body.password).then(password => {
+                this.passwords.check(req.body.password, user).then(violations => {
+                    if (violations.length) {
+                        throw new PasswordPolicyError(violations);
+                    }
+                    return Service.hash(req.body.password);
+                }).then(password => {
                     user.password = password;
                     user.passwordResetToken = undefined;
                     user.passwordResetExpires = undefined;
                     user.save()
-                    .then((u: UserEntity) => {
+                    .then(async (u: UserEntity) => {
+                        audit(req, "user", AUDIT_ACTION_PASSWORD_RESET, u.id, null, null, u.id);
+                        await this.passwords.remember(u.id, u.password)
+                            .catch(e => logger.error(`auth.reset password history of ${u.username} ${e.message}`));
+                        // sessions and tokens signed in with old password are revoked, the caller signs in again below
+                        await Service.getService<ISessionService>(SESSION_SERVICE).revokeUser(u.id)
+                            .catch(e => logger.error(`auth.reset revoke sessions of ${u.username} ${e.message}`));
                         req.body.email = u.email ? u.email : u.username;
                         // TODO add password email instructions
                         this.loginUser(req, res);
@@ -675,7 +899,7 @@ export class AuthController extends BaseController implements IAuthController {
                         response: e,
                         code: UNAUTHORIZED_REQUEST_CODE
                     });
-                    return res.status(UNAUTHORIZED_REQUEST_CODE).json({ message: e.message });
+                    return res.status(UNAUTHORIZED_REQUEST_CODE).json({ message: e.message, violations: e.violations });
                 });
             }
         });
@@ -6,6 +6,56 @@ export const ERROR_AUTH_EMPTY_PASSWORD_CREDENTIALS = "empty password";
 export const ERROR_AUTH_PASSWORD_NOT_MATCH_CREDENTIALS = "password is not match";
 export const ERROR_AUTH_USERNAME = "user with this username already exist";
 export const ERROR_AUTH_EMAIL = "user with this email already exist";
+export const ERROR_AUTH_USER_REMOVED = "user with this username or email is removed, it can be restored by admin";
 export const ERROR_AUTH_EMPTY_EMAIL = "email must be provided";
 export const ERROR_AUTH_INVALID_EMAIL = "account with that email address does not exist";
 export const ERROR_AUTH_INVALID_RESET_TOKEN = "invalid reset token";
+export const ERROR_AUTH_USER_DISABLED = "user is disabled";
+export const ERROR_FORBIDDEN = "access denied";
+export const ERROR_TOKEN_INVALID = "invalid token";
+export const ERROR_TOKEN_EXPIRED = "token is expired";
+export const ERROR_TOKEN_REVOKED = "token is revoked";
+export const ERROR_TOKEN_NOT_SUPPORTED = "token provider does not support this operation";
+export const ERROR_SESSION_NOT_FOUND = "session not found";
+export const ERROR_AUTH_LOCKED = "too many failed attempts, try again later";
+export const ERROR_AUTH_INVALID_VERIFY_TOKEN = "invalid email verification token";
+export const ERROR_AUTH_EMAIL_NOT_VERIFIED = "email is not verified";
+export const ERROR_AUTH_EMAIL_VERIFIED = "email is already verified";
+export const ERROR_RECOVERY_CODE_INCORRECT = "recovery code is incorrect or used";
+export const ERROR_GA2FA_NOT_ENABLED = "2FA is not enabled";
+export const ERROR_GA2FA_NO_SESSION = "sign in before 2FA";
+export const ERROR_WEBAUTHN_NOT_REGISTERED = "no authenticator is registered";
+export const ERROR_WEBAUTHN_NOT_FOUND = "authenticator not found";
+export const ERROR_WEBAUTHN_LAST_FACTOR = "last second factor can not be removed";
+export const ERROR_PASSWORD_TOO_SHORT = "password is too short";
+export const ERROR_PASSWORD_CHARACTER_CLASSES = "password must mix lower and upper case letters, digits or symbols";
+export const ERROR_PASSWORD_PERSONAL = "password must not contain username or email";
+export const ERROR_PASSWORD_REUSED = "password was used recently";
+export const ERROR_PASSWORD_BREACHED = "password is found in breached passwords";
+export const ERROR_OIDC_UNKNOWN_PROVIDER = "unknown identity provider";
+export const ERROR_OIDC_INVALID_STATE = "sign in with identity provider expired or was not started";
+export const ERROR_OIDC_EMAIL_NOT_VERIFIED = "identity provider did not verify email";
+export const ERROR_OIDC_NO_USER = "no user is linked to this identity";
+export const ERROR_OIDC_IDENTITY_NOT_FOUND = "identity not found";
+export const ERROR_OAUTH_CLIENT_NOT_FOUND = "oauth client not found";
+export const ERROR_OAUTH_CLIENT_AUTHENTICATION = "client authentication failed";
+export const ERROR_OAUTH_REDIRECT_URI = "redirect uri is not registered for client";
+export const ERROR_OAUTH_GRANT_NOT_ALLOWED = "grant type is not allowed for client";
+export const ERROR_OAUTH_INVALID_CODE = "authorization code is invalid, expired or used";
+export const ERROR_OAUTH_INVALID_VERIFIER = "code verifier does not match code challenge";
+export const ERROR_OAUTH_CHALLENGE_REQUIRED = "S256 code challenge is required";
+export const ERROR_OAUTH_PUBLIC_CLIENT_GRANT = "public client can not use client credentials";
+export const ERROR_OAUTH_UNKNOWN_SCOPE = "scope is not configured";
+export const ERROR_OAUTH_REDIRECT_URI_REQUIRED = "redirect uri is required for authorization code grant";
+export const ERROR_OAUTH_CLIENT_FORBIDDEN = "client is managed only by its owner or superadmin";
+export const ERROR_OAUTH_SCOPE_NOT_GRANTABLE = "scope grants roles the caller does not hold";
+export const ERROR_OAUTH_CONSENT_DENIED = "user denied authorization of client";
+export const ERROR_API_KEY_NOT_FOUND = "API key not found";
+export const ERROR_API_KEY_LIMIT = "too many API keys";
+export const ERROR_API_KEY_EXPIRES = "expiry of API key must be in the future";
+export const ERROR_IMPERSONATION_FORBIDDEN = "not allowed while impersonating user";
+export const ERROR_IMPERSONATION_SESSION = "impersonation requires signed in session";
+export const ERROR_IMPERSONATION_USER = "user can not be impersonated";
+export const ERROR_IMPERSONATION_NOT_ACTIVE = "no user is impersonated";
+export const ERROR_ROLE_NOT_GRANTABLE = "roles the caller does not hold can not be granted or revoked";
+export const ERROR_USER_NOT_MANAGEABLE = "user holding roles the caller does not hold can not be changed";
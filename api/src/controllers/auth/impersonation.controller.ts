@@ -0,0 +1,182 @@
+"use strict";
+import express from "express";
+import EventEmitter from "events";
+import {BAD_REQUEST_CODE, BaseController, OK_REQUEST_CODE} from "../base.controller";
+import {Service} from "../../services/app.service";
+import {CONFIG_SERVICE, EMITTER_SERVICE, USER_REPOSITORY_SERVICE} from "../../services/app.constants";
+import {
+    Impersonation,
+    impersonation,
+    PublicImpersonation,
+    startImpersonation,
+    stopImpersonation
+} from "../../services/session.service";
+import {IUserServiceRepository} from "../../db/interfaces/user.interface";
+import {PublicUser, UserEntity} from "../../db/entities/users.entity";
+import {AUDIT_ACTION_IMPERSONATE, AUDIT_ACTION_IMPERSONATE_STOP} from "../../db/entities/audit.entity";
+import {SUPERADMIN_ROLE_ID} from "../../db/entities/roles.entity";
+import {Config} from "../../util/secrets";
+import {audit} from "../../util/audit";
+import {grantScopes, scopedUser, scopeRoles} from "../../util/oauth";
+import {
+    ERROR_IMPERSONATION_NOT_ACTIVE,
+    ERROR_IMPERSONATION_SESSION,
+    ERROR_IMPERSONATION_USER
+} from "./auth.error.codes";
+
+/**
+ * Superadmin acts as other user in own session to see dashboard as the user does,
+ * credentials of impersonated user can not be changed meanwhile, see notImpersonating
+ */
+export class ImpersonationController extends BaseController {
+    config:     Config
+    repository: IUserServiceRepository
+    emitter:    EventEmitter
+    constructor() {
+        super();
+        this.config     = Service.getService<Config>(CONFIG_SERVICE);
+        this.repository = Service.getService<IUserServiceRepository>(USER_REPOSITORY_SERVICE);
+        this.emitter    = Service.getService<EventEmitter>(EMITTER_SERVICE);
+        this.get   = this.get.bind(this);
+        this.start = this.start.bind(this);
+        this.stop  = this.stop.bind(this);
+
+        this.emitter.on("impersonation", (message) => {
+            this.compileLogger(message, "impersonation", "");
+        });
+    }
+
+    private static describe(active: Impersonation): PublicImpersonation {
+        return active ? {
+            actorId: active.actorId,
+            userId:  active.userId,
+            roles:   active.roles,
+            expires: new Date(active.expires)
+        } : null;
+    }
+
+    private static publicUser(user: UserEntity): PublicUser {
+        return {
+            id: user.id,
+            username: user.username,
+            gravatar: user.gravatar,
+            email: user.email,
+            enabled: user.enabled,
+            removed: !!user.removed,
+            expired: null,
+            token: null,
+            roles: user.roles,
+            accounts: user.accounts,
+            locked: user.isLocked(),
+            lockedUntil: user.lockedUntil || null,
+            emailVerified: !!user.emailVerified
+        };
+    }
+
+    /**
+     * get /api/v1/auth/impersonate
+     * impersonation of session, null when superadmin acts as self
+     * @param req
+     * @param res
+     */
+    public get (req: express.Request, res: express.Response): express.Response {
+        const active = ImpersonationController.describe(impersonation(req));
+        this.emitter.emit("impersonation", {
+            method: "get",
+            response: {impersonation: active},
+            code: OK_REQUEST_CODE
+        });
+        return res.status(OK_REQUEST_CODE).json({impersonation: active});
+    }
+
+    /**
+     * post /api/v1/auth/impersonate/:userId
+     * superadmin signed in to session acts as user other than superadmin for config.impersonation.ttl seconds,
+     * roles of user are narrowed to scopes when they are given
+     * @param req
+     * @param res
+     */
+    public start (req: express.Request, res: express.Response): void {
+        const actor = req.user as UserEntity;
+        // bearer tokens and API keys have no session to return to
+        if (!req.session || !req.session.passport || req.session.passport.user !== actor.id) {
+            this.emitter.emit("impersonation", {
+                method: "start",
+                response: new Error(ERROR_IMPERSONATION_SESSION),
+                code: BAD_REQUEST_CODE
+            });
+            res.status(BAD_REQUEST_CODE).json({message: ERROR_IMPERSONATION_SESSION});
+            return;
+        }
+        this.repository.getById(Number(req.params.userId))
+            .then((user: UserEntity) => {
+                const userRoles = user ? (user.roles || []).map(roleId => Number(roleId)) : [];
+                // superadmin acting as other superadmin would be recorded as that user
+                if (!user || user.id === actor.id || user.removed || !user.enabled || userRoles.indexOf(SUPERADMIN_ROLE_ID) !== -1) {
+                    throw new Error(ERROR_IMPERSONATION_USER);
+                }
+                const mapping = this.config.oauth.scopes;
+                const roles = req.body.scopes
+                    ? scopeRoles(grantScopes(req.body.scopes, Object.keys(mapping), userRoles, mapping), userRoles, mapping)
+                    : userRoles;
+                const active = startImpersonation(req, actor.id, user.id, roles);
+                audit(req, "user", AUDIT_ACTION_IMPERSONATE, user.id, null, {roles, expires: new Date(active.expires)});
+                this.emitter.emit("impersonation", {
+                    method: "start",
+                    response: {actorId: actor.id, userId: user.id},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({
+                    user: ImpersonationController.publicUser(scopedUser(user, roles)),
+                    impersonation: ImpersonationController.describe(active)
+                });
+            })
+            .catch(e => {
+                this.emitter.emit("impersonation", {
+                    method: "start",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+
+    /**
+     * post /api/v1/auth/impersonate/stop
+     * superadmin acts as self again
+     * @param req
+     * @param res
+     */
+    public stop (req: express.Request, res: express.Response): void {
+        const active = impersonation(req);
+        if (!active) {
+            this.emitter.emit("impersonation", {
+                method: "stop",
+                response: new Error(ERROR_IMPERSONATION_NOT_ACTIVE),
+                code: BAD_REQUEST_CODE
+            });
+            res.status(BAD_REQUEST_CODE).json({message: ERROR_IMPERSONATION_NOT_ACTIVE});
+            return;
+        }
+        // entry is written while impersonation is still active so it names both users
+        audit(req, "user", AUDIT_ACTION_IMPERSONATE_STOP, active.userId);
+        stopImpersonation(req);
+        this.repository.getById(active.actorId)
+            .then((actor: UserEntity) => {
+                this.emitter.emit("impersonation", {
+                    method: "stop",
+                    response: {actorId: active.actorId, userId: active.userId},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({user: ImpersonationController.publicUser(actor)});
+            })
+            .catch(e => {
+                this.emitter.emit("impersonation", {
+                    method: "stop",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+}
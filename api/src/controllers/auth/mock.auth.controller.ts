@@ -1,7 +0,0 @@
-export const mockProviderData = {
-    access_token: "TCA4GO3ENTOCMGKIUXJG8Q",
-    expires_in: 7200,
-    refresh_token: "3N_LWVCQW6ACL54LVGISLA",
-    scope: "all",
-    token_type: "Bearer"
-};
\ No newline at end of file
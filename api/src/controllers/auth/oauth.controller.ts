@@ -0,0 +1,221 @@
+"use strict";
+import express from "express";
+import EventEmitter from "events";
+import {
+    BAD_REQUEST_CODE,
+    BaseController,
+    OK_REQUEST_CODE,
+    UNAUTHORIZED_REQUEST_CODE
+} from "../base.controller";
+import {Service} from "../../services/app.service";
+import {EMITTER_SERVICE, OAUTH_SERVICE} from "../../services/app.constants";
+import {
+    IOAuthService,
+    OAuthAuthorizationRequest,
+    OAuthIntrospection,
+    OAuthTokenData,
+    OAuthTokenRequest
+} from "../../services/oauth.service";
+import {
+    basicCredentials,
+    ClientCredentials,
+    OAUTH_ERROR_ACCESS_DENIED,
+    OAUTH_ERROR_INVALID_CLIENT,
+    OAuthError
+} from "../../util/oauth";
+import {UserEntity} from "../../db/entities/users.entity";
+import {OAuthClientEntity} from "../../db/entities/oauth.client.entity";
+import {ERROR_OAUTH_CONSENT_DENIED} from "./auth.error.codes";
+
+// credentials of Basic Authorization header, otherwise client_id and client_secret of body
+const clientCredentials = (req: express.Request): ClientCredentials => {
+    return basicCredentials(req.headers.authorization) || {
+        clientId:     req.body.client_id,
+        clientSecret: req.body.client_secret
+    };
+};
+
+/**
+ * Endpoints of the app as OAuth authorization server, errors of token and introspection endpoints
+ * have error and error_description fields of RFC 6749 5.2
+ */
+export class OAuthController extends BaseController {
+    oauth:   IOAuthService
+    emitter: EventEmitter
+    constructor() {
+        super();
+        this.oauth   = Service.getService<IOAuthService>(OAUTH_SERVICE);
+        this.emitter = Service.getService<EventEmitter>(EMITTER_SERVICE);
+        this.get        = this.get.bind(this);
+        this.authorize  = this.authorize.bind(this);
+        this.consent    = this.consent.bind(this);
+        this.token      = this.token.bind(this);
+        this.introspect = this.introspect.bind(this);
+
+        this.emitter.on("oauth", (message) => {
+            this.compileLogger(message, "oauth", "");
+        });
+    }
+
+    // invalid client is 401 as client failed authentication, other errors are 400
+    private reject(res: express.Response, method: string, e: Error): express.Response {
+        const error = e instanceof OAuthError ? e.error : null;
+        const code = error === OAUTH_ERROR_INVALID_CLIENT ? UNAUTHORIZED_REQUEST_CODE : BAD_REQUEST_CODE;
+        this.emitter.emit("oauth", {
+            method,
+            response: e,
+            code
+        });
+        return error
+            ? res.status(code).json({error, error_description: e.message})
+            : res.status(code).json({message: e.message});
+    }
+
+    /**
+     * get /api/v1/oauth
+     * endpoints, grants and scopes of authorization server for clients to configure themselves
+     * @param req
+     * @param res
+     */
+    public get (req: express.Request, res: express.Response): express.Response {
+        try {
+            const metadata = this.oauth.metadata();
+            this.emitter.emit("oauth", {
+                method: "get",
+                response: {issuer: metadata.issuer},
+                code: OK_REQUEST_CODE
+            });
+            return res.status(OK_REQUEST_CODE).json(metadata);
+        } catch (e) {
+            return this.reject(res, "get", e);
+        }
+    }
+
+    // sends user back to redirect uri of client with query and state of authorization request
+    private static redirect(res: express.Response, redirectUri: string, state: string, query: {[name: string]: string}): void {
+        const separator = redirectUri.indexOf("?") === -1 ? "?" : "&";
+        if (state) {
+            query.state = state;
+        }
+        return res.redirect(`${redirectUri}${separator}${new URLSearchParams(query).toString()}`);
+    }
+
+    /**
+     * get /api/v1/oauth/authorize
+     * client and scopes user signed in to session is asked to consent to,
+     * code is issued only by post /api/v1/oauth/authorize with consent of user
+     * @param req
+     * @param res
+     */
+    public authorize (req: express.Request, res: express.Response): void {
+        const user = req.user as UserEntity;
+        const request = req.query as unknown as OAuthAuthorizationRequest;
+        this.oauth.client(request.client_id, request.redirect_uri)
+            .then(({client, redirectUri}: {client: OAuthClientEntity, redirectUri: string}) => {
+                return this.oauth.consent(client, user, request)
+                    .then((scopes: string[]) => {
+                        this.emitter.emit("oauth", {
+                            method: "authorize",
+                            response: {client: client.clientId, user: user.id, scopes},
+                            code: OK_REQUEST_CODE
+                        });
+                        return res.status(OK_REQUEST_CODE).json({
+                            client: {clientId: client.clientId, name: client.name},
+                            redirectUri,
+                            scopes
+                        });
+                    })
+                    .catch(e => {
+                        if (!(e instanceof OAuthError)) {
+                            throw e;
+                        }
+                        // client learns why authorization failed, see RFC 6749 4.1.2.1
+                        this.emitter.emit("oauth", {
+                            method: "authorize",
+                            response: e,
+                            code: BAD_REQUEST_CODE
+                        });
+                        return OAuthController.redirect(res, redirectUri, request.state, {error: e.error, error_description: e.message});
+                    });
+            })
+            .catch(e => this.reject(res, "authorize", e));
+    }
+
+    /**
+     * post /api/v1/oauth/authorize
+     * parameters of authorization request with consent of user signed in to session,
+     * code is sent to redirect uri of client once user consented, access_denied error otherwise
+     * @param req
+     * @param res
+     */
+    public consent (req: express.Request, res: express.Response): void {
+        const user = req.user as UserEntity;
+        const request = req.body as OAuthAuthorizationRequest;
+        this.oauth.client(request.client_id, request.redirect_uri)
+            .then(({client, redirectUri}: {client: OAuthClientEntity, redirectUri: string}) => {
+                const authorization = req.body.consent === true
+                    ? this.oauth.authorize(client, user, request)
+                    : Promise.reject(new OAuthError(OAUTH_ERROR_ACCESS_DENIED, ERROR_OAUTH_CONSENT_DENIED));
+                return authorization
+                    .then((code: string) => {
+                        this.emitter.emit("oauth", {
+                            method: "consent",
+                            response: {client: client.clientId, user: user.id},
+                            code: 302
+                        });
+                        return OAuthController.redirect(res, redirectUri, request.state, {code});
+                    })
+                    .catch(e => {
+                        if (!(e instanceof OAuthError)) {
+                            throw e;
+                        }
+                        this.emitter.emit("oauth", {
+                            method: "consent",
+                            response: e,
+                            code: BAD_REQUEST_CODE
+                        });
+                        return OAuthController.redirect(res, redirectUri, request.state, {error: e.error, error_description: e.message});
+                    });
+            })
+            .catch(e => this.reject(res, "consent", e));
+    }
+
+    /**
+     * post /api/v1/oauth/token
+     * access token of authorization code or client credentials grant
+     * @param req
+     * @param res
+     */
+    public token (req: express.Request, res: express.Response): void {
+        this.oauth.token(req.body as OAuthTokenRequest, clientCredentials(req))
+            .then((token: OAuthTokenData) => {
+                this.emitter.emit("oauth", {
+                    method: "token",
+                    response: {grant: req.body.grant_type, scope: token.scope},
+                    code: OK_REQUEST_CODE
+                });
+                res.set("Cache-Control", "no-store");
+                return res.status(OK_REQUEST_CODE).json(token);
+            })
+            .catch(e => this.reject(res, "token", e));
+    }
+
+    /**
+     * post /api/v1/oauth/introspect
+     * state of access token for confidential clients
+     * @param req
+     * @param res
+     */
+    public introspect (req: express.Request, res: express.Response): void {
+        this.oauth.introspect(req.body.token, clientCredentials(req))
+            .then((introspection: OAuthIntrospection) => {
+                this.emitter.emit("oauth", {
+                    method: "introspect",
+                    response: {active: introspection.active},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json(introspection);
+            })
+            .catch(e => this.reject(res, "introspect", e));
+    }
+}
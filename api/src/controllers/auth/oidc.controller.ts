@@ -0,0 +1,151 @@
+"use strict";
+import express from "express";
+import EventEmitter from "events";
+import {
+    BAD_REQUEST_CODE,
+    BaseController,
+    OK_REQUEST_CODE,
+    UNAUTHORIZED_REQUEST_CODE
+} from "../base.controller";
+import {Service} from "../../services/app.service";
+import {EMITTER_SERVICE, OIDC_SERVICE} from "../../services/app.constants";
+import {IOidcService, keepAuthorization, toPublicIdentity} from "../../services/oidc.service";
+import {UserEntity} from "../../db/entities/users.entity";
+import {UserIdentityEntity} from "../../db/entities/user.identity.entity";
+import {audit} from "../../util/audit";
+import {AUDIT_ACTION_IDENTITY_UNLINK} from "../../db/entities/audit.entity";
+import {ERROR_OIDC_IDENTITY_NOT_FOUND} from "./auth.error.codes";
+
+/**
+ * Sign in with OpenID Connect providers and identities linked to the caller,
+ * redirect back from provider is handled by AuthController.callback
+ */
+export class OidcController extends BaseController {
+    oidc:    IOidcService
+    emitter: EventEmitter
+    constructor() {
+        super();
+        this.oidc    = Service.getService<IOidcService>(OIDC_SERVICE);
+        this.emitter = Service.getService<EventEmitter>(EMITTER_SERVICE);
+        this.get        = this.get.bind(this);
+        this.authorize  = this.authorize.bind(this);
+        this.identities = this.identities.bind(this);
+        this.unlink     = this.unlink.bind(this);
+
+        this.emitter.on("oidc", (message) => {
+            this.compileLogger(message, "oidc", "");
+        });
+    }
+
+    /**
+     * get /api/v1/auth/oidc/providers
+     * providers users sign in with
+     * @param req
+     * @param res
+     */
+    public get (req: express.Request, res: express.Response): express.Response {
+        try {
+            const providers = this.oidc.providers();
+            this.emitter.emit("oidc", {
+                method: "get",
+                response: {count: providers.length},
+                code: OK_REQUEST_CODE
+            });
+            return res.status(OK_REQUEST_CODE).json({providers});
+        } catch (e) {
+            this.emitter.emit("oidc", {
+                method: "get",
+                response: e,
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: e.message});
+        }
+    }
+
+    /**
+     * get /api/v1/auth/oidc/:provider
+     * redirect to sign in page of provider, it redirects back to get /api/v1/auth/callback
+     * @param req
+     * @param res
+     */
+    public authorize (req: express.Request, res: express.Response): void {
+        this.oidc.authorize(req.params.provider)
+            .then(({url, authorization}) => {
+                keepAuthorization(req, authorization);
+                this.emitter.emit("oidc", {
+                    method: "authorize",
+                    response: {provider: authorization.provider},
+                    code: 302
+                });
+                return res.redirect(url);
+            })
+            .catch(e => {
+                this.emitter.emit("oidc", {
+                    method: "authorize",
+                    response: e,
+                    code: UNAUTHORIZED_REQUEST_CODE
+                });
+                return res.status(UNAUTHORIZED_REQUEST_CODE).json({message: e.message});
+            });
+    }
+
+    /**
+     * get /api/v1/auth/identities
+     * identities of providers linked to the caller
+     * @param req
+     * @param res
+     */
+    public identities (req: express.Request, res: express.Response): void {
+        const user = req.user as UserEntity;
+        this.oidc.list(user.id)
+            .then((identities: UserIdentityEntity[]) => {
+                const list = identities.map(identity => toPublicIdentity(identity));
+                this.emitter.emit("oidc", {
+                    method: "identities",
+                    response: {count: list.length},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({identities: list});
+            })
+            .catch(e => {
+                this.emitter.emit("oidc", {
+                    method: "identities",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+
+    /**
+     * delete /api/v1/auth/identities/:id
+     * unlink identity of the caller signed in to session, keys and tokens do not change credentials, next sign in with provider links it again by verified email
+     * @param req
+     * @param res
+     */
+    public unlink (req: express.Request, res: express.Response): void {
+        const user = req.user as UserEntity;
+        const id = Number(req.params.id);
+        this.oidc.unlink(user.id, id)
+            .then((removed: boolean) => {
+                if (!removed) {
+                    throw new Error(ERROR_OIDC_IDENTITY_NOT_FOUND);
+                }
+                audit(req, "user", AUDIT_ACTION_IDENTITY_UNLINK, user.id, {identity: id}, null);
+                this.emitter.emit("oidc", {
+                    method: "unlink",
+                    response: {identity: id},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({removed: true});
+            })
+            .catch(e => {
+                this.emitter.emit("oidc", {
+                    method: "unlink",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+}
@@ -0,0 +1,250 @@
+"use strict";
+import express from "express";
+import EventEmitter from "events";
+import {
+    BAD_REQUEST_CODE,
+    BaseController,
+    FORBIDDEN_REQUEST_CODE,
+    OK_REQUEST_CODE,
+    TOO_MANY_REQUESTS_CODE,
+    UNAUTHORIZED_REQUEST_CODE
+} from "../base.controller";
+import {Service} from "../../services/app.service";
+import {
+    EMITTER_SERVICE,
+    LOCKOUT_SERVICE,
+    RECOVERY_CODE_SERVICE,
+    SESSION_SERVICE,
+    TOKEN_SERVICE,
+    USER_REPOSITORY_SERVICE,
+    WEBAUTHN_SERVICE
+} from "../../services/app.constants";
+import {IRecoveryCodeService} from "../../services/recovery.service";
+import {IWebAuthnService} from "../../services/webauthn.service";
+import {ILockoutService, LockoutError} from "../../services/lockout.service";
+import {ISessionService, passSecondFactor, signedInUser} from "../../services/session.service";
+import {ITokenService, TokenData} from "../../services/token.service";
+import {IUserServiceRepository} from "../../db/interfaces/user.interface";
+import {UserEntity} from "../../db/entities/users.entity";
+import {manageable, memberScope} from "../../middlewares/auth.middleware";
+import {audit, snapshot} from "../../util/audit";
+import {
+    AUDIT_ACTION_GA2FA_FAILED,
+    AUDIT_ACTION_GA2FA_RECOVERY,
+    AUDIT_ACTION_GA2FA_RECOVERY_CODES,
+    AUDIT_ACTION_GA2FA_RESET
+} from "../../db/entities/audit.entity";
+import {
+    ERROR_GA2FA_NO_SESSION,
+    ERROR_GA2FA_NOT_ENABLED,
+    ERROR_RECOVERY_CODE_INCORRECT,
+    ERROR_USER_NOT_MANAGEABLE
+} from "./auth.error.codes";
+
+export class RecoveryController extends BaseController {
+    recovery:   IRecoveryCodeService
+    webauthn:   IWebAuthnService
+    lockout:    ILockoutService
+    tokens:     ITokenService
+    repository: IUserServiceRepository
+    emitter:    EventEmitter
+    constructor() {
+        super();
+        this.recovery   = Service.getService<IRecoveryCodeService>(RECOVERY_CODE_SERVICE);
+        this.webauthn   = Service.getService<IWebAuthnService>(WEBAUTHN_SERVICE);
+        this.lockout    = Service.getService<ILockoutService>(LOCKOUT_SERVICE);
+        this.tokens     = Service.getService<ITokenService>(TOKEN_SERVICE);
+        this.repository = Service.getService<IUserServiceRepository>(USER_REPOSITORY_SERVICE);
+        this.emitter    = Service.getService<EventEmitter>(EMITTER_SERVICE);
+        this.get        = this.get.bind(this);
+        this.redeem     = this.redeem.bind(this);
+        this.regenerate = this.regenerate.bind(this);
+        this.reset      = this.reset.bind(this);
+
+        this.emitter.on("recovery", (message) => {
+            this.compileLogger(message, "recovery", "");
+        });
+    }
+
+    /**
+     * 2FA is enabled by TOTP secret or registered authenticator
+     * @param user
+     * @private
+     */
+    private enabled (user: UserEntity): Promise<boolean> {
+        if (user.secret) {
+            return Promise.resolve(true);
+        }
+        return this.webauthn.list(user.id).then(credentials => credentials.length > 0);
+    }
+
+    /**
+     * get /api/v1/auth/2fa/recovery-codes
+     * number of unused recovery codes of the caller
+     * @param req
+     * @param res
+     */
+    public get (req: express.Request, res: express.Response): express.Response {
+        try {
+            const user = req.user as UserEntity;
+            this.recovery.remaining(user.id)
+                .then((remaining: number) => {
+                    this.emitter.emit("recovery", {
+                        method: "get",
+                        response: {remaining},
+                        code: OK_REQUEST_CODE
+                    });
+                    return res.status(OK_REQUEST_CODE).json({remaining});
+                })
+                .catch(e => {
+                    this.emitter.emit("recovery", {
+                        method: "get",
+                        response: e,
+                        code: BAD_REQUEST_CODE
+                    });
+                    return res.status(BAD_REQUEST_CODE).json({message: e.message});
+                });
+        } catch (e) {
+            this.emitter.emit("recovery", {
+                method: "get",
+                response: e,
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: e.message});
+        }
+    }
+
+    /**
+     * post /api/v1/auth/2fa/recovery
+     * user signed in to session passes 2FA by one-time recovery code instead of authenticator code,
+     * attempts are limited like 2FA codes
+     * @param req
+     * @param res
+     */
+    public redeem (req: express.Request, res: express.Response): void {
+        const userId = signedInUser(req);
+        if (!userId) {
+            this.emitter.emit("recovery", {
+                method: "redeem",
+                response: new Error(ERROR_GA2FA_NO_SESSION),
+                code: UNAUTHORIZED_REQUEST_CODE
+            });
+            res.status(UNAUTHORIZED_REQUEST_CODE).json({message: ERROR_GA2FA_NO_SESSION});
+            return;
+        }
+        this.repository.getById(userId)
+            .then(async (user: UserEntity) => {
+                if (!user || !await this.enabled(user)) {
+                    throw new Error(ERROR_RECOVERY_CODE_INCORRECT);
+                }
+                await this.lockout.check(user.id, req.ip);
+                if (!await this.recovery.redeem(user.id, req.body.code)) {
+                    audit(req, "user", AUDIT_ACTION_GA2FA_FAILED, user.id, null, null, user.id);
+                    await this.lockout.fail(user.id, req.ip);
+                    throw new Error(ERROR_RECOVERY_CODE_INCORRECT);
+                }
+                await this.lockout.succeed(user.id);
+                passSecondFactor(req, user.id);
+                const remaining = await this.recovery.remaining(user.id);
+                audit(req, "user", AUDIT_ACTION_GA2FA_RECOVERY, user.id, null, {remaining}, user.id);
+                const data: TokenData = await this.tokens.issue(user);
+                this.emitter.emit("recovery", {
+                    method: "redeem",
+                    response: {status: true, token_type: data.token_type, remaining},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({status: true, data, remaining});
+            })
+            .catch(e => {
+                if (e instanceof LockoutError) {
+                    this.emitter.emit("recovery", {
+                        method: "redeem",
+                        response: e,
+                        code: TOO_MANY_REQUESTS_CODE
+                    });
+                    res.setHeader("Retry-After", String(e.retryAfter));
+                    return res.status(TOO_MANY_REQUESTS_CODE).json({message: e.message, retryAfter: e.retryAfter});
+                }
+                this.emitter.emit("recovery", {
+                    method: "redeem",
+                    response: e,
+                    code: UNAUTHORIZED_REQUEST_CODE
+                });
+                return res.status(UNAUTHORIZED_REQUEST_CODE).json({message: e.message});
+            });
+    }
+
+    /**
+     * post /api/v1/auth/2fa/recovery-codes
+     * replace recovery codes of the caller signed in to session, previous codes stop working,
+     * keys and tokens do not read new codes
+     * @param req
+     * @param res
+     */
+    public regenerate (req: express.Request, res: express.Response): void {
+        const user = req.user as UserEntity;
+        this.enabled(user)
+            .then((enabled: boolean) => enabled ? this.recovery.generate(user.id) : Promise.reject(new Error(ERROR_GA2FA_NOT_ENABLED)))
+            .then((recoveryCodes: string[]) => {
+                audit(req, "user", AUDIT_ACTION_GA2FA_RECOVERY_CODES, user.id);
+                this.emitter.emit("recovery", {
+                    method: "regenerate",
+                    response: {count: recoveryCodes.length},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({recoveryCodes});
+            })
+            .catch(e => {
+                this.emitter.emit("recovery", {
+                    method: "regenerate",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+
+    /**
+     * delete /api/v1/user/:id/2fa
+     * reset 2FA of user visible to the caller and holding only roles the caller grants: secret, authenticators and recovery codes are removed
+     * and user is signed out, next 2FA of user enrolls new authenticator
+     * @param req
+     * @param res
+     */
+    public reset (req: express.Request, res: express.Response): void {
+        this.repository.getById(Number(req.params.id), memberScope(req))
+            .then(async (user: UserEntity) => {
+                if (!user) {
+                    throw new Error("no user");
+                }
+                if (!manageable(req.user as UserEntity, user)) {
+                    throw new Error(ERROR_USER_NOT_MANAGEABLE);
+                }
+                if (!await this.enabled(user)) {
+                    throw new Error(ERROR_GA2FA_NOT_ENABLED);
+                }
+                const before = snapshot(user);
+                user.secret = null;
+                await user.save();
+                const codes = await this.recovery.remove(user.id);
+                const authenticators = await this.webauthn.removeUser(user.id);
+                const revoked = await Service.getService<ISessionService>(SESSION_SERVICE).revokeUser(user.id);
+                audit(req, "user", AUDIT_ACTION_GA2FA_RESET, user.id, before, {codes, authenticators, ...revoked});
+                this.emitter.emit("recovery", {
+                    method: "reset",
+                    response: {reset: true, codes, authenticators, ...revoked},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({reset: true});
+            })
+            .catch(e => {
+                const code = e.message === ERROR_USER_NOT_MANAGEABLE ? FORBIDDEN_REQUEST_CODE : BAD_REQUEST_CODE;
+                this.emitter.emit("recovery", {
+                    method: "reset",
+                    response: e,
+                    code
+                });
+                return res.status(code).json({message: e.message});
+            });
+    }
+}
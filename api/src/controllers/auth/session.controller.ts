@@ -0,0 +1,134 @@
+"use strict";
+import express from "express";
+import EventEmitter from "events";
+import {
+    BAD_REQUEST_CODE,
+    BaseController,
+    OK_REQUEST_CODE
+} from "../base.controller";
+import {Service} from "../../services/app.service";
+import {EMITTER_SERVICE, SESSION_SERVICE, USER_REPOSITORY_SERVICE} from "../../services/app.constants";
+import {ISessionService, SessionInfo} from "../../services/session.service";
+import {IUserServiceRepository} from "../../db/interfaces/user.interface";
+import {UserEntity} from "../../db/entities/users.entity";
+import {memberScope} from "../../middlewares/auth.middleware";
+import {audit} from "../../util/audit";
+import {AUDIT_ACTION_SESSION_REVOKE, AUDIT_ACTION_SESSION_REVOKE_ALL} from "../../db/entities/audit.entity";
+import {ERROR_SESSION_NOT_FOUND} from "./auth.error.codes";
+
+export class SessionController extends BaseController {
+    sessions:   ISessionService
+    repository: IUserServiceRepository
+    emitter:    EventEmitter
+    constructor() {
+        super();
+        this.sessions   = Service.getService<ISessionService>(SESSION_SERVICE);
+        this.repository = Service.getService<IUserServiceRepository>(USER_REPOSITORY_SERVICE);
+        this.emitter    = Service.getService<EventEmitter>(EMITTER_SERVICE);
+        this.get        = this.get.bind(this);
+        this.revoke     = this.revoke.bind(this);
+        this.revokeUser = this.revokeUser.bind(this);
+
+        this.emitter.on("session", (message) => {
+            this.compileLogger(message, "session", "sessions");
+        });
+    }
+
+    /**
+     * get /api/v1/auth/sessions
+     * active sessions of the caller
+     * @param req
+     * @param res
+     */
+    public get (req: express.Request, res: express.Response): express.Response {
+        try {
+            const user = req.user as UserEntity;
+            this.sessions.list(user.id, req.sessionID)
+                .then((sessions: SessionInfo[]) => {
+                    this.emitter.emit("session", {
+                        method: "get",
+                        response: {sessions},
+                        code: OK_REQUEST_CODE
+                    });
+                    return res.status(OK_REQUEST_CODE).json({sessions});
+                })
+                .catch(e => {
+                    this.emitter.emit("session", {
+                        method: "get",
+                        response: e,
+                        code: BAD_REQUEST_CODE
+                    });
+                    return res.status(BAD_REQUEST_CODE).json({message: e.message});
+                });
+        } catch (e) {
+            this.emitter.emit("session", {
+                method: "get",
+                response: e,
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: e.message});
+        }
+    }
+
+    /**
+     * delete /api/v1/auth/sessions/:id
+     * revoke session of the caller
+     * @param req
+     * @param res
+     */
+    public revoke (req: express.Request, res: express.Response): void {
+        const user = req.user as UserEntity;
+        this.sessions.revoke(user.id, req.params.id)
+            .then((revoked: boolean) => {
+                if (!revoked) {
+                    throw new Error(ERROR_SESSION_NOT_FOUND);
+                }
+                audit(req, "user", AUDIT_ACTION_SESSION_REVOKE, user.id, null, {session: req.params.id});
+                this.emitter.emit("session", {
+                    method: "revoke",
+                    response: {revoked},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({revoked});
+            })
+            .catch(e => {
+                this.emitter.emit("session", {
+                    method: "revoke",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+
+    /**
+     * delete /api/v1/user/:id/sessions
+     * revoke all sessions and tokens of user visible to the caller
+     * @param req
+     * @param res
+     */
+    public revokeUser (req: express.Request, res: express.Response): void {
+        this.repository.getById(Number(req.params.id), memberScope(req))
+            .then(async (user: UserEntity) => {
+                if (!user) {
+                    throw new Error("no user");
+                }
+                const revoked = await this.sessions.revokeUser(user.id);
+                audit(req, "user", AUDIT_ACTION_SESSION_REVOKE_ALL, user.id, null, revoked);
+                this.emitter.emit("session", {
+                    method: "revokeUser",
+                    response: revoked,
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json(revoked);
+            })
+            .catch(e => {
+                this.emitter.emit("session", {
+                    method: "revokeUser",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+}
@@ -0,0 +1,259 @@
+"use strict";
+import express from "express";
+import EventEmitter from "events";
+import {
+    BAD_REQUEST_CODE,
+    BaseController,
+    OK_REQUEST_CODE,
+    UNAUTHORIZED_REQUEST_CODE
+} from "../base.controller";
+import {Service} from "../../services/app.service";
+import {
+    EMITTER_SERVICE,
+    MAIL_SERVICE,
+    RECOVERY_CODE_SERVICE,
+    USER_REPOSITORY_SERVICE,
+    WEBAUTHN_SERVICE
+} from "../../services/app.constants";
+import {
+    IWebAuthnService,
+    keepChallenge,
+    takeChallenge,
+    toPublicCredential,
+    WEBAUTHN_PURPOSE_LOGIN,
+    WEBAUTHN_PURPOSE_REGISTER,
+    WebAuthnOptions
+} from "../../services/webauthn.service";
+import {IRecoveryCodeService} from "../../services/recovery.service";
+import {signedInUser} from "../../services/session.service";
+import {IMailService} from "../../services/mail.service";
+import {IUserServiceRepository} from "../../db/interfaces/user.interface";
+import {UserEntity} from "../../db/entities/users.entity";
+import {WebAuthnCredentialEntity} from "../../db/entities/webauthn.credential.entity";
+import {MAIL_TEMPLATE_2FA_ENABLED} from "../../mail/templates";
+import {audit} from "../../util/audit";
+import logger from "../../util/logger";
+import {AUDIT_ACTION_WEBAUTHN_REGISTER, AUDIT_ACTION_WEBAUTHN_REMOVE} from "../../db/entities/audit.entity";
+import {
+    ERROR_GA2FA_INCORRECT_CODE,
+    ERROR_GA2FA_NO_SESSION,
+    ERROR_WEBAUTHN_LAST_FACTOR,
+    ERROR_WEBAUTHN_NOT_FOUND,
+    ERROR_WEBAUTHN_NOT_REGISTERED
+} from "./auth.error.codes";
+
+/**
+ * Registration of authenticators of the caller and assertion options of 2FA,
+ * assertion itself is verified by AuthController.ga2fa
+ */
+export class WebAuthnController extends BaseController {
+    webauthn:   IWebAuthnService
+    recovery:   IRecoveryCodeService
+    mail:       IMailService
+    repository: IUserServiceRepository
+    emitter:    EventEmitter
+    constructor() {
+        super();
+        this.webauthn   = Service.getService<IWebAuthnService>(WEBAUTHN_SERVICE);
+        this.recovery   = Service.getService<IRecoveryCodeService>(RECOVERY_CODE_SERVICE);
+        this.mail       = Service.getService<IMailService>(MAIL_SERVICE);
+        this.repository = Service.getService<IUserServiceRepository>(USER_REPOSITORY_SERVICE);
+        this.emitter    = Service.getService<EventEmitter>(EMITTER_SERVICE);
+        this.get             = this.get.bind(this);
+        this.registerOptions = this.registerOptions.bind(this);
+        this.register        = this.register.bind(this);
+        this.loginOptions    = this.loginOptions.bind(this);
+        this.remove          = this.remove.bind(this);
+
+        this.emitter.on("webauthn", (message) => {
+            this.compileLogger(message, "webauthn", "");
+        });
+    }
+
+    /**
+     * get /api/v1/auth/webauthn/credentials
+     * authenticators of the caller
+     * @param req
+     * @param res
+     */
+    public get (req: express.Request, res: express.Response): express.Response {
+        try {
+            const user = req.user as UserEntity;
+            this.webauthn.list(user.id)
+                .then((credentials: WebAuthnCredentialEntity[]) => {
+                    const list = credentials.map(credential => toPublicCredential(credential));
+                    this.emitter.emit("webauthn", {
+                        method: "get",
+                        response: {count: list.length},
+                        code: OK_REQUEST_CODE
+                    });
+                    return res.status(OK_REQUEST_CODE).json({credentials: list});
+                })
+                .catch(e => {
+                    this.emitter.emit("webauthn", {
+                        method: "get",
+                        response: e,
+                        code: BAD_REQUEST_CODE
+                    });
+                    return res.status(BAD_REQUEST_CODE).json({message: e.message});
+                });
+        } catch (e) {
+            this.emitter.emit("webauthn", {
+                method: "get",
+                response: e,
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: e.message});
+        }
+    }
+
+    /**
+     * post /api/v1/auth/webauthn/register/options
+     * options of navigator.credentials.create() for new authenticator of the caller
+     * @param req
+     * @param res
+     */
+    public registerOptions (req: express.Request, res: express.Response): void {
+        const user = req.user as UserEntity;
+        this.webauthn.registrationOptions(user)
+            .then((options: WebAuthnOptions) => {
+                keepChallenge(req, WEBAUTHN_PURPOSE_REGISTER, user.id, options);
+                this.emitter.emit("webauthn", {
+                    method: "registerOptions",
+                    response: {user: user.id},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json(options);
+            })
+            .catch(e => {
+                this.emitter.emit("webauthn", {
+                    method: "registerOptions",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+
+    /**
+     * post /api/v1/auth/webauthn/register
+     * register authenticator of the caller by response to registration options,
+     * recovery codes are returned when it is the first second factor of the caller
+     * @param req
+     * @param res
+     */
+    public register (req: express.Request, res: express.Response): void {
+        const user = req.user as UserEntity;
+        const challenge = takeChallenge(req, WEBAUTHN_PURPOSE_REGISTER, user.id);
+        this.webauthn.list(user.id)
+            .then(async (credentials: WebAuthnCredentialEntity[]) => {
+                const enabled = !!user.secret || credentials.length > 0;
+                const credential = await this.webauthn.register(user, req.body.credential, challenge, req.body.name);
+                audit(req, "user", AUDIT_ACTION_WEBAUTHN_REGISTER, user.id, null, {credential: credential.id, name: credential.name});
+                let recoveryCodes: string[];
+                if (!enabled) {
+                    recoveryCodes = await this.recovery.generate(user.id);
+                    this.mail.send(user.email, MAIL_TEMPLATE_2FA_ENABLED, {username: user.username, ip: req.ip})
+                        .catch(e => logger.error(`webauthn mail ${e.message}`));
+                }
+                this.emitter.emit("webauthn", {
+                    method: "register",
+                    response: {credential: credential.id},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({credential: toPublicCredential(credential), recoveryCodes});
+            })
+            .catch(e => {
+                this.emitter.emit("webauthn", {
+                    method: "register",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+
+    /**
+     * post /api/v1/auth/webauthn/login/options
+     * options of navigator.credentials.get() for 2FA of user signed in to session by password or identity provider
+     * @param req
+     * @param res
+     */
+    public loginOptions (req: express.Request, res: express.Response): void {
+        const userId = signedInUser(req);
+        if (!userId) {
+            this.emitter.emit("webauthn", {
+                method: "loginOptions",
+                response: new Error(ERROR_GA2FA_NO_SESSION),
+                code: UNAUTHORIZED_REQUEST_CODE
+            });
+            res.status(UNAUTHORIZED_REQUEST_CODE).json({message: ERROR_GA2FA_NO_SESSION});
+            return;
+        }
+        this.repository.getById(userId)
+            .then(async (user: UserEntity) => {
+                if (!user) {
+                    throw new Error(ERROR_GA2FA_INCORRECT_CODE);
+                }
+                const options = await this.webauthn.assertionOptions(user.id);
+                if (!options.allowCredentials.length) {
+                    throw new Error(ERROR_WEBAUTHN_NOT_REGISTERED);
+                }
+                keepChallenge(req, WEBAUTHN_PURPOSE_LOGIN, user.id, options);
+                this.emitter.emit("webauthn", {
+                    method: "loginOptions",
+                    response: {user: user.id},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json(options);
+            })
+            .catch(e => {
+                this.emitter.emit("webauthn", {
+                    method: "loginOptions",
+                    response: e,
+                    code: UNAUTHORIZED_REQUEST_CODE
+                });
+                return res.status(UNAUTHORIZED_REQUEST_CODE).json({message: e.message});
+            });
+    }
+
+    /**
+     * delete /api/v1/auth/webauthn/credentials/:id
+     * remove authenticator of the caller signed in to session, last authenticator of user without TOTP secret is kept
+     * so next sign in does not enroll new second factor
+     * @param req
+     * @param res
+     */
+    public remove (req: express.Request, res: express.Response): void {
+        const user = req.user as UserEntity;
+        const id = Number(req.params.id);
+        this.webauthn.list(user.id)
+            .then((credentials: WebAuthnCredentialEntity[]) => {
+                if (!user.secret && credentials.some(credential => credential.id === id)
+                    && credentials.every(credential => credential.id === id)) {
+                    throw new Error(ERROR_WEBAUTHN_LAST_FACTOR);
+                }
+                return this.webauthn.remove(user.id, id);
+            })
+            .then((removed: boolean) => {
+                if (!removed) {
+                    throw new Error(ERROR_WEBAUTHN_NOT_FOUND);
+                }
+                audit(req, "user", AUDIT_ACTION_WEBAUTHN_REMOVE, user.id, {credential: id}, null);
+                this.emitter.emit("webauthn", {
+                    method: "remove",
+                    response: {credential: id},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({removed: true});
+            })
+            .catch(e => {
+                this.emitter.emit("webauthn", {
+                    method: "remove",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+}
@@ -1,10 +1,91 @@
 import express from "express";
 import logger from "../util/logger";
+import {ListQuery, ListResult, MAX_LIST_LIMIT} from "../db/interfaces/list.interface";
 
 export abstract class BaseController {
     // This needs to be implemented
     abstract get    (req: express.Request, res: express.Response): express.Response;
 
+    /**
+     * parse page, sort and filter options of list request.
+     * cursor from previous page takes precedence over offset
+     * @param req
+     * @param sortable columns allowed for sorting
+     * @param filters filters supported besides enabled and created range, e.g. status
+     */
+    protected listQuery (req: express.Request, sortable: string[], filters: string[] = []): ListQuery {
+        const {limit, offset, cursor, sort, order, enabled, createdFrom, createdTo} = req.query;
+        const query: ListQuery = {};
+        if (limit !== undefined) {
+            query.limit = Number(limit);
+            if (!Number.isInteger(query.limit) || query.limit < 1 || query.limit > MAX_LIST_LIMIT) {
+                throw new Error(`${ERROR_LIST_INVALID_PARAMETER} limit`);
+            }
+        }
+        if (offset !== undefined) {
+            query.offset = Number(offset);
+            if (!Number.isInteger(query.offset) || query.offset < 0) {
+                throw new Error(`${ERROR_LIST_INVALID_PARAMETER} offset`);
+            }
+        }
+        if (cursor !== undefined) {
+            try {
+                query.offset = Number(JSON.parse(Buffer.from(cursor as string, "base64").toString()).offset);
+            } catch (e) {
+                query.offset = NaN;
+            }
+            if (!Number.isInteger(query.offset) || query.offset < 0) {
+                throw new Error(`${ERROR_LIST_INVALID_PARAMETER} cursor`);
+            }
+        }
+        if (sort !== undefined) {
+            if (sortable.indexOf(sort as string) === -1) {
+                throw new Error(`${ERROR_LIST_INVALID_PARAMETER} sort`);
+            }
+            query.sort = sort as string;
+        }
+        if (order !== undefined) {
+            if (["asc", "desc"].indexOf(String(order).toLowerCase()) === -1) {
+                throw new Error(`${ERROR_LIST_INVALID_PARAMETER} order`);
+            }
+            query.order = String(order).toUpperCase() as "ASC" | "DESC";
+        }
+        if (enabled !== undefined) {
+            query.enabled = enabled === "true";
+        }
+        [["createdFrom", createdFrom], ["createdTo", createdTo]].forEach(([name, value]) => {
+            if (value !== undefined) {
+                const date = new Date(value as string);
+                if (isNaN(date.getTime())) {
+                    throw new Error(`${ERROR_LIST_INVALID_PARAMETER} ${name}`);
+                }
+                query[name as "createdFrom" | "createdTo"] = date;
+            }
+        });
+        filters.forEach((filter: "status" | "type") => {
+            if (req.query[filter] !== undefined) {
+                query[filter] = req.query[filter] as string;
+            }
+        });
+        return query;
+    }
+
+    /**
+     * list response with total count and cursor of the next page, null on the last page
+     * @param entities name of items field, e.g. users
+     * @param result
+     */
+    protected listResponse<T> (entities: string, result: ListResult<T>): {[field: string]: T[] | number | string} {
+        const offset = result.offset + result.items.length;
+        return {
+            [entities]: result.items,
+            total:  result.total,
+            limit:  result.limit,
+            offset: result.offset,
+            next:   offset < result.total ? Buffer.from(JSON.stringify({offset})).toString("base64") : null
+        };
+    }
+
     compileLogger (message: any, entity: string, entities: string): void {
         if (process.env["NODE_ENV"] !== "test") {
             switch (message.code) {
@@ -22,6 +103,7 @@ export abstract class BaseController {
                     }
                     break;
                 case UNAUTHORIZED_REQUEST_CODE:
+                case FORBIDDEN_REQUEST_CODE:
                     if (message.response) {
                         if (message.response.message) {
                             logger.error(`${entity}.${message.method}:${message.code} ${message.response.message}`);
@@ -58,9 +140,13 @@ export const BAD_REQUEST_CODE = 400;
 export const UNAUTHORIZED_REQUEST_CODE = 401;
 export const FORBIDDEN_REQUEST_CODE = 403;
 export const METHOD_NOT_ALLOWED_REQUEST_CODE = 405;
+export const CONFLICT_REQUEST_CODE = 409;
+export const TOO_MANY_REQUESTS_CODE = 429;
 export const SERVER_ERROR_REQUEST_CODE = 500;
 export const NOT_IMPLEMENTED_REQUEST_CODE = 501;
 
+export const ERROR_LIST_INVALID_PARAMETER = "invalid list parameter";
+
 export interface IAuthController {
     get      (req: express.Request, res: express.Response): express.Response
 
@@ -93,7 +179,7 @@ export interface IAuthController {
     signup   (req: express.Request, res: express.Response): express.Response
 
     /**
-     * callback for oauth2 server
+     * redirect of OpenID Connect provider completing sign in
      * @param req
      * @param res
      */
@@ -107,7 +193,7 @@ export interface IAuthController {
     logout   (req: express.Request, res: express.Response): express.Response
 
     /**
-     * generate password restore token
+     * email password restore link
      * @param req
      * @param res
      */
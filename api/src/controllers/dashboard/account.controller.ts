@@ -12,11 +12,21 @@ import {
 } from "../../services/app.constants";
 import {Service} from "../../services/app.service";
 import EventEmitter from "events";
-import {IAccountServiceRepository} from "../../db/interfaces/account.interface";
+import {memberScope} from "../../middlewares/auth.middleware";
+import {ACCOUNT_LIST_SORT, IAccountServiceRepository} from "../../db/interfaces/account.interface";
+import {ListResult} from "../../db/interfaces/list.interface";
 import {AccountRepository} from "../../db/storage/postgres/repository/account.repository";
 import {AccountEntity} from "../../db/entities/accounts.entity";
-const ERROR_ACCOUNT_EMPTY_NAME = "empty name";
-const ERROR_ACCOUNT_EMPTY_EMAIL = "empty email";
+export const ERROR_ACCOUNT_EMPTY_NAME = "empty name";
+export const ERROR_ACCOUNT_EMPTY_EMAIL = "empty email";
+import {audit, snapshot} from "../../util/audit";
+import {
+    AUDIT_ACTION_CREATE,
+    AUDIT_ACTION_DELETE,
+    AUDIT_ACTION_PURGE,
+    AUDIT_ACTION_RESTORE,
+    AUDIT_ACTION_UPDATE
+} from "../../db/entities/audit.entity";
 
 export class AccountController extends BaseController implements ICRUDController {
     repository: IAccountServiceRepository
@@ -30,6 +40,9 @@ export class AccountController extends BaseController implements ICRUDController
         this.update = this.update.bind(this);
         this.create = this.create.bind(this);
         this.delete = this.delete.bind(this);
+        this.trash = this.trash.bind(this);
+        this.restore = this.restore.bind(this);
+        this.purge = this.purge.bind(this);
 
         this.emitter.on("account", (message) => {
             this.compileLogger(message, "account", "accounts");
@@ -37,16 +50,16 @@ export class AccountController extends BaseController implements ICRUDController
     }
 
     /**
-     * get all accounts
+     * get account by id or name, otherwise page of accounts
      * @param req
      * @param res
      */
     public get (req: express.Request, res: express.Response): express.Response {
         // use with parameters
-        const {id, name, enabled} = req.query;
+        const {id, name} = req.query;
         if (id) {
             if (Number.isFinite(Number(id))) {
-                this.repository.getById(Number(id as string))
+                this.repository.getById(Number(id as string), memberScope(req))
                     .then((account: AccountEntity) => {
                         this.emitter.emit("account", {
                             method: "get",
@@ -71,9 +84,8 @@ export class AccountController extends BaseController implements ICRUDController
                 });
                 return res.status(BAD_REQUEST_CODE).json([]);
             }
-        }
-        if (name) {
-            this.repository.getByName(name as string)
+        } else if (name) {
+            this.repository.getByName(name as string, memberScope(req))
                 .then((account: AccountEntity) => {
                     this.emitter.emit("account", {
                         method: "get",
@@ -90,43 +102,35 @@ export class AccountController extends BaseController implements ICRUDController
                     });
                     return res.status(BAD_REQUEST_CODE).json({message: e.message});
                 });
-        }
-        if (enabled) {
-            this.repository.getAccountsByEnabled(enabled as string === "true")
-                .then((accounts: AccountEntity[]) => {
-                    this.emitter.emit("account", {
-                        method: "get",
-                        response: {accounts: accounts},
-                        code: OK_REQUEST_CODE
-                    });
-                    return res.status(OK_REQUEST_CODE).json(accounts);
-                })
-                .catch(e => {
-                    this.emitter.emit("account", {
-                        method: "get",
-                        response: e,
-                        code: BAD_REQUEST_CODE
+        } else {
+            try {
+                const query = this.listQuery(req, ACCOUNT_LIST_SORT, ["status", "type"]);
+                this.repository.get(query, memberScope(req))
+                    .then((result: ListResult<AccountEntity>) => {
+                        this.emitter.emit("account", {
+                            method: "get",
+                            response: {accounts: result.items},
+                            code: OK_REQUEST_CODE
+                        });
+                        return res.status(OK_REQUEST_CODE).json(this.listResponse("accounts", result));
+                    })
+                    .catch(e => {
+                        this.emitter.emit("account", {
+                            method: "get",
+                            response: e,
+                            code: BAD_REQUEST_CODE
+                        });
+                        return res.status(BAD_REQUEST_CODE).json({message: e.message});
                     });
-                    return res.status(BAD_REQUEST_CODE).json({message: e.message});
-                });
-        }
-        this.repository.get()
-            .then((accounts: AccountEntity[]) => {
-                this.emitter.emit("account", {
-                    method: "get",
-                    response: {accounts: accounts.filter((account: AccountEntity) => account.removed === null || account.removed === undefined)},
-                    code: OK_REQUEST_CODE
-                });
-                return res.status(OK_REQUEST_CODE).json(accounts.filter((account: AccountEntity) => account.removed === null || account.removed === undefined));
-            })
-            .catch(e => {
+            } catch (e) {
                 this.emitter.emit("account", {
                     method: "get",
                     response: e,
                     code: BAD_REQUEST_CODE
                 });
                 return res.status(BAD_REQUEST_CODE).json({message: e.message});
-            });
+            }
+        }
     }
 
     public getOne (req: express.Request, res: express.Response): express.Response {
@@ -139,7 +143,7 @@ export class AccountController extends BaseController implements ICRUDController
             });
             return res.status(BAD_REQUEST_CODE).json({message: "invalid parameters"});
         }
-        this.repository.getById(id)
+        this.repository.getById(id, memberScope(req))
             .then((account: AccountEntity) => {
                 if (account) {
                     this.emitter.emit("account", {
@@ -176,9 +180,10 @@ export class AccountController extends BaseController implements ICRUDController
             });
             return res.status(BAD_REQUEST_CODE).json({message: "invalid parameters"});
         }
-        this.repository.getById(req.body.id)
+        this.repository.getById(req.body.id, memberScope(req))
             .then((account: AccountEntity) => {
                 if (account) {
+                    const before = snapshot(account);
                     // change account status
                     if (req.body.name) {
                         account.name = req.body.name;
@@ -209,6 +214,7 @@ export class AccountController extends BaseController implements ICRUDController
                     }
                     account.save()
                         .then((r: AccountEntity) => {
+                            audit(req, "account", AUDIT_ACTION_UPDATE, r.id, before, r);
                             this.emitter.emit("account", {
                                 method: "update",
                                 response: {account: r},
@@ -224,6 +230,13 @@ export class AccountController extends BaseController implements ICRUDController
                             });
                             return res.status(BAD_REQUEST_CODE).json({message: e.message});
                         });
+                } else {
+                    this.emitter.emit("account", {
+                        method: "update",
+                        response: new Error("no accounts found"),
+                        code: BAD_REQUEST_CODE
+                    });
+                    return res.status(BAD_REQUEST_CODE).json({message: "no accounts found"});
                 }
             })
             .catch(e => {
@@ -249,14 +262,17 @@ export class AccountController extends BaseController implements ICRUDController
                     .then(async (account: AccountEntity) => {
                         if (account) {
                             if (account.removed !== null) {
+                                const before = snapshot(account);
                                 account.removed = undefined;
                                 account.enabled = true;
+                                const restored = await account.save();
+                                audit(req, "account", AUDIT_ACTION_RESTORE, restored.id, before, restored);
                                 this.emitter.emit("account", {
                                     method: "create",
-                                    response: {account: account},
+                                    response: {account: restored},
                                     code: OK_REQUEST_CODE
                                 });
-                                return res.status(OK_REQUEST_CODE).json({account: await account.save()});
+                                return res.status(OK_REQUEST_CODE).json({account: restored});
                             } else {
                                 this.emitter.emit("account", {
                                     method: "create",
@@ -279,6 +295,7 @@ export class AccountController extends BaseController implements ICRUDController
                                     !!req.body.enabled,
                                 ))
                                 .then((account: AccountEntity) => {
+                                    audit(req, "account", AUDIT_ACTION_CREATE, account.id, null, account);
                                     this.emitter.emit("account", {
                                         method: "create",
                                         response: {account: account},
@@ -324,11 +341,13 @@ export class AccountController extends BaseController implements ICRUDController
             });
             return res.status(BAD_REQUEST_CODE).json({message: "invalid parameters"});
         }
-        this.repository.getById(req.body.id)
+        this.repository.getById(req.body.id, memberScope(req))
             .then(async (account: AccountEntity) => {
                 if (account) {
                     try {
+                        const before = snapshot(account);
                         const removedAccount = await account.remove();
+                        audit(req, "account", AUDIT_ACTION_DELETE, removedAccount.id, before, removedAccount);
                         this.emitter.emit("account", {
                             method: "create",
                             response: {account: removedAccount},
@@ -361,4 +380,120 @@ export class AccountController extends BaseController implements ICRUDController
                 return res.status(BAD_REQUEST_CODE).json({message: e.message});
             });
     }
-}
\ No newline at end of file
+
+    /**
+     * get page of removed accounts /api/v1/account/trash
+     * @param req
+     * @param res
+     */
+    public trash (req: express.Request, res: express.Response): express.Response {
+        try {
+            const query = this.listQuery(req, ACCOUNT_LIST_SORT, ["status", "type"]);
+            this.repository.getRemoved(query, memberScope(req))
+                .then((result: ListResult<AccountEntity>) => {
+                    this.emitter.emit("account", {
+                        method: "trash",
+                        response: {accounts: result.items},
+                        code: OK_REQUEST_CODE
+                    });
+                    return res.status(OK_REQUEST_CODE).json(this.listResponse("accounts", result));
+                })
+                .catch(e => {
+                    this.emitter.emit("account", {
+                        method: "trash",
+                        response: e,
+                        code: BAD_REQUEST_CODE
+                    });
+                    return res.status(BAD_REQUEST_CODE).json({message: e.message});
+                });
+        } catch (e) {
+            this.emitter.emit("account", {
+                method: "trash",
+                response: e,
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: e.message});
+        }
+    }
+
+    /**
+     * post /api/v1/account/:id/restore
+     * @param req
+     * @param res
+     */
+    public restore (req: express.Request, res: express.Response): express.Response {
+        const id = Number(req.params.id);
+        if (!id || !Number.isFinite(id)) {
+            this.emitter.emit("account", {
+                method: "restore",
+                response: new Error("invalid parameters"),
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: "invalid parameters"});
+        }
+        this.repository.getById(id, memberScope(req))
+            .then(async (account: AccountEntity) => {
+                if (!account || !account.removed) {
+                    throw new Error("no removed accounts found");
+                }
+                const before = snapshot(account);
+                const restored = await this.repository.restore(account);
+                audit(req, "account", AUDIT_ACTION_RESTORE, account.id, before, restored);
+                this.emitter.emit("account", {
+                    method: "restore",
+                    response: {account: restored},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({account: restored});
+            })
+            .catch(e => {
+                this.emitter.emit("account", {
+                    method: "restore",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+
+    /**
+     * delete /api/v1/account/:id/purge
+     * permanently delete removed account
+     * @param req
+     * @param res
+     */
+    public purge (req: express.Request, res: express.Response): express.Response {
+        const id = Number(req.params.id);
+        if (!id || !Number.isFinite(id)) {
+            this.emitter.emit("account", {
+                method: "purge",
+                response: new Error("invalid parameters"),
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: "invalid parameters"});
+        }
+        this.repository.getById(id, memberScope(req))
+            .then(async (account: AccountEntity) => {
+                if (!account || !account.removed) {
+                    throw new Error("no removed accounts found");
+                }
+                const before = snapshot(account);
+                const purged = await this.repository.purge(account);
+                audit(req, "account", AUDIT_ACTION_PURGE, account.id, before, null);
+                this.emitter.emit("account", {
+                    method: "purge",
+                    response: {account: purged},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({account: purged});
+            })
+            .catch(e => {
+                this.emitter.emit("account", {
+                    method: "purge",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+}
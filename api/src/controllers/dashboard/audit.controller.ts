@@ -0,0 +1,81 @@
+"use strict";
+import express from "express";
+import {
+    BAD_REQUEST_CODE,
+    BaseController,
+    ERROR_LIST_INVALID_PARAMETER,
+    OK_REQUEST_CODE
+} from "../base.controller";
+import EventEmitter from "events";
+import {Service} from "../../services/app.service";
+import {AUDIT_REPOSITORY_SERVICE, EMITTER_SERVICE} from "../../services/app.constants";
+import {AUDIT_LIST_SORT, AuditQuery, IAuditServiceRepository} from "../../db/interfaces/audit.interface";
+import {ListResult} from "../../db/interfaces/list.interface";
+import {AuditEntity} from "../../db/entities/audit.entity";
+
+export class AuditController extends BaseController {
+    repository: IAuditServiceRepository
+    emitter:    EventEmitter
+    constructor() {
+        super();
+        this.repository = Service.getService<IAuditServiceRepository>(AUDIT_REPOSITORY_SERVICE);
+        this.emitter    = Service.getService<EventEmitter>(EMITTER_SERVICE);
+        this.get = this.get.bind(this);
+
+        this.emitter.on("audit", (message) => {
+            this.compileLogger(message, "audit", "entries");
+        });
+    }
+
+    /**
+     * get page of audit log /api/v1/audit, newest entries first by default
+     * filters: actorId, impersonatedId, entity, entityId, action, createdFrom, createdTo
+     * @param req
+     * @param res
+     */
+    public get (req: express.Request, res: express.Response): express.Response {
+        try {
+            const query: AuditQuery = this.listQuery(req, AUDIT_LIST_SORT);
+            if (!query.order) {
+                query.order = "DESC";
+            }
+            ["actorId", "impersonatedId", "entityId"].forEach((filter: "actorId" | "impersonatedId" | "entityId") => {
+                if (req.query[filter] !== undefined) {
+                    query[filter] = Number(req.query[filter]);
+                    if (!Number.isInteger(query[filter])) {
+                        throw new Error(`${ERROR_LIST_INVALID_PARAMETER} ${filter}`);
+                    }
+                }
+            });
+            ["entity", "action"].forEach((filter: "entity" | "action") => {
+                if (req.query[filter] !== undefined) {
+                    query[filter] = req.query[filter] as string;
+                }
+            });
+            this.repository.get(query)
+                .then((result: ListResult<AuditEntity>) => {
+                    this.emitter.emit("audit", {
+                        method: "get",
+                        response: {entries: result.items},
+                        code: OK_REQUEST_CODE
+                    });
+                    return res.status(OK_REQUEST_CODE).json(this.listResponse("entries", result));
+                })
+                .catch(e => {
+                    this.emitter.emit("audit", {
+                        method: "get",
+                        response: e,
+                        code: BAD_REQUEST_CODE
+                    });
+                    return res.status(BAD_REQUEST_CODE).json({message: e.message});
+                });
+        } catch (e) {
+            this.emitter.emit("audit", {
+                method: "get",
+                response: e,
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: e.message});
+        }
+    }
+}
@@ -0,0 +1,174 @@
+"use strict";
+import express from "express";
+import EventEmitter from "events";
+import {
+    BAD_REQUEST_CODE,
+    BaseController,
+    FORBIDDEN_REQUEST_CODE,
+    OK_REQUEST_CODE
+} from "../base.controller";
+import {Service} from "../../services/app.service";
+import {EMITTER_SERVICE, OAUTH_SERVICE} from "../../services/app.constants";
+import {IOAuthService, OAuthClientSecret, toPublicClient} from "../../services/oauth.service";
+import {OAuthClientEntity} from "../../db/entities/oauth.client.entity";
+import {UserEntity} from "../../db/entities/users.entity";
+import {audit} from "../../util/audit";
+import {AUDIT_ACTION_CREATE, AUDIT_ACTION_DELETE, AUDIT_ACTION_UPDATE} from "../../db/entities/audit.entity";
+import {
+    ERROR_OAUTH_CLIENT_FORBIDDEN,
+    ERROR_OAUTH_CLIENT_NOT_FOUND,
+    ERROR_OAUTH_SCOPE_NOT_GRANTABLE
+} from "../auth/auth.error.codes";
+
+/**
+ * Clients of the app as OAuth authorization server, secret is shown only in response of create and rotate
+ */
+export class OAuthClientController extends BaseController {
+    oauth:   IOAuthService
+    emitter: EventEmitter
+    constructor() {
+        super();
+        this.oauth   = Service.getService<IOAuthService>(OAUTH_SERVICE);
+        this.emitter = Service.getService<EventEmitter>(EMITTER_SERVICE);
+        this.get    = this.get.bind(this);
+        this.create = this.create.bind(this);
+        this.rotate = this.rotate.bind(this);
+        this.delete = this.delete.bind(this);
+
+        this.emitter.on("oauthClient", (message) => {
+            this.compileLogger(message, "client", "clients");
+        });
+    }
+
+    /**
+     * get /api/v1/oauth/clients
+     * registered clients
+     * @param req
+     * @param res
+     */
+    public get (req: express.Request, res: express.Response): express.Response {
+        try {
+            this.oauth.clients()
+                .then((clients: OAuthClientEntity[]) => {
+                    const list = clients.map(client => toPublicClient(client));
+                    this.emitter.emit("oauthClient", {
+                        method: "get",
+                        response: {clients: list},
+                        code: OK_REQUEST_CODE
+                    });
+                    return res.status(OK_REQUEST_CODE).json({clients: list});
+                })
+                .catch(e => {
+                    this.emitter.emit("oauthClient", {
+                        method: "get",
+                        response: e,
+                        code: BAD_REQUEST_CODE
+                    });
+                    return res.status(BAD_REQUEST_CODE).json({message: e.message});
+                });
+        } catch (e) {
+            this.emitter.emit("oauthClient", {
+                method: "get",
+                response: e,
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: e.message});
+        }
+    }
+
+    /**
+     * post /api/v1/oauth/clients
+     * register client, tokens of its client credentials grant act for the caller
+     * @param req
+     * @param res
+     */
+    public create (req: express.Request, res: express.Response): void {
+        const user = req.user as UserEntity;
+        this.oauth.register({
+            name:         req.body.name,
+            redirectUris: req.body.redirectUris || [],
+            grants:       req.body.grants,
+            scopes:       req.body.scopes,
+            confidential: req.body.confidential !== false
+        }, user)
+            .then(({client, secret}: OAuthClientSecret) => {
+                const created = toPublicClient(client);
+                audit(req, "oauth_client", AUDIT_ACTION_CREATE, client.id, null, created);
+                this.emitter.emit("oauthClient", {
+                    method: "create",
+                    response: {client: created},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({client: created, secret});
+            })
+            .catch(e => {
+                const code = e.message.indexOf(ERROR_OAUTH_SCOPE_NOT_GRANTABLE) === 0 ? FORBIDDEN_REQUEST_CODE : BAD_REQUEST_CODE;
+                this.emitter.emit("oauthClient", {
+                    method: "create",
+                    response: e,
+                    code
+                });
+                return res.status(code).json({message: e.message});
+            });
+    }
+
+    /**
+     * post /api/v1/oauth/clients/:id/secret
+     * replace secret of confidential client registered by the caller, superadmin replaces secret of any client
+     * @param req
+     * @param res
+     */
+    public rotate (req: express.Request, res: express.Response): void {
+        this.oauth.rotateSecret(Number(req.params.id), req.user as UserEntity)
+            .then(({client, secret}: OAuthClientSecret) => {
+                audit(req, "oauth_client", AUDIT_ACTION_UPDATE, client.id, null, {rotated: "secret"});
+                this.emitter.emit("oauthClient", {
+                    method: "rotate",
+                    response: {client: toPublicClient(client)},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({client: toPublicClient(client), secret});
+            })
+            .catch(e => {
+                const code = e.message === ERROR_OAUTH_CLIENT_FORBIDDEN ? FORBIDDEN_REQUEST_CODE : BAD_REQUEST_CODE;
+                this.emitter.emit("oauthClient", {
+                    method: "rotate",
+                    response: e,
+                    code
+                });
+                return res.status(code).json({message: e.message});
+            });
+    }
+
+    /**
+     * delete /api/v1/oauth/clients/:id
+     * remove client registered by the caller, superadmin removes any client, its tokens stop working at once
+     * @param req
+     * @param res
+     */
+    public delete (req: express.Request, res: express.Response): void {
+        const id = Number(req.params.id);
+        this.oauth.remove(id, req.user as UserEntity)
+            .then((removed: boolean) => {
+                if (!removed) {
+                    throw new Error(ERROR_OAUTH_CLIENT_NOT_FOUND);
+                }
+                audit(req, "oauth_client", AUDIT_ACTION_DELETE, id);
+                this.emitter.emit("oauthClient", {
+                    method: "delete",
+                    response: {client: {name: id}},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({removed: true});
+            })
+            .catch(e => {
+                const code = e.message === ERROR_OAUTH_CLIENT_FORBIDDEN ? FORBIDDEN_REQUEST_CODE : BAD_REQUEST_CODE;
+                this.emitter.emit("oauthClient", {
+                    method: "delete",
+                    response: e,
+                    code
+                });
+                return res.status(code).json({message: e.message});
+            });
+    }
+}
@@ -0,0 +1,373 @@
+"use strict";
+import express from "express";
+import {
+    BAD_REQUEST_CODE,
+    BaseController,
+    ICRUDController,
+    OK_REQUEST_CODE
+} from "../base.controller";
+import {PermissionRepository} from "../../db/storage/postgres/repository/permission.repository";
+import {EMITTER_SERVICE, PERMISSION_REPOSITORY_SERVICE} from "../../services/app.constants";
+import {Service} from "../../services/app.service";
+import {PermissionEntity} from "../../db/entities/permissions.entity";
+import EventEmitter from "events";
+import {IPermissionServiceRepository} from "../../db/interfaces/permission.interface";
+import {audit, snapshot} from "../../util/audit";
+import {
+    AUDIT_ACTION_CREATE,
+    AUDIT_ACTION_DELETE,
+    AUDIT_ACTION_RESTORE,
+    AUDIT_ACTION_UPDATE
+} from "../../db/entities/audit.entity";
+
+const ERROR_PERMISSION_EMPTY_TITLE = "empty title";
+const ERROR_PERMISSION_EMPTY_DESCRIPTION = "empty description";
+
+export class PermissionController extends BaseController implements ICRUDController {
+    repository: IPermissionServiceRepository
+    emitter:    EventEmitter
+    constructor() {
+        super();
+        this.repository = Service.getService<PermissionRepository>(PERMISSION_REPOSITORY_SERVICE);
+        this.emitter = Service.getService<EventEmitter>(EMITTER_SERVICE);
+        this.get = this.get.bind(this);
+        this.getOne = this.getOne.bind(this);
+        this.update = this.update.bind(this);
+        this.create = this.create.bind(this);
+        this.delete = this.delete.bind(this);
+
+        this.emitter.on("permission", (message) => {
+            this.compileLogger(message, "permission", "permissions");
+        });
+    }
+
+    /**
+     * get all permissions
+     * @param req
+     * @param res
+     */
+    public get (req: express.Request, res: express.Response): express.Response {
+        // use with parameters
+        const {id, title, enabled} = req.query;
+        if (id) {
+            if (Number.isFinite(Number(id))) {
+                this.repository.getById(Number(id as string))
+                    .then((permission: PermissionEntity) => {
+                        this.emitter.emit("permission", {
+                            method: "get",
+                            response: {permission: permission},
+                            code: OK_REQUEST_CODE
+                        });
+                        return res.status(OK_REQUEST_CODE).json(permission);
+                    })
+                    .catch(e => {
+                        // catch repository getPermission Error
+                        this.emitter.emit("permission", {
+                            method: "get",
+                            response: e,
+                            code: BAD_REQUEST_CODE
+                        });
+                        return res.status(BAD_REQUEST_CODE).json({message: e.message});
+                    });
+            } else {
+                this.emitter.emit("permission", {
+                    method: "get",
+                    response: {permission: null},
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json([]);
+            }
+        }
+        if (title) {
+            this.repository.getByName(title as string)
+                .then((permission: PermissionEntity) => {
+                    this.emitter.emit("permission", {
+                        method: "get",
+                        response: {permission: permission},
+                        code: OK_REQUEST_CODE
+                    });
+                    return res.status(OK_REQUEST_CODE).json(permission);
+                })
+                .catch(e => {
+                    // catch repository getPermission Error
+                    this.emitter.emit("permission", {
+                        method: "get",
+                        response: e,
+                        code: BAD_REQUEST_CODE
+                    });
+                    return res.status(BAD_REQUEST_CODE).json({message: e.message});
+                });
+        }
+        if (enabled) {
+            this.repository.getByEnabled(enabled as string === "true")
+                .then((permissions: PermissionEntity[]) => {
+                    this.emitter.emit("permission", {
+                        method: "get",
+                        response: {permissions: permissions},
+                        code: OK_REQUEST_CODE
+                    });
+                    return res.status(OK_REQUEST_CODE).json(permissions);
+                })
+                .catch(e => {
+                    // catch repository getPermission Error
+                    this.emitter.emit("permission", {
+                        method: "get",
+                        response: e,
+                        code: BAD_REQUEST_CODE
+                    });
+                    return res.status(BAD_REQUEST_CODE).json({message: e.message});
+                });
+        }
+        this.repository.get()
+            .then((permissions: PermissionEntity[]) => {
+                this.emitter.emit("permission", {
+                    method: "get",
+                    response: {permissions: permissions.filter((permission: PermissionEntity) => permission.removed === null || permission.removed === undefined)},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json(permissions.filter((permission: PermissionEntity) => permission.removed === null || permission.removed === undefined));
+            })
+            .catch(e => {
+                this.emitter.emit("permission", {
+                    method: "get",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+
+    /**
+     * getOne function to get one permission for update /api/v1/permission/:id
+     * @param req
+     * @param res
+     */
+    public getOne (req: express.Request, res: express.Response): express.Response {
+        const id = Number(req.params.id);
+        if (!id || !Number.isFinite(id)) {
+            this.emitter.emit("permission", {
+                method: "getOne",
+                response: "invalid parameters",
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: "invalid parameters"});
+        }
+        this.repository.getById(id)
+            .then((permission: PermissionEntity) => {
+                if (permission) {
+                    this.emitter.emit("permission", {
+                        method: "getOne",
+                        response: {permission: permission},
+                        code: OK_REQUEST_CODE
+                    });
+                    return res.status(OK_REQUEST_CODE).json({permission: permission});
+                }
+            })
+            .catch(e => {
+                // catch repository getPermission Error
+                this.emitter.emit("permission", {
+                    method: "getOne",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+
+    /**
+     * put /api/v1/permission
+     * update permissions
+     * @param req
+     * @param res
+     */
+    public update (req: express.Request, res: express.Response): express.Response {
+        if (!req.body.id) {
+            this.emitter.emit("permission", {
+                method: "update",
+                response: "invalid parameters",
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: "invalid parameters"});
+        }
+        this.repository.getById(req.body.id)
+            .then((permission: PermissionEntity) => {
+                if (permission) {
+                    const before = snapshot(permission);
+                    // change permission status
+                    if (req.body.title) {
+                        permission.title = req.body.title;
+                    }
+                    if (req.body.description) {
+                        permission.description = req.body.description;
+                    }
+                    if (permission.enabled !== req.body.enabled) {
+                        permission.enabled = req.body.enabled;
+                    }
+                    if (req.body.roles) {
+                        permission.roles = [...new Set(req.body.roles)] as number[];
+                    }
+                    permission.save()
+                        .then((r: PermissionEntity) => {
+                            audit(req, "permission", AUDIT_ACTION_UPDATE, r.id, before, r);
+                            this.emitter.emit("permission", {
+                                method: "update",
+                                response: {permission: r},
+                                code: OK_REQUEST_CODE
+                            });
+                            return res.status(OK_REQUEST_CODE).json({permission: r});
+                        })
+                        .catch((e: Error) => {
+                            // catch error while saving from permission repository update
+                            this.emitter.emit("permission", {
+                                method: "update",
+                                response: e,
+                                code: BAD_REQUEST_CODE
+                            });
+                            return res.status(BAD_REQUEST_CODE).json({message: e.message});
+                        });
+                }
+            })
+            .catch(e => {
+                // catch repository getPermission Error
+                this.emitter.emit("permission", {
+                    method: "update",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+
+    /**
+     * POST /api/v1/permission
+     * @param req
+     * @param res
+     */
+    public create (req: express.Request, res: express.Response): express.Response {
+        try {
+            if (req.body.title === "") {
+                throw new Error(ERROR_PERMISSION_EMPTY_TITLE);
+            }
+            if (req.body.description === "") {
+                throw new Error(ERROR_PERMISSION_EMPTY_DESCRIPTION);
+            }
+            if (req.body.title !== "") {
+                this.repository.getByName(req.body.title)
+                    .then(async (permission: PermissionEntity) => {
+                        if (permission) {
+                            if (permission.removed !== null) {
+                                const before = snapshot(permission);
+                                permission.removed = undefined;
+                                permission.enabled = true;
+                                const restored = await permission.save();
+                                audit(req, "permission", AUDIT_ACTION_RESTORE, restored.id, before, restored);
+                                this.emitter.emit("permission", {
+                                    method: "create",
+                                    response: {permission: restored},
+                                    code: OK_REQUEST_CODE
+                                });
+                                return res.status(OK_REQUEST_CODE).json({permission: restored});
+                            } else {
+                                this.emitter.emit("permission", {
+                                    method: "create",
+                                    response: "permission exist",
+                                    code: BAD_REQUEST_CODE
+                                });
+                                return res.status(BAD_REQUEST_CODE).json({message: "permission exist"});
+                            }
+                        } else {
+                            this.repository
+                                .create(new PermissionEntity(
+                                    null,
+                                    req.body.title,
+                                    req.body.description,
+                                    req.body.enabled
+                                ))
+                                .then((permission: PermissionEntity) => {
+                                    audit(req, "permission", AUDIT_ACTION_CREATE, permission.id, null, permission);
+                                    this.emitter.emit("permission", {
+                                        method: "create",
+                                        response: {permission: permission},
+                                        code: OK_REQUEST_CODE
+                                    });
+                                    return res.status(OK_REQUEST_CODE).json({permission: permission});
+                                })
+                                .catch(e => {
+                                    this.emitter.emit("permission", {
+                                        method: "create",
+                                        response: e,
+                                        code: BAD_REQUEST_CODE
+                                    });
+                                    return res.status(BAD_REQUEST_CODE).json({message: e.message});
+                                });
+                        }
+                    })
+                    .catch(e => {
+                        this.emitter.emit("permission", {
+                            method: "create",
+                            response: e,
+                            code: BAD_REQUEST_CODE
+                        });
+                        return res.status(BAD_REQUEST_CODE).json({message: e.message});
+                    });
+            }
+        } catch (e) {
+            this.emitter.emit("permission", {
+                method: "create",
+                response: e,
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: e.message});
+        }
+    }
+
+    public delete (req: express.Request, res: express.Response): express.Response {
+        if (!req.body.id) {
+            this.emitter.emit("permission", {
+                method: "delete",
+                response: "invalid parameters",
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: "invalid parameters"});
+        }
+        this.repository.getById(req.body.id)
+            .then((permission: PermissionEntity) => {
+                if (permission) {
+                    const before = snapshot(permission);
+                    permission.remove()
+                    .then((removedPermission: PermissionEntity) => {
+                        audit(req, "permission", AUDIT_ACTION_DELETE, removedPermission.id, before, removedPermission);
+                        this.emitter.emit("permission", {
+                            method: "delete",
+                            response: {permission: removedPermission},
+                            code: OK_REQUEST_CODE
+                        });
+                        return res.status(OK_REQUEST_CODE).json({permission: removedPermission});
+                    })
+                    .catch(e => {
+                        this.emitter.emit("permission", {
+                            method: "delete",
+                            response: e,
+                            code: BAD_REQUEST_CODE
+                        });
+                        return res.status(BAD_REQUEST_CODE).json({message: e.message});
+                    });
+                } else {
+                    this.emitter.emit("permission", {
+                        method: "delete",
+                        response: new Error("no permissions found"),
+                        code: BAD_REQUEST_CODE
+                    });
+                    return res.status(BAD_REQUEST_CODE).json({message: "no permissions found"});
+                }
+            })
+            .catch(e => {
+                this.emitter.emit("permission", {
+                    method: "delete",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+}
\ No newline at end of file
@@ -11,10 +11,19 @@ import {EMITTER_SERVICE, ROLE_REPOSITORY_SERVICE} from "../../services/app.const
 import {Service} from "../../services/app.service";
 import {RoleEntity} from "../../db/entities/roles.entity";
 import EventEmitter from "events";
-import {IRoleServiceRepository} from "../../db/interfaces/role.interface";
+import {ROLE_LIST_SORT, IRoleServiceRepository} from "../../db/interfaces/role.interface";
+import {ListResult} from "../../db/interfaces/list.interface";
+import {audit, snapshot} from "../../util/audit";
+import {
+    AUDIT_ACTION_CREATE,
+    AUDIT_ACTION_DELETE,
+    AUDIT_ACTION_PURGE,
+    AUDIT_ACTION_RESTORE,
+    AUDIT_ACTION_UPDATE
+} from "../../db/entities/audit.entity";
 
-const ERROR_ROLE_EMPTY_TITLE = "empty title";
-const ERROR_ROLE_EMPTY_DESCRIPTION = "empty description";
+export const ERROR_ROLE_EMPTY_TITLE = "empty title";
+export const ERROR_ROLE_EMPTY_DESCRIPTION = "empty description";
 
 export class RoleController extends BaseController implements ICRUDController {
     repository: IRoleServiceRepository
@@ -28,6 +37,9 @@ export class RoleController extends BaseController implements ICRUDController {
         this.update = this.update.bind(this);
         this.create = this.create.bind(this);
         this.delete = this.delete.bind(this);
+        this.trash = this.trash.bind(this);
+        this.restore = this.restore.bind(this);
+        this.purge = this.purge.bind(this);
 
         this.emitter.on("role", (message) => {
             this.compileLogger(message, "role", "roles");
@@ -35,13 +47,13 @@ export class RoleController extends BaseController implements ICRUDController {
     }
 
     /**
-     * get all roles
+     * get role by id or title, otherwise page of roles
      * @param req
      * @param res
      */
     public get (req: express.Request, res: express.Response): express.Response {
         // use with parameters
-        const {id, title, enabled} = req.query;
+        const {id, title} = req.query;
         if (id) {
             if (Number.isFinite(Number(id))) {
                 this.repository.getById(Number(id as string))
@@ -70,8 +82,7 @@ export class RoleController extends BaseController implements ICRUDController {
                 });
                 return res.status(BAD_REQUEST_CODE).json([]);
             }
-        }
-        if (title) {
+        } else if (title) {
             this.repository.getByName(title as string)
                 .then((role: RoleEntity) => {
                     this.emitter.emit("role", {
@@ -90,44 +101,35 @@ export class RoleController extends BaseController implements ICRUDController {
                     });
                     return res.status(BAD_REQUEST_CODE).json({message: e.message});
                 });
-        }
-        if (enabled) {
-            this.repository.getByEnabled(enabled as string === "true")
-                .then((roles: RoleEntity[]) => {
-                    this.emitter.emit("role", {
-                        method: "get",
-                        response: {roles: roles},
-                        code: OK_REQUEST_CODE
-                    });
-                    return res.status(OK_REQUEST_CODE).json(roles);
-                })
-                .catch(e => {
-                    // catch repository getRole Error
-                    this.emitter.emit("role", {
-                        method: "get",
-                        response: e,
-                        code: BAD_REQUEST_CODE
+        } else {
+            try {
+                const query = this.listQuery(req, ROLE_LIST_SORT);
+                this.repository.get(query)
+                    .then((result: ListResult<RoleEntity>) => {
+                        this.emitter.emit("role", {
+                            method: "get",
+                            response: {roles: result.items},
+                            code: OK_REQUEST_CODE
+                        });
+                        return res.status(OK_REQUEST_CODE).json(this.listResponse("roles", result));
+                    })
+                    .catch(e => {
+                        this.emitter.emit("role", {
+                            method: "get",
+                            response: e,
+                            code: BAD_REQUEST_CODE
+                        });
+                        return res.status(BAD_REQUEST_CODE).json({message: e.message});
                     });
-                    return res.status(BAD_REQUEST_CODE).json({message: e.message});
-                });
-        }
-        this.repository.get()
-            .then((roles: RoleEntity[]) => {
-                this.emitter.emit("role", {
-                    method: "get",
-                    response: {roles: roles.filter((role: RoleEntity) => role.removed === null || role.removed === undefined)},
-                    code: OK_REQUEST_CODE
-                });
-                return res.status(OK_REQUEST_CODE).json(roles.filter((role: RoleEntity) => role.removed === null || role.removed === undefined));
-            })
-            .catch(e => {
+            } catch (e) {
                 this.emitter.emit("role", {
                     method: "get",
                     response: e,
                     code: BAD_REQUEST_CODE
                 });
                 return res.status(BAD_REQUEST_CODE).json({message: e.message});
-            });
+            }
+        }
     }
 
     /**
@@ -185,6 +187,7 @@ export class RoleController extends BaseController implements ICRUDController {
         this.repository.getById(req.body.id)
             .then((role: RoleEntity) => {
                 if (role) {
+                    const before = snapshot(role);
                     // change role status
                     if (req.body.title) {
                         role.title = req.body.title;
@@ -198,8 +201,12 @@ export class RoleController extends BaseController implements ICRUDController {
                     if (req.body.users) {
                         role.users = req.body.users;
                     }
+                    if (req.body.permissions) {
+                        role.permissions = [...new Set(req.body.permissions)] as number[];
+                    }
                     role.save()
                         .then((r: RoleEntity) => {
+                            audit(req, "role", AUDIT_ACTION_UPDATE, r.id, before, r);
                             this.emitter.emit("role", {
                                 method: "update",
                                 response: {role: r},
@@ -247,14 +254,17 @@ export class RoleController extends BaseController implements ICRUDController {
                     .then(async (role: RoleEntity) => {
                         if (role) {
                             if (role.removed !== null) {
+                                const before = snapshot(role);
                                 role.removed = undefined;
                                 role.enabled = true;
+                                const restored = await role.save();
+                                audit(req, "role", AUDIT_ACTION_RESTORE, restored.id, before, restored);
                                 this.emitter.emit("role", {
                                     method: "create",
-                                    response: {role: role},
+                                    response: {role: restored},
                                     code: OK_REQUEST_CODE
                                 });
-                                return res.status(OK_REQUEST_CODE).json({role: await role.save()});
+                                return res.status(OK_REQUEST_CODE).json({role: restored});
                             } else {
                                 this.emitter.emit("role", {
                                     method: "create",
@@ -272,6 +282,7 @@ export class RoleController extends BaseController implements ICRUDController {
                                     req.body.enabled
                                 ))
                                 .then((role: RoleEntity) => {
+                                    audit(req, "role", AUDIT_ACTION_CREATE, role.id, null, role);
                                     this.emitter.emit("role", {
                                         method: "create",
                                         response: {role: role},
@@ -320,8 +331,10 @@ export class RoleController extends BaseController implements ICRUDController {
         this.repository.getById(req.body.id)
             .then((role: RoleEntity) => {
                 if (role) {
+                    const before = snapshot(role);
                     role.remove()
                     .then((removedRole: RoleEntity) => {
+                        audit(req, "role", AUDIT_ACTION_DELETE, removedRole.id, before, removedRole);
                         this.emitter.emit("role", {
                             method: "create",
                             response: {role: removedRole},
@@ -355,4 +368,120 @@ export class RoleController extends BaseController implements ICRUDController {
                 return res.status(BAD_REQUEST_CODE).json({message: e.message});
             });
     }
-}
\ No newline at end of file
+
+    /**
+     * get page of removed roles /api/v1/role/trash
+     * @param req
+     * @param res
+     */
+    public trash (req: express.Request, res: express.Response): express.Response {
+        try {
+            const query = this.listQuery(req, ROLE_LIST_SORT);
+            this.repository.getRemoved(query)
+                .then((result: ListResult<RoleEntity>) => {
+                    this.emitter.emit("role", {
+                        method: "trash",
+                        response: {roles: result.items},
+                        code: OK_REQUEST_CODE
+                    });
+                    return res.status(OK_REQUEST_CODE).json(this.listResponse("roles", result));
+                })
+                .catch(e => {
+                    this.emitter.emit("role", {
+                        method: "trash",
+                        response: e,
+                        code: BAD_REQUEST_CODE
+                    });
+                    return res.status(BAD_REQUEST_CODE).json({message: e.message});
+                });
+        } catch (e) {
+            this.emitter.emit("role", {
+                method: "trash",
+                response: e,
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: e.message});
+        }
+    }
+
+    /**
+     * post /api/v1/role/:id/restore
+     * @param req
+     * @param res
+     */
+    public restore (req: express.Request, res: express.Response): express.Response {
+        const id = Number(req.params.id);
+        if (!id || !Number.isFinite(id)) {
+            this.emitter.emit("role", {
+                method: "restore",
+                response: new Error("invalid parameters"),
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: "invalid parameters"});
+        }
+        this.repository.getById(id)
+            .then(async (role: RoleEntity) => {
+                if (!role || !role.removed) {
+                    throw new Error("no removed roles found");
+                }
+                const before = snapshot(role);
+                const restored = await this.repository.restore(role);
+                audit(req, "role", AUDIT_ACTION_RESTORE, role.id, before, restored);
+                this.emitter.emit("role", {
+                    method: "restore",
+                    response: {role: restored},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({role: restored});
+            })
+            .catch(e => {
+                this.emitter.emit("role", {
+                    method: "restore",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+
+    /**
+     * delete /api/v1/role/:id/purge
+     * permanently delete removed role
+     * @param req
+     * @param res
+     */
+    public purge (req: express.Request, res: express.Response): express.Response {
+        const id = Number(req.params.id);
+        if (!id || !Number.isFinite(id)) {
+            this.emitter.emit("role", {
+                method: "purge",
+                response: new Error("invalid parameters"),
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: "invalid parameters"});
+        }
+        this.repository.getById(id)
+            .then(async (role: RoleEntity) => {
+                if (!role || !role.removed) {
+                    throw new Error("no removed roles found");
+                }
+                const before = snapshot(role);
+                const purged = await this.repository.purge(role);
+                audit(req, "role", AUDIT_ACTION_PURGE, role.id, before, null);
+                this.emitter.emit("role", {
+                    method: "purge",
+                    response: {role: purged},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({role: purged});
+            })
+            .catch(e => {
+                this.emitter.emit("role", {
+                    method: "purge",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+}
@@ -0,0 +1,111 @@
+"use strict";
+import express from "express";
+import {
+    BAD_REQUEST_CODE,
+    BaseController,
+    ERROR_LIST_INVALID_PARAMETER,
+    FORBIDDEN_REQUEST_CODE,
+    OK_REQUEST_CODE
+} from "../base.controller";
+import EventEmitter from "events";
+import {Service} from "../../services/app.service";
+import {
+    EMITTER_SERVICE,
+    PERMISSION_REPOSITORY_SERVICE,
+    SEARCH_REPOSITORY_SERVICE
+} from "../../services/app.constants";
+import {memberScope} from "../../middlewares/auth.middleware";
+import {
+    ISearchServiceRepository,
+    SEARCH_TYPE_ACCOUNT,
+    SEARCH_TYPE_USER,
+    SearchResult
+} from "../../db/interfaces/search.interface";
+import {IPermissionServiceRepository} from "../../db/interfaces/permission.interface";
+import {
+    ACCOUNT_READ_PERMISSION,
+    PermissionEntity,
+    USER_READ_PERMISSION
+} from "../../db/entities/permissions.entity";
+import {UserEntity} from "../../db/entities/users.entity";
+import {ERROR_FORBIDDEN} from "../auth/auth.error.codes";
+import {DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT} from "../../db/interfaces/list.interface";
+
+const ERROR_SEARCH_EMPTY_QUERY = "search query must have at least 2 characters";
+
+export class SearchController extends BaseController {
+    repository:  ISearchServiceRepository
+    permissions: IPermissionServiceRepository
+    emitter:     EventEmitter
+    constructor() {
+        super();
+        this.repository  = Service.getService<ISearchServiceRepository>(SEARCH_REPOSITORY_SERVICE);
+        this.permissions = Service.getService<IPermissionServiceRepository>(PERMISSION_REPOSITORY_SERVICE);
+        this.emitter     = Service.getService<EventEmitter>(EMITTER_SERVICE);
+        this.get = this.get.bind(this);
+
+        this.emitter.on("search", (message) => {
+            this.compileLogger(message, "search", "results");
+        });
+    }
+
+    /**
+     * search users and accounts /api/v1/search?q=
+     * only types readable by the caller are searched, type narrows them further
+     * @param req
+     * @param res
+     */
+    public get (req: express.Request, res: express.Response): express.Response {
+        const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+        const limit = req.query.limit === undefined ? DEFAULT_LIST_LIMIT : Number(req.query.limit);
+        if (q.length < 2) {
+            this.emitter.emit("search", {
+                method: "get",
+                response: new Error(ERROR_SEARCH_EMPTY_QUERY),
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: ERROR_SEARCH_EMPTY_QUERY});
+        }
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+            this.emitter.emit("search", {
+                method: "get",
+                response: new Error(`${ERROR_LIST_INVALID_PARAMETER} limit`),
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: `${ERROR_LIST_INVALID_PARAMETER} limit`});
+        }
+        (async () => {
+            const granted = (await this.permissions.getByUser((req.user as UserEntity).id))
+                .map((permission: PermissionEntity) => permission.title);
+            const types = [
+                [SEARCH_TYPE_USER, USER_READ_PERMISSION],
+                [SEARCH_TYPE_ACCOUNT, ACCOUNT_READ_PERMISSION]
+            ]
+                .filter(([type, permission]) => granted.indexOf(permission) !== -1 && (!req.query.type || req.query.type === type))
+                .map(([type]) => type);
+            if (types.length === 0) {
+                this.emitter.emit("search", {
+                    method: "get",
+                    response: new Error(ERROR_FORBIDDEN),
+                    code: FORBIDDEN_REQUEST_CODE
+                });
+                return res.status(FORBIDDEN_REQUEST_CODE).json({message: ERROR_FORBIDDEN});
+            }
+            const results: SearchResult[] = await this.repository.search(q, types, limit, memberScope(req));
+            this.emitter.emit("search", {
+                method: "get",
+                response: {results: results},
+                code: OK_REQUEST_CODE
+            });
+            return res.status(OK_REQUEST_CODE).json({results: results});
+        })()
+            .catch(e => {
+                this.emitter.emit("search", {
+                    method: "get",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+}
@@ -3,17 +3,38 @@ import express from "express";
 import {
     BAD_REQUEST_CODE,
     BaseController,
+    FORBIDDEN_REQUEST_CODE,
     ICRUDController,
     OK_REQUEST_CODE
 } from "../base.controller";
 import EventEmitter from "events";
+import {grantable, manageable, memberScope} from "../../middlewares/auth.middleware";
 import {Service} from "../../services/app.service";
-import {CONFIG_SERVICE, EMITTER_SERVICE, USER_REPOSITORY_SERVICE} from "../../services/app.constants";
+import {
+    CONFIG_SERVICE,
+    EMITTER_SERVICE,
+    LOCKOUT_SERVICE,
+    SESSION_SERVICE,
+    USER_REPOSITORY_SERVICE
+} from "../../services/app.constants";
 import {UserRepository} from "../../db/storage/postgres/repository/user.repository";
 import {PublicUser, UserEntity} from "../../db/entities/users.entity";
 import {Config} from "../../util/secrets";
-import {IUserServiceRepository} from "../../db/interfaces/user.interface";
+import {IUserServiceRepository, USER_LIST_SORT} from "../../db/interfaces/user.interface";
 import {AuthController} from "../auth/auth.controller";
+import {ListResult} from "../../db/interfaces/list.interface";
+import {audit, snapshot} from "../../util/audit";
+import {ISessionService} from "../../services/session.service";
+import {ILockoutService} from "../../services/lockout.service";
+import logger from "../../util/logger";
+import {ERROR_ROLE_NOT_GRANTABLE, ERROR_USER_NOT_MANAGEABLE} from "../auth/auth.error.codes";
+import {
+    AUDIT_ACTION_DELETE,
+    AUDIT_ACTION_PURGE,
+    AUDIT_ACTION_RESTORE,
+    AUDIT_ACTION_UNLOCK,
+    AUDIT_ACTION_UPDATE
+} from "../../db/entities/audit.entity";
 
 export class UserController extends BaseController implements ICRUDController {
     repository: IUserServiceRepository
@@ -29,6 +50,10 @@ export class UserController extends BaseController implements ICRUDController {
         this.update = this.update.bind(this);
         this.create = this.create.bind(this);
         this.delete = this.delete.bind(this);
+        this.trash = this.trash.bind(this);
+        this.restore = this.restore.bind(this);
+        this.purge = this.purge.bind(this);
+        this.unlock = this.unlock.bind(this);
 
         this.emitter.on("user", (message) => {
             this.compileLogger(message, "user", "users");
@@ -80,16 +105,17 @@ export class UserController extends BaseController implements ICRUDController {
     }
 
     /**
-     * get /api/v1/user
+     * get page of users /api/v1/user
      * @param req
      * @param res
      */
     public get (req: express.Request, res: express.Response): express.Response {
         try {
+            const query = this.listQuery(req, USER_LIST_SORT);
             (async() => {
-                const users = await this.repository.get();
-                if (users.length === 0) {
-                    this.emitter.emit("config", `${users.length} users found. creating ${this.config.defaultUser.username}`);
+                const result = await this.repository.get(query, memberScope(req));
+                if (result.total === 0 && query.enabled === undefined && !query.createdFrom && !query.createdTo) {
+                    this.emitter.emit("config", `${result.total} users found. creating ${this.config.defaultUser.username}`);
                     this.createFirstUser()
                         .then((user: UserEntity) => {
                             this.emitter.emit("user", {
@@ -97,7 +123,12 @@ export class UserController extends BaseController implements ICRUDController {
                                 response: {user: user},
                                 code: OK_REQUEST_CODE
                             });
-                            return res.status(OK_REQUEST_CODE).json([user]);
+                            return res.status(OK_REQUEST_CODE).json(this.listResponse("users", {
+                                items: [user],
+                                total: 1,
+                                limit: result.limit,
+                                offset: 0
+                            }));
                         })
                         .catch(e => {
                             this.emitter.emit("user", {
@@ -110,12 +141,19 @@ export class UserController extends BaseController implements ICRUDController {
                 } else {
                     this.emitter.emit("user", {
                         method: "get",
-                        response: {users: users.filter((user: UserEntity) => user.removed === null || user.removed === undefined)},
+                        response: {users: result.items},
                         code: OK_REQUEST_CODE
                     });
-                    return res.status(OK_REQUEST_CODE).json(users.filter((user: UserEntity) => user.removed === null || user.removed === undefined));
+                    return res.status(OK_REQUEST_CODE).json(this.listResponse("users", result));
                 }
-            })();
+            })().catch(e => {
+                this.emitter.emit("user", {
+                    method: "get",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
         } catch (e) {
             this.emitter.emit("user", {
                 method: "get",
@@ -136,15 +174,24 @@ export class UserController extends BaseController implements ICRUDController {
             });
             return res.status(BAD_REQUEST_CODE).json({message: "invalid parameters"});
         }
-        this.repository.getById(id)
+        this.repository.getById(id, memberScope(req))
             .then((user: UserEntity) => {
                 if (user) {
+                    // pending verification token is sent only to email of user
+                    user.emailVerifyToken = null;
                     this.emitter.emit("user", {
                         method: "getOne",
                         response: {user: user},
                         code: OK_REQUEST_CODE
                     });
                     return res.status(OK_REQUEST_CODE).json({user: user});
+                } else {
+                    this.emitter.emit("user", {
+                        method: "getOne",
+                        response: {user: null},
+                        code: OK_REQUEST_CODE
+                    });
+                    return res.status(OK_REQUEST_CODE).json({user: null});
                 }
             })
             .catch(e => {
@@ -157,6 +204,19 @@ export class UserController extends BaseController implements ICRUDController {
             });
     }
 
+    /**
+     * roles granted or revoked by update are grantable by the caller
+     * @param caller
+     * @param current roles of user
+     * @param roles roles of user after update
+     */
+    private static changesGrantable(caller: UserEntity, current: number[], roles: number[]): boolean {
+        const before = (current || []).map(roleId => Number(roleId));
+        const after = roles.map(roleId => Number(roleId));
+        return grantable(caller, after.filter(roleId => before.indexOf(roleId) === -1)
+            .concat(before.filter(roleId => after.indexOf(roleId) === -1)));
+    }
+
     /**
      * put /api/v1/user
      * @param req
@@ -171,9 +231,27 @@ export class UserController extends BaseController implements ICRUDController {
             });
             return res.status(BAD_REQUEST_CODE).json({message: "invalid parameters"});
         }
-        this.repository.getById(req.body.id)
+        this.repository.getById(req.body.id, memberScope(req))
             .then((user: UserEntity) => {
                 if (user) {
+                    if (!manageable(req.user as UserEntity, user)) {
+                        this.emitter.emit("user", {
+                            method: "update",
+                            response: new Error(`${user.username} ${ERROR_USER_NOT_MANAGEABLE}`),
+                            code: FORBIDDEN_REQUEST_CODE
+                        });
+                        return res.status(FORBIDDEN_REQUEST_CODE).json({message: ERROR_USER_NOT_MANAGEABLE});
+                    }
+                    if (req.body.roles && !UserController.changesGrantable(req.user as UserEntity, user.roles, req.body.roles)) {
+                        this.emitter.emit("user", {
+                            method: "update",
+                            response: new Error(`${user.username} ${ERROR_ROLE_NOT_GRANTABLE}`),
+                            code: FORBIDDEN_REQUEST_CODE
+                        });
+                        return res.status(FORBIDDEN_REQUEST_CODE).json({message: ERROR_ROLE_NOT_GRANTABLE});
+                    }
+                    const before = snapshot(user);
+                    const disabled = user.enabled && req.body.enabled === false;
                     // change user status
                     if (req.body.email !== "") {
                         user.email = req.body.email;
@@ -185,10 +263,6 @@ export class UserController extends BaseController implements ICRUDController {
                         this.emitter.emit("user", `change ${user.username} enabled/disabled`);
                         user.enabled = req.body.enabled;
                     }
-                    if (req.body.secret === "") {
-                        user.secret = req.body.secret;
-                        this.emitter.emit("user", `reset ${user.username} 2FA`);
-                    }
                     if (req.body.roles) {
                         user.roles = [...new Set(req.body.roles)] as number[];
                     }
@@ -196,7 +270,13 @@ export class UserController extends BaseController implements ICRUDController {
                         user.accounts = [...new Set(req.body.accounts)] as number[];
                     }
                     user.save()
-                        .then((u: UserEntity) => {
+                        .then(async (u: UserEntity) => {
+                            audit(req, "user", AUDIT_ACTION_UPDATE, u.id, before, u);
+                            if (disabled) {
+                                // disabled user is signed out everywhere
+                                await Service.getService<ISessionService>(SESSION_SERVICE).revokeUser(u.id)
+                                    .catch(e => logger.error(`user.update revoke sessions of ${u.username} ${e.message}`));
+                            }
                             const publicUser: PublicUser = {
                                 id: u.id,
                                 username: u.username,
@@ -207,7 +287,10 @@ export class UserController extends BaseController implements ICRUDController {
                                 expired: null,
                                 token: null,
                                 roles: u.roles,
-                                accounts: u.accounts
+                                accounts: u.accounts,
+                                locked: u.isLocked(),
+                                lockedUntil: u.lockedUntil || null,
+                                emailVerified: !!u.emailVerified
                             };
                             this.emitter.emit("user", {
                                 method: "update",
@@ -223,6 +306,8 @@ export class UserController extends BaseController implements ICRUDController {
                         });
                         return res.status(BAD_REQUEST_CODE).json({message: e.message});
                     });
+                } else {
+                    throw new Error("no user");
                 }
             })
             .catch(e => {
@@ -268,11 +353,16 @@ export class UserController extends BaseController implements ICRUDController {
             });
             return res.status(BAD_REQUEST_CODE).json({message: "invalid parameters"});
         }
-        this.repository.getById(req.body.id)
+        this.repository.getById(req.body.id, memberScope(req))
             .then(async (user: UserEntity) => {
                 if (user) {
+                    if (!manageable(req.user as UserEntity, user)) {
+                        throw new Error(ERROR_USER_NOT_MANAGEABLE);
+                    }
                     try {
+                        const before = snapshot(user);
                         const removedUser = await user.remove();
+                        audit(req, "user", AUDIT_ACTION_DELETE, removedUser.id, before, removedUser);
                         const publicUser: PublicUser = {
                             id: removedUser.id,
                             username: removedUser.username,
@@ -283,7 +373,10 @@ export class UserController extends BaseController implements ICRUDController {
                             expired: null,
                             token: null,
                             roles: removedUser.roles,
-                            accounts: removedUser.accounts
+                            accounts: removedUser.accounts,
+                            locked: removedUser.isLocked(),
+                            lockedUntil: removedUser.lockedUntil || null,
+                            emailVerified: !!removedUser.emailVerified
                         };
                         this.emitter.emit("user", {
                             method: "delete",
@@ -299,12 +392,211 @@ export class UserController extends BaseController implements ICRUDController {
                 }
             })
             .catch(e => {
+                const code = e.message === ERROR_USER_NOT_MANAGEABLE ? FORBIDDEN_REQUEST_CODE : BAD_REQUEST_CODE;
                 this.emitter.emit("user", {
                     method: "delete",
                     response: e,
+                    code
+                });
+                return res.status(code).json({message: e.message});
+            });
+    }
+
+    /**
+     * get page of removed users /api/v1/user/trash
+     * @param req
+     * @param res
+     */
+    public trash (req: express.Request, res: express.Response): express.Response {
+        try {
+            const query = this.listQuery(req, USER_LIST_SORT);
+            this.repository.getRemoved(query, memberScope(req))
+                .then((result: ListResult<UserEntity>) => {
+                    this.emitter.emit("user", {
+                        method: "trash",
+                        response: {users: result.items},
+                        code: OK_REQUEST_CODE
+                    });
+                    return res.status(OK_REQUEST_CODE).json(this.listResponse("users", result));
+                })
+                .catch(e => {
+                    this.emitter.emit("user", {
+                        method: "trash",
+                        response: e,
+                        code: BAD_REQUEST_CODE
+                    });
+                    return res.status(BAD_REQUEST_CODE).json({message: e.message});
+                });
+        } catch (e) {
+            this.emitter.emit("user", {
+                method: "trash",
+                response: e,
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: e.message});
+        }
+    }
+
+    /**
+     * post /api/v1/user/:id/restore
+     * @param req
+     * @param res
+     */
+    public restore (req: express.Request, res: express.Response): express.Response {
+        const id = Number(req.params.id);
+        if (!id || !Number.isFinite(id)) {
+            this.emitter.emit("user", {
+                method: "restore",
+                response: new Error("invalid parameters"),
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: "invalid parameters"});
+        }
+        this.repository.getById(id, memberScope(req))
+            .then(async (user: UserEntity) => {
+                if (!user || !user.removed) {
+                    throw new Error("no removed users found");
+                }
+                if (!manageable(req.user as UserEntity, user)) {
+                    throw new Error(ERROR_USER_NOT_MANAGEABLE);
+                }
+                const before = snapshot(user);
+                const restored = await this.repository.restore(user);
+                audit(req, "user", AUDIT_ACTION_RESTORE, user.id, before, restored);
+                const publicUser: PublicUser = {
+                    id: restored.id,
+                    username: restored.username,
+                    gravatar: restored.gravatar,
+                    email: restored.email,
+                    enabled: restored.enabled,
+                    removed: !!restored.removed,
+                    expired: null,
+                    token: null,
+                    roles: restored.roles,
+                    accounts: restored.accounts,
+                    locked: restored.isLocked(),
+                    lockedUntil: restored.lockedUntil || null,
+                    emailVerified: !!restored.emailVerified
+                };
+                this.emitter.emit("user", {
+                    method: "restore",
+                    response: {user: publicUser},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({user: publicUser});
+            })
+            .catch(e => {
+                const code = e.message === ERROR_USER_NOT_MANAGEABLE ? FORBIDDEN_REQUEST_CODE : BAD_REQUEST_CODE;
+                this.emitter.emit("user", {
+                    method: "restore",
+                    response: e,
+                    code
+                });
+                return res.status(code).json({message: e.message});
+            });
+    }
+
+    /**
+     * post /api/v1/user/:id/unlock
+     * forget failed sign in attempts of locked user
+     * @param req
+     * @param res
+     */
+    public unlock (req: express.Request, res: express.Response): void {
+        this.repository.getById(Number(req.params.id), memberScope(req))
+            .then(async (user: UserEntity) => {
+                if (!user) {
+                    throw new Error("no user");
+                }
+                const before = snapshot(user);
+                await Service.getService<ILockoutService>(LOCKOUT_SERVICE).unlock(user.id);
+                const unlocked = await this.repository.getById(user.id);
+                audit(req, "user", AUDIT_ACTION_UNLOCK, user.id, before, unlocked);
+                const publicUser: PublicUser = {
+                    id: unlocked.id,
+                    username: unlocked.username,
+                    gravatar: unlocked.gravatar,
+                    email: unlocked.email,
+                    enabled: unlocked.enabled,
+                    removed: !!unlocked.removed,
+                    expired: null,
+                    token: null,
+                    roles: unlocked.roles,
+                    accounts: unlocked.accounts,
+                    locked: unlocked.isLocked(),
+                    lockedUntil: unlocked.lockedUntil || null,
+                    emailVerified: !!unlocked.emailVerified
+                };
+                this.emitter.emit("user", {
+                    method: "unlock",
+                    response: {user: publicUser},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({user: publicUser});
+            })
+            .catch(e => {
+                this.emitter.emit("user", {
+                    method: "unlock",
+                    response: e,
+                    code: BAD_REQUEST_CODE
+                });
+                return res.status(BAD_REQUEST_CODE).json({message: e.message});
+            });
+    }
+
+    /**
+     * delete /api/v1/user/:id/purge
+     * permanently delete removed user
+     * @param req
+     * @param res
+     */
+    public purge (req: express.Request, res: express.Response): express.Response {
+        const id = Number(req.params.id);
+        if (!id || !Number.isFinite(id)) {
+            this.emitter.emit("user", {
+                method: "purge",
+                response: new Error("invalid parameters"),
+                code: BAD_REQUEST_CODE
+            });
+            return res.status(BAD_REQUEST_CODE).json({message: "invalid parameters"});
+        }
+        this.repository.getById(id, memberScope(req))
+            .then(async (user: UserEntity) => {
+                if (!user || !user.removed) {
+                    throw new Error("no removed users found");
+                }
+                const before = snapshot(user);
+                const purged = await this.repository.purge(user);
+                audit(req, "user", AUDIT_ACTION_PURGE, user.id, before, null);
+                const publicUser: PublicUser = {
+                    id: purged.id,
+                    username: purged.username,
+                    gravatar: purged.gravatar,
+                    email: purged.email,
+                    enabled: purged.enabled,
+                    removed: !!purged.removed,
+                    expired: null,
+                    token: null,
+                    roles: purged.roles,
+                    accounts: purged.accounts,
+                    locked: purged.isLocked(),
+                    lockedUntil: purged.lockedUntil || null,
+                    emailVerified: !!purged.emailVerified
+                };
+                this.emitter.emit("user", {
+                    method: "purge",
+                    response: {user: publicUser},
+                    code: OK_REQUEST_CODE
+                });
+                return res.status(OK_REQUEST_CODE).json({user: publicUser});
+            })
+            .catch(e => {
+                this.emitter.emit("user", {
+                    method: "purge",
+                    response: e,
                     code: BAD_REQUEST_CODE
                 });
                 return res.status(BAD_REQUEST_CODE).json({message: e.message});
             });
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,34 @@
+/**
+ * Personal API key of user, only sha256 hash of key is stored, prefix tells keys apart.
+ * Key acts for its user only with roles mapped to its scopes.
+ */
+export class ApiKeyEntity {
+    constructor(
+        public readonly id?: number,
+        public readonly userId?: number,
+        public readonly name?: string,
+        public readonly prefix?: string,
+        public readonly keyHash?: string,
+        public readonly scopes?: string[],
+        public readonly expires?: Date,
+        public readonly lastUsed?: Date,
+        public readonly lastIp?: string,
+        public readonly created?: Date,
+        public readonly revoked?: Date
+    ) {
+    }
+}
+
+/**
+ * API key as shown to its owner
+ */
+export type PublicApiKey = {
+    id:       number
+    name:     string
+    prefix:   string
+    scopes:   string[]
+    expires:  Date
+    lastUsed: Date
+    lastIp:   string
+    created:  Date
+}
@@ -0,0 +1,64 @@
+export const AUDIT_ACTION_CREATE = "create";
+export const AUDIT_ACTION_UPDATE = "update";
+export const AUDIT_ACTION_DELETE = "delete";
+export const AUDIT_ACTION_RESTORE = "restore";
+export const AUDIT_ACTION_PURGE = "purge";
+export const AUDIT_ACTION_SIGNIN = "signin";
+export const AUDIT_ACTION_SIGNIN_FAILED = "signin_failed";
+export const AUDIT_ACTION_SIGNOUT = "signout";
+export const AUDIT_ACTION_GA2FA_REGISTER = "2fa_register";
+export const AUDIT_ACTION_GA2FA_VERIFY = "2fa_verify";
+export const AUDIT_ACTION_GA2FA_FAILED = "2fa_failed";
+export const AUDIT_ACTION_PASSWORD_FORGOT = "password_forgot";
+export const AUDIT_ACTION_PASSWORD_RESET = "password_reset";
+export const AUDIT_ACTION_SESSION_REVOKE = "session_revoke";
+export const AUDIT_ACTION_SESSION_REVOKE_ALL = "session_revoke_all";
+export const AUDIT_ACTION_UNLOCK = "unlock";
+export const AUDIT_ACTION_EMAIL_VERIFY = "email_verify";
+export const AUDIT_ACTION_GA2FA_RECOVERY = "2fa_recovery";
+export const AUDIT_ACTION_GA2FA_RECOVERY_CODES = "2fa_recovery_codes";
+export const AUDIT_ACTION_GA2FA_RESET = "2fa_reset";
+export const AUDIT_ACTION_WEBAUTHN_REGISTER = "webauthn_register";
+export const AUDIT_ACTION_WEBAUTHN_REMOVE = "webauthn_remove";
+export const AUDIT_ACTION_IDENTITY_LINK = "identity_link";
+export const AUDIT_ACTION_IDENTITY_UNLINK = "identity_unlink";
+export const AUDIT_ACTION_API_KEY_CREATE = "api_key_create";
+export const AUDIT_ACTION_API_KEY_REVOKE = "api_key_revoke";
+export const AUDIT_ACTION_IMPERSONATE = "impersonate";
+export const AUDIT_ACTION_IMPERSONATE_STOP = "impersonate_stop";
+
+/**
+ * Fields of entity or event kept in before and after of entry, credentials are left out
+ */
+export interface AuditSnapshot {
+    [field: string]: unknown
+}
+
+/**
+ * Field changed by audited action
+ */
+export interface AuditChange {
+    before: unknown
+    after:  unknown
+}
+
+/**
+ * Audit log entry, entries are never changed so there is no save and remove
+ */
+export class AuditEntity {
+    constructor(
+        public readonly id?: number,
+        public readonly actorId?: number,
+        public readonly ip?: string,
+        public readonly entity?: string,
+        public readonly entityId?: number,
+        public readonly action?: string,
+        public readonly before?: AuditSnapshot,
+        public readonly after?: AuditSnapshot,
+        public readonly diff?: {[field: string]: AuditChange},
+        public readonly created?: Date,
+        // user impersonated by actor when entry is written
+        public readonly impersonatedId?: number
+    ) {
+    }
+}
@@ -0,0 +1,17 @@
+// keys of failed attempts of account and of client address
+export const LOGIN_ATTEMPT_ACCOUNT_KEY = "account:";
+export const LOGIN_ATTEMPT_IP_KEY = "ip:";
+
+/**
+ * Failed sign in and 2FA attempts of account or client address.
+ * Failures are counted since the first failure of window, locked key is rejected until lockedUntil.
+ */
+export class LoginAttemptEntity {
+    constructor(
+        public readonly key?: string,
+        public readonly failures?: number,
+        public readonly lockedUntil?: Date,
+        public readonly lastFailure?: Date
+    ) {
+    }
+}
@@ -0,0 +1,20 @@
+/**
+ * Queued mail rendered from template, sent is set after delivery,
+ * failed delivery is retried at nextAttempt until attempts reach config.mail.retries
+ */
+export class MailEntity {
+    constructor(
+        public readonly id?: number,
+        public readonly recipient?: string,
+        public readonly subject?: string,
+        public readonly text?: string,
+        public readonly html?: string,
+        public readonly template?: string,
+        public readonly attempts?: number,
+        public readonly nextAttempt?: Date,
+        public readonly lastError?: string,
+        public readonly sent?: Date,
+        public readonly created?: Date
+    ) {
+    }
+}
@@ -0,0 +1,35 @@
+/**
+ * Client of the app as OAuth authorization server, only sha256 hash of secret is stored.
+ * Public client has no secret and proves authorization code by PKCE only,
+ * tokens of client credentials grant act for user who registered the client.
+ */
+export class OAuthClientEntity {
+    constructor(
+        public readonly id?: number,
+        public readonly clientId?: string,
+        public readonly secretHash?: string,
+        public readonly name?: string,
+        public readonly redirectUris?: string[],
+        public readonly grants?: string[],
+        public readonly scopes?: string[],
+        public readonly userId?: number,
+        public readonly created?: Date,
+        public readonly removed?: Date
+    ) {
+    }
+}
+
+/**
+ * Client as shown to administrators
+ */
+export type PublicOAuthClient = {
+    id:           number
+    clientId:     string
+    name:         string
+    confidential: boolean
+    redirectUris: string[]
+    grants:       string[]
+    scopes:       string[]
+    userId:       number
+    created:      Date
+}
@@ -0,0 +1,18 @@
+/**
+ * Authorization code issued to client for user, only sha256 hash of code is stored.
+ * Code is exchanged once by verifier of PKCE challenge and redirect uri it was issued for.
+ */
+export class OAuthCodeEntity {
+    constructor(
+        public readonly id?: number,
+        public readonly codeHash?: string,
+        public readonly clientId?: number,
+        public readonly userId?: number,
+        public readonly redirectUri?: string,
+        public readonly scope?: string,
+        public readonly challenge?: string,
+        public readonly expires?: Date,
+        public readonly used?: Date
+    ) {
+    }
+}
@@ -0,0 +1,35 @@
+import {Service} from "../../services/app.service";
+import {PERMISSION_REPOSITORY_SERVICE} from "../../services/app.constants";
+import {PermissionRepository} from "../storage/postgres/repository/permission.repository";
+
+export const USER_READ_PERMISSION = "user:read";
+export const USER_WRITE_PERMISSION = "user:write";
+export const ROLE_READ_PERMISSION = "role:read";
+export const ROLE_WRITE_PERMISSION = "role:write";
+export const ACCOUNT_READ_PERMISSION = "account:read";
+export const ACCOUNT_WRITE_PERMISSION = "account:write";
+export const PERMISSION_READ_PERMISSION = "permission:read";
+export const PERMISSION_WRITE_PERMISSION = "permission:write";
+export const AUDIT_READ_PERMISSION = "audit:read";
+
+export class PermissionEntity {
+    public save: () => Promise<PermissionEntity>;
+    public remove: () => Promise<PermissionEntity>;
+    constructor(
+        public readonly id?: number,
+        public          title?: string,
+        public          description?: string,
+        public          enabled?: boolean,
+        public readonly created?: Date,
+        public readonly updated?: Date,
+        public          removed?: Date,
+        public          roles?: number[],
+    ) {
+        this.save = function (): Promise<PermissionEntity> {
+            return Service.getService<PermissionRepository>(PERMISSION_REPOSITORY_SERVICE).update(this);
+        };
+        this.remove = function (): Promise<PermissionEntity> {
+            return Service.getService<PermissionRepository>(PERMISSION_REPOSITORY_SERVICE).remove(this);
+        };
+    }
+}
@@ -5,6 +5,7 @@ import {RoleRepository} from "../storage/postgres/repository/role.repository";
 export const SUPERADMIN_ROLE_ID = 1;
 export const ADMIN_ROLE_ID = 2;
 export const USER_ROLE_ID = 3;
+export const MANAGER_ROLE_ID = 4;
 
 export class RoleEntity {
     public save: () => Promise<RoleEntity>;
@@ -18,6 +19,7 @@ export class RoleEntity {
         public readonly updated?: Date,
         public          removed?: Date,
         public          users?: number[],
+        public          permissions?: number[],
     ) {
         this.save = function (): Promise<RoleEntity> {
             return Service.getService<RoleRepository>(ROLE_REPOSITORY_SERVICE).update(this);
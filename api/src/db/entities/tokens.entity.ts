@@ -0,0 +1,16 @@
+/**
+ * Refresh token, only sha256 hash of token is stored.
+ * Tokens rotated from the same sign in share family, revoked family invalidates its access tokens too.
+ */
+export class RefreshTokenEntity {
+    constructor(
+        public readonly id?: number,
+        public readonly userId?: number,
+        public readonly family?: string,
+        public readonly tokenHash?: string,
+        public readonly expires?: Date,
+        public readonly revoked?: Date,
+        public readonly created?: Date
+    ) {
+    }
+}
@@ -0,0 +1,26 @@
+/**
+ * Account of external OpenID Connect provider linked to user, subject is id of account at provider
+ */
+export class UserIdentityEntity {
+    constructor(
+        public readonly id?: number,
+        public readonly userId?: number,
+        public readonly provider?: string,
+        public readonly subject?: string,
+        public readonly email?: string,
+        public readonly lastUsed?: Date,
+        public readonly created?: Date
+    ) {
+    }
+}
+
+/**
+ * Linked identity as shown to its owner
+ */
+export type PublicUserIdentity = {
+    id:       number
+    provider: string
+    email:    string
+    lastUsed: Date
+    created:  Date
+}
@@ -1,8 +1,7 @@
-import bcrypt from "bcrypt-nodejs";
 import {UserRepository} from "../storage/postgres/repository/user.repository";
 import {Service} from "../../services/app.service";
-import {CONFIG_SERVICE, USER_REPOSITORY_SERVICE} from "../../services/app.constants";
-import { Config } from "../../util/secrets";
+import {PASSWORD_SERVICE, USER_REPOSITORY_SERVICE} from "../../services/app.constants";
+import {IPasswordService} from "../../services/password.service";
 export const ROOT_ID = 1;
 type comparePasswordFunction = (candidatePassword: string, cb: (err: Error, isMatch: boolean) => (void)) => any;
 
@@ -17,6 +16,9 @@ export type PublicUser = {
         token:    string;
         roles:    number[] | string[];
         accounts: number[] | string[];
+        locked:      boolean;
+        lockedUntil: Date;
+        emailVerified: boolean;
 }
 export class UserEntity {
     public  comparePassword: comparePasswordFunction;
@@ -36,13 +38,20 @@ export class UserEntity {
         public readonly updated?:  Date,
         public          removed?:  Date,
         public          roles?:    number[],
-        public          accounts?: number[]
+        public          accounts?: number[],
+        // sign in is locked by failed attempts until this time, see LockoutService
+        public readonly lockedUntil?: Date,
+        // email is proven by verification token sent at sign up
+        public          emailVerified?: boolean,
+        public          emailVerifyToken?: string,
+        public          emailVerifyExpires?: number
 
 ) {
+        // hash of any supported algorithm is compared, see PasswordService
         this.comparePassword = function (candidatePassword, cb) {
-            bcrypt.compare(candidatePassword, this.password, (err: Error, isMatch: boolean) => {
-                cb(err, isMatch);
-            });
+            Service.getService<IPasswordService>(PASSWORD_SERVICE).verify(candidatePassword, this.password)
+                .then((isMatch: boolean) => cb(undefined, isMatch))
+                .catch((err: Error) => cb(err, false));
         };
 
         this.save = function (): Promise<UserEntity> {
@@ -54,12 +63,7 @@ export class UserEntity {
         };
     }
 
-    setSecret(secret: string): void {
-        const config = Service.getService<Config>(CONFIG_SERVICE);
-        if (this.username === config.testUser.username) {
-            this.secret = config.testUser.secret;
-        } else {
-            this.secret = secret;
-        }
+    isLocked(): boolean {
+        return !!this.lockedUntil && new Date(this.lockedUntil).getTime() > Date.now();
     }
 }
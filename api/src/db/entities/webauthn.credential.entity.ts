@@ -0,0 +1,29 @@
+/**
+ * Authenticator registered by user as second factor, publicKey is PEM of key created by authenticator,
+ * signCount grows with every assertion of authenticators having a counter
+ */
+export class WebAuthnCredentialEntity {
+    constructor(
+        public readonly id?: number,
+        public readonly userId?: number,
+        public readonly credentialId?: string,
+        public readonly publicKey?: string,
+        public readonly signCount?: number,
+        public readonly transports?: string[],
+        public readonly name?: string,
+        public readonly lastUsed?: Date,
+        public readonly created?: Date
+    ) {
+    }
+}
+
+/**
+ * Authenticator as shown to its owner
+ */
+export type PublicWebAuthnCredential = {
+    id:         number
+    name:       string
+    transports: string[]
+    lastUsed:   Date
+    created:    Date
+}
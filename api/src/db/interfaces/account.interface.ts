@@ -1,15 +1,24 @@
 import {AccountEntity} from "../entities/accounts.entity";
+import {ListQuery, ListResult} from "./list.interface";
+
+/**
+ * Columns accounts can be sorted by
+ */
+export const ACCOUNT_LIST_SORT = ["id", "name", "email", "type", "status", "enabled", "created", "updated"];
 
 /**
  * Account Service interface for binding
  */
 export interface IAccountServiceRepository {
-    get(): Promise<AccountEntity[]>
-    getAccountsByEnabled(enabled: boolean): Promise<AccountEntity[]>
-    getById(id: number): Promise<AccountEntity>
-    getByName(name: string): Promise<AccountEntity>
+    get(query?: ListQuery, memberId?: number): Promise<ListResult<AccountEntity>>
+    getRemoved(query?: ListQuery, memberId?: number): Promise<ListResult<AccountEntity>>
+    getById(id: number, memberId?: number): Promise<AccountEntity>
+    getByName(name: string, memberId?: number): Promise<AccountEntity>
 
     update(account: AccountEntity): Promise<AccountEntity>
     create(account: AccountEntity): Promise<AccountEntity>
     remove(account: AccountEntity): Promise<AccountEntity>
+    restore(account: AccountEntity): Promise<AccountEntity>
+    purge(account: AccountEntity): Promise<AccountEntity>
+    purgeRemoved(before: Date): Promise<number>
 }
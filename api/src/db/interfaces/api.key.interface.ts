@@ -0,0 +1,17 @@
+import {ApiKeyEntity} from "../entities/api.key.entity";
+
+/**
+ * API key Service interface for binding
+ */
+export interface IApiKeyServiceRepository {
+    // keys of user which are not revoked
+    list(userId: number): Promise<ApiKeyEntity[]>
+    getByHash(keyHash: string): Promise<ApiKeyEntity | null>
+    create(key: ApiKeyEntity): Promise<ApiKeyEntity>
+    // remember time and ip of request, see LAST_USED_INTERVAL
+    used(id: number, ip: string): Promise<void>
+    // false when user has no such key
+    revoke(userId: number, id: number): Promise<boolean>
+    // delete keys revoked or expired before date
+    purgeExpired(before: Date): Promise<number>
+}
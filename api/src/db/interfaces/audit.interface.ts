@@ -0,0 +1,26 @@
+import {AuditEntity} from "../entities/audit.entity";
+import {ListQuery, ListResult} from "./list.interface";
+
+/**
+ * Columns audit log can be sorted by
+ */
+export const AUDIT_LIST_SORT = ["id", "created"];
+
+/**
+ * Audit log filters besides created range
+ */
+export interface AuditQuery extends ListQuery {
+    actorId?:  number
+    impersonatedId?: number
+    entity?:   string
+    entityId?: number
+    action?:   string
+}
+
+/**
+ * Audit Service interface for binding
+ */
+export interface IAuditServiceRepository {
+    get(query?: AuditQuery): Promise<ListResult<AuditEntity>>
+    create(entry: AuditEntity): Promise<AuditEntity>
+}
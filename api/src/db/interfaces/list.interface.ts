@@ -0,0 +1,27 @@
+/**
+ * Page, sort and filter options of list queries
+ */
+export interface ListQuery {
+    limit?:       number
+    offset?:      number
+    sort?:        string
+    order?:       "ASC" | "DESC"
+    enabled?:     boolean
+    status?:      string
+    type?:        string
+    createdFrom?: Date
+    createdTo?:   Date
+}
+
+/**
+ * One page of entities with total count of matched rows
+ */
+export interface ListResult<T> {
+    items:  T[]
+    total:  number
+    limit:  number
+    offset: number
+}
+
+export const DEFAULT_LIST_LIMIT = 100;
+export const MAX_LIST_LIMIT = 1000;
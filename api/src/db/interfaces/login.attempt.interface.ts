@@ -0,0 +1,14 @@
+import {LoginAttemptEntity} from "../entities/login.attempt.entity";
+
+/**
+ * Login attempt Service interface for binding
+ */
+export interface ILoginAttemptServiceRepository {
+    get(keys: string[]): Promise<LoginAttemptEntity[]>
+    // count failure of key, failures older than window seconds are forgotten
+    fail(key: string, window: number): Promise<LoginAttemptEntity>
+    lock(key: string, until: Date): Promise<void>
+    // false when key has no failures
+    reset(key: string): Promise<boolean>
+    purgeExpired(before: Date): Promise<number>
+}
@@ -0,0 +1,14 @@
+import {MailEntity} from "../entities/mail.entity";
+
+/**
+ * Mail queue Service interface for binding
+ */
+export interface IMailServiceRepository {
+    enqueue(mail: MailEntity): Promise<MailEntity>
+    // unsent mails due to next attempt with less than retries attempts
+    due(retries: number, limit: number): Promise<MailEntity[]>
+    sent(id: number): Promise<void>
+    // count failed attempt and schedule next one
+    failed(id: number, error: string, nextAttempt: Date): Promise<void>
+    purgeSent(before: Date): Promise<number>
+}
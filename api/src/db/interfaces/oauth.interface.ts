@@ -0,0 +1,21 @@
+import {OAuthClientEntity} from "../entities/oauth.client.entity";
+import {OAuthCodeEntity} from "../entities/oauth.code.entity";
+
+/**
+ * OAuth clients and authorization codes Service interface for binding
+ */
+export interface IOAuthServiceRepository {
+    // clients which are not removed
+    listClients(): Promise<OAuthClientEntity[]>
+    getClient(clientId: string): Promise<OAuthClientEntity | null>
+    getClientById(id: number): Promise<OAuthClientEntity | null>
+    createClient(client: OAuthClientEntity): Promise<OAuthClientEntity>
+    // false when client is removed or unknown
+    updateSecret(id: number, secretHash: string): Promise<boolean>
+    removeClient(id: number): Promise<boolean>
+    createCode(code: OAuthCodeEntity): Promise<void>
+    // code is marked used, null when it is unknown or used already
+    takeCode(codeHash: string): Promise<OAuthCodeEntity | null>
+    // delete codes expired and clients removed before date
+    purgeExpired(before: Date): Promise<number>
+}
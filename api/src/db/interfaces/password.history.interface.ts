@@ -0,0 +1,9 @@
+/**
+ * Password history Service interface for binding, only hashes of former passwords are stored
+ */
+export interface IPasswordHistoryServiceRepository {
+    // hashes of last passwords of user, newest first
+    recent(userId: number, limit: number): Promise<string[]>
+    // add hash of new password and forget all but last keep hashes of user
+    add(userId: number, hash: string, keep: number): Promise<void>
+}
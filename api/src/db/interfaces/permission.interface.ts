@@ -0,0 +1,16 @@
+import {PermissionEntity} from "../entities/permissions.entity";
+
+/**
+ * Permission Service interface for binding
+ */
+export interface IPermissionServiceRepository {
+    get(): Promise<PermissionEntity[]>
+    getByEnabled(enabled: boolean): Promise<PermissionEntity[]>
+    getById(id: number): Promise<PermissionEntity>
+    getByName(title: string): Promise<PermissionEntity>
+    getByUser(userId: number): Promise<PermissionEntity[]>
+
+    update(permission: PermissionEntity): Promise<PermissionEntity>
+    create(permission: PermissionEntity): Promise<PermissionEntity>
+    remove(permission: PermissionEntity): Promise<PermissionEntity>
+}
@@ -0,0 +1,12 @@
+/**
+ * Recovery code Service interface for binding, only sha256 hashes of codes are stored
+ */
+export interface IRecoveryCodeServiceRepository {
+    // replace all codes of user by new ones
+    replace(userId: number, hashes: string[]): Promise<void>
+    // mark unused code of user as used, false when there is no such code
+    redeem(userId: number, hash: string): Promise<boolean>
+    // number of unused codes of user
+    remaining(userId: number): Promise<number>
+    removeUser(userId: number): Promise<number>
+}
@@ -1,15 +1,24 @@
 import { RoleEntity } from "../entities/roles.entity";
+import {ListQuery, ListResult} from "./list.interface";
+
+/**
+ * Columns roles can be sorted by
+ */
+export const ROLE_LIST_SORT = ["id", "title", "enabled", "created", "updated"];
 
 /**
  * Role Service interface for binding
  */
 export interface IRoleServiceRepository {
-    get(): Promise<RoleEntity[]>
-    getByEnabled(enabled: boolean): Promise<RoleEntity[]>
+    get(query?: ListQuery): Promise<ListResult<RoleEntity>>
+    getRemoved(query?: ListQuery): Promise<ListResult<RoleEntity>>
     getById(id: number): Promise<RoleEntity>
     getByName(title: string): Promise<RoleEntity>
 
     update(role: RoleEntity): Promise<RoleEntity>
     create(role: RoleEntity): Promise<RoleEntity>
     remove(role: RoleEntity): Promise<RoleEntity>
+    restore(role: RoleEntity): Promise<RoleEntity>
+    purge(role: RoleEntity): Promise<RoleEntity>
+    purgeRemoved(before: Date): Promise<number>
 }
@@ -0,0 +1,21 @@
+export const SEARCH_TYPE_USER = "user";
+export const SEARCH_TYPE_ACCOUNT = "account";
+
+/**
+ * Ranked search match, field is the best matching column of entity
+ */
+export interface SearchResult {
+    type:  string
+    id:    number
+    name:  string
+    field: string
+    value: string
+    rank:  number
+}
+
+/**
+ * Search Service interface for binding
+ */
+export interface ISearchServiceRepository {
+    search(q: string, types: string[], limit: number, memberId?: number): Promise<SearchResult[]>
+}
@@ -0,0 +1,16 @@
+import {RefreshTokenEntity} from "../entities/tokens.entity";
+
+/**
+ * Refresh token Service interface for binding
+ */
+export interface ITokenServiceRepository {
+    create(token: RefreshTokenEntity): Promise<RefreshTokenEntity>
+    getByHash(tokenHash: string): Promise<RefreshTokenEntity>
+    // false when token was revoked already
+    revoke(id: number): Promise<boolean>
+    revokeFamily(family: string): Promise<number>
+    revokeUser(userId: number): Promise<number>
+    // family has not revoked and not expired token
+    isActive(family: string): Promise<boolean>
+    purgeExpired(before: Date): Promise<number>
+}
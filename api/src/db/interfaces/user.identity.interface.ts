@@ -0,0 +1,14 @@
+import {UserIdentityEntity} from "../entities/user.identity.entity";
+
+/**
+ * User identity Service interface for binding
+ */
+export interface IUserIdentityServiceRepository {
+    list(userId: number): Promise<UserIdentityEntity[]>
+    getBySubject(provider: string, subject: string): Promise<UserIdentityEntity | null>
+    create(identity: UserIdentityEntity): Promise<UserIdentityEntity>
+    // remember time of sign in by identity
+    used(id: number): Promise<void>
+    // false when user has no such identity
+    remove(userId: number, id: number): Promise<boolean>
+}
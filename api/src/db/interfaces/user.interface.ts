@@ -1,18 +1,30 @@
 import {UserEntity} from "../entities/users.entity";
+import {ListQuery, ListResult} from "./list.interface";
+
+/**
+ * Columns users can be sorted by
+ */
+export const USER_LIST_SORT = ["id", "username", "email", "enabled", "created", "updated"];
 
 /**
  * Role Service interface for binding
  */
 export interface IUserServiceRepository {
-    get(): Promise<UserEntity[]>
-    getById(id: number): Promise<UserEntity>
+    get(query?: ListQuery, memberId?: number): Promise<ListResult<UserEntity>>
+    getRemoved(query?: ListQuery, memberId?: number): Promise<ListResult<UserEntity>>
+    getById(id: number, memberId?: number): Promise<UserEntity>
     getByName(email: string): Promise<UserEntity>
     getByUsername(username: string): Promise<UserEntity>
     getByPasswordResetToken(token: string): Promise<UserEntity>
+    // user of not expired email verification token
+    getByEmailVerifyToken(token: string): Promise<UserEntity>
 
     create(user: UserEntity, createFirstUser: boolean): Promise<UserEntity>
     update(user: UserEntity): Promise<UserEntity>
     remove(user: UserEntity): Promise<UserEntity>
+    restore(user: UserEntity): Promise<UserEntity>
+    purge(user: UserEntity): Promise<UserEntity>
+    purgeRemoved(before: Date): Promise<number>
 }
 
 export interface AuthToken {
@@ -0,0 +1,16 @@
+import {WebAuthnCredentialEntity} from "../entities/webauthn.credential.entity";
+
+/**
+ * WebAuthn credential Service interface for binding
+ */
+export interface IWebAuthnCredentialServiceRepository {
+    list(userId: number): Promise<WebAuthnCredentialEntity[]>
+    // credential id is base64url of raw id sent by authenticator
+    getByCredentialId(credentialId: string): Promise<WebAuthnCredentialEntity | null>
+    create(credential: WebAuthnCredentialEntity): Promise<WebAuthnCredentialEntity>
+    // store sign count of successful assertion
+    used(id: number, signCount: number): Promise<void>
+    // false when user has no such credential
+    remove(userId: number, id: number): Promise<boolean>
+    removeUser(userId: number): Promise<number>
+}
@@ -1,8 +1,10 @@
 import { Pool } from "pg";
 import {POSTGRES_SERVICE} from "../../../../services/app.constants";
 import {Service} from "../../../../services/app.service";
-import {ACCOUNTS_TABLE, ROLES_TABLE, USER_ACCOUNT_TABLE, USER_ROLE_TABLE, USERS_TABLE} from "./constants.repository";
-import {IAccountServiceRepository} from "../../../interfaces/account.interface";
+import {ACCOUNTS_TABLE, USER_ACCOUNT_TABLE, USER_ROLE_TABLE, USERS_TABLE} from "./constants.repository";
+import {ACCOUNT_LIST_SORT, IAccountServiceRepository} from "../../../interfaces/account.interface";
+import {ListQuery, ListResult} from "../../../interfaces/list.interface";
+import {compileListQuery} from "./list.repository";
 import {AccountEntity} from "../../../entities/accounts.entity";
 
 /**
@@ -11,20 +13,28 @@ import {AccountEntity} from "../../../entities/accounts.entity";
 export class AccountRepository implements IAccountServiceRepository {
     private readonly database: Pool;
     private readonly usersTable: string;
-    private readonly rolesTable: string;
     private readonly userRoleTable: string;
     private readonly accountsTable: string;
     private readonly userAccountTable: string;
     constructor() {
         this.database = Service.getService<Pool>(POSTGRES_SERVICE);
         this.usersTable = USERS_TABLE;
-        this.rolesTable = ROLES_TABLE;
         this.userRoleTable = USER_ROLE_TABLE;
         this.accountsTable = ACCOUNTS_TABLE;
         this.userAccountTable = USER_ACCOUNT_TABLE;
     }
 
-    private getOne(field: string, id: number | string | boolean): Promise<AccountEntity[]> {
+    /**
+     * restrict accounts to memberships of user, null means no restriction
+     * @param parameter position of member id in query parameters
+     * @private
+     */
+    private memberCondition(parameter: number): string {
+        return `($${parameter}::int IS NULL OR ${this.accountsTable}.id IN (
+                          SELECT member.account_id FROM ${this.userAccountTable} member WHERE member.user_id = $${parameter}))`;
+    }
+
+    private getOne(field: string, id: number | string | boolean, memberId: number = null): Promise<AccountEntity[]> {
         return new Promise(async (resolve, reject) => {
             try {
                 const result = await this.database.query(`
@@ -44,9 +54,10 @@ export class AccountRepository implements IAccountServiceRepository {
                       FROM ${this.accountsTable}
                           
                       LEFT JOIN ${this.userAccountTable} ON (${this.userAccountTable}.account_id = ${this.accountsTable}."id")
-                      LEFT JOIN ${this.usersTable} ON (${this.usersTable}.id = ${this.userAccountTable}.user_id)
+                      LEFT JOIN ${this.usersTable} ON (${this.usersTable}.id = ${this.userAccountTable}.user_id AND ${this.usersTable}.removed IS NULL)
                       WHERE ${this.accountsTable}."${field}" = $1
-                      GROUP BY ${this.accountsTable}."id" ORDER BY "id" ASC`, [id]);
+                      AND   ${this.memberCondition(2)}
+                      GROUP BY ${this.accountsTable}."id" ORDER BY "id" ASC`, [id, memberId]);
                 const accounts = result.rows.map(row => new AccountEntity(
                         row.id,
                         row.name,
@@ -74,11 +85,20 @@ export class AccountRepository implements IAccountServiceRepository {
     }
 
     /**
-     * get all accounts
+     * page of removed or not removed accounts
+     * @param removed
+     * @param query page, sort and filter options
+     * @param memberId when set only accounts visible to this user are returned
+     * @private
      */
-    public get(): Promise<AccountEntity[]> {
+    private page(removed: boolean, query: ListQuery, memberId: number): Promise<ListResult<AccountEntity>> {
         return new Promise(async (resolve, reject) => {
             try {
+                const list = compileListQuery(this.accountsTable, query, ACCOUNT_LIST_SORT, [
+                    `${this.accountsTable}.removed IS ${removed ? "NOT NULL" : "NULL"}`, this.memberCondition(1)], [memberId]);
+                const count = await this.database.query(`
+                      SELECT COUNT(*) total FROM ${this.accountsTable}
+                      WHERE ${list.where}`, list.parameters);
                 const result = await this.database.query(`
                       SELECT ${this.accountsTable}.id,
                              ${this.accountsTable}.name,
@@ -95,8 +115,10 @@ export class AccountRepository implements IAccountServiceRepository {
                             array_remove(ARRAY_AGG(${this.usersTable}.id), NULL) ${this.usersTable}
                       FROM ${this.accountsTable}
                       LEFT JOIN ${this.userAccountTable} ON (${this.userAccountTable}.account_id = ${this.accountsTable}."id")
-                      LEFT  JOIN ${this.usersTable} ON (${this.usersTable}.id = ${this.userAccountTable}.user_id)
-                      GROUP BY ${this.accountsTable}."id" ORDER BY "id" ASC`);
+                      LEFT  JOIN ${this.usersTable} ON (${this.usersTable}.id = ${this.userAccountTable}.user_id AND ${this.usersTable}.removed IS NULL)
+                      WHERE ${list.where}
+                      GROUP BY ${this.accountsTable}."id" ORDER BY ${list.order}
+                      ${list.pagination}`, list.page);
                 const accounts = result.rows.map(row => new AccountEntity(
                     row.id,
                     row.name,
@@ -111,11 +133,12 @@ export class AccountRepository implements IAccountServiceRepository {
                     row.updated,
                     row.removed,
                     row.users));
-                if (accounts && accounts.length > 0) {
-                    resolve(accounts);
-                } else {
-                    resolve([]);
-                }
+                resolve({
+                    items: accounts,
+                    total: Number(count.rows[0].total),
+                    limit: list.limit,
+                    offset: list.offset
+                });
             } catch (e) {
                 console.log(e);
                 reject(e);
@@ -124,15 +147,26 @@ export class AccountRepository implements IAccountServiceRepository {
     }
 
     /**
-     * Get all active accounts
+     * get page of accounts
+     * @param query page, sort and filter options
+     * @param memberId when set only accounts of this user are returned
      */
-    public getAccountsByEnabled(enabled: boolean): Promise<AccountEntity[]> {
-        return this.getOne("enabled", enabled);
+    public get(query: ListQuery = {}, memberId: number = null): Promise<ListResult<AccountEntity>> {
+        return this.page(false, query, memberId);
     }
 
-    public getById(id: number): Promise<AccountEntity> {
+    /**
+     * get page of removed accounts
+     * @param query page, sort and filter options
+     * @param memberId when set only accounts visible to this user are returned
+     */
+    public getRemoved(query: ListQuery = {}, memberId: number = null): Promise<ListResult<AccountEntity>> {
+        return this.page(true, query, memberId);
+    }
+
+    public getById(id: number, memberId: number = null): Promise<AccountEntity> {
         return new Promise((resolve, reject) => {
-            this.getOne("id", id)
+            this.getOne("id", id, memberId)
                 .then((accounts: AccountEntity[]) => {
                     if (accounts.length > 0) {
                         resolve(accounts[0]);
@@ -146,9 +180,9 @@ export class AccountRepository implements IAccountServiceRepository {
         });
     }
 
-    public getByName(name: string): Promise<AccountEntity> {
+    public getByName(name: string, memberId: number = null): Promise<AccountEntity> {
         return new Promise((resolve, reject) => {
-            this.getOne("name", name)
+            this.getOne("name", name, memberId)
                 .then((accounts: AccountEntity[]) => {
                     if (accounts.length > 0) {
                         resolve(accounts[0]);
@@ -195,10 +229,12 @@ export class AccountRepository implements IAccountServiceRepository {
                 }
                 try {
                     if (account && account.id) {
+                        // removed users are not listed in account.users, their memberships are kept for restore
                         await this.database.query(`
                         DELETE
                         FROM ${this.userAccountTable}
-                        WHERE account_id = $1`, [
+                        WHERE account_id = $1
+                        AND   user_id NOT IN (SELECT id FROM ${this.usersTable} WHERE removed IS NOT NULL)`, [
                             account.id
                         ]);
                     }
@@ -242,23 +278,13 @@ export class AccountRepository implements IAccountServiceRepository {
                 reject(e);
             }
             try {
-                if (process.env.NODE_ENV === "test") {
-                    await this.database.query(
-                        `DELETE FROM ${this.rolesTable}
-                                 WHERE id = $1;`,
-                        [
-                            account.id
-                        ]
-                    );
-                } else {
-                    await this.database.query(
-                        `UPDATE ${this.accountsTable}
-                         SET removed = NOW(),
-                             enabled = FALSE
-                         WHERE id = $1 RETURNING *;`, [
-                            account.id
-                        ]);
-                }
+                await this.database.query(
+                    `UPDATE ${this.accountsTable}
+                     SET removed = NOW(),
+                         enabled = FALSE
+                     WHERE id = $1 RETURNING *;`, [
+                        account.id
+                    ]);
                 account.removed = new Date();
                 account.enabled = false;
                 resolve(account);
@@ -268,6 +294,71 @@ export class AccountRepository implements IAccountServiceRepository {
         });
     }
 
+    /**
+     * bring removed account back, enabled
+     * @param account
+     */
+    public restore(account: AccountEntity): Promise<AccountEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                await this.database.query(
+                    `UPDATE ${this.accountsTable}
+                     SET removed = NULL,
+                         enabled = TRUE
+                     WHERE id = $1;`, [
+                        account.id
+                    ]);
+                resolve(this.getById(account.id));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * permanently delete removed account
+     * @param account
+     */
+    public purge(account: AccountEntity): Promise<AccountEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                if (!account.removed) {
+                    throw new Error(`${account.name} is not removed`);
+                }
+                await this.database.query(
+                    `DELETE FROM ${this.accountsTable}
+                     WHERE id = $1
+                     AND   removed IS NOT NULL;`, [
+                        account.id
+                    ]);
+                resolve(account);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * permanently delete accounts removed before date
+     * @param before
+     * @return number of deleted accounts
+     */
+    public purgeRemoved(before: Date): Promise<number> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `DELETE FROM ${this.accountsTable}
+                     WHERE removed IS NOT NULL
+                     AND   removed < $1;`, [
+                        before
+                    ]);
+                resolve(result.rowCount);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
     public create(account: AccountEntity): Promise<AccountEntity> {
         return new Promise(async (resolve, reject) => {
             try {
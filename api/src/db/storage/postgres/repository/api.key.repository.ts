@@ -0,0 +1,118 @@
+import {Pool} from "pg";
+import {POSTGRES_SERVICE} from "../../../../services/app.constants";
+import {Service} from "../../../../services/app.service";
+import {IApiKeyServiceRepository} from "../../../interfaces/api.key.interface";
+import {ApiKeyEntity} from "../../../entities/api.key.entity";
+import {API_KEYS_TABLE} from "./constants.repository";
+
+// row of API keys table
+interface ApiKeyRow {
+    id:        number
+    user_id:   number
+    name:      string
+    prefix:    string
+    key_hash:  string
+    scopes:    string[]
+    expires:   Date
+    last_used: Date
+    last_ip:   string
+    created:   Date
+    revoked:   Date
+}
+
+// last use of key is written at most once in this number of seconds, scripts may call API many times a second
+export const LAST_USED_INTERVAL = 60;
+
+/**
+ * API key Repository.
+ */
+export class ApiKeyRepository implements IApiKeyServiceRepository {
+    private readonly database: Pool;
+    private readonly keysTable: string;
+    constructor() {
+        this.database = Service.getService<Pool>(POSTGRES_SERVICE);
+        this.keysTable = API_KEYS_TABLE;
+    }
+
+    private static entity(row: ApiKeyRow): ApiKeyEntity {
+        return new ApiKeyEntity(row.id, row.user_id, row.name, row.prefix, row.key_hash, row.scopes || [], row.expires, row.last_used,
+            row.last_ip, row.created, row.revoked);
+    }
+
+    public list(userId: number): Promise<ApiKeyEntity[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `SELECT * FROM ${this.keysTable} WHERE user_id = $1 AND revoked IS NULL ORDER BY id`, [userId]);
+                resolve(result.rows.map(row => ApiKeyRepository.entity(row)));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public getByHash(keyHash: string): Promise<ApiKeyEntity | null> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(`SELECT * FROM ${this.keysTable} WHERE key_hash = $1`, [keyHash]);
+                resolve(result.rows.length ? ApiKeyRepository.entity(result.rows[0]) : null);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public create(key: ApiKeyEntity): Promise<ApiKeyEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `INSERT INTO ${this.keysTable} (user_id, name, prefix, key_hash, scopes, expires)
+                     VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+                    [key.userId, key.name, key.prefix, key.keyHash, key.scopes, key.expires || null]
+                );
+                resolve(ApiKeyRepository.entity(result.rows[0]));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public used(id: number, ip: string): Promise<void> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                await this.database.query(
+                    `UPDATE ${this.keysTable} SET last_used = NOW(), last_ip = $2
+                     WHERE id = $1 AND (last_used IS NULL OR last_used < NOW() - $3 * INTERVAL '1 second' OR last_ip IS DISTINCT FROM $2)`,
+                    [id, ip, LAST_USED_INTERVAL]
+                );
+                resolve();
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public revoke(userId: number, id: number): Promise<boolean> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `UPDATE ${this.keysTable} SET revoked = NOW() WHERE user_id = $1 AND id = $2 AND revoked IS NULL`, [userId, id]);
+                resolve(result.rowCount > 0);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public purgeExpired(before: Date): Promise<number> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `DELETE FROM ${this.keysTable} WHERE revoked < $1 OR expires < $1`, [before]);
+                resolve(result.rowCount);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
@@ -0,0 +1,118 @@
+import {Pool} from "pg";
+import {POSTGRES_SERVICE} from "../../../../services/app.constants";
+import {Service} from "../../../../services/app.service";
+import {AUDIT_LIST_SORT, AuditQuery, IAuditServiceRepository} from "../../../interfaces/audit.interface";
+import {ListResult} from "../../../interfaces/list.interface";
+import {AuditChange, AuditEntity, AuditSnapshot} from "../../../entities/audit.entity";
+import {AUDIT_LOG_TABLE} from "./constants.repository";
+import {compileListQuery, ListParameter} from "./list.repository";
+
+// row of audit log table
+interface AuditRow {
+    id:              number
+    actor_id:        number
+    ip:              string
+    entity:          string
+    entity_id:       number
+    action:          string
+    before:          AuditSnapshot
+    after:           AuditSnapshot
+    diff:            {[field: string]: AuditChange}
+    created:         Date
+    impersonated_id: number
+}
+
+/**
+ * Audit Repository.
+ */
+export class AuditRepository implements IAuditServiceRepository {
+    private readonly database: Pool;
+    private readonly auditLogTable: string;
+    constructor() {
+        this.database = Service.getService<Pool>(POSTGRES_SERVICE);
+        this.auditLogTable = AUDIT_LOG_TABLE;
+    }
+
+    private static entity(row: AuditRow): AuditEntity {
+        return new AuditEntity(row.id, row.actor_id, row.ip, row.entity, row.entity_id, row.action,
+            row.before, row.after, row.diff, row.created, row.impersonated_id);
+    }
+
+    /**
+     * get page of audit log entries
+     * @param query page, sort and filter options
+     */
+    public get(query: AuditQuery = {}): Promise<ListResult<AuditEntity>> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const conditions: string[] = [];
+                const parameters: ListParameter[] = [];
+                [
+                    ["actor_id", query.actorId],
+                    ["impersonated_id", query.impersonatedId],
+                    ["entity", query.entity],
+                    ["entity_id", query.entityId],
+                    ["action", query.action]
+                ].forEach(([column, value]) => {
+                    if (value !== undefined && value !== null) {
+                        parameters.push(value);
+                        conditions.push(`${this.auditLogTable}.${column} = $${parameters.length}`);
+                    }
+                });
+                const list = compileListQuery(this.auditLogTable, query, AUDIT_LIST_SORT, conditions, parameters);
+                const count = await this.database.query(`
+                      SELECT COUNT(*) total FROM ${this.auditLogTable}
+                      WHERE ${list.where}`, list.parameters);
+                const result = await this.database.query(`
+                      SELECT ${this.auditLogTable}.id,
+                             ${this.auditLogTable}.actor_id,
+                             ${this.auditLogTable}.ip,
+                             ${this.auditLogTable}.entity,
+                             ${this.auditLogTable}.entity_id,
+                             ${this.auditLogTable}.action,
+                             ${this.auditLogTable}.before,
+                             ${this.auditLogTable}.after,
+                             ${this.auditLogTable}.diff,
+                             ${this.auditLogTable}.created,
+                             ${this.auditLogTable}.impersonated_id
+                      FROM ${this.auditLogTable}
+                      WHERE ${list.where}
+                      ORDER BY ${list.order}
+                      ${list.pagination}`, list.page);
+                resolve({
+                    items: result.rows.map(AuditRepository.entity),
+                    total: Number(count.rows[0].total),
+                    limit: list.limit,
+                    offset: list.offset
+                });
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public create(entry: AuditEntity): Promise<AuditEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `INSERT INTO ${this.auditLogTable} (actor_id, ip, entity, entity_id, action, before, after, diff, impersonated_id)
+                     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING *`,
+                    [
+                        entry.actorId,
+                        entry.ip,
+                        entry.entity,
+                        entry.entityId,
+                        entry.action,
+                        entry.before ? JSON.stringify(entry.before) : null,
+                        entry.after ? JSON.stringify(entry.after) : null,
+                        entry.diff ? JSON.stringify(entry.diff) : null,
+                        entry.impersonatedId || null
+                    ]
+                );
+                resolve(AuditRepository.entity(result.rows[0]));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
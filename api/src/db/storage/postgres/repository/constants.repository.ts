@@ -3,4 +3,18 @@ export const USERS_TABLE = "users";
 export const USER_ROLE_TABLE = "user_role";
 export const ACCOUNTS_TABLE = "accounts";
 export const USER_ACCOUNT_TABLE = "user_account";
+export const PERMISSIONS_TABLE = "permissions";
+export const ROLE_PERMISSION_TABLE = "role_permission";
+export const AUDIT_LOG_TABLE = "audit_log";
+export const REFRESH_TOKENS_TABLE = "refresh_tokens";
+export const SESSIONS_TABLE = "sessions";
+export const LOGIN_ATTEMPTS_TABLE = "login_attempts";
+export const MAIL_QUEUE_TABLE = "mail_queue";
+export const RECOVERY_CODES_TABLE = "recovery_codes";
+export const WEBAUTHN_CREDENTIALS_TABLE = "webauthn_credentials";
+export const PASSWORD_HISTORY_TABLE = "password_history";
+export const USER_IDENTITIES_TABLE = "user_identities";
+export const OAUTH_CLIENTS_TABLE = "oauth_clients";
+export const OAUTH_CODES_TABLE = "oauth_codes";
+export const API_KEYS_TABLE = "api_keys";
 export const ERROR_NO_USER_FOUND = "no user found";
\ No newline at end of file
@@ -0,0 +1,71 @@
+import {DEFAULT_LIST_LIMIT, ListQuery, MAX_LIST_LIMIT} from "../../../interfaces/list.interface";
+
+/**
+ * Value bound to parameter of list query
+ */
+export type ListParameter = string | number | boolean | Date;
+
+/**
+ * Sql clauses of list query
+ */
+export interface ListClause {
+    where:      string
+    order:      string
+    pagination: string
+    // parameters of where clause, used by count query
+    parameters: ListParameter[]
+    // parameters of where and pagination clauses
+    page:       ListParameter[]
+    limit:      number
+    offset:     number
+}
+
+/**
+ * Compile page, sort and filter options to sql clauses of table.
+ * Repository conditions and their parameters go first so filters continue parameters numbering.
+ * @param table
+ * @param query
+ * @param sortable columns allowed for sorting
+ * @param conditions repository conditions, e.g. member scope or removed rows exclusion
+ * @param parameters parameters of repository conditions
+ */
+export const compileListQuery = (table: string, query: ListQuery, sortable: string[], conditions: string[] = [], parameters: ListParameter[] = []): ListClause => {
+    const where = conditions.length > 0 ? [...conditions] : ["TRUE"];
+    const values = [...parameters];
+    const filter = (condition: string, value: ListParameter) => {
+        values.push(value);
+        where.push(`${table}.${condition} $${values.length}`);
+    };
+    if (query.enabled !== undefined && query.enabled !== null) {
+        filter("enabled =", query.enabled);
+    }
+    if (query.status) {
+        filter("status =", query.status);
+    }
+    if (query.type) {
+        filter("type =", query.type);
+    }
+    if (query.createdFrom) {
+        filter("created >=", query.createdFrom);
+    }
+    if (query.createdTo) {
+        filter("created <=", query.createdTo);
+    }
+    const sort = query.sort || "id";
+    if (sortable.indexOf(sort) === -1) {
+        throw new Error(`invalid sort field ${sort}`);
+    }
+    const order = query.order === "DESC" ? "DESC" : "ASC";
+    const limit = Math.min(Math.max(Number(query.limit) || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+    const offset = Math.max(Number(query.offset) || 0, 0);
+    return {
+        where: where.join(" AND "),
+        // id keeps order stable between pages
+        order: sort === "id" ? `${table}.id ${order}` : `${table}."${sort}" ${order}, ${table}.id ${order}`,
+        pagination: `LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+        parameters: values,
+        page: [...values, limit, offset],
+        limit,
+        offset
+    };
+};
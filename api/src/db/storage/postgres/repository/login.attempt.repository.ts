@@ -0,0 +1,108 @@
+import {Pool} from "pg";
+import {POSTGRES_SERVICE} from "../../../../services/app.constants";
+import {Service} from "../../../../services/app.service";
+import {ILoginAttemptServiceRepository} from "../../../interfaces/login.attempt.interface";
+import {LoginAttemptEntity} from "../../../entities/login.attempt.entity";
+import {LOGIN_ATTEMPTS_TABLE} from "./constants.repository";
+
+// row of login attempts table
+interface LoginAttemptRow {
+    key:          string
+    failures:     number
+    locked_until: Date
+    last_failure: Date
+}
+
+/**
+ * Login attempt Repository.
+ */
+export class LoginAttemptRepository implements ILoginAttemptServiceRepository {
+    private readonly database: Pool;
+    private readonly loginAttemptsTable: string;
+    constructor() {
+        this.database = Service.getService<Pool>(POSTGRES_SERVICE);
+        this.loginAttemptsTable = LOGIN_ATTEMPTS_TABLE;
+    }
+
+    private static entity(row: LoginAttemptRow): LoginAttemptEntity {
+        return new LoginAttemptEntity(row.key, row.failures, row.locked_until, row.last_failure);
+    }
+
+    public get(keys: string[]): Promise<LoginAttemptEntity[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `SELECT * FROM ${this.loginAttemptsTable} WHERE key = ANY($1::varchar[])`, [keys]);
+                resolve(result.rows.map(row => LoginAttemptRepository.entity(row)));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * count failure in one statement, concurrent failures are not lost
+     * @param key
+     * @param window
+     */
+    public fail(key: string, window: number): Promise<LoginAttemptEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `INSERT INTO ${this.loginAttemptsTable} AS attempt (key, failures, last_failure) VALUES ($1, 1, NOW())
+                     ON CONFLICT (key) DO UPDATE SET
+                        failures = CASE WHEN attempt.last_failure < NOW() - $2 * INTERVAL '1 second'
+                                        THEN 1 ELSE attempt.failures + 1 END,
+                        last_failure = NOW()
+                     RETURNING *`,
+                    [key, window]
+                );
+                resolve(LoginAttemptRepository.entity(result.rows[0]));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public lock(key: string, until: Date): Promise<void> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                await this.database.query(
+                    `UPDATE ${this.loginAttemptsTable} SET locked_until = $2 WHERE key = $1`, [key, until]);
+                resolve();
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public reset(key: string): Promise<boolean> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `DELETE FROM ${this.loginAttemptsTable} WHERE key = $1`, [key]);
+                resolve(result.rowCount > 0);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * delete attempts failed before date which are not locked anymore
+     * @param before
+     * @return number of deleted attempts
+     */
+    public purgeExpired(before: Date): Promise<number> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `DELETE FROM ${this.loginAttemptsTable}
+                     WHERE last_failure < $1 AND (locked_until IS NULL OR locked_until < NOW())`, [before]);
+                resolve(result.rowCount);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
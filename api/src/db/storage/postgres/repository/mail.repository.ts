@@ -0,0 +1,112 @@
+import {Pool} from "pg";
+import {POSTGRES_SERVICE} from "../../../../services/app.constants";
+import {Service} from "../../../../services/app.service";
+import {IMailServiceRepository} from "../../../interfaces/mail.interface";
+import {MailEntity} from "../../../entities/mail.entity";
+import {MAIL_QUEUE_TABLE} from "./constants.repository";
+
+// row of mail queue table
+interface MailRow {
+    id:           number
+    recipient:    string
+    subject:      string
+    text:         string
+    html:         string
+    template:     string
+    attempts:     number
+    next_attempt: Date
+    last_error:   string
+    sent_at:      Date
+    created_at:   Date
+}
+
+/**
+ * Mail queue Repository.
+ */
+export class MailRepository implements IMailServiceRepository {
+    private readonly database: Pool;
+    private readonly mailQueueTable: string;
+    constructor() {
+        this.database = Service.getService<Pool>(POSTGRES_SERVICE);
+        this.mailQueueTable = MAIL_QUEUE_TABLE;
+    }
+
+    private static entity(row: MailRow): MailEntity {
+        return new MailEntity(row.id, row.recipient, row.subject, row.text, row.html, row.template,
+            row.attempts, row.next_attempt, row.last_error, row.sent_at, row.created_at);
+    }
+
+    public enqueue(mail: MailEntity): Promise<MailEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `INSERT INTO ${this.mailQueueTable} (recipient, subject, text, html, template)
+                     VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+                    [mail.recipient, mail.subject, mail.text, mail.html, mail.template]
+                );
+                resolve(MailRepository.entity(result.rows[0]));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public due(retries: number, limit: number): Promise<MailEntity[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `SELECT * FROM ${this.mailQueueTable}
+                     WHERE sent_at IS NULL AND attempts < $1 AND next_attempt <= NOW()
+                     ORDER BY next_attempt LIMIT $2`,
+                    [retries, limit]
+                );
+                resolve(result.rows.map(row => MailRepository.entity(row)));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public sent(id: number): Promise<void> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                await this.database.query(
+                    `UPDATE ${this.mailQueueTable} SET sent_at = NOW(), attempts = attempts + 1, last_error = NULL
+                     WHERE id = $1`, [id]);
+                resolve();
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public failed(id: number, error: string, nextAttempt: Date): Promise<void> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                await this.database.query(
+                    `UPDATE ${this.mailQueueTable} SET attempts = attempts + 1, last_error = $2, next_attempt = $3
+                     WHERE id = $1`, [id, error, nextAttempt]);
+                resolve();
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * delete mails sent or created before date, unsent ones have run out of retries by then
+     * @param before
+     * @return number of deleted mails
+     */
+    public purgeSent(before: Date): Promise<number> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `DELETE FROM ${this.mailQueueTable} WHERE COALESCE(sent_at, created_at) < $1`, [before]);
+                resolve(result.rowCount);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
@@ -0,0 +1,173 @@
+import {Pool} from "pg";
+import {POSTGRES_SERVICE} from "../../../../services/app.constants";
+import {Service} from "../../../../services/app.service";
+import {IOAuthServiceRepository} from "../../../interfaces/oauth.interface";
+import {OAuthClientEntity} from "../../../entities/oauth.client.entity";
+import {OAuthCodeEntity} from "../../../entities/oauth.code.entity";
+import {OAUTH_CLIENTS_TABLE, OAUTH_CODES_TABLE} from "./constants.repository";
+
+// row of OAuth clients table
+interface OAuthClientRow {
+    id:            number
+    client_id:     string
+    secret_hash:   string
+    name:          string
+    redirect_uris: string[]
+    grants:        string[]
+    scopes:        string[]
+    user_id:       number
+    created:       Date
+    removed:       Date
+}
+
+// row of OAuth authorization codes table
+interface OAuthCodeRow {
+    id:           number
+    code_hash:    string
+    client_id:    number
+    user_id:      number
+    redirect_uri: string
+    scope:        string
+    challenge:    string
+    expires:      Date
+    used:         Date
+}
+
+/**
+ * OAuth clients and authorization codes Repository.
+ */
+export class OAuthRepository implements IOAuthServiceRepository {
+    private readonly database: Pool;
+    private readonly clientsTable: string;
+    private readonly codesTable: string;
+    constructor() {
+        this.database = Service.getService<Pool>(POSTGRES_SERVICE);
+        this.clientsTable = OAUTH_CLIENTS_TABLE;
+        this.codesTable = OAUTH_CODES_TABLE;
+    }
+
+    private static client(row: OAuthClientRow): OAuthClientEntity {
+        return new OAuthClientEntity(row.id, row.client_id, row.secret_hash, row.name, row.redirect_uris || [], row.grants || [],
+            row.scopes || [], row.user_id, row.created, row.removed);
+    }
+
+    private static code(row: OAuthCodeRow): OAuthCodeEntity {
+        return new OAuthCodeEntity(row.id, row.code_hash, row.client_id, row.user_id, row.redirect_uri, row.scope, row.challenge,
+            row.expires, row.used);
+    }
+
+    public listClients(): Promise<OAuthClientEntity[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `SELECT * FROM ${this.clientsTable} WHERE removed IS NULL ORDER BY id`);
+                resolve(result.rows.map(row => OAuthRepository.client(row)));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public getClient(clientId: string): Promise<OAuthClientEntity | null> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `SELECT * FROM ${this.clientsTable} WHERE client_id = $1 AND removed IS NULL`, [clientId]);
+                resolve(result.rows.length ? OAuthRepository.client(result.rows[0]) : null);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public getClientById(id: number): Promise<OAuthClientEntity | null> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `SELECT * FROM ${this.clientsTable} WHERE id = $1 AND removed IS NULL`, [id]);
+                resolve(result.rows.length ? OAuthRepository.client(result.rows[0]) : null);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public createClient(client: OAuthClientEntity): Promise<OAuthClientEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `INSERT INTO ${this.clientsTable} (client_id, secret_hash, name, redirect_uris, grants, scopes, user_id)
+                     VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+                    [client.clientId, client.secretHash, client.name, client.redirectUris, client.grants, client.scopes, client.userId]
+                );
+                resolve(OAuthRepository.client(result.rows[0]));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public updateSecret(id: number, secretHash: string): Promise<boolean> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `UPDATE ${this.clientsTable} SET secret_hash = $2 WHERE id = $1 AND removed IS NULL`, [id, secretHash]);
+                resolve(result.rowCount > 0);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public removeClient(id: number): Promise<boolean> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `UPDATE ${this.clientsTable} SET removed = NOW() WHERE id = $1 AND removed IS NULL`, [id]);
+                resolve(result.rowCount > 0);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public createCode(code: OAuthCodeEntity): Promise<void> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                await this.database.query(
+                    `INSERT INTO ${this.codesTable} (code_hash, client_id, user_id, redirect_uri, scope, challenge, expires)
+                     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+                    [code.codeHash, code.clientId, code.userId, code.redirectUri, code.scope, code.challenge, code.expires]
+                );
+                resolve();
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public takeCode(codeHash: string): Promise<OAuthCodeEntity | null> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                // concurrent exchanges of the same code are decided by this update
+                const result = await this.database.query(
+                    `UPDATE ${this.codesTable} SET used = NOW() WHERE code_hash = $1 AND used IS NULL RETURNING *`, [codeHash]);
+                resolve(result.rows.length ? OAuthRepository.code(result.rows[0]) : null);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public purgeExpired(before: Date): Promise<number> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const codes = await this.database.query(`DELETE FROM ${this.codesTable} WHERE expires < $1`, [before]);
+                const clients = await this.database.query(`DELETE FROM ${this.clientsTable} WHERE removed < $1`, [before]);
+                resolve(codes.rowCount + clients.rowCount);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
@@ -0,0 +1,47 @@
+import {Pool} from "pg";
+import {POSTGRES_SERVICE} from "../../../../services/app.constants";
+import {Service} from "../../../../services/app.service";
+import {IPasswordHistoryServiceRepository} from "../../../interfaces/password.history.interface";
+import {PASSWORD_HISTORY_TABLE} from "./constants.repository";
+
+/**
+ * Password history Repository.
+ */
+export class PasswordHistoryRepository implements IPasswordHistoryServiceRepository {
+    private readonly database: Pool;
+    private readonly passwordHistoryTable: string;
+    constructor() {
+        this.database = Service.getService<Pool>(POSTGRES_SERVICE);
+        this.passwordHistoryTable = PASSWORD_HISTORY_TABLE;
+    }
+
+    public recent(userId: number, limit: number): Promise<string[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `SELECT password_hash FROM ${this.passwordHistoryTable}
+                     WHERE user_id = $1 ORDER BY created DESC, id DESC LIMIT $2`, [userId, limit]);
+                resolve(result.rows.map(row => row.password_hash));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public add(userId: number, hash: string, keep: number): Promise<void> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                await this.database.query(
+                    `INSERT INTO ${this.passwordHistoryTable} (user_id, password_hash) VALUES ($1, $2)`, [userId, hash]);
+                await this.database.query(
+                    `DELETE FROM ${this.passwordHistoryTable}
+                     WHERE user_id = $1 AND id NOT IN (
+                         SELECT id FROM ${this.passwordHistoryTable}
+                         WHERE user_id = $1 ORDER BY created DESC, id DESC LIMIT $2)`, [userId, keep]);
+                resolve();
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
@@ -0,0 +1,260 @@
+import { Pool } from "pg";
+import {IPermissionServiceRepository} from "../../../interfaces/permission.interface";
+import {POSTGRES_SERVICE} from "../../../../services/app.constants";
+import {Service} from "../../../../services/app.service";
+import {PermissionEntity} from "../../../entities/permissions.entity";
+import {PERMISSIONS_TABLE, ROLE_PERMISSION_TABLE, ROLES_TABLE, USER_ROLE_TABLE} from "./constants.repository";
+
+/**
+ * Permission Repository.
+ */
+export class PermissionRepository implements IPermissionServiceRepository {
+    private readonly database: Pool;
+    private readonly rolesTable: string;
+    private readonly userRoleTable: string;
+    private readonly permissionsTable: string;
+    private readonly rolePermissionTable: string;
+    constructor() {
+        this.database = Service.getService<Pool>(POSTGRES_SERVICE);
+        this.rolesTable = ROLES_TABLE;
+        this.userRoleTable = USER_ROLE_TABLE;
+        this.permissionsTable = PERMISSIONS_TABLE;
+        this.rolePermissionTable = ROLE_PERMISSION_TABLE;
+    }
+
+    private getOne(field: string, id: number | string): Promise<PermissionEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(`
+                      SELECT ${this.permissionsTable}.id,
+                             ${this.permissionsTable}.title,
+                             ${this.permissionsTable}.description,
+                             ${this.permissionsTable}.enabled,
+                             ${this.permissionsTable}.created,
+                             ${this.permissionsTable}.updated,
+                             ${this.permissionsTable}.removed,
+                             array_remove(ARRAY_AGG(${this.rolesTable}.id), NULL) ${this.rolesTable}
+                      FROM ${this.permissionsTable}
+                      LEFT JOIN ${this.rolePermissionTable} ON (${this.rolePermissionTable}.permission_id = ${this.permissionsTable}.id)
+                      LEFT JOIN ${this.rolesTable} ON (${this.rolesTable}.id = ${this.rolePermissionTable}.role_id)
+
+                      WHERE ${this.permissionsTable}."${field}" = $1
+                      GROUP BY ${this.permissionsTable}.id ORDER BY id ASC`, [id]);
+                const permissions = result.rows.map(row => new PermissionEntity(row.id, row.title, row.description, row.enabled, row.created,
+                    row.updated, row.removed, row.roles));
+                if (permissions && permissions.length > 0) {
+                    resolve(permissions[0]);
+                } else {
+                    resolve(null);
+                }
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * get all permissions
+     */
+    public get(): Promise<PermissionEntity[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(`
+                      SELECT ${this.permissionsTable}.id,
+                             ${this.permissionsTable}.title,
+                             ${this.permissionsTable}.description,
+                             ${this.permissionsTable}.enabled,
+                             ${this.permissionsTable}.created,
+                             ${this.permissionsTable}.updated,
+                             ${this.permissionsTable}.removed,
+                             array_remove(ARRAY_AGG(${this.rolesTable}.id), NULL) ${this.rolesTable}
+                      FROM ${this.permissionsTable}
+                      LEFT JOIN ${this.rolePermissionTable} ON (${this.rolePermissionTable}.permission_id = ${this.permissionsTable}.id)
+                      LEFT JOIN ${this.rolesTable} ON (${this.rolesTable}.id = ${this.rolePermissionTable}.role_id)
+                      GROUP BY ${this.permissionsTable}.id ORDER BY id ASC`);
+                resolve(result.rows.map(row => new PermissionEntity(row.id, row.title, row.description, row.enabled, row.created, row.updated,
+                    row.removed, row.roles)));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * Get all active permissions
+     */
+    public getByEnabled(enabled: boolean): Promise<PermissionEntity[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(`
+                      SELECT ${this.permissionsTable}.id,
+                             ${this.permissionsTable}.title,
+                             ${this.permissionsTable}.description,
+                             ${this.permissionsTable}.enabled,
+                             ${this.permissionsTable}.created,
+                             ${this.permissionsTable}.updated,
+                             ${this.permissionsTable}.removed,
+                             array_remove(ARRAY_AGG(${this.rolesTable}.id), NULL) ${this.rolesTable}
+                      FROM ${this.permissionsTable}
+                      LEFT JOIN ${this.rolePermissionTable} ON (${this.rolePermissionTable}.permission_id = ${this.permissionsTable}.id)
+                      LEFT JOIN ${this.rolesTable} ON (${this.rolesTable}.id = ${this.rolePermissionTable}.role_id)
+
+                      WHERE ${this.permissionsTable}.enabled = $1
+                      GROUP BY ${this.permissionsTable}.id ORDER BY id ASC`, [enabled]);
+                resolve(result.rows.map(row => new PermissionEntity(row.id, row.title, row.description, row.enabled, row.created, row.updated,
+                    row.removed, row.roles)));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * Get active permissions granted to user through enabled roles
+     * @param userId
+     */
+    public getByUser(userId: number): Promise<PermissionEntity[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(`
+                      SELECT ${this.permissionsTable}.id,
+                             ${this.permissionsTable}.title,
+                             ${this.permissionsTable}.description,
+                             ${this.permissionsTable}.enabled,
+                             ${this.permissionsTable}.created,
+                             ${this.permissionsTable}.updated,
+                             ${this.permissionsTable}.removed,
+                             array_remove(ARRAY_AGG(${this.rolesTable}.id), NULL) ${this.rolesTable}
+                      FROM ${this.permissionsTable}
+                      INNER JOIN ${this.rolePermissionTable} ON (${this.rolePermissionTable}.permission_id = ${this.permissionsTable}.id)
+                      INNER JOIN ${this.rolesTable} ON (${this.rolesTable}.id = ${this.rolePermissionTable}.role_id)
+                      INNER JOIN ${this.userRoleTable} ON (${this.userRoleTable}.role_id = ${this.rolesTable}.id)
+
+                      WHERE ${this.userRoleTable}.user_id = $1
+                      AND   ${this.rolesTable}.enabled = TRUE
+                      AND   ${this.rolesTable}.removed IS NULL
+                      AND   ${this.permissionsTable}.enabled = TRUE
+                      AND   ${this.permissionsTable}.removed IS NULL
+                      GROUP BY ${this.permissionsTable}.id ORDER BY id ASC`, [userId]);
+                resolve(result.rows.map(row => new PermissionEntity(row.id, row.title, row.description, row.enabled, row.created, row.updated,
+                    row.removed, row.roles)));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public getById(id: number): Promise<PermissionEntity> {
+        return this.getOne("id", id);
+    }
+
+    public getByName(title: string): Promise<PermissionEntity> {
+        return this.getOne("title", title);
+    }
+
+    public update(permission: PermissionEntity): Promise<PermissionEntity> {
+        return new Promise(async (resolve, reject) => {
+            // use combination of try catch to easily find an error
+            try {
+                try {
+                    await this.database.query(
+                        `UPDATE ${this.permissionsTable}
+                     SET title = $2,
+                         description = $3,
+                         enabled = $4,
+                         removed = $5
+                     WHERE id = $1 RETURNING *;`,
+                        [
+                            permission.id,
+                            permission.title,
+                            permission.description ? permission.description : "",
+                            !!permission.enabled,
+                            permission.removed,
+                        ]
+                    );
+                } catch (e) {
+                    throw e;
+                }
+                try {
+                    if (permission && permission.id && permission.roles) {
+                        await this.database.query(`
+                        DELETE
+                        FROM ${this.rolePermissionTable}
+                        WHERE permission_id = $1`, [
+                            permission.id
+                        ]);
+                        await Promise.all(permission.roles.map(async(roleId) => {
+                            if (roleId) {
+                                await this.database.query(`
+                                INSERT INTO ${this.rolePermissionTable}
+                                SELECT r.id, p.id
+                                FROM ${this.permissionsTable} p
+                                         LEFT JOIN ${this.rolesTable} r ON r.id = $1
+                                WHERE p.id = $2`, [
+                                    roleId, permission.id
+                                ]);
+                            }
+                        }));
+                    }
+                } catch (e) {
+                    throw e;
+                }
+                resolve(this.getById(permission.id));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public remove(permission: PermissionEntity): Promise<PermissionEntity> {
+        return new Promise(async (resolve, reject) => {
+            // use multiple try catch blocks for async operations
+            try {
+                try {
+                    await this.database.query(`
+                    DELETE FROM ${this.rolePermissionTable}
+                    WHERE permission_id = $1`, [
+                        permission.id
+                    ]);
+                } catch (e) {
+                    throw e;
+                }
+                try {
+                    await this.database.query(
+                        `UPDATE ${this.permissionsTable}
+                         SET removed = NOW(),
+                             enabled = FALSE
+                         WHERE id = $1 RETURNING *;`, [
+                            permission.id
+                        ]);
+                    permission.removed = new Date();
+                    permission.enabled = false;
+                    resolve(permission);
+                } catch (e) {
+                    throw e;
+                }
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public create(permission: PermissionEntity): Promise<PermissionEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                await this.database.query(
+                    `INSERT INTO ${this.permissionsTable} (title, description, enabled) VALUES ($1, $2, $3)`,
+                    [
+                        permission.title,
+                        permission.description ? permission.description : "",
+                        true
+                    ]
+                );
+                resolve(this.getByName(permission.title));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+}
@@ -0,0 +1,78 @@
+import {Pool} from "pg";
+import {POSTGRES_SERVICE} from "../../../../services/app.constants";
+import {Service} from "../../../../services/app.service";
+import {IRecoveryCodeServiceRepository} from "../../../interfaces/recovery.code.interface";
+import {RECOVERY_CODES_TABLE} from "./constants.repository";
+
+/**
+ * Recovery code Repository.
+ */
+export class RecoveryCodeRepository implements IRecoveryCodeServiceRepository {
+    private readonly database: Pool;
+    private readonly recoveryCodesTable: string;
+    constructor() {
+        this.database = Service.getService<Pool>(POSTGRES_SERVICE);
+        this.recoveryCodesTable = RECOVERY_CODES_TABLE;
+    }
+
+    /**
+     * replace codes in one statement, old codes cannot be used once new ones exist
+     * @param userId
+     * @param hashes
+     */
+    public replace(userId: number, hashes: string[]): Promise<void> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                await this.database.query(
+                    `WITH removed AS (DELETE FROM ${this.recoveryCodesTable} WHERE user_id = $1)
+                     INSERT INTO ${this.recoveryCodesTable} (user_id, code_hash)
+                     SELECT $1, UNNEST($2::varchar[])`, [userId, hashes]);
+                resolve();
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * use code in one statement, concurrent requests cannot redeem it twice
+     * @param userId
+     * @param hash
+     */
+    public redeem(userId: number, hash: string): Promise<boolean> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `UPDATE ${this.recoveryCodesTable} SET used = NOW()
+                     WHERE user_id = $1 AND code_hash = $2 AND used IS NULL`, [userId, hash]);
+                resolve(result.rowCount > 0);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public remaining(userId: number): Promise<number> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `SELECT COUNT(*) total FROM ${this.recoveryCodesTable} WHERE user_id = $1 AND used IS NULL`, [userId]);
+                resolve(Number(result.rows[0].total));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public removeUser(userId: number): Promise<number> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `DELETE FROM ${this.recoveryCodesTable} WHERE user_id = $1`, [userId]);
+                resolve(result.rowCount);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
@@ -1,9 +1,17 @@
 import { Pool } from "pg";
-import {IRoleServiceRepository} from "../../../interfaces/role.interface";
+import {IRoleServiceRepository, ROLE_LIST_SORT} from "../../../interfaces/role.interface";
+import {ListQuery, ListResult} from "../../../interfaces/list.interface";
 import {POSTGRES_SERVICE} from "../../../../services/app.constants";
 import {Service} from "../../../../services/app.service";
 import {ADMIN_ROLE_ID, RoleEntity, SUPERADMIN_ROLE_ID, USER_ROLE_ID} from "../../../entities/roles.entity";
-import {ROLES_TABLE, USER_ROLE_TABLE, USERS_TABLE} from "./constants.repository";
+import {
+    PERMISSIONS_TABLE,
+    ROLE_PERMISSION_TABLE,
+    ROLES_TABLE,
+    USER_ROLE_TABLE,
+    USERS_TABLE
+} from "./constants.repository";
+import {compileListQuery} from "./list.repository";
 
 /**
  * Role Repository.
@@ -13,11 +21,15 @@ export class RoleRepository implements IRoleServiceRepository {
     private readonly usersTable: string;
     private readonly rolesTable: string;
     private readonly userRoleTable: string;
+    private readonly permissionsTable: string;
+    private readonly rolePermissionTable: string;
     constructor() {
         this.database = Service.getService<Pool>(POSTGRES_SERVICE);
         this.usersTable = USERS_TABLE;
         this.rolesTable = ROLES_TABLE;
         this.userRoleTable = USER_ROLE_TABLE;
+        this.permissionsTable = PERMISSIONS_TABLE;
+        this.rolePermissionTable = ROLE_PERMISSION_TABLE;
     }
 
     private getOne(field: string, id: any): Promise<RoleEntity> {
@@ -31,15 +43,18 @@ export class RoleRepository implements IRoleServiceRepository {
                              ${this.rolesTable}.created,
                              ${this.rolesTable}.updated,
                              ${this.rolesTable}.removed,
-                             array_remove(ARRAY_AGG(${this.usersTable}.id), NULL) ${this.usersTable}
+                             array_remove(ARRAY_AGG(DISTINCT ${this.usersTable}.id), NULL) ${this.usersTable},
+                             array_remove(ARRAY_AGG(DISTINCT ${this.permissionsTable}.id), NULL) ${this.permissionsTable}
                       FROM ${this.rolesTable}
                       LEFT JOIN ${this.userRoleTable} ON (${this.userRoleTable}.role_id = ${this.rolesTable}.id)
-                      LEFT JOIN ${this.usersTable} ON (${this.usersTable}.id = ${this.userRoleTable}.user_id)
+                      LEFT JOIN ${this.usersTable} ON (${this.usersTable}.id = ${this.userRoleTable}.user_id AND ${this.usersTable}.removed IS NULL)
+                      LEFT JOIN ${this.rolePermissionTable} ON (${this.rolePermissionTable}.role_id = ${this.rolesTable}.id)
+                      LEFT JOIN ${this.permissionsTable} ON (${this.permissionsTable}.id = ${this.rolePermissionTable}.permission_id)
 
                       WHERE ${this.rolesTable}."${field}" = $1
                       GROUP BY ${this.rolesTable}.id ORDER BY id ASC`, [id]);
                 const roles = result.rows.map(row => new RoleEntity(row.id, row.title, row.description, row.enabled, row.created, row.updated,
-                    row.removed, row.users));
+                    row.removed, row.users, row.permissions));
                 if (roles && roles.length > 0) {
                     resolve(roles[0]);
                 } else {
@@ -52,11 +67,18 @@ export class RoleRepository implements IRoleServiceRepository {
     }
 
     /**
-     * get all roles
+     * page of removed or not removed roles
+     * @param removed
+     * @param query page, sort and filter options
+     * @private
      */
-    public get(): Promise<RoleEntity[]> {
+    private page(removed: boolean, query: ListQuery): Promise<ListResult<RoleEntity>> {
         return new Promise(async (resolve, reject) => {
             try {
+                const list = compileListQuery(this.rolesTable, query, ROLE_LIST_SORT, [`${this.rolesTable}.removed IS ${removed ? "NOT NULL" : "NULL"}`]);
+                const count = await this.database.query(`
+                      SELECT COUNT(*) total FROM ${this.rolesTable}
+                      WHERE ${list.where}`, list.parameters);
                 const result = await this.database.query(`
                       SELECT ${this.rolesTable}.id,
                              ${this.rolesTable}.title,
@@ -65,12 +87,22 @@ export class RoleRepository implements IRoleServiceRepository {
                              ${this.rolesTable}.created,
                              ${this.rolesTable}.updated,
                              ${this.rolesTable}.removed,
-                             array_remove(ARRAY_AGG(${this.usersTable}.id), NULL) ${this.usersTable}
+                             array_remove(ARRAY_AGG(DISTINCT ${this.usersTable}.id), NULL) ${this.usersTable},
+                             array_remove(ARRAY_AGG(DISTINCT ${this.permissionsTable}.id), NULL) ${this.permissionsTable}
                       FROM ${this.rolesTable}
                       LEFT JOIN ${this.userRoleTable} ON (${this.userRoleTable}.role_id = ${this.rolesTable}.id)
-                      LEFT JOIN ${this.usersTable} ON (${this.usersTable}.id = ${this.userRoleTable}.user_id)
-                      GROUP BY ${this.rolesTable}.id ORDER BY id ASC`);
-                resolve(result.rows.map(row => new RoleEntity(row.id, row.title, row.description, row.enabled, row.created, row.updated, row.removed, row.users)));
+                      LEFT JOIN ${this.usersTable} ON (${this.usersTable}.id = ${this.userRoleTable}.user_id AND ${this.usersTable}.removed IS NULL)
+                      LEFT JOIN ${this.rolePermissionTable} ON (${this.rolePermissionTable}.role_id = ${this.rolesTable}.id)
+                      LEFT JOIN ${this.permissionsTable} ON (${this.permissionsTable}.id = ${this.rolePermissionTable}.permission_id)
+                      WHERE ${list.where}
+                      GROUP BY ${this.rolesTable}.id ORDER BY ${list.order}
+                      ${list.pagination}`, list.page);
+                resolve({
+                    items: result.rows.map(row => new RoleEntity(row.id, row.title, row.description, row.enabled, row.created, row.updated, row.removed, row.users, row.permissions)),
+                    total: Number(count.rows[0].total),
+                    limit: list.limit,
+                    offset: list.offset
+                });
             } catch (e) {
                 reject(e);
             }
@@ -78,31 +110,19 @@ export class RoleRepository implements IRoleServiceRepository {
     }
 
     /**
-     * Get all active roles
+     * get page of roles
+     * @param query page, sort and filter options
      */
-    public getByEnabled(enabled: boolean): Promise<RoleEntity[]> {
-        return new Promise(async (resolve, reject) => {
-            try {
-                const result = await this.database.query(`
-                      SELECT ${this.rolesTable}.id,
-                             ${this.rolesTable}.title,
-                             ${this.rolesTable}.description,
-                             ${this.rolesTable}.enabled,
-                             ${this.rolesTable}.created,
-                             ${this.rolesTable}.updated,
-                             ${this.rolesTable}.removed,
-                             array_remove(ARRAY_AGG(${this.usersTable}.id), NULL) ${this.usersTable}
-                      FROM ${this.rolesTable}
-                      LEFT JOIN ${this.userRoleTable} ON (${this.userRoleTable}.role_id = ${this.rolesTable}.id)
-                      LEFT JOIN ${this.usersTable} ON (${this.usersTable}.id = ${this.userRoleTable}.user_id)
+    public get(query: ListQuery = {}): Promise<ListResult<RoleEntity>> {
+        return this.page(false, query);
+    }
 
-                      WHERE ${this.rolesTable}.enabled = $1
-                      GROUP BY ${this.rolesTable}.id ORDER BY id ASC`, [enabled]);
-                resolve(result.rows.map(row => new RoleEntity(row.id, row.title, row.description, row.enabled, row.created, row.updated, row.removed, row.users)));
-            } catch (e) {
-                reject(e);
-            }
-        });
+    /**
+     * get page of removed roles
+     * @param query page, sort and filter options
+     */
+    public getRemoved(query: ListQuery = {}): Promise<ListResult<RoleEntity>> {
+        return this.page(true, query);
     }
 
     public getById(id: number): Promise<RoleEntity> {
@@ -144,10 +164,12 @@ export class RoleRepository implements IRoleServiceRepository {
                 }
                 try {
                     if (role && role.id) {
+                        // removed users are not listed in role.users, their roles are kept for restore
                         await this.database.query(`
                         DELETE
                         FROM ${this.userRoleTable}
-                        WHERE role_id = $1`, [
+                        WHERE role_id = $1
+                        AND   user_id NOT IN (SELECT id FROM ${this.usersTable} WHERE removed IS NOT NULL)`, [
                             role.id
                         ]);
                     }
@@ -172,6 +194,30 @@ export class RoleRepository implements IRoleServiceRepository {
                 } catch (e) {
                     throw e;
                 }
+                try {
+                    if (role && role.id && role.permissions) {
+                        await this.database.query(`
+                        DELETE
+                        FROM ${this.rolePermissionTable}
+                        WHERE role_id = $1`, [
+                            role.id
+                        ]);
+                        await Promise.all(role.permissions.map(async(permissionId) => {
+                            if (permissionId) {
+                                await this.database.query(`
+                                INSERT INTO ${this.rolePermissionTable}
+                                SELECT r.id, p.id
+                                FROM ${this.rolesTable} r
+                                         LEFT JOIN ${this.permissionsTable} p ON p.id = $1
+                                WHERE r.id = $2`, [
+                                    permissionId, role.id
+                                ]);
+                            }
+                        }));
+                    }
+                } catch (e) {
+                    throw e;
+                }
                 resolve(this.getById(role.id));
             } catch (e) {
                 reject(e);
@@ -196,23 +242,13 @@ export class RoleRepository implements IRoleServiceRepository {
                     throw e;
                 }
                 try {
-                    if (process.env.NODE_ENV === "test") {
-                        await this.database.query(
-                            `DELETE FROM ${this.rolesTable}
-                                 WHERE id = $1;`,
-                            [
-                                role.id
-                            ]
-                        );
-                    } else {
-                        await this.database.query(
-                            `UPDATE ${this.rolesTable}
-                             SET removed = NOW(),
-                                 enabled = FALSE
-                             WHERE id = $1 RETURNING *;`, [
-                                role.id
-                            ]);
-                    }
+                    await this.database.query(
+                        `UPDATE ${this.rolesTable}
+                         SET removed = NOW(),
+                             enabled = FALSE
+                         WHERE id = $1 RETURNING *;`, [
+                            role.id
+                        ]);
                     role.removed = new Date();
                     role.enabled = false;
                     resolve(role);
@@ -225,6 +261,71 @@ export class RoleRepository implements IRoleServiceRepository {
         });
     }
 
+    /**
+     * bring removed role back, enabled
+     * @param role
+     */
+    public restore(role: RoleEntity): Promise<RoleEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                await this.database.query(
+                    `UPDATE ${this.rolesTable}
+                     SET removed = NULL,
+                         enabled = TRUE
+                     WHERE id = $1;`, [
+                        role.id
+                    ]);
+                resolve(this.getById(role.id));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * permanently delete removed role
+     * @param role
+     */
+    public purge(role: RoleEntity): Promise<RoleEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                if (!role.removed) {
+                    throw new Error(`${role.title} is not removed`);
+                }
+                await this.database.query(
+                    `DELETE FROM ${this.rolesTable}
+                     WHERE id = $1
+                     AND   removed IS NOT NULL;`, [
+                        role.id
+                    ]);
+                resolve(role);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * permanently delete roles removed before date
+     * @param before
+     * @return number of deleted roles
+     */
+    public purgeRemoved(before: Date): Promise<number> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `DELETE FROM ${this.rolesTable}
+                     WHERE removed IS NOT NULL
+                     AND   removed < $1;`, [
+                        before
+                    ]);
+                resolve(result.rowCount);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
     public create(role: RoleEntity): Promise<RoleEntity> {
         return new Promise(async (resolve, reject) => {
             try {
@@ -0,0 +1,98 @@
+import {Pool} from "pg";
+import {POSTGRES_SERVICE} from "../../../../services/app.constants";
+import {Service} from "../../../../services/app.service";
+import {
+    ISearchServiceRepository,
+    SEARCH_TYPE_ACCOUNT,
+    SEARCH_TYPE_USER,
+    SearchResult
+} from "../../../interfaces/search.interface";
+import {ACCOUNTS_TABLE, USER_ACCOUNT_TABLE, USERS_TABLE} from "./constants.repository";
+
+/**
+ * Search Repository.
+ * Full text vectors and trigram similarity are served by indexes of search-init migration,
+ * vector expressions must stay equal to the indexed ones.
+ */
+export class SearchRepository implements ISearchServiceRepository {
+    private readonly database: Pool;
+    private readonly usersTable: string;
+    private readonly accountsTable: string;
+    private readonly userAccountTable: string;
+    constructor() {
+        this.database = Service.getService<Pool>(POSTGRES_SERVICE);
+        this.usersTable = USERS_TABLE;
+        this.accountsTable = ACCOUNTS_TABLE;
+        this.userAccountTable = USER_ACCOUNT_TABLE;
+    }
+
+    /**
+     * search users and accounts ranked by full text rank or similarity of the best matching field
+     * @param q
+     * @param types entity types to search
+     * @param limit
+     * @param memberId when set only users and accounts sharing an account with this user are returned
+     */
+    public search(q: string, types: string[], limit: number, memberId: number = null): Promise<SearchResult[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const userVector = `to_tsvector('simple', coalesce(${this.usersTable}.username, '') || ' ' || coalesce(${this.usersTable}.email, ''))`;
+                const accountVector = `to_tsvector('simple', coalesce(${this.accountsTable}.name, '') || ' ' || coalesce(${this.accountsTable}.email, '') || ' ' || coalesce(${this.accountsTable}.uid, '') || ' ' ||
+                                     coalesce(${this.accountsTable}.fid, '') || ' ' || coalesce(${this.accountsTable}.customer_portal_id, ''))`;
+                const result = await this.database.query(`
+                    SELECT results.* FROM (
+                        (SELECT DISTINCT ON (${this.usersTable}.id)
+                                '${SEARCH_TYPE_USER}' AS type,
+                                ${this.usersTable}.id,
+                                ${this.usersTable}.username AS name,
+                                candidate.field,
+                                candidate.value,
+                                GREATEST(ts_rank(${userVector}, plainto_tsquery('simple', $1)), similarity(candidate.value, $1)) AS rank
+                         FROM ${this.usersTable},
+                              LATERAL (VALUES ('username', ${this.usersTable}.username),
+                                              ('email', ${this.usersTable}.email)) candidate (field, value)
+                         WHERE '${SEARCH_TYPE_USER}' = ANY($3::text[])
+                         AND   ${this.usersTable}.removed IS NULL
+                         AND   ($4::int IS NULL OR ${this.usersTable}.id = $4 OR ${this.usersTable}.id IN (
+                                   SELECT member.user_id FROM ${this.userAccountTable} member
+                                   INNER JOIN ${this.userAccountTable} caller ON (caller.account_id = member.account_id)
+                                   WHERE caller.user_id = $4))
+                         AND   (${userVector} @@ plainto_tsquery('simple', $1) OR candidate.value % $1 OR candidate.value ILIKE $2)
+                         ORDER BY ${this.usersTable}.id, similarity(candidate.value, $1) DESC)
+                        UNION ALL
+                        (SELECT DISTINCT ON (${this.accountsTable}.id)
+                                '${SEARCH_TYPE_ACCOUNT}' AS type,
+                                ${this.accountsTable}.id,
+                                ${this.accountsTable}.name,
+                                candidate.field,
+                                candidate.value,
+                                GREATEST(ts_rank(${accountVector}, plainto_tsquery('simple', $1)), similarity(candidate.value, $1)) AS rank
+                         FROM ${this.accountsTable},
+                              LATERAL (VALUES ('name', ${this.accountsTable}.name),
+                                              ('email', ${this.accountsTable}.email),
+                                              ('uid', ${this.accountsTable}.uid),
+                                              ('fid', ${this.accountsTable}.fid),
+                                              ('customerPortalId', ${this.accountsTable}.customer_portal_id)) candidate (field, value)
+                         WHERE '${SEARCH_TYPE_ACCOUNT}' = ANY($3::text[])
+                         AND   ${this.accountsTable}.removed IS NULL
+                         AND   ($4::int IS NULL OR ${this.accountsTable}.id IN (
+                                   SELECT member.account_id FROM ${this.userAccountTable} member WHERE member.user_id = $4))
+                         AND   (${accountVector} @@ plainto_tsquery('simple', $1) OR candidate.value % $1 OR candidate.value ILIKE $2)
+                         ORDER BY ${this.accountsTable}.id, similarity(candidate.value, $1) DESC)
+                    ) results
+                    ORDER BY results.rank DESC, results.type, results.id
+                    LIMIT $5`, [q, `%${q.replace(/[\\%_]/g, "\\$&")}%`, types, memberId, limit]);
+                resolve(result.rows.map(row => ({
+                    type: row.type,
+                    id: row.id,
+                    name: row.name,
+                    field: row.field,
+                    value: row.value,
+                    rank: Number(row.rank)
+                })));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
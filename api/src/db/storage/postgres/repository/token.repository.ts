@@ -0,0 +1,130 @@
+import {Pool} from "pg";
+import {POSTGRES_SERVICE} from "../../../../services/app.constants";
+import {Service} from "../../../../services/app.service";
+import {ITokenServiceRepository} from "../../../interfaces/token.interface";
+import {RefreshTokenEntity} from "../../../entities/tokens.entity";
+import {REFRESH_TOKENS_TABLE} from "./constants.repository";
+
+// row of refresh tokens table
+interface RefreshTokenRow {
+    id:         number
+    user_id:    number
+    family:     string
+    token_hash: string
+    expires:    Date
+    revoked:    Date
+    created:    Date
+}
+
+/**
+ * Refresh token Repository.
+ */
+export class TokenRepository implements ITokenServiceRepository {
+    private readonly database: Pool;
+    private readonly refreshTokensTable: string;
+    constructor() {
+        this.database = Service.getService<Pool>(POSTGRES_SERVICE);
+        this.refreshTokensTable = REFRESH_TOKENS_TABLE;
+    }
+
+    private static entity(row: RefreshTokenRow): RefreshTokenEntity {
+        return new RefreshTokenEntity(row.id, row.user_id, row.family, row.token_hash, row.expires, row.revoked, row.created);
+    }
+
+    public create(token: RefreshTokenEntity): Promise<RefreshTokenEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `INSERT INTO ${this.refreshTokensTable} (user_id, family, token_hash, expires)
+                     VALUES ($1, $2, $3, $4) RETURNING *`,
+                    [token.userId, token.family, token.tokenHash, token.expires]
+                );
+                resolve(TokenRepository.entity(result.rows[0]));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public getByHash(tokenHash: string): Promise<RefreshTokenEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `SELECT * FROM ${this.refreshTokensTable} WHERE token_hash = $1`, [tokenHash]);
+                resolve(result.rows.length > 0 ? TokenRepository.entity(result.rows[0]) : null);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * revoke token unless it is revoked already, concurrent rotations of one token can't both succeed
+     * @param id
+     */
+    public revoke(id: number): Promise<boolean> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `UPDATE ${this.refreshTokensTable} SET revoked = NOW() WHERE id = $1 AND revoked IS NULL RETURNING id`, [id]);
+                resolve(result.rows.length > 0);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public revokeFamily(family: string): Promise<number> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `UPDATE ${this.refreshTokensTable} SET revoked = NOW() WHERE family = $1 AND revoked IS NULL`, [family]);
+                resolve(result.rowCount);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public revokeUser(userId: number): Promise<number> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `UPDATE ${this.refreshTokensTable} SET revoked = NOW() WHERE user_id = $1 AND revoked IS NULL`, [userId]);
+                resolve(result.rowCount);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public isActive(family: string): Promise<boolean> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `SELECT 1 FROM ${this.refreshTokensTable}
+                     WHERE family = $1 AND revoked IS NULL AND expires > NOW() LIMIT 1`, [family]);
+                resolve(result.rows.length > 0);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * delete tokens expired before date
+     * @param before
+     * @return number of deleted tokens
+     */
+    public purgeExpired(before: Date): Promise<number> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `DELETE FROM ${this.refreshTokensTable} WHERE expires < $1`, [before]);
+                resolve(result.rowCount);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
@@ -0,0 +1,95 @@
+import {Pool} from "pg";
+import {POSTGRES_SERVICE} from "../../../../services/app.constants";
+import {Service} from "../../../../services/app.service";
+import {IUserIdentityServiceRepository} from "../../../interfaces/user.identity.interface";
+import {UserIdentityEntity} from "../../../entities/user.identity.entity";
+import {USER_IDENTITIES_TABLE} from "./constants.repository";
+
+// row of user identities table
+interface UserIdentityRow {
+    id:        number
+    user_id:   number
+    provider:  string
+    subject:   string
+    email:     string
+    last_used: Date
+    created:   Date
+}
+
+/**
+ * User identity Repository.
+ */
+export class UserIdentityRepository implements IUserIdentityServiceRepository {
+    private readonly database: Pool;
+    private readonly identitiesTable: string;
+    constructor() {
+        this.database = Service.getService<Pool>(POSTGRES_SERVICE);
+        this.identitiesTable = USER_IDENTITIES_TABLE;
+    }
+
+    private static entity(row: UserIdentityRow): UserIdentityEntity {
+        return new UserIdentityEntity(row.id, row.user_id, row.provider, row.subject, row.email, row.last_used, row.created);
+    }
+
+    public list(userId: number): Promise<UserIdentityEntity[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `SELECT * FROM ${this.identitiesTable} WHERE user_id = $1 ORDER BY id`, [userId]);
+                resolve(result.rows.map(row => UserIdentityRepository.entity(row)));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public getBySubject(provider: string, subject: string): Promise<UserIdentityEntity | null> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `SELECT * FROM ${this.identitiesTable} WHERE provider = $1 AND subject = $2`, [provider, subject]);
+                resolve(result.rows.length ? UserIdentityRepository.entity(result.rows[0]) : null);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public create(identity: UserIdentityEntity): Promise<UserIdentityEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `INSERT INTO ${this.identitiesTable} (user_id, provider, subject, email, last_used)
+                     VALUES ($1, $2, $3, $4, NOW()) RETURNING *`,
+                    [identity.userId, identity.provider, identity.subject, identity.email]
+                );
+                resolve(UserIdentityRepository.entity(result.rows[0]));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public used(id: number): Promise<void> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                await this.database.query(`UPDATE ${this.identitiesTable} SET last_used = NOW() WHERE id = $1`, [id]);
+                resolve();
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public remove(userId: number, id: number): Promise<boolean> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `DELETE FROM ${this.identitiesTable} WHERE user_id = $1 AND id = $2`, [userId, id]);
+                resolve(result.rowCount > 0);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
@@ -1,18 +1,22 @@
 import {Pool} from "pg";
 import {POSTGRES_SERVICE} from "../../../../services/app.constants";
 import {Service} from "../../../../services/app.service";
-import {IUserServiceRepository} from "../../../interfaces/user.interface";
+import {IUserServiceRepository, USER_LIST_SORT} from "../../../interfaces/user.interface";
+import {ListQuery, ListResult} from "../../../interfaces/list.interface";
 import {ROOT_ID, UserEntity} from "../../../entities/users.entity";
 
 import crypto from "crypto";
 import {
     ACCOUNTS_TABLE,
+    LOGIN_ATTEMPTS_TABLE,
     ROLES_TABLE,
     USER_ACCOUNT_TABLE,
     USER_ROLE_TABLE,
     USERS_TABLE
 } from "./constants.repository";
-import {USER_ROLE_ID} from "../../../entities/roles.entity";
+import {compileListQuery} from "./list.repository";
+import {MANAGER_ROLE_ID, USER_ROLE_ID} from "../../../entities/roles.entity";
+import {LOGIN_ATTEMPT_ACCOUNT_KEY} from "../../../entities/login.attempt.entity";
 
 /**
  * User Repository.
@@ -26,6 +30,7 @@ export class UserRepository implements IUserServiceRepository {
     private readonly userRoleTable: string;
     private readonly accountsTable: string;
     private readonly userAccountTable: string;
+    private readonly loginAttemptsTable: string;
 
     constructor() {
         this.database = Service.getService<Pool>(POSTGRES_SERVICE);
@@ -34,6 +39,7 @@ export class UserRepository implements IUserServiceRepository {
         this.userRoleTable = USER_ROLE_TABLE;
         this.accountsTable = ACCOUNTS_TABLE;
         this.userAccountTable = USER_ACCOUNT_TABLE;
+        this.loginAttemptsTable = LOGIN_ATTEMPTS_TABLE;
     }
 
     /**
@@ -50,7 +56,19 @@ export class UserRepository implements IUserServiceRepository {
         return `https://gravatar.com/avatar/${md5}?s=${size}&d=retro`;
     }
 
-    private getOne(field: string, id: number | string): Promise<UserEntity[]> {
+    /**
+     * restrict users to the member and users sharing an account with them, null means no restriction
+     * @param parameter position of member id in query parameters
+     * @private
+     */
+    private memberCondition(parameter: number): string {
+        return `($${parameter}::int IS NULL OR ${this.usersTable}.id = $${parameter} OR ${this.usersTable}.id IN (
+                    SELECT member.user_id FROM ${this.userAccountTable} member
+                    INNER JOIN ${this.userAccountTable} caller ON (caller.account_id = member.account_id)
+                    WHERE caller.user_id = $${parameter}))`;
+    }
+
+    private getOne(field: string, id: number | string, memberId: number = null): Promise<UserEntity[]> {
         return new Promise((resolve, reject) => {
             this.database.query(`
                 SELECT ${this.usersTable}.id,
@@ -62,20 +80,26 @@ export class UserRepository implements IUserServiceRepository {
                        ${this.usersTable}.gravatar,
                        ${this.usersTable}.password_reset_token,
                        ${this.usersTable}.password_reset_expires,
+                       ${this.usersTable}.email_verified,
+                       ${this.usersTable}.email_verify_token,
+                       ${this.usersTable}.email_verify_expires,
                        ${this.usersTable}.created,
                        ${this.usersTable}.updated,
                        ${this.usersTable}.removed,
                        array_remove(ARRAY_AGG(${this.rolesTable}.id), NULL)    ${this.rolesTable},
-                       array_remove(ARRAY_AGG(${this.accountsTable}.id), NULL) ${this.accountsTable}
+                       array_remove(ARRAY_AGG(${this.accountsTable}.id), NULL) ${this.accountsTable},
+                       MAX(${this.loginAttemptsTable}.locked_until) locked_until
                 FROM ${this.usersTable}
                          LEFT JOIN ${this.userRoleTable} ON (${this.userRoleTable}.user_id = ${this.usersTable}.id)
                          LEFT JOIN ${this.rolesTable} ON (${this.rolesTable}.id = ${this.userRoleTable}.role_id)
 
                          LEFT JOIN ${this.userAccountTable} ON (${this.userAccountTable}.user_id = ${this.usersTable}.id)
                          LEFT JOIN ${this.accountsTable} ON (${this.accountsTable}.id = ${this.userAccountTable}.account_id)
+                         LEFT JOIN ${this.loginAttemptsTable} ON (${this.loginAttemptsTable}.key = '${LOGIN_ATTEMPT_ACCOUNT_KEY}' || ${this.usersTable}.id)
 
                 WHERE ${this.usersTable}."${field}" = $1
-                GROUP BY ${this.usersTable}.id;`, [id])
+                AND   ${this.memberCondition(2)}
+                GROUP BY ${this.usersTable}.id;`, [id, memberId])
                 .then((result) => {
                     const users = result.rows.map(row => {
                         return new UserEntity(
@@ -92,7 +116,11 @@ export class UserRepository implements IUserServiceRepository {
                             row.updated,
                             row.removed,
                             row.roles,
-                            row.accounts);
+                            row.accounts,
+                            row.locked_until,
+                            row.email_verified,
+                            row.email_verify_token,
+                            row.email_verify_expires);
                     });
                     resolve(users);
                 })
@@ -129,17 +157,22 @@ export class UserRepository implements IUserServiceRepository {
                        ${this.usersTable}.gravatar,
                        ${this.usersTable}.password_reset_token,
                        ${this.usersTable}.password_reset_expires,
+                       ${this.usersTable}.email_verified,
+                       ${this.usersTable}.email_verify_token,
+                       ${this.usersTable}.email_verify_expires,
                        ${this.usersTable}.created,
                        ${this.usersTable}.updated,
                        ${this.usersTable}.removed,
                        array_remove(ARRAY_AGG(${this.rolesTable}.id), NULL) ${this.rolesTable},
-                       array_remove(ARRAY_AGG(${this.accountsTable}.id), NULL) ${this.accountsTable}
+                       array_remove(ARRAY_AGG(${this.accountsTable}.id), NULL) ${this.accountsTable},
+                       MAX(${this.loginAttemptsTable}.locked_until) locked_until
                 FROM ${this.usersTable}
                 LEFT JOIN ${this.userRoleTable} ON (${this.userRoleTable}.user_id = ${this.usersTable}.id)
                 LEFT JOIN ${this.rolesTable} ON (${this.rolesTable}.id = ${this.userRoleTable}.role_id)
                 
                 LEFT JOIN ${this.userAccountTable} ON (${this.userAccountTable}.user_id = ${this.usersTable}.id)
                 LEFT JOIN ${this.accountsTable} ON (${this.accountsTable}.id = ${this.userAccountTable}.account_id)
+                LEFT JOIN ${this.loginAttemptsTable} ON (${this.loginAttemptsTable}.key = '${LOGIN_ATTEMPT_ACCOUNT_KEY}' || ${this.usersTable}.id)
                 
                 WHERE ${this.usersTable}.password_reset_token = $1
                 AND    ${this.usersTable}.password_reset_expires >= FLOOR(EXTRACT(epoch FROM NOW()) * 1000)
@@ -160,7 +193,11 @@ export class UserRepository implements IUserServiceRepository {
                         row.updated,
                         row.removed,
                         row.roles,
-                        row.accounts);
+                        row.accounts,
+                        row.locked_until,
+                        row.email_verified,
+                        row.email_verify_token,
+                        row.email_verify_expires);
                 });
                 if (users.length === 1) {
                     resolve(users[0]);
@@ -173,12 +210,38 @@ export class UserRepository implements IUserServiceRepository {
         });
     }
 
+    public getByEmailVerifyToken(token: string): Promise<UserEntity> {
+        return new Promise((resolve, reject) => {
+            this.getOne("email_verify_token", token)
+                .then((users: UserEntity[]) => {
+                    // bigint expiration is returned as string
+                    if (users.length > 0 && Number(users[0].emailVerifyExpires) >= Date.now()) {
+                        resolve(users[0]);
+                    } else {
+                        resolve(null);
+                    }
+                })
+                .catch(e => {
+                    reject(e);
+                });
+        });
+    }
+
     /**
-     * get all users
+     * page of removed or not removed users
+     * @param removed
+     * @param query page, sort and filter options
+     * @param memberId when set only users visible to this user are returned
+     * @private
      */
-    public get(): Promise<UserEntity[]> {
+    private page(removed: boolean, query: ListQuery, memberId: number): Promise<ListResult<UserEntity>> {
         return new Promise(async (resolve, reject) => {
             try {
+                const list = compileListQuery(this.usersTable, query, USER_LIST_SORT, [
+                    `${this.usersTable}.removed IS ${removed ? "NOT NULL" : "NULL"}`, this.memberCondition(1)], [memberId]);
+                const count = await this.database.query(`
+                    SELECT COUNT(*) total FROM ${this.usersTable}
+                    WHERE ${list.where};`, list.parameters);
                 const result = await this.database.query(`
                     SELECT ${this.usersTable}.id,
                            ${this.usersTable}.username,
@@ -189,48 +252,82 @@ export class UserRepository implements IUserServiceRepository {
                            ${this.usersTable}.gravatar,
                            ${this.usersTable}.password_reset_token,
                            ${this.usersTable}.password_reset_expires,
+                           ${this.usersTable}.email_verified,
+                           ${this.usersTable}.email_verify_expires,
                            ${this.usersTable}.created,
                            ${this.usersTable}.updated,
                            ${this.usersTable}.removed,
                            array_remove(ARRAY_AGG(${this.rolesTable}.id), NULL) ${this.rolesTable},
-                           array_remove(ARRAY_AGG(${this.accountsTable}.id), NULL) ${this.accountsTable}
+                           array_remove(ARRAY_AGG(${this.accountsTable}.id), NULL) ${this.accountsTable},
+                           MAX(${this.loginAttemptsTable}.locked_until) locked_until
                     FROM ${this.usersTable}
                     LEFT JOIN ${this.userRoleTable} ON (${this.userRoleTable}.user_id = ${this.usersTable}.id)
                     LEFT JOIN ${this.rolesTable} ON (${this.rolesTable}.id = ${this.userRoleTable}.role_id)
                     
                     LEFT JOIN ${this.userAccountTable} ON (${this.userAccountTable}.user_id = ${this.usersTable}.id)
                     LEFT JOIN ${this.accountsTable} ON (${this.accountsTable}.id = ${this.userAccountTable}.account_id)
+                    LEFT JOIN ${this.loginAttemptsTable} ON (${this.loginAttemptsTable}.key = '${LOGIN_ATTEMPT_ACCOUNT_KEY}' || ${this.usersTable}.id)
                     
+                    WHERE ${list.where}
                     GROUP BY ${this.usersTable}.id
-                    ORDER BY ${this.usersTable}.id;`);
+                    ORDER BY ${list.order}
+                    ${list.pagination};`, list.page);
 
-                resolve(result.rows.map(row => {
-                    return new UserEntity(
-                        row.id,
-                        row.username,
-                        row.email,
-                        row.password,
-                        row.enabled,
-                        row.secret,
-                        row.gravatar,
-                        row.password_reset_token,
-                        row.password_reset_expires,
-                        row.created,
-                        row.updated,
-                        row.removed,
-                        row.roles,
-                        row.accounts);
-                }));
+                resolve({
+                    items: result.rows.map(row => {
+                        return new UserEntity(
+                            row.id,
+                            row.username,
+                            row.email,
+                            row.password,
+                            row.enabled,
+                            row.secret,
+                            row.gravatar,
+                            row.password_reset_token,
+                            row.password_reset_expires,
+                            row.created,
+                            row.updated,
+                            row.removed,
+                            row.roles,
+                            row.accounts,
+                            row.locked_until,
+                            row.email_verified,
+                            // pending verification token is not listed
+                            null,
+                            row.email_verify_expires);
+                    }),
+                    total: Number(count.rows[0].total),
+                    limit: list.limit,
+                    offset: list.offset
+                });
             } catch (e) {
                 reject(e);
             }
         });
     }
 
-    public getById(id: number): Promise<UserEntity> {
+    /**
+     * get page of users
+     * @param query page, sort and filter options
+     * @param memberId when set only users sharing an account with this user are returned
+     */
+    public get(query: ListQuery = {}, memberId: number = null): Promise<ListResult<UserEntity>> {
+        return this.page(false, query, memberId);
+    }
+
+    /**
+     * get page of removed users
+     * @param query page, sort and filter options
+     * @param memberId when set only users visible to this user are returned
+     */
+    public getRemoved(query: ListQuery = {}, memberId: number = null): Promise<ListResult<UserEntity>> {
+        return this.page(true, query, memberId);
+    }
+
+    public getById(id: number, memberId: number = null): Promise<UserEntity> {
         // transform array to one entity
         return new Promise((resolve, reject) => {
-            this.getOne("id", id)
+            this.getOne("id", id, memberId)
                 .then((users: UserEntity[]) => {
                     if (users.length > 0) {
                         resolve(users[0]);
@@ -271,13 +368,18 @@ export class UserRepository implements IUserServiceRepository {
         return new Promise(async (resolve, reject) => {
             try {
                 await this.database.query(
-                    `INSERT INTO ${this.usersTable} ("username", "email", "gravatar", "password" , "enabled") VALUES ($1, $2, $3, $4, $5)`,
+                    `INSERT INTO ${this.usersTable} ("username", "email", "gravatar", "password" , "enabled", "email_verified",
+                        "email_verify_token", "email_verify_expires") VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
                     [
                         user.username,
                         user.email,
                         this.gravatar(user.email),
                         await Service.hash(user.password),
-                        true
+                        true,
+                        // seeded users are trusted
+                        !!user.emailVerified || createFirstUser,
+                        user.emailVerifyToken,
+                        user.emailVerifyExpires
                     ]
                 );
                 const _user = await this.getByName(user.email);
@@ -298,7 +400,7 @@ export class UserRepository implements IUserServiceRepository {
                         roleId = 3;
                     }
                     if (_user.username.includes("manager")) {
-                        roleId = 4;
+                        roleId = MANAGER_ROLE_ID;
                     }
                     await this.database.query(`
                         INSERT INTO ${this.userRoleTable}
@@ -338,7 +440,10 @@ export class UserRepository implements IUserServiceRepository {
                          gravatar = $7,
                          password_reset_token = $8,
                          password_reset_expires = $9,
-                         removed = $10
+                         removed = $10,
+                         email_verified = $11,
+                         email_verify_token = $12,
+                         email_verify_expires = $13
                          WHERE id = $1 RETURNING *;`,
                         [
                             user.id,
@@ -350,7 +455,10 @@ export class UserRepository implements IUserServiceRepository {
                             user.gravatar,
                             user.passwordResetToken,
                             user.passwordResetExpires,
-                            user.removed
+                            user.removed,
+                            !!user.emailVerified,
+                            user.emailVerifyToken,
+                            user.emailVerifyExpires
                         ]
                     );
                 } catch (e) {
@@ -413,46 +521,17 @@ export class UserRepository implements IUserServiceRepository {
                 if (user.id === ROOT_ID) {
                     throw new Error(`${user.username} cannot be deleted`);
                 }
+                // roles and account memberships are kept for restore, removed users are left out of their lists
                 try {
-                    await this.database.query(`
-                        DELETE
-                        FROM ${this.userRoleTable}
-                        WHERE user_id = $1`, [
-                        user.id
-                    ]);
-                } catch (e) {
-                    throw e;
-                }
-                try {
-                    await this.database.query(`
-                        DELETE
-                        FROM ${this.userAccountTable}
-                        WHERE user_id = $1`, [
-                        user.id
-                    ]);
-                } catch (e) {
-                    throw e;
-                }
-                try {
-                    if (process.env.NODE_ENV === "test") {
-                        await this.database.query(
-            `DELETE FROM ${this.usersTable}
-                                 WHERE id = $1;`,
-                            [
-                                user.id
-                            ]
-                        );
-                    } else {
-                        await this.database.query(
-                            `UPDATE ${this.usersTable}
+                    await this.database.query(
+                        `UPDATE ${this.usersTable}
                          SET removed = NOW(),
                              enabled = FALSE
-                             WHERE id = $1 RETURNING *;`,
-                            [
-                                user.id
-                            ]
-                        );
-                    }
+                         WHERE id = $1 RETURNING *;`,
+                        [
+                            user.id
+                        ]
+                    );
                 } catch (e) {
                     throw e;
                 }
@@ -464,4 +543,69 @@ export class UserRepository implements IUserServiceRepository {
             }
         });
     }
+
+    /**
+     * bring removed user back, enabled, with roles and account memberships user had
+     * @param user
+     */
+    public restore(user: UserEntity): Promise<UserEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                await this.database.query(
+                    `UPDATE ${this.usersTable}
+                     SET removed = NULL,
+                         enabled = TRUE
+                     WHERE id = $1;`, [
+                        user.id
+                    ]);
+                resolve(this.getById(user.id));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * permanently delete removed user
+     * @param user
+     */
+    public purge(user: UserEntity): Promise<UserEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                if (!user.removed) {
+                    throw new Error(`${user.username} is not removed`);
+                }
+                await this.database.query(
+                    `DELETE FROM ${this.usersTable}
+                     WHERE id = $1
+                     AND   removed IS NOT NULL;`, [
+                        user.id
+                    ]);
+                resolve(user);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * permanently delete users removed before date
+     * @param before
+     * @return number of deleted users
+     */
+    public purgeRemoved(before: Date): Promise<number> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `DELETE FROM ${this.usersTable}
+                     WHERE removed IS NOT NULL
+                     AND   removed < $1;`, [
+                        before
+                    ]);
+                resolve(result.rowCount);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
 }
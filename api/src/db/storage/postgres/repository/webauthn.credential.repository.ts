@@ -0,0 +1,112 @@
+import {Pool} from "pg";
+import {POSTGRES_SERVICE} from "../../../../services/app.constants";
+import {Service} from "../../../../services/app.service";
+import {IWebAuthnCredentialServiceRepository} from "../../../interfaces/webauthn.credential.interface";
+import {WebAuthnCredentialEntity} from "../../../entities/webauthn.credential.entity";
+import {WEBAUTHN_CREDENTIALS_TABLE} from "./constants.repository";
+
+// row of WebAuthn credentials table, transports are comma separated
+interface WebAuthnCredentialRow {
+    id:            number
+    user_id:       number
+    credential_id: string
+    public_key:    string
+    sign_count:    string | number
+    transports:    string
+    name:          string
+    last_used:     Date
+    created:       Date
+}
+
+/**
+ * WebAuthn credential Repository.
+ */
+export class WebAuthnCredentialRepository implements IWebAuthnCredentialServiceRepository {
+    private readonly database: Pool;
+    private readonly credentialsTable: string;
+    constructor() {
+        this.database = Service.getService<Pool>(POSTGRES_SERVICE);
+        this.credentialsTable = WEBAUTHN_CREDENTIALS_TABLE;
+    }
+
+    private static entity(row: WebAuthnCredentialRow): WebAuthnCredentialEntity {
+        return new WebAuthnCredentialEntity(row.id, row.user_id, row.credential_id, row.public_key, Number(row.sign_count),
+            row.transports ? row.transports.split(",") : [], row.name, row.last_used, row.created);
+    }
+
+    public list(userId: number): Promise<WebAuthnCredentialEntity[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `SELECT * FROM ${this.credentialsTable} WHERE user_id = $1 ORDER BY id`, [userId]);
+                resolve(result.rows.map(row => WebAuthnCredentialRepository.entity(row)));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public getByCredentialId(credentialId: string): Promise<WebAuthnCredentialEntity | null> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `SELECT * FROM ${this.credentialsTable} WHERE credential_id = $1`, [credentialId]);
+                resolve(result.rows.length ? WebAuthnCredentialRepository.entity(result.rows[0]) : null);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public create(credential: WebAuthnCredentialEntity): Promise<WebAuthnCredentialEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `INSERT INTO ${this.credentialsTable} (user_id, credential_id, public_key, sign_count, transports, name)
+                     VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+                    [credential.userId, credential.credentialId, credential.publicKey, credential.signCount,
+                        (credential.transports || []).join(","), credential.name]
+                );
+                resolve(WebAuthnCredentialRepository.entity(result.rows[0]));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public used(id: number, signCount: number): Promise<void> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                await this.database.query(
+                    `UPDATE ${this.credentialsTable} SET sign_count = $2, last_used = NOW() WHERE id = $1`, [id, signCount]);
+                resolve();
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public remove(userId: number, id: number): Promise<boolean> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `DELETE FROM ${this.credentialsTable} WHERE user_id = $1 AND id = $2`, [userId, id]);
+                resolve(result.rowCount > 0);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public removeUser(userId: number): Promise<number> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `DELETE FROM ${this.credentialsTable} WHERE user_id = $1`, [userId]);
+                resolve(result.rowCount);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
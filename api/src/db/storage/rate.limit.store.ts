@@ -0,0 +1,85 @@
+import {RedisClientType, RedisModules, RedisScripts} from "redis";
+import {Service} from "../../services/app.service";
+import {REDIS_SERVICE} from "../../services/app.constants";
+import {Config, RATE_LIMIT_STORE_REDIS} from "../../util/secrets";
+
+/**
+ * Hits of key in current fixed window, reset is time of window end in ms
+ */
+export interface RateLimitHits {
+    count: number
+    reset: number
+}
+
+/**
+ * Rate limit counter store for binding, implementation is selected by config.rateLimit.store
+ */
+export interface IRateLimitStore {
+    // count hit of key in window of ms
+    hit(key: string, window: number): Promise<RateLimitHits>
+}
+
+/**
+ * Counters in memory of single process
+ */
+export class MemoryRateLimitStore implements IRateLimitStore {
+    private readonly hits = new Map<string, RateLimitHits>();
+    private nextSweep = 0;
+
+    // forget ended windows, at most once a second
+    private sweep(now: number): void {
+        if (now < this.nextSweep) {
+            return;
+        }
+        this.nextSweep = now + 1000;
+        this.hits.forEach((hits, key) => {
+            if (hits.reset <= now) {
+                this.hits.delete(key);
+            }
+        });
+    }
+
+    public hit(key: string, window: number): Promise<RateLimitHits> {
+        const now = Date.now();
+        this.sweep(now);
+        const current = this.hits.get(key);
+        const hits = current && current.reset > now
+            ? {count: current.count + 1, reset: current.reset}
+            : {count: 1, reset: now + window};
+        this.hits.set(key, hits);
+        return Promise.resolve(hits);
+    }
+}
+
+/**
+ * Counters in redis shared by all app instances, key expires with its window
+ */
+export class RedisRateLimitStore implements IRateLimitStore {
+    private readonly client: RedisClientType<RedisModules, RedisScripts>;
+    constructor(private readonly prefix = "rl:") {
+        this.client = Service.getService<RedisClientType<RedisModules, RedisScripts>>(REDIS_SERVICE);
+    }
+
+    public hit(key: string, window: number): Promise<RateLimitHits> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const count = await this.client.incr(`${this.prefix}${key}`);
+                if (count === 1) {
+                    await this.client.pExpire(`${this.prefix}${key}`, window);
+                }
+                const ttl = await this.client.pTTL(`${this.prefix}${key}`);
+                resolve({count, reset: Date.now() + (ttl > 0 ? ttl : window)});
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
+
+/**
+ * Rate limit store selected by config.rateLimit.store
+ * @param config
+ */
+export const createRateLimitStore = (config: Config): IRateLimitStore => {
+    return config.rateLimit.store === RATE_LIMIT_STORE_REDIS ? new RedisRateLimitStore() : new MemoryRateLimitStore();
+};
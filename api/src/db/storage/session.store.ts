@@ -0,0 +1,216 @@
+import session, {SessionData, Store} from "express-session";
+import {Pool} from "pg";
+import {RedisClientType, RedisModules, RedisScripts} from "redis";
+import {Service} from "../../services/app.service";
+import {POSTGRES_SERVICE, REDIS_SERVICE} from "../../services/app.constants";
+import {Config, SESSION_STORE_POSTGRES, SESSION_STORE_REDIS} from "../../util/secrets";
+import {SESSIONS_TABLE} from "./postgres/repository/constants.repository";
+
+/**
+ * Session of store with its id and expiration
+ */
+export interface StoredSession {
+    sid:     string
+    session: SessionData
+    expires: Date
+}
+
+/**
+ * Session store which can find sessions of user, see SessionService.
+ * Stores without purgeExpired expire sessions by themselves.
+ */
+export interface ISessionStore extends Store {
+    sessionsOf(userId: number): Promise<StoredSession[]>
+    purgeExpired?(): Promise<number>
+}
+
+// user signed in to session by passport
+const userOf = (sess: SessionData): number => {
+    return sess && sess.passport && sess.passport.user ? Number(sess.passport.user) : null;
+};
+
+// expiration of session by its cookie, ttl seconds for sessions without cookie expiration
+const expiration = (sess: SessionData, ttl: number): Date => {
+    const expires = sess && sess.cookie && sess.cookie.expires;
+    return expires ? new Date(expires) : new Date(Date.now() + ttl * 1000);
+};
+
+/**
+ * Sessions stored in postgres table, shared by all app instances
+ */
+export class PostgresSessionStore extends Store implements ISessionStore {
+    private readonly database: Pool;
+    private readonly sessionsTable: string;
+    constructor(private readonly ttl: number) {
+        super();
+        this.database = Service.getService<Pool>(POSTGRES_SERVICE);
+        this.sessionsTable = SESSIONS_TABLE;
+    }
+
+    public get(sid: string, callback: (err: unknown, session?: SessionData | null) => void): void {
+        this.database.query(`SELECT sess FROM ${this.sessionsTable} WHERE sid = $1 AND expire > NOW()`, [sid])
+            .then(result => callback(null, result.rows.length > 0 ? result.rows[0].sess : null))
+            .catch(e => callback(e));
+    }
+
+    public set(sid: string, sess: SessionData, callback?: (err?: unknown) => void): void {
+        this.database.query(
+            `INSERT INTO ${this.sessionsTable} (sid, sess, expire, user_id) VALUES ($1, $2, $3, $4)
+             ON CONFLICT (sid) DO UPDATE SET sess = EXCLUDED.sess, expire = EXCLUDED.expire, user_id = EXCLUDED.user_id`,
+            [sid, JSON.stringify(sess), expiration(sess, this.ttl), userOf(sess)]
+        )
+            .then(() => callback && callback())
+            .catch(e => callback && callback(e));
+    }
+
+    public destroy(sid: string, callback?: (err?: unknown) => void): void {
+        this.database.query(`DELETE FROM ${this.sessionsTable} WHERE sid = $1`, [sid])
+            .then(() => callback && callback())
+            .catch(e => callback && callback(e));
+    }
+
+    public touch(sid: string, sess: SessionData, callback?: (err?: unknown) => void): void {
+        this.database.query(`UPDATE ${this.sessionsTable} SET expire = $2 WHERE sid = $1`, [sid, expiration(sess, this.ttl)])
+            .then(() => callback && callback())
+            .catch(e => callback && callback(e));
+    }
+
+    public sessionsOf(userId: number): Promise<StoredSession[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(
+                    `SELECT sid, sess, expire FROM ${this.sessionsTable} WHERE user_id = $1 AND expire > NOW() ORDER BY expire DESC`,
+                    [userId]
+                );
+                resolve(result.rows.map(row => ({sid: row.sid, session: row.sess, expires: row.expire})));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    /**
+     * delete expired sessions
+     * @return number of deleted sessions
+     */
+    public purgeExpired(): Promise<number> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const result = await this.database.query(`DELETE FROM ${this.sessionsTable} WHERE expire < NOW()`);
+                resolve(result.rowCount);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
+
+/**
+ * Sessions stored in redis with ttl of their cookie, expired keys are removed by redis.
+ * Ids of user sessions are kept in set of user, ids of expired sessions are removed from it on read.
+ */
+export class RedisSessionStore extends Store implements ISessionStore {
+    private readonly client: RedisClientType<RedisModules, RedisScripts>;
+    constructor(private readonly ttl: number, private readonly prefix = "sess:") {
+        super();
+        this.client = Service.getService<RedisClientType<RedisModules, RedisScripts>>(REDIS_SERVICE);
+    }
+
+    // seconds before session expires, at least one
+    private seconds(sess: SessionData): number {
+        return Math.max(1, Math.ceil((expiration(sess, this.ttl).getTime() - Date.now()) / 1000));
+    }
+
+    private userKey(userId: number): string {
+        return `${this.prefix}user:${userId}`;
+    }
+
+    public get(sid: string, callback: (err: unknown, session?: SessionData | null) => void): void {
+        this.client.get(`${this.prefix}${sid}`)
+            .then(data => callback(null, data ? JSON.parse(data) : null))
+            .catch(e => callback(e));
+    }
+
+    public set(sid: string, sess: SessionData, callback?: (err?: unknown) => void): void {
+        const userId = userOf(sess);
+        this.client.set(`${this.prefix}${sid}`, JSON.stringify(sess), {EX: this.seconds(sess)})
+            .then(() => userId ? this.client.sAdd(this.userKey(userId), sid) : 0)
+            .then(() => callback && callback())
+            .catch(e => callback && callback(e));
+    }
+
+    public destroy(sid: string, callback?: (err?: unknown) => void): void {
+        this.client.get(`${this.prefix}${sid}`)
+            .then(data => {
+                const userId = data ? userOf(JSON.parse(data)) : null;
+                return userId ? this.client.sRem(this.userKey(userId), sid) : 0;
+            })
+            .then(() => this.client.del(`${this.prefix}${sid}`))
+            .then(() => callback && callback())
+            .catch(e => callback && callback(e));
+    }
+
+    public touch(sid: string, sess: SessionData, callback?: (err?: unknown) => void): void {
+        this.client.expire(`${this.prefix}${sid}`, this.seconds(sess))
+            .then(() => callback && callback())
+            .catch(e => callback && callback(e));
+    }
+
+    public sessionsOf(userId: number): Promise<StoredSession[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const sessions: StoredSession[] = [];
+                const sids = await this.client.sMembers(this.userKey(userId));
+                for (const sid of sids) {
+                    const data = await this.client.get(`${this.prefix}${sid}`);
+                    if (!data) {
+                        await this.client.sRem(this.userKey(userId), sid);
+                        continue;
+                    }
+                    const ttl = await this.client.pTTL(`${this.prefix}${sid}`);
+                    sessions.push({sid, session: JSON.parse(data), expires: new Date(Date.now() + Math.max(ttl, 0))});
+                }
+                resolve(sessions);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
+
+/**
+ * Sessions kept in memory of single process until restart
+ */
+export class MemorySessionStore extends session.MemoryStore implements ISessionStore {
+    constructor(private readonly ttl: number) {
+        super();
+    }
+
+    public sessionsOf(userId: number): Promise<StoredSession[]> {
+        return new Promise((resolve, reject) => {
+            this.all((e: unknown, sessions: {[sid: string]: SessionData}) => {
+                if (e) {
+                    return reject(e);
+                }
+                resolve(Object.keys(sessions || {})
+                    .filter(sid => userOf(sessions[sid]) === userId)
+                    .map(sid => ({sid, session: sessions[sid], expires: expiration(sessions[sid], this.ttl)})));
+            });
+        });
+    }
+}
+
+/**
+ * Session store selected by config.sessions.store, memory store keeps sessions of single process until restart
+ * @param config
+ */
+export const createSessionStore = (config: Config): ISessionStore => {
+    switch (config.sessions.store) {
+        case SESSION_STORE_POSTGRES:
+            return new PostgresSessionStore(config.sessions.ttl);
+        case SESSION_STORE_REDIS:
+            return new RedisSessionStore(config.sessions.ttl);
+        default:
+            return new MemorySessionStore(config.sessions.ttl);
+    }
+};
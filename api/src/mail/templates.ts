@@ -0,0 +1,81 @@
+export const MAIL_TEMPLATE_PASSWORD_RESET = "passwordReset";
+export const MAIL_TEMPLATE_VERIFY_EMAIL = "verifyEmail";
+export const MAIL_TEMPLATE_2FA_ENABLED = "twoFactorEnabled";
+export const MAIL_TEMPLATE_ACCOUNT_LOCKED = "accountLocked";
+
+export const ERROR_MAIL_TEMPLATE = "unknown mail template";
+
+/**
+ * Rendered message of template
+ */
+export interface MailContent {
+    subject: string
+    text:    string
+    html:    string
+}
+
+/**
+ * Values filled in templates, each template uses some of them
+ */
+export interface MailData {
+    username?:    string
+    link?:        string
+    ip?:          string
+    lockedUntil?: Date
+}
+
+type MailTemplate = (data: MailData) => MailContent;
+
+const escape = (value: string): string => String(value === undefined || value === null ? "" : value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// same paragraphs as plain text and html, {link} paragraph is rendered as anchor
+const layout = (subject: string, paragraphs: string[], link?: string): MailContent => {
+    return {
+        subject,
+        text: paragraphs.concat(link ? [link] : []).join("\n\n") + "\n",
+        html: "<!DOCTYPE html><html><body>" +
+            paragraphs.map(p => `<p>${escape(p)}</p>`).join("") +
+            (link ? `<p><a href="${escape(link)}">${escape(link)}</a></p>` : "") +
+            "</body></html>"
+    };
+};
+
+const templates: {[name: string]: MailTemplate} = {
+    [MAIL_TEMPLATE_PASSWORD_RESET]: data => layout("Reset your password", [
+        `Hello ${data.username},`,
+        "we received a request to reset password of your account. Follow the link below within an hour to choose a new one.",
+        "If you did not request it, ignore this email, your password stays unchanged."
+    ], data.link),
+    [MAIL_TEMPLATE_VERIFY_EMAIL]: data => layout("Verify your email", [
+        `Hello ${data.username},`,
+        "follow the link below to verify your email address."
+    ], data.link),
+    [MAIL_TEMPLATE_2FA_ENABLED]: data => layout("Two-factor authentication enabled", [
+        `Hello ${data.username},`,
+        `two-factor authentication was enabled for your account from ${data.ip}.`,
+        "If it was not you, reset your password and contact administrator."
+    ]),
+    [MAIL_TEMPLATE_ACCOUNT_LOCKED]: data => layout("Your account is locked", [
+        `Hello ${data.username},`,
+        `your account is locked until ${new Date(data.lockedUntil).toUTCString()} after too many failed sign in attempts.`,
+        "If it was not you, reset your password when account is unlocked or contact administrator."
+    ])
+};
+
+/**
+ * Render template by name with data, e.g. render(MAIL_TEMPLATE_PASSWORD_RESET, {username, link})
+ * @param name
+ * @param data
+ */
+export const render = (name: string, data: MailData): MailContent => {
+    const template = templates[name];
+    if (!template) {
+        throw new Error(`${ERROR_MAIL_TEMPLATE} ${name}`);
+    }
+    return template(data);
+};
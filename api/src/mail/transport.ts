@@ -0,0 +1,253 @@
+import crypto from "crypto";
+import fs from "fs";
+import net from "net";
+import path from "path";
+import tls from "tls";
+import {Config, MAIL_TRANSPORT_SMTP} from "../util/secrets";
+
+/**
+ * Message delivered by transport
+ */
+export interface MailMessage {
+    from:    string
+    to:      string
+    subject: string
+    text:    string
+    html:    string
+}
+
+/**
+ * Mail transport for binding, implementation is selected by config.mail.transport
+ */
+export interface IMailTransport {
+    send(message: MailMessage): Promise<void>
+}
+
+/**
+ * Write every message to json file of outbox directory, messages are read by tests or developer
+ */
+export class FileTransport implements IMailTransport {
+    constructor(private readonly outbox: string) {
+    }
+
+    public send(message: MailMessage): Promise<void> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                await fs.promises.mkdir(this.outbox, {recursive: true});
+                const file = path.join(this.outbox, `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.json`);
+                await fs.promises.writeFile(file, JSON.stringify({...message, date: new Date()}, null, 2));
+                resolve();
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
+
+interface SmtpOptions {
+    host:     string
+    port:     number
+    secure:   boolean
+    user:     string
+    password: string
+}
+
+interface SmtpReply {
+    code: number
+    text: string
+}
+
+// RFC 2047 encoded header of non ascii value
+const header = (value: string): string => /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+// base64 body split by 76 characters
+const body = (value: string): string => Buffer.from(value, "utf8").toString("base64").replace(/(.{76})/g, "$1\r\n");
+
+/**
+ * MIME message with text and html alternatives
+ * @param message
+ */
+export const compose = (message: MailMessage): string => {
+    const boundary = `----=_${crypto.randomBytes(12).toString("hex")}`;
+    const domain = message.from.substring(message.from.indexOf("@") + 1);
+    return [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${header(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: <${crypto.randomBytes(16).toString("hex")}@${domain}>`,
+        "MIME-Version: 1.0",
+        `Content-Type: multipart/alternative; boundary="${boundary}"`,
+        "",
+        `--${boundary}`,
+        "Content-Type: text/plain; charset=utf-8",
+        "Content-Transfer-Encoding: base64",
+        "",
+        body(message.text),
+        `--${boundary}`,
+        "Content-Type: text/html; charset=utf-8",
+        "Content-Transfer-Encoding: base64",
+        "",
+        body(message.html),
+        `--${boundary}--`,
+        ""
+    ].join("\r\n");
+};
+
+/**
+ * Single SMTP conversation, replies are read in order of commands
+ */
+class SmtpConnection {
+    private buffer = "";
+    private lines: string[] = [];
+    private replies: SmtpReply[] = [];
+    private waiting: {resolve: (reply: SmtpReply) => void, reject: (e: Error) => void} = null;
+    private error: Error = null;
+
+    constructor(private socket: net.Socket) {
+        this.attach(socket);
+    }
+
+    private attach(socket: net.Socket): void {
+        this.socket = socket;
+        socket.setEncoding("utf8");
+        socket.setTimeout(30000, () => socket.destroy(new Error("smtp timeout")));
+        socket.on("data", (chunk: string) => this.read(chunk));
+        socket.on("error", (e: Error) => this.fail(e));
+        socket.on("close", () => this.fail(new Error("smtp connection closed")));
+    }
+
+    private read(chunk: string): void {
+        this.buffer += chunk;
+        let end: number;
+        while ((end = this.buffer.indexOf("\r\n")) !== -1) {
+            const line = this.buffer.substring(0, end);
+            this.buffer = this.buffer.substring(end + 2);
+            this.lines.push(line);
+            // last line of multiline reply has space after code
+            if (/^\d{3}( |$)/.test(line)) {
+                const reply = {code: Number(line.substring(0, 3)), text: this.lines.join("\n")};
+                this.lines = [];
+                if (this.waiting) {
+                    const waiting = this.waiting;
+                    this.waiting = null;
+                    waiting.resolve(reply);
+                } else {
+                    this.replies.push(reply);
+                }
+            }
+        }
+    }
+
+    private fail(e: Error): void {
+        this.error = this.error || e;
+        if (this.waiting) {
+            const waiting = this.waiting;
+            this.waiting = null;
+            waiting.reject(this.error);
+        }
+    }
+
+    public reply(expected: number[]): Promise<SmtpReply> {
+        return new Promise((resolve, reject) => {
+            const check = (reply: SmtpReply) => expected.indexOf(reply.code) !== -1
+                ? resolve(reply)
+                : reject(new Error(`smtp ${reply.text}`));
+            if (this.replies.length > 0) {
+                return check(this.replies.shift());
+            }
+            if (this.error) {
+                return reject(this.error);
+            }
+            this.waiting = {resolve: check, reject};
+        });
+    }
+
+    public command(line: string, expected: number[]): Promise<SmtpReply> {
+        this.socket.write(`${line}\r\n`);
+        return this.reply(expected);
+    }
+
+    /**
+     * continue conversation over tls after STARTTLS
+     * @param host
+     */
+    public upgrade(host: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.socket.removeAllListeners("data");
+            this.socket.removeAllListeners("close");
+            const secure = tls.connect({socket: this.socket, servername: host}, () => resolve());
+            secure.once("error", reject);
+            this.attach(secure);
+        });
+    }
+
+    public close(): void {
+        this.socket.end();
+    }
+}
+
+/**
+ * Deliver message by SMTP server: implicit tls when secure, STARTTLS when server offers it, AUTH PLAIN when user is set
+ */
+export class SmtpTransport implements IMailTransport {
+    constructor(private readonly options: SmtpOptions) {
+    }
+
+    private connect(): Promise<SmtpConnection> {
+        return new Promise((resolve, reject) => {
+            const {host, port, secure} = this.options;
+            const socket: net.Socket = secure
+                ? tls.connect({host, port, servername: host}, () => resolve(new SmtpConnection(socket)))
+                : net.connect({host, port}, () => resolve(new SmtpConnection(socket)));
+            socket.once("error", reject);
+        });
+    }
+
+    public send(message: MailMessage): Promise<void> {
+        return new Promise(async (resolve, reject) => {
+            let connection: SmtpConnection = null;
+            try {
+                connection = await this.connect();
+                const name = message.from.substring(message.from.indexOf("@") + 1);
+                await connection.reply([220]);
+                const ehlo = await connection.command(`EHLO ${name}`, [250]);
+                if (!this.options.secure && /STARTTLS/i.test(ehlo.text)) {
+                    await connection.command("STARTTLS", [220]);
+                    await connection.upgrade(this.options.host);
+                    await connection.command(`EHLO ${name}`, [250]);
+                }
+                if (this.options.user) {
+                    const credentials = Buffer.from(`\u0000${this.options.user}\u0000${this.options.password}`).toString("base64");
+                    await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+                }
+                await connection.command(`MAIL FROM:<${message.from}>`, [250]);
+                await connection.command(`RCPT TO:<${message.to}>`, [250, 251]);
+                await connection.command("DATA", [354]);
+                // lines starting with dot are escaped by one more dot
+                const data = compose(message).replace(/^\./gm, "..");
+                await connection.command(`${data}\r\n.`, [250]);
+                await connection.command("QUIT", [221]).catch(() => undefined);
+                resolve();
+            } catch (e) {
+                reject(e);
+            } finally {
+                if (connection) {
+                    connection.close();
+                }
+            }
+        });
+    }
+}
+
+/**
+ * Mail transport selected by config.mail.transport
+ * @param config
+ */
+export const createMailTransport = (config: Config): IMailTransport => {
+    return config.mail.transport === MAIL_TRANSPORT_SMTP
+        ? new SmtpTransport(config.mail.smtp)
+        : new FileTransport(config.mail.outbox);
+};
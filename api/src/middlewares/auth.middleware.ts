@@ -0,0 +1,210 @@
+import express from "express";
+import EventEmitter from "events";
+import {Service} from "../services/app.service";
+import {
+    API_KEY_SERVICE,
+    EMITTER_SERVICE,
+    OAUTH_SERVICE,
+    PERMISSION_REPOSITORY_SERVICE,
+    TOKEN_SERVICE
+} from "../services/app.constants";
+import {ITokenService} from "../services/token.service";
+import {IOAuthService} from "../services/oauth.service";
+import {IApiKeyService} from "../services/api.key.service";
+import {impersonation, secondFactorPassed, signedInUser} from "../services/session.service";
+import {UserEntity} from "../db/entities/users.entity";
+import {IPermissionServiceRepository} from "../db/interfaces/permission.interface";
+import {PermissionEntity} from "../db/entities/permissions.entity";
+import {SUPERADMIN_ROLE_ID} from "../db/entities/roles.entity";
+import {FORBIDDEN_REQUEST_CODE, UNAUTHORIZED_REQUEST_CODE} from "../controllers/base.controller";
+import {
+    ERROR_AUTH_USER_DISABLED,
+    ERROR_FORBIDDEN,
+    ERROR_IMPERSONATION_FORBIDDEN,
+    ERROR_VALIDATION
+} from "../controllers/auth/auth.error.codes";
+
+/**
+ * Resolve the caller of request.
+ * Session user restored by passport.deserializeUser is used first once the user passed 2FA,
+ * session signed in by password alone is not accepted,
+ * otherwise bearer token from Authorization header is validated as personal API key, by OAuth service and by token service.
+ * User of API key or OAuth client token has only roles mapped to scopes of key or token.
+ * @param req
+ */
+export const resolveUser = (req: express.Request): Promise<UserEntity> => {
+    return new Promise(async (resolve, reject) => {
+        try {
+            if (req.user && secondFactorPassed(req)) {
+                return resolve(req.user as UserEntity);
+            }
+            if (!req.headers.authorization) {
+                return resolve(null);
+            }
+            const validation = await Service.getService<IApiKeyService>(API_KEY_SERVICE).validate(req.headers.authorization, req.ip)
+                || await Service.getService<IOAuthService>(OAUTH_SERVICE).validate(req.headers.authorization)
+                || await Service.getService<ITokenService>(TOKEN_SERVICE).validate(req.headers.authorization);
+            resolve(validation ? validation.user : null);
+        } catch (e) {
+            reject(e);
+        }
+    });
+};
+
+/**
+ * Guard keeps requirements of the caller for api documentation
+ */
+export interface GuardHandler extends express.RequestHandler {
+    roles:       number[]
+    permissions: string[]
+}
+
+/**
+ * Resolve the caller and reject request unless check passes
+ * @param check
+ * @param roles roles required by check
+ * @param permissions permissions required by check
+ */
+const guard = (check: (user: UserEntity, req: express.Request) => Promise<boolean>, roles: number[] = [], permissions: string[] = []): GuardHandler => {
+    const handler = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+        const emitter = Service.getService<EventEmitter>(EMITTER_SERVICE);
+        resolveUser(req)
+            .then(async (user: UserEntity) => {
+                if (!user) {
+                    emitter.emit("auth", {
+                        method: "authorize",
+                        response: new Error(`${req.method} ${req.originalUrl} ${ERROR_VALIDATION}`),
+                        code: UNAUTHORIZED_REQUEST_CODE
+                    });
+                    return res.status(UNAUTHORIZED_REQUEST_CODE).json({message: ERROR_VALIDATION});
+                }
+                if (!user.enabled || user.removed) {
+                    emitter.emit("auth", {
+                        method: "authorize",
+                        response: new Error(`${user.username} ${ERROR_AUTH_USER_DISABLED}`),
+                        code: FORBIDDEN_REQUEST_CODE
+                    });
+                    return res.status(FORBIDDEN_REQUEST_CODE).json({message: ERROR_AUTH_USER_DISABLED});
+                }
+                if (!await check(user, req)) {
+                    emitter.emit("auth", {
+                        method: "authorize",
+                        response: new Error(`${user.username} ${req.method} ${req.originalUrl} ${ERROR_FORBIDDEN}`),
+                        code: FORBIDDEN_REQUEST_CODE
+                    });
+                    return res.status(FORBIDDEN_REQUEST_CODE).json({message: ERROR_FORBIDDEN});
+                }
+                req.user = user;
+                next();
+            })
+            .catch(e => {
+                emitter.emit("auth", {
+                    method: "authorize",
+                    response: e,
+                    code: UNAUTHORIZED_REQUEST_CODE
+                });
+                return res.status(UNAUTHORIZED_REQUEST_CODE).json({message: e.message ? e.message : ERROR_VALIDATION});
+            });
+    };
+    return Object.assign(handler, {roles, permissions});
+};
+
+/**
+ * Check that the caller of request has one of the roles.
+ * Without roles any enabled user is allowed.
+ * @param roles
+ */
+export const authorize = (...roles: number[]): GuardHandler => {
+    return guard(async (user: UserEntity) => {
+        const userRoles = (user.roles || []).map(roleId => Number(roleId));
+        return roles.length === 0 || roles.some(roleId => userRoles.indexOf(roleId) !== -1);
+    }, roles);
+};
+
+/**
+ * Check that the caller of request has all of the permissions, e.g. permit("account:write")
+ * @param permissions
+ */
+export const permit = (...permissions: string[]): GuardHandler => {
+    return guard(async (user: UserEntity) => {
+        // permissions of roles the caller acts with, OAuth client tokens leave out roles of other scopes
+        const userRoles = (user.roles || []).map(roleId => Number(roleId));
+        const granted = (await Service.getService<IPermissionServiceRepository>(PERMISSION_REPOSITORY_SERVICE).getByUser(user.id))
+            .filter((permission: PermissionEntity) => (permission.roles || []).some(roleId => userRoles.indexOf(Number(roleId)) !== -1))
+            .map((permission: PermissionEntity) => permission.title);
+        return permissions.every(permission => granted.indexOf(permission) !== -1);
+    }, [], permissions);
+};
+
+/**
+ * Check that the caller of request is any enabled user
+ */
+export const authenticate = authorize();
+
+/**
+ * Check that the caller of request is user signed in to session who passed 2FA,
+ * bearer tokens and API keys are rejected, e.g. for registration of second factor
+ */
+export const authenticateSession = guard(async (user: UserEntity, req: express.Request) => {
+    return secondFactorPassed(req) && signedInUser(req) === user.id;
+});
+
+/**
+ * Reject changes of credentials, e.g. password and 2FA, while superadmin impersonates user of session
+ * @param req
+ * @param res
+ * @param next
+ */
+export const notImpersonating = (req: express.Request, res: express.Response, next: express.NextFunction): express.Response | void => {
+    const impersonated = impersonation(req);
+    if (impersonated) {
+        Service.getService<EventEmitter>(EMITTER_SERVICE).emit("auth", {
+            method: "authorize",
+            response: new Error(`${impersonated.actorId} as ${impersonated.userId} ${req.method} ${req.originalUrl} ${ERROR_IMPERSONATION_FORBIDDEN}`),
+            code: FORBIDDEN_REQUEST_CODE
+        });
+        return res.status(FORBIDDEN_REQUEST_CODE).json({message: ERROR_IMPERSONATION_FORBIDDEN});
+    }
+    next();
+};
+
+/**
+ * Check that the caller may grant or revoke the roles: roles held by the caller,
+ * superadmin role only by superadmin who grants any role
+ * @param caller
+ * @param roles
+ */
+export const grantable = (caller: UserEntity, roles: number[]): boolean => {
+    const callerRoles = (caller.roles || []).map(roleId => Number(roleId));
+    if (callerRoles.indexOf(SUPERADMIN_ROLE_ID) !== -1) {
+        return true;
+    }
+    return (roles || []).map(roleId => Number(roleId))
+        .every(roleId => roleId !== SUPERADMIN_ROLE_ID && callerRoles.indexOf(roleId) !== -1);
+};
+
+/**
+ * Check that the caller may change or remove user, every role of user is grantable by the caller,
+ * e.g. only superadmin changes superadmin
+ * @param caller
+ * @param user
+ */
+export const manageable = (caller: UserEntity, user: UserEntity): boolean => {
+    return grantable(caller, user.roles);
+};
+
+/**
+ * Tenant scope of the caller for repository queries.
+ * Superadmin is not restricted (null), other users see only data
+ * sharing an account membership with them.
+ * @param req
+ */
+export const memberScope = (req: express.Request): number => {
+    const user = req.user as UserEntity;
+    if (!user) {
+        // nothing is shared with unknown caller
+        return 0;
+    }
+    const userRoles = (user.roles || []).map(roleId => Number(roleId));
+    return userRoles.indexOf(SUPERADMIN_ROLE_ID) !== -1 ? null : user.id;
+};
@@ -0,0 +1,83 @@
+import express from "express";
+import {Service} from "../services/app.service";
+import {CONFIG_SERVICE, RATE_LIMIT_STORE_SERVICE} from "../services/app.constants";
+import {Config} from "../util/secrets";
+import {IRateLimitStore, RateLimitHits} from "../db/storage/rate.limit.store";
+import {UserEntity} from "../db/entities/users.entity";
+import {TOO_MANY_REQUESTS_CODE} from "../controllers/base.controller";
+import {Prometheus} from "../monitoring/prometheus";
+import logger from "../util/logger";
+
+export const ERROR_RATE_LIMITED = "too many requests, try again later";
+
+export const RATE_LIMIT_STRICT = "strict";
+export const RATE_LIMIT_READ = "read";
+export const RATE_LIMIT_WRITE = "write";
+
+/**
+ * Rate limiter keeps its policies for api documentation
+ */
+export interface RateLimitHandler extends express.RequestHandler {
+    policies: string[]
+}
+
+// requests of signed in user are counted together, others by client address
+const clientKey = (req: express.Request): string => {
+    const user = req.user as UserEntity;
+    return user ? `user:${user.id}` : `ip:${req.ip}`;
+};
+
+/**
+ * Count request by policy selected for it and reject it when limit of policy window is exceeded.
+ * Responses have RateLimit-* headers, rejected ones Retry-After as well.
+ * Requests pass when store is not available.
+ * @param select name of policy of request in config.rateLimit.policies
+ * @param policies all policies selected by limiter
+ */
+const limiter = (select: (req: express.Request) => string, policies: string[]): RateLimitHandler => {
+    const handler = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        if (!config.rateLimit.enabled) {
+            return next();
+        }
+        const name = select(req);
+        const policy = config.rateLimit.policies[name];
+        Service.getService<IRateLimitStore>(RATE_LIMIT_STORE_SERVICE).hit(`${name}:${clientKey(req)}`, policy.window * 1000)
+            .then((hits: RateLimitHits) => {
+                const reset = Math.max(0, Math.ceil((hits.reset - Date.now()) / 1000));
+                res.setHeader("RateLimit-Policy", `${policy.limit};w=${policy.window}`);
+                res.setHeader("RateLimit-Limit", String(policy.limit));
+                res.setHeader("RateLimit-Remaining", String(Math.max(0, policy.limit - hits.count)));
+                res.setHeader("RateLimit-Reset", String(reset));
+                if (hits.count > policy.limit) {
+                    Prometheus.rateLimitCounter.inc({policy: name, result: "limited"});
+                    logger.warn(`rate limit ${name} ${clientKey(req)} ${req.method} ${req.originalUrl}`);
+                    res.setHeader("Retry-After", String(reset));
+                    return res.status(TOO_MANY_REQUESTS_CODE).json({message: ERROR_RATE_LIMITED});
+                }
+                Prometheus.rateLimitCounter.inc({policy: name, result: "allowed"});
+                next();
+            })
+            .catch(e => {
+                logger.error(`rate limit ${name} ${e.message}`);
+                next();
+            });
+    };
+    return Object.assign(handler, {policies});
+};
+
+/**
+ * Limit requests by policy, e.g. rateLimit(RATE_LIMIT_STRICT) for sign in
+ * @param policy
+ */
+export const rateLimit = (policy: string): RateLimitHandler => {
+    return limiter(() => policy, [policy]);
+};
+
+/**
+ * Limit reads by read policy and changes by write policy, used by dashboard routers
+ */
+export const rateLimitByMethod = (): RateLimitHandler => {
+    return limiter((req: express.Request) => ["GET", "HEAD", "OPTIONS"].indexOf(req.method) !== -1 ? RATE_LIMIT_READ : RATE_LIMIT_WRITE,
+        [RATE_LIMIT_READ, RATE_LIMIT_WRITE]);
+};
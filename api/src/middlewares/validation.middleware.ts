@@ -0,0 +1,64 @@
+import express from "express";
+import EventEmitter from "events";
+import {checkSchema, Schema, ValidationError, validationResult} from "express-validator";
+import {Service} from "../services/app.service";
+import {EMITTER_SERVICE} from "../services/app.constants";
+import {BAD_REQUEST_CODE} from "../controllers/base.controller";
+
+export const ERROR_VALIDATION_CODE = "validation error";
+export const ERROR_INVALID_PARAMETERS = "invalid parameters";
+
+/**
+ * Error body of rejected request, see error definition of swagger
+ */
+export interface ValidationErrorResponse {
+    message: string
+    code:    string
+    error:   boolean
+    // message of every invalid field, e.g. {email: "invalid email"}
+    fields:  {[field: string]: string}
+}
+
+/**
+ * Last handler of validation keeps its schema for api documentation
+ */
+export interface ValidationHandler extends express.RequestHandler {
+    schema: Schema
+    code:   number
+}
+
+/**
+ * Check request against declarative schema and reject it with uniform error body.
+ * Message of the first invalid field is used as message of response.
+ * @param entity emitter event of route, e.g. user
+ * @param schema express-validator schema of body, query and params fields
+ * @param code response code of rejected request
+ */
+export const validate = (entity: string, schema: Schema, code: number = BAD_REQUEST_CODE): express.RequestHandler[] => {
+    const handler = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+        const result = validationResult(req);
+        if (result.isEmpty()) {
+            return next();
+        }
+        const fields: {[field: string]: string} = {};
+        result.array().forEach((error: ValidationError) => {
+            if (fields[error.param] === undefined) {
+                fields[error.param] = String(error.msg);
+            }
+        });
+        const response: ValidationErrorResponse = {
+            message: fields[Object.keys(fields)[0]] || ERROR_INVALID_PARAMETERS,
+            code:    ERROR_VALIDATION_CODE,
+            error:   true,
+            fields
+        };
+        Service.getService<EventEmitter>(EMITTER_SERVICE).emit(entity, {
+            method: "validate",
+            response: new Error(`${req.method} ${req.originalUrl} ${JSON.stringify(fields)}`),
+            code
+        });
+        return res.status(code).json(response);
+    };
+    const documented: ValidationHandler = Object.assign(handler, {schema, code});
+    return [...checkSchema(schema), documented];
+};
@@ -13,6 +13,12 @@ export class Prometheus {
         buckets: [0.1, 0.3, 0.5, 0.7, 1, 3, 5, 7, 10] // 0.1 to 10 seconds
     });
 
+    static rateLimitCounter = new client.Counter({
+        name: "http_rate_limit_requests_total",
+        help: "Requests counted by rate limiter, result is allowed or limited",
+        labelNames: ["policy", "result"]
+    });
+
     /**
      * This function will start the collection of metrics and should be called from within in the main js file
      */
@@ -31,13 +37,13 @@ export class Prometheus {
      * In order to have Prometheus get the data from this app a specific URL is registered
      */
     injectMetricsRoute = function (app: core.Express) {
-        app.get("/metrics", (req: express.Request, res: express.Response) => {
+        app.get("/metrics", async (req: express.Request, res: express.Response) => {
             // Start the HTTP request timer, saving a reference to the returned method
             // const end = Prometheus.httpRequestTimer.startTimer();
             // Save reference to the path so we can record it when ending the timer
             // const route = req.route.path;
             res.set("Content-Type", register.contentType);
-            res.send(register.metrics());
+            res.send(await register.metrics());
             // End timer and add labels
             // end({ route, code: res.statusCode, method: req.method });
         });
@@ -1,16 +1,46 @@
 import express from "express";
 import {AccountController} from "../controllers/dashboard/account.controller";
+import {authorize, permit} from "../middlewares/auth.middleware";
+import {ACCOUNT_READ_PERMISSION, ACCOUNT_WRITE_PERMISSION} from "../db/entities/permissions.entity";
+import {SUPERADMIN_ROLE_ID} from "../db/entities/roles.entity";
+import {validate} from "../middlewares/validation.middleware";
+import {
+    accountCreateSchema,
+    accountDeleteSchema,
+    accountIdSchema,
+    accountListSchema,
+    accountTrashSchema,
+    accountUpdateSchema
+} from "./schemas/account.schema";
+import {RouterDocs} from "../services/swagger.service";
+import {rateLimitByMethod} from "../middlewares/rate.limit.middleware";
 
 // Define routes /api/v1
 const wrapper = () => {
     const router = express.Router();
+    router.use(rateLimitByMethod());
     const controller = new AccountController();
-    router.get("/",    controller.get);
-    router.get("/:id", controller.getOne);
-    router.put("/",    controller.update);
-    router.post("/",   controller.create);
-    router.delete("/", controller.delete);
+    router.get("/",             permit(ACCOUNT_READ_PERMISSION), validate("account", accountListSchema), controller.get);
+    router.get("/trash",        permit(ACCOUNT_READ_PERMISSION), validate("account", accountTrashSchema), controller.trash);
+    router.get("/:id",          permit(ACCOUNT_READ_PERMISSION), validate("account", accountIdSchema), controller.getOne);
+    router.put("/",             permit(ACCOUNT_WRITE_PERMISSION), validate("account", accountUpdateSchema), controller.update);
+    router.post("/",            permit(ACCOUNT_WRITE_PERMISSION), validate("account", accountCreateSchema), controller.create);
+    router.delete("/",          permit(ACCOUNT_WRITE_PERMISSION), validate("account", accountDeleteSchema), controller.delete);
+    router.post("/:id/restore", permit(ACCOUNT_WRITE_PERMISSION), validate("account", accountIdSchema), controller.restore);
+    router.delete("/:id/purge", authorize(SUPERADMIN_ROLE_ID), validate("account", accountIdSchema), controller.purge);
 
     return router;
 };
 export const accountRoutes = wrapper;
+
+// Documentation of routes for /api-docs
+export const accountDocs: RouterDocs = {
+    "get /":             {summary: "account by id or name, otherwise page of accounts", response: ["account", "accountPage"]},
+    "get /trash":        {summary: "page of removed accounts", response: "accountPage"},
+    "get /:id":          {summary: "account by id", response: "accountResponse"},
+    "put /":             {summary: "update account", response: "accountResponse"},
+    "post /":            {summary: "create account", response: "accountResponse"},
+    "delete /":          {summary: "remove account", response: "accountResponse"},
+    "post /:id/restore": {summary: "restore removed account", response: "accountResponse"},
+    "delete /:id/purge": {summary: "delete removed account permanently", response: "accountResponse"}
+};
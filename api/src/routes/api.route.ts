@@ -1,5 +1,6 @@
 import express from "express";
 import {ApiController} from "../controllers/api.controller";
+import {RouterDocs} from "../services/swagger.service";
 
 // Define routes /api/v1
 const wrapper = () => {
@@ -10,3 +11,8 @@ const wrapper = () => {
     return router;
 };
 export const apiRoutes = wrapper;
+
+// Documentation of routes for /api-docs
+export const apiDocs: RouterDocs = {
+    "get /": {summary: "ping", response: "ping"}
+};
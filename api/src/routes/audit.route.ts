@@ -0,0 +1,16 @@
+import express from "express";
+import {AuditController} from "../controllers/dashboard/audit.controller";
+import {permit} from "../middlewares/auth.middleware";
+import {AUDIT_READ_PERMISSION} from "../db/entities/permissions.entity";
+import {rateLimitByMethod} from "../middlewares/rate.limit.middleware";
+
+// Define routes /api/v1
+const wrapper = () => {
+    const router = express.Router();
+    router.use(rateLimitByMethod());
+    const controller = new AuditController();
+    router.get("/", permit(AUDIT_READ_PERMISSION), controller.get);
+
+    return router;
+};
+export const auditRoutes = wrapper;
@@ -1,22 +1,130 @@
 import express from "express";
 import {AuthController} from "../controllers/auth/auth.controller";
 import {UserController} from "../controllers/dashboard/user.controller";
+import {SessionController} from "../controllers/auth/session.controller";
+import {RecoveryController} from "../controllers/auth/recovery.controller";
+import {WebAuthnController} from "../controllers/auth/webauthn.controller";
+import {OidcController} from "../controllers/auth/oidc.controller";
+import {ApiKeyController} from "../controllers/auth/api.key.controller";
+import {ImpersonationController} from "../controllers/auth/impersonation.controller";
+import {authenticate, authenticateSession, authorize, notImpersonating, permit} from "../middlewares/auth.middleware";
+import {UNAUTHORIZED_REQUEST_CODE} from "../controllers/base.controller";
+import {validate} from "../middlewares/validation.middleware";
+import {
+    apiKeyCreateSchema,
+    apiKeyIdSchema,
+    callbackSchema,
+    forgotSchema,
+    ga2faSchema,
+    identityIdSchema,
+    impersonateSchema,
+    logoutSchema,
+    oidcProviderSchema,
+    recoverySchema,
+    resendSchema,
+    resetSchema,
+    revokeSchema,
+    sessionIdSchema,
+    signinSchema,
+    signupSchema,
+    tokenSchema,
+    verifySchema,
+    webauthnCredentialIdSchema,
+    webauthnLoginSchema,
+    webauthnRegisterSchema
+} from "./schemas/auth.schema";
+import {userDeleteSchema} from "./schemas/user.schema";
+import {RouterDocs} from "../services/swagger.service";
+import {rateLimit, RATE_LIMIT_STRICT} from "../middlewares/rate.limit.middleware";
+import {SUPERADMIN_ROLE_ID} from "../db/entities/roles.entity";
+import {USER_WRITE_PERMISSION} from "../db/entities/permissions.entity";
 
 // Define routes /api/v1
 const wrapper = () => {
     const router = express.Router();
     const controller = new AuthController();
     const userController = new UserController();
+    const sessionController = new SessionController();
+    const recoveryController = new RecoveryController();
+    const webauthnController = new WebAuthnController();
+    const oidcController = new OidcController();
+    const apiKeyController = new ApiKeyController();
+    const impersonationController = new ImpersonationController();
     router.get("/",                 controller.get);
-    router.get("/callback",         controller.callback);
+    router.get("/callback",         validate("auth", callbackSchema, UNAUTHORIZED_REQUEST_CODE), controller.callback);
+    router.get("/oidc/providers",   oidcController.get);
+    router.get("/oidc/:provider",   rateLimit(RATE_LIMIT_STRICT), validate("auth", oidcProviderSchema, UNAUTHORIZED_REQUEST_CODE), oidcController.authorize);
+    router.get("/identities",       authenticate, oidcController.identities);
+    router.delete("/identities/:id", notImpersonating, authenticateSession, validate("identity", identityIdSchema), oidcController.unlink);
     router.post("/check",           controller.check);
-    router.post("/signin",          controller.login);
-    router.post("/2fa",             controller.ga2fa);
-    router.post("/signup",          controller.signup);
-    router.post("/logout",          controller.logout);
-    router.post("/forgot-password", controller.forgot);
-    router.post("/reset/:token",    controller.reset);
-    router.delete("/",              userController.delete);
+    router.post("/signin",          notImpersonating, rateLimit(RATE_LIMIT_STRICT), validate("auth", signinSchema, UNAUTHORIZED_REQUEST_CODE), controller.login);
+    router.post("/2fa",             notImpersonating, validate("auth", ga2faSchema, UNAUTHORIZED_REQUEST_CODE), controller.ga2fa);
+    router.post("/2fa/recovery",    notImpersonating, rateLimit(RATE_LIMIT_STRICT), validate("auth", recoverySchema, UNAUTHORIZED_REQUEST_CODE), recoveryController.redeem);
+    router.get("/2fa/recovery-codes",  authenticate, recoveryController.get);
+    router.post("/2fa/recovery-codes", notImpersonating, authenticateSession, recoveryController.regenerate);
+    router.post("/webauthn/register/options", notImpersonating, authenticateSession, webauthnController.registerOptions);
+    router.post("/webauthn/register",         notImpersonating, authenticateSession, validate("webauthn", webauthnRegisterSchema), webauthnController.register);
+    router.post("/webauthn/login/options",    notImpersonating, rateLimit(RATE_LIMIT_STRICT), webauthnController.loginOptions);
+    router.post("/webauthn/login",            notImpersonating, validate("auth", webauthnLoginSchema, UNAUTHORIZED_REQUEST_CODE), controller.ga2fa);
+    router.get("/webauthn/credentials",       authenticate, webauthnController.get);
+    router.delete("/webauthn/credentials/:id", notImpersonating, authenticateSession, validate("webauthn", webauthnCredentialIdSchema), webauthnController.remove);
+    router.post("/signup",          rateLimit(RATE_LIMIT_STRICT), validate("auth", signupSchema, UNAUTHORIZED_REQUEST_CODE), controller.signup);
+    router.post("/logout",          validate("auth", logoutSchema, UNAUTHORIZED_REQUEST_CODE), controller.logout);
+    router.post("/forgot-password", rateLimit(RATE_LIMIT_STRICT), validate("auth", forgotSchema, UNAUTHORIZED_REQUEST_CODE), controller.forgot);
+    router.post("/reset/:token",    notImpersonating, validate("auth", resetSchema, UNAUTHORIZED_REQUEST_CODE), controller.reset);
+    router.get("/verify/:token",    validate("auth", verifySchema, UNAUTHORIZED_REQUEST_CODE), controller.verify);
+    router.post("/verify/resend",   rateLimit(RATE_LIMIT_STRICT), validate("auth", resendSchema, UNAUTHORIZED_REQUEST_CODE), controller.resend);
+    router.post("/token",           validate("auth", tokenSchema, UNAUTHORIZED_REQUEST_CODE), controller.token);
+    router.post("/revoke",          validate("auth", revokeSchema), controller.revoke);
+    router.get("/sessions",         authenticate, sessionController.get);
+    router.delete("/sessions/:id",  authenticate, validate("session", sessionIdSchema), sessionController.revoke);
+    router.get("/api-keys",         authenticate, apiKeyController.get);
+    router.post("/api-keys",        notImpersonating, authenticateSession, validate("apiKey", apiKeyCreateSchema), apiKeyController.create);
+    router.delete("/api-keys/:id",  notImpersonating, authenticateSession, validate("apiKey", apiKeyIdSchema), apiKeyController.revoke);
+    router.get("/impersonate",      impersonationController.get);
+    router.post("/impersonate/stop", impersonationController.stop);
+    router.post("/impersonate/:userId", notImpersonating, authorize(SUPERADMIN_ROLE_ID), validate("impersonate", impersonateSchema),
+        impersonationController.start);
+    router.delete("/",              permit(USER_WRITE_PERMISSION), validate("user", userDeleteSchema), userController.delete);
     return router;
 };
 export const authRoutes = wrapper;
+
+// Documentation of routes for /api-docs
+export const authDocs: RouterDocs = {
+    "get /":                 {summary: "ping", response: "ping"},
+    "get /callback":         {summary: "complete sign in with identity provider", response: "oidcSignIn"},
+    "get /oidc/providers":   {summary: "identity providers users sign in with", response: "oidcProviders"},
+    "get /oidc/:provider":   {summary: "redirect to sign in page of identity provider"},
+    "get /identities":       {summary: "identities of providers linked to the caller", response: "userIdentityList"},
+    "delete /identities/:id": {summary: "unlink identity of the caller signed in to session after 2FA", response: "identityRemoved"},
+    "post /check":           {summary: "user of bearer token", response: "userResponse"},
+    "post /signin":          {summary: "sign in by email or username and password", response: "userResponse"},
+    "post /2fa":             {summary: "register 2FA secret or verify 2FA code of user signed in to session", response: "ga2fa"},
+    "post /2fa/recovery":    {summary: "pass 2FA by one-time recovery code", response: "recovery"},
+    "get /2fa/recovery-codes":  {summary: "number of unused recovery codes of the caller", response: "recoveryRemaining"},
+    "post /2fa/recovery-codes": {summary: "replace recovery codes of the caller signed in to session after 2FA", response: "recoveryCodes"},
+    "post /webauthn/register/options": {summary: "options to register authenticator of the caller signed in to session after 2FA", response: "webauthnOptions"},
+    "post /webauthn/register":         {summary: "register authenticator of the caller signed in to session after 2FA", response: "webauthnRegistered"},
+    "post /webauthn/login/options":    {summary: "options to pass 2FA of user signed in to session by registered authenticator", response: "webauthnOptions"},
+    "post /webauthn/login":            {summary: "pass 2FA by assertion of registered authenticator", response: "ga2fa"},
+    "get /webauthn/credentials":       {summary: "authenticators of the caller", response: "webauthnCredentialList"},
+    "delete /webauthn/credentials/:id": {summary: "remove authenticator of the caller signed in to session after 2FA, last second factor is kept", response: "webauthnRemoved"},
+    "post /signup":          {summary: "sign up new user", response: "userResponse"},
+    "post /logout":          {summary: "sign out user", response: "userResponse"},
+    "post /forgot-password": {summary: "email password reset link", response: "forgot"},
+    "post /reset/:token":    {summary: "reset password by token and sign in", response: "userResponse"},
+    "get /verify/:token":    {summary: "verify email by token of link sent at sign up", response: "verified"},
+    "post /verify/resend":   {summary: "email new verification link", response: "forgot"},
+    "post /token":           {summary: "rotate refresh token and issue new credentials", response: "tokenResponse"},
+    "post /revoke":          {summary: "revoke refresh token and access tokens issued with it", response: "revoked"},
+    "get /sessions":         {summary: "active sessions of the caller", response: "sessionList"},
+    "delete /sessions/:id":  {summary: "revoke session of the caller", response: "revoked"},
+    "get /api-keys":         {summary: "personal API keys of the caller", response: "apiKeyList"},
+    "post /api-keys":        {summary: "create personal API key of the caller signed in to session after 2FA, secret is returned once", response: "apiKeySecret"},
+    "delete /api-keys/:id":  {summary: "revoke personal API key of the caller signed in to session after 2FA", response: "revoked"},
+    "get /impersonate":      {summary: "user impersonated in session of the caller", response: "impersonationState"},
+    "post /impersonate/stop": {summary: "stop impersonating user, superadmin acts as self again", response: "userResponse"},
+    "post /impersonate/:userId": {summary: "act as user in session of superadmin, credentials of user can not be changed meanwhile", response: "impersonation"},
+    "delete /":              {summary: "remove user", response: "userResponse"}
+};
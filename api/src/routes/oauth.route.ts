@@ -0,0 +1,48 @@
+import express from "express";
+import {OAuthController} from "../controllers/auth/oauth.controller";
+import {OAuthClientController} from "../controllers/dashboard/oauth.client.controller";
+import {authenticateSession, authorize} from "../middlewares/auth.middleware";
+import {ADMIN_ROLE_ID, SUPERADMIN_ROLE_ID} from "../db/entities/roles.entity";
+import {validate} from "../middlewares/validation.middleware";
+import {
+    oauthAuthorizeSchema,
+    oauthClientCreateSchema,
+    oauthClientIdSchema,
+    oauthConsentSchema,
+    oauthIntrospectSchema,
+    oauthTokenSchema
+} from "./schemas/oauth.schema";
+import {RouterDocs} from "../services/swagger.service";
+import {rateLimitByMethod} from "../middlewares/rate.limit.middleware";
+
+// Define routes /api/v1/oauth
+const wrapper = () => {
+    const router = express.Router();
+    router.use(rateLimitByMethod());
+    const controller = new OAuthController();
+    const clientController = new OAuthClientController();
+    router.get("/",                     controller.get);
+    router.get("/authorize",            authenticateSession, validate("oauth", oauthAuthorizeSchema), controller.authorize);
+    router.post("/authorize",           authenticateSession, validate("oauth", oauthConsentSchema), controller.consent);
+    router.post("/token",               validate("oauth", oauthTokenSchema), controller.token);
+    router.post("/introspect",          validate("oauth", oauthIntrospectSchema), controller.introspect);
+    router.get("/clients",              authorize(SUPERADMIN_ROLE_ID, ADMIN_ROLE_ID), clientController.get);
+    router.post("/clients",             authorize(SUPERADMIN_ROLE_ID, ADMIN_ROLE_ID), validate("oauthClient", oauthClientCreateSchema), clientController.create);
+    router.post("/clients/:id/secret",  authorize(SUPERADMIN_ROLE_ID, ADMIN_ROLE_ID), validate("oauthClient", oauthClientIdSchema), clientController.rotate);
+    router.delete("/clients/:id",       authorize(SUPERADMIN_ROLE_ID, ADMIN_ROLE_ID), validate("oauthClient", oauthClientIdSchema), clientController.delete);
+    return router;
+};
+export const oauthRoutes = wrapper;
+
+// Documentation of routes for /api-docs
+export const oauthDocs: RouterDocs = {
+    "get /":                    {summary: "authorization server metadata", response: "oauthMetadata"},
+    "get /authorize":           {summary: "client and scopes user signed in to session consents to", response: "oauthConsent"},
+    "post /authorize":          {summary: "redirect user signed in to session back to client with authorization code once user consented"},
+    "post /token":              {summary: "access token of authorization code or client credentials grant", response: "oauthToken"},
+    "post /introspect":         {summary: "state of access token for confidential clients", response: "oauthIntrospection"},
+    "get /clients":             {summary: "registered OAuth clients", response: "oauthClientList"},
+    "post /clients":            {summary: "register OAuth client, secret is shown once", response: "oauthClientSecret"},
+    "post /clients/:id/secret": {summary: "replace secret of confidential client", response: "oauthClientSecret"},
+    "delete /clients/:id":      {summary: "remove OAuth client and stop its tokens", response: "oauthClientRemoved"}
+};
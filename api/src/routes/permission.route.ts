@@ -0,0 +1,20 @@
+import express from "express";
+import {PermissionController} from "../controllers/dashboard/permission.controller";
+import {permit} from "../middlewares/auth.middleware";
+import {PERMISSION_READ_PERMISSION, PERMISSION_WRITE_PERMISSION} from "../db/entities/permissions.entity";
+import {rateLimitByMethod} from "../middlewares/rate.limit.middleware";
+
+// Define routes /api/v1
+const wrapper = () => {
+    const router = express.Router();
+    router.use(rateLimitByMethod());
+    const controller = new PermissionController();
+    router.get("/",    permit(PERMISSION_READ_PERMISSION), controller.get);
+    router.get("/:id", permit(PERMISSION_READ_PERMISSION), controller.getOne);
+    router.put("/",    permit(PERMISSION_WRITE_PERMISSION), controller.update);
+    router.post("/",   permit(PERMISSION_WRITE_PERMISSION), controller.create);
+    router.delete("/", permit(PERMISSION_WRITE_PERMISSION), controller.delete);
+
+    return router;
+};
+export const permissionRoutes = wrapper;
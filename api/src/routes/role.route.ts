@@ -1,16 +1,46 @@
 import express from "express";
 import {RoleController} from "../controllers/dashboard/role.controller";
+import {authorize, permit} from "../middlewares/auth.middleware";
+import {ROLE_READ_PERMISSION, ROLE_WRITE_PERMISSION} from "../db/entities/permissions.entity";
+import {SUPERADMIN_ROLE_ID} from "../db/entities/roles.entity";
+import {validate} from "../middlewares/validation.middleware";
+import {
+    roleCreateSchema,
+    roleDeleteSchema,
+    roleIdSchema,
+    roleListSchema,
+    roleTrashSchema,
+    roleUpdateSchema
+} from "./schemas/role.schema";
+import {RouterDocs} from "../services/swagger.service";
+import {rateLimitByMethod} from "../middlewares/rate.limit.middleware";
 
 // Define routes /api/v1
 const wrapper = () => {
     const router = express.Router();
+    router.use(rateLimitByMethod());
     const controller = new RoleController();
-    router.get("/",    controller.get);
-    router.get("/:id", controller.getOne);
-    router.put("/",    controller.update);
-    router.post("/",   controller.create);
-    router.delete("/", controller.delete);
+    router.get("/",             permit(ROLE_READ_PERMISSION), validate("role", roleListSchema), controller.get);
+    router.get("/trash",        permit(ROLE_READ_PERMISSION), validate("role", roleTrashSchema), controller.trash);
+    router.get("/:id",          permit(ROLE_READ_PERMISSION), validate("role", roleIdSchema), controller.getOne);
+    router.put("/",             permit(ROLE_WRITE_PERMISSION), validate("role", roleUpdateSchema), controller.update);
+    router.post("/",            permit(ROLE_WRITE_PERMISSION), validate("role", roleCreateSchema), controller.create);
+    router.delete("/",          permit(ROLE_WRITE_PERMISSION), validate("role", roleDeleteSchema), controller.delete);
+    router.post("/:id/restore", permit(ROLE_WRITE_PERMISSION), validate("role", roleIdSchema), controller.restore);
+    router.delete("/:id/purge", authorize(SUPERADMIN_ROLE_ID), validate("role", roleIdSchema), controller.purge);
 
     return router;
 };
 export const roleRoutes = wrapper;
+
+// Documentation of routes for /api-docs
+export const roleDocs: RouterDocs = {
+    "get /":             {summary: "role by id or title, otherwise page of roles", response: ["role", "rolePage"]},
+    "get /trash":        {summary: "page of removed roles", response: "rolePage"},
+    "get /:id":          {summary: "role by id", response: "roleResponse"},
+    "put /":             {summary: "update role", response: "roleResponse"},
+    "post /":            {summary: "create role", response: "roleResponse"},
+    "delete /":          {summary: "remove role", response: "roleResponse"},
+    "post /:id/restore": {summary: "restore removed role", response: "roleResponse"},
+    "delete /:id/purge": {summary: "delete removed role permanently", response: "roleResponse"}
+};
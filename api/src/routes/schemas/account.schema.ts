@@ -0,0 +1,74 @@
+import {Schema} from "express-validator";
+import {ACCOUNT_LIST_SORT} from "../../db/interfaces/account.interface";
+import {ERROR_ACCOUNT_EMPTY_EMAIL, ERROR_ACCOUNT_EMPTY_NAME} from "../../controllers/dashboard/account.controller";
+import {flagSchema, idSchema, idsSchema, listSchema, textSchema} from "./list.schema";
+
+// string fields of account besides name and email
+const accountTextSchema: Schema = {
+    fid: textSchema("fid"),
+    uid: textSchema("uid"),
+    customerPortalId: textSchema("customerPortalId"),
+    type: textSchema("type"),
+    status: textSchema("status"),
+    enabled: flagSchema("enabled")
+};
+
+/**
+ * get /api/v1/account by id or name, otherwise page of accounts
+ */
+export const accountListSchema: Schema = {
+    id: idSchema("query", true),
+    name: {in: ["query"], optional: true, isString: {errorMessage: "name must be a string"}},
+    ...listSchema(ACCOUNT_LIST_SORT, ["status", "type"])
+};
+
+/**
+ * get /api/v1/account/trash
+ */
+export const accountTrashSchema: Schema = listSchema(ACCOUNT_LIST_SORT, ["status", "type"]);
+
+/**
+ * get /api/v1/account/:id, post /api/v1/account/:id/restore and delete /api/v1/account/:id/purge
+ */
+export const accountIdSchema: Schema = {
+    id: idSchema("params")
+};
+
+/**
+ * put /api/v1/account, empty fields keep current values
+ */
+export const accountUpdateSchema: Schema = {
+    id: idSchema("body"),
+    name: textSchema("name"),
+    email: {
+        in: ["body"],
+        optional: {options: {checkFalsy: true}},
+        isEmail: {errorMessage: "invalid email"}
+    },
+    ...accountTextSchema,
+    ...idsSchema("users")
+};
+
+/**
+ * post /api/v1/account
+ */
+export const accountCreateSchema: Schema = {
+    name: {
+        in: ["body"],
+        isString: {errorMessage: ERROR_ACCOUNT_EMPTY_NAME},
+        notEmpty: {errorMessage: ERROR_ACCOUNT_EMPTY_NAME}
+    },
+    email: {
+        in: ["body"],
+        notEmpty: {errorMessage: ERROR_ACCOUNT_EMPTY_EMAIL},
+        isEmail: {errorMessage: "invalid email"}
+    },
+    ...accountTextSchema
+};
+
+/**
+ * delete /api/v1/account
+ */
+export const accountDeleteSchema: Schema = {
+    id: idSchema("body")
+};
@@ -0,0 +1,329 @@
+import {Schema} from "express-validator";
+import {
+    ERROR_API_KEY_NOT_FOUND,
+    ERROR_AUTH_EMPTY_CREDENTIALS,
+    ERROR_AUTH_EMPTY_EMAIL,
+    ERROR_AUTH_EMPTY_PASSWORD_CREDENTIALS,
+    ERROR_AUTH_INVALID_RESET_TOKEN,
+    ERROR_AUTH_INVALID_VERIFY_TOKEN,
+    ERROR_AUTH_PASSWORD_NOT_MATCH_CREDENTIALS,
+    ERROR_GA2FA_INCORRECT_CODE,
+    ERROR_IMPERSONATION_USER,
+    ERROR_OIDC_IDENTITY_NOT_FOUND,
+    ERROR_OIDC_UNKNOWN_PROVIDER,
+    ERROR_RECOVERY_CODE_INCORRECT,
+    ERROR_SESSION_NOT_FOUND,
+    ERROR_TOKEN_INVALID,
+    ERROR_VALIDATION,
+    ERROR_WEBAUTHN_NOT_FOUND
+} from "../../controllers/auth/auth.error.codes";
+import {ERROR_WEBAUTHN_INVALID} from "../../util/webauthn";
+import {textSchema} from "./list.schema";
+
+/**
+ * query of provider redirect /api/v1/auth/callback
+ */
+export const callbackSchema: Schema = {
+    code:  {in: ["query"], optional: true, isString: {errorMessage: "code must be a string"}},
+    state: {in: ["query"], optional: true, isString: {errorMessage: "state must be a string"}},
+    error: {in: ["query"], optional: true, isString: {errorMessage: "error must be a string"}},
+    error_description: {in: ["query"], optional: true, isString: {errorMessage: "error_description must be a string"}}
+};
+
+/**
+ * post /api/v1/auth/signin, email field accepts username too
+ */
+export const signinSchema: Schema = {
+    email: {
+        in: ["body"],
+        isString: {errorMessage: ERROR_AUTH_EMPTY_CREDENTIALS},
+        notEmpty: {errorMessage: ERROR_AUTH_EMPTY_CREDENTIALS}
+    },
+    password: {
+        in: ["body"],
+        isString: {errorMessage: ERROR_AUTH_EMPTY_PASSWORD_CREDENTIALS},
+        notEmpty: {errorMessage: ERROR_AUTH_EMPTY_PASSWORD_CREDENTIALS}
+    }
+};
+
+/**
+ * post /api/v1/auth/2fa, registration when neither code nor credential of authenticator is provided
+ */
+export const ga2faSchema: Schema = {
+    code: {
+        in: ["body"],
+        optional: true,
+        isNumeric: {errorMessage: ERROR_GA2FA_INCORRECT_CODE}
+    },
+    credential: {
+        in: ["body"],
+        optional: true,
+        custom: {
+            options: (value: unknown) => !!value && typeof value === "object" && !Array.isArray(value),
+            errorMessage: ERROR_WEBAUTHN_INVALID
+        }
+    }
+};
+
+/**
+ * post /api/v1/auth/2fa/recovery, code is one of recovery codes
+ */
+export const recoverySchema: Schema = {
+    code: {
+        in: ["body"],
+        isString: {errorMessage: ERROR_RECOVERY_CODE_INCORRECT},
+        notEmpty: {errorMessage: ERROR_RECOVERY_CODE_INCORRECT}
+    }
+};
+
+/**
+ * post /api/v1/auth/signup and post /api/v1/user
+ */
+export const signupSchema: Schema = {
+    username: textSchema("username"),
+    email: {
+        in: ["body"],
+        optional: {options: {checkFalsy: true}},
+        isEmail: {errorMessage: "invalid email"}
+    },
+    password: {
+        in: ["body"],
+        isString: {errorMessage: ERROR_AUTH_EMPTY_PASSWORD_CREDENTIALS},
+        notEmpty: {errorMessage: ERROR_AUTH_EMPTY_PASSWORD_CREDENTIALS}
+    },
+    confirm: {
+        in: ["body"],
+        custom: {
+            options: (value: string, {req}) => value === req.body.password,
+            errorMessage: ERROR_AUTH_PASSWORD_NOT_MATCH_CREDENTIALS
+        }
+    }
+};
+
+/**
+ * post /api/v1/auth/logout
+ */
+export const logoutSchema: Schema = {
+    id: {
+        in: ["body"],
+        isInt: {options: {min: 1}, errorMessage: ERROR_VALIDATION}
+    }
+};
+
+/**
+ * post /api/v1/auth/forgot-password, email field accepts username too
+ */
+export const forgotSchema: Schema = {
+    email: {
+        in: ["body"],
+        isString: {errorMessage: ERROR_AUTH_EMPTY_EMAIL},
+        notEmpty: {errorMessage: ERROR_AUTH_EMPTY_EMAIL}
+    }
+};
+
+/**
+ * post /api/v1/auth/reset/:token
+ */
+export const resetSchema: Schema = {
+    token: {
+        in: ["params"],
+        notEmpty: {errorMessage: ERROR_AUTH_INVALID_RESET_TOKEN},
+        isHexadecimal: {errorMessage: ERROR_AUTH_INVALID_RESET_TOKEN}
+    },
+    password: {
+        in: ["body"],
+        isString: {errorMessage: ERROR_AUTH_EMPTY_PASSWORD_CREDENTIALS},
+        notEmpty: {errorMessage: ERROR_AUTH_EMPTY_PASSWORD_CREDENTIALS}
+    }
+};
+
+/**
+ * get /api/v1/auth/verify/:token
+ */
+export const verifySchema: Schema = {
+    token: {
+        in: ["params"],
+        notEmpty: {errorMessage: ERROR_AUTH_INVALID_VERIFY_TOKEN},
+        isHexadecimal: {errorMessage: ERROR_AUTH_INVALID_VERIFY_TOKEN}
+    }
+};
+
+/**
+ * post /api/v1/auth/verify/resend
+ */
+export const resendSchema: Schema = {
+    email: {
+        in: ["body"],
+        isString: {errorMessage: ERROR_AUTH_EMPTY_EMAIL},
+        notEmpty: {errorMessage: ERROR_AUTH_EMPTY_EMAIL}
+    }
+};
+
+/**
+ * post /api/v1/auth/token
+ */
+export const tokenSchema: Schema = {
+    refresh_token: {
+        in: ["body"],
+        notEmpty: {errorMessage: ERROR_TOKEN_INVALID},
+        isHexadecimal: {errorMessage: ERROR_TOKEN_INVALID}
+    }
+};
+
+/**
+ * post /api/v1/auth/revoke, token is refresh token
+ */
+export const revokeSchema: Schema = {
+    token: {
+        in: ["body"],
+        notEmpty: {errorMessage: ERROR_TOKEN_INVALID},
+        isHexadecimal: {errorMessage: ERROR_TOKEN_INVALID}
+    }
+};
+
+/**
+ * delete /api/v1/auth/sessions/:id, id is public id of session
+ */
+export const sessionIdSchema: Schema = {
+    id: {
+        in: ["params"],
+        isHexadecimal: {errorMessage: ERROR_SESSION_NOT_FOUND}
+    }
+};
+
+/**
+ * post /api/v1/auth/webauthn/register, credential is PublicKeyCredential of navigator.credentials.create()
+ */
+export const webauthnRegisterSchema: Schema = {
+    "credential.id": {
+        in: ["body"],
+        isString: {errorMessage: ERROR_WEBAUTHN_INVALID},
+        notEmpty: {errorMessage: ERROR_WEBAUTHN_INVALID}
+    },
+    "credential.response.clientDataJSON": {
+        in: ["body"],
+        isString: {errorMessage: ERROR_WEBAUTHN_INVALID}
+    },
+    "credential.response.attestationObject": {
+        in: ["body"],
+        isString: {errorMessage: ERROR_WEBAUTHN_INVALID}
+    },
+    "credential.transports": {
+        in: ["body"],
+        optional: true,
+        isArray: {errorMessage: ERROR_WEBAUTHN_INVALID}
+    },
+    name: {
+        in: ["body"],
+        optional: true,
+        isString: {errorMessage: ERROR_VALIDATION},
+        isLength: {options: {max: 255}, errorMessage: ERROR_VALIDATION}
+    }
+};
+
+/**
+ * post /api/v1/auth/webauthn/login, credential is PublicKeyCredential of navigator.credentials.get()
+ */
+export const webauthnLoginSchema: Schema = {
+    "credential.id": {
+        in: ["body"],
+        isString: {errorMessage: ERROR_WEBAUTHN_INVALID},
+        notEmpty: {errorMessage: ERROR_WEBAUTHN_INVALID}
+    },
+    "credential.response.clientDataJSON": {
+        in: ["body"],
+        isString: {errorMessage: ERROR_WEBAUTHN_INVALID}
+    },
+    "credential.response.authenticatorData": {
+        in: ["body"],
+        isString: {errorMessage: ERROR_WEBAUTHN_INVALID}
+    },
+    "credential.response.signature": {
+        in: ["body"],
+        isString: {errorMessage: ERROR_WEBAUTHN_INVALID}
+    }
+};
+
+/**
+ * delete /api/v1/auth/webauthn/credentials/:id
+ */
+export const webauthnCredentialIdSchema: Schema = {
+    id: {
+        in: ["params"],
+        isInt: {options: {min: 1}, errorMessage: ERROR_WEBAUTHN_NOT_FOUND}
+    }
+};
+
+/**
+ * get /api/v1/auth/oidc/:provider, provider is name of OIDC_PROVIDERS
+ */
+export const oidcProviderSchema: Schema = {
+    provider: {
+        in: ["params"],
+        matches: {options: [/^[a-z0-9_-]+$/], errorMessage: ERROR_OIDC_UNKNOWN_PROVIDER}
+    }
+};
+
+/**
+ * delete /api/v1/auth/identities/:id
+ */
+export const identityIdSchema: Schema = {
+    id: {
+        in: ["params"],
+        isInt: {options: {min: 1}, errorMessage: ERROR_OIDC_IDENTITY_NOT_FOUND}
+    }
+};
+
+/**
+ * post /api/v1/auth/api-keys, expires is chosen by config.apiKeys.ttl when it is not given
+ */
+export const apiKeyCreateSchema: Schema = {
+    name: {
+        in: ["body"],
+        isString: {errorMessage: "name must be a string"},
+        notEmpty: {errorMessage: "name must not be empty"},
+        isLength: {options: {max: 255}, errorMessage: "name is too long"}
+    },
+    scopes: {
+        in: ["body"],
+        isArray: {options: {min: 1}, errorMessage: "scopes must be a list of scopes"}
+    },
+    "scopes.*": {
+        in: ["body"],
+        isString: {errorMessage: "scopes must be a list of scopes"}
+    },
+    expires: {
+        in: ["body"],
+        optional: true,
+        isISO8601: {errorMessage: "expires must be a date"}
+    }
+};
+
+/**
+ * delete /api/v1/auth/api-keys/:id
+ */
+export const apiKeyIdSchema: Schema = {
+    id: {
+        in: ["params"],
+        isInt: {options: {min: 1}, errorMessage: ERROR_API_KEY_NOT_FOUND}
+    }
+};
+
+/**
+ * post /api/v1/auth/impersonate/:userId, user acts with all own roles when scopes are not given
+ */
+export const impersonateSchema: Schema = {
+    userId: {
+        in: ["params"],
+        isInt: {options: {min: 1}, errorMessage: ERROR_IMPERSONATION_USER}
+    },
+    scopes: {
+        in: ["body"],
+        optional: true,
+        isArray: {options: {min: 1}, errorMessage: "scopes must be a list of scopes"}
+    },
+    "scopes.*": {
+        in: ["body"],
+        isString: {errorMessage: "scopes must be a list of scopes"}
+    }
+};
@@ -0,0 +1,142 @@
+import {ParamSchema, Schema} from "express-validator";
+import {MAX_LIST_LIMIT} from "../../db/interfaces/list.interface";
+import {ERROR_LIST_INVALID_PARAMETER} from "../../controllers/base.controller";
+
+/**
+ * Positive integer id of entity
+ * @param location e.g. params for /:id routes
+ * @param optional
+ */
+export const idSchema = (location: "body" | "query" | "params", optional = false): ParamSchema => ({
+    in: [location],
+    optional: optional ? true : undefined,
+    isInt: {
+        options: {min: 1},
+        errorMessage: "id must be a positive integer"
+    }
+});
+
+/**
+ * Optional list of positive integer ids, e.g. roles of user, null is accepted as missing
+ * @param field
+ */
+export const idsSchema = (field: string): Schema => ({
+    [field]: {
+        in: ["body"],
+        optional: {options: {nullable: true}},
+        isArray: {
+            errorMessage: `${field} must be a list of ids`
+        }
+    },
+    [`${field}.*`]: {
+        in: ["body"],
+        isInt: {
+            options: {min: 1},
+            errorMessage: `${field} must be a list of ids`
+        }
+    }
+});
+
+/**
+ * Optional string field of body, null is accepted as missing
+ * @param field
+ */
+export const textSchema = (field: string): ParamSchema => ({
+    in: ["body"],
+    optional: {options: {nullable: true}},
+    isString: {
+        errorMessage: `${field} must be a string`
+    }
+});
+
+/**
+ * Optional boolean field of body, null is accepted as missing
+ * @param field
+ */
+export const flagSchema = (field: string): ParamSchema => ({
+    in: ["body"],
+    optional: {options: {nullable: true}},
+    isBoolean: {
+        errorMessage: `${field} must be a boolean`
+    }
+});
+
+/**
+ * Page, sort and filter options of list routes, see BaseController.listQuery
+ * @param sortable columns allowed for sorting
+ * @param filters filters supported besides enabled and created range, e.g. status
+ */
+export const listSchema = (sortable: string[], filters: string[] = []): Schema => {
+    const schema: Schema = {
+        limit: {
+            in: ["query"],
+            optional: true,
+            isInt: {
+                options: {min: 1, max: MAX_LIST_LIMIT},
+                errorMessage: `${ERROR_LIST_INVALID_PARAMETER} limit`
+            }
+        },
+        offset: {
+            in: ["query"],
+            optional: true,
+            isInt: {
+                options: {min: 0},
+                errorMessage: `${ERROR_LIST_INVALID_PARAMETER} offset`
+            }
+        },
+        cursor: {
+            in: ["query"],
+            optional: true,
+            isBase64: {
+                errorMessage: `${ERROR_LIST_INVALID_PARAMETER} cursor`
+            }
+        },
+        sort: {
+            in: ["query"],
+            optional: true,
+            isIn: {
+                options: [sortable],
+                errorMessage: `${ERROR_LIST_INVALID_PARAMETER} sort`
+            }
+        },
+        order: {
+            in: ["query"],
+            optional: true,
+            isIn: {
+                options: [["asc", "desc", "ASC", "DESC"]],
+                errorMessage: `${ERROR_LIST_INVALID_PARAMETER} order`
+            }
+        },
+        enabled: {
+            in: ["query"],
+            optional: true,
+            isBoolean: {
+                errorMessage: `${ERROR_LIST_INVALID_PARAMETER} enabled`
+            }
+        },
+        createdFrom: {
+            in: ["query"],
+            optional: true,
+            isISO8601: {
+                errorMessage: `${ERROR_LIST_INVALID_PARAMETER} createdFrom`
+            }
+        },
+        createdTo: {
+            in: ["query"],
+            optional: true,
+            isISO8601: {
+                errorMessage: `${ERROR_LIST_INVALID_PARAMETER} createdTo`
+            }
+        }
+    };
+    filters.forEach(filter => {
+        schema[filter] = {
+            in: ["query"],
+            optional: true,
+            isString: {
+                errorMessage: `${ERROR_LIST_INVALID_PARAMETER} ${filter}`
+            }
+        };
+    });
+    return schema;
+};
@@ -0,0 +1,116 @@
+import {ParamSchema, Schema} from "express-validator";
+import {OAUTH_GRANTS} from "../../util/oauth";
+import {idSchema} from "./list.schema";
+
+// optional string parameter of OAuth endpoint, missing ones are reported in OAuth error format by OAuthService
+const parameter = (location: "body" | "query", field: string): ParamSchema => ({
+    in: [location],
+    optional: true,
+    isString: {errorMessage: `${field} must be a string`}
+});
+
+/**
+ * get /api/v1/oauth/authorize
+ */
+export const oauthAuthorizeSchema: Schema = {
+    response_type:         parameter("query", "response_type"),
+    client_id:             parameter("query", "client_id"),
+    redirect_uri:          parameter("query", "redirect_uri"),
+    scope:                 parameter("query", "scope"),
+    state:                 parameter("query", "state"),
+    code_challenge:        parameter("query", "code_challenge"),
+    code_challenge_method: parameter("query", "code_challenge_method")
+};
+
+/**
+ * post /api/v1/oauth/authorize, parameters of get /api/v1/oauth/authorize with consent of user
+ */
+export const oauthConsentSchema: Schema = {
+    response_type:         parameter("body", "response_type"),
+    client_id:             parameter("body", "client_id"),
+    redirect_uri:          parameter("body", "redirect_uri"),
+    scope:                 parameter("body", "scope"),
+    state:                 parameter("body", "state"),
+    code_challenge:        parameter("body", "code_challenge"),
+    code_challenge_method: parameter("body", "code_challenge_method"),
+    consent: {
+        in: ["body"],
+        isBoolean: {errorMessage: "consent must be a boolean"},
+        toBoolean: true
+    }
+};
+
+/**
+ * post /api/v1/oauth/token, client authenticates by Basic Authorization header or by client_id and client_secret
+ */
+export const oauthTokenSchema: Schema = {
+    grant_type:    parameter("body", "grant_type"),
+    code:          parameter("body", "code"),
+    redirect_uri:  parameter("body", "redirect_uri"),
+    code_verifier: parameter("body", "code_verifier"),
+    scope:         parameter("body", "scope"),
+    client_id:     parameter("body", "client_id"),
+    client_secret: parameter("body", "client_secret")
+};
+
+/**
+ * post /api/v1/oauth/introspect
+ */
+export const oauthIntrospectSchema: Schema = {
+    token:         parameter("body", "token"),
+    client_id:     parameter("body", "client_id"),
+    client_secret: parameter("body", "client_secret")
+};
+
+/**
+ * post /api/v1/oauth/clients
+ */
+export const oauthClientCreateSchema: Schema = {
+    name: {
+        in: ["body"],
+        isString: {errorMessage: "name must be a string"},
+        notEmpty: {errorMessage: "name must not be empty"},
+        isLength: {options: {max: 255}, errorMessage: "name is too long"}
+    },
+    redirectUris: {
+        in: ["body"],
+        optional: true,
+        isArray: {errorMessage: "redirectUris must be a list of urls"}
+    },
+    "redirectUris.*": {
+        in: ["body"],
+        isURL: {
+            options: {require_protocol: true, require_tld: false},
+            errorMessage: "redirectUris must be a list of urls"
+        }
+    },
+    grants: {
+        in: ["body"],
+        isArray: {options: {min: 1}, errorMessage: `grants must be a list of ${OAUTH_GRANTS.join(", ")}`}
+    },
+    "grants.*": {
+        in: ["body"],
+        isIn: {options: [OAUTH_GRANTS], errorMessage: `grants must be a list of ${OAUTH_GRANTS.join(", ")}`}
+    },
+    scopes: {
+        in: ["body"],
+        isArray: {options: {min: 1}, errorMessage: "scopes must be a list of scopes"}
+    },
+    "scopes.*": {
+        in: ["body"],
+        isString: {errorMessage: "scopes must be a list of scopes"}
+    },
+    confidential: {
+        in: ["body"],
+        optional: true,
+        isBoolean: {errorMessage: "confidential must be a boolean"},
+        toBoolean: true
+    }
+};
+
+/**
+ * post /api/v1/oauth/clients/:id/secret and delete /api/v1/oauth/clients/:id
+ */
+export const oauthClientIdSchema: Schema = {
+    id: idSchema("params")
+};
@@ -0,0 +1,61 @@
+import {Schema} from "express-validator";
+import {ROLE_LIST_SORT} from "../../db/interfaces/role.interface";
+import {ERROR_ROLE_EMPTY_DESCRIPTION, ERROR_ROLE_EMPTY_TITLE} from "../../controllers/dashboard/role.controller";
+import {flagSchema, idSchema, idsSchema, listSchema, textSchema} from "./list.schema";
+
+/**
+ * get /api/v1/role by id or title, otherwise page of roles
+ */
+export const roleListSchema: Schema = {
+    id: idSchema("query", true),
+    title: {in: ["query"], optional: true, isString: {errorMessage: "title must be a string"}},
+    ...listSchema(ROLE_LIST_SORT)
+};
+
+/**
+ * get /api/v1/role/trash
+ */
+export const roleTrashSchema: Schema = listSchema(ROLE_LIST_SORT);
+
+/**
+ * get /api/v1/role/:id, post /api/v1/role/:id/restore and delete /api/v1/role/:id/purge
+ */
+export const roleIdSchema: Schema = {
+    id: idSchema("params")
+};
+
+/**
+ * put /api/v1/role
+ */
+export const roleUpdateSchema: Schema = {
+    id: idSchema("body"),
+    title: textSchema("title"),
+    description: textSchema("description"),
+    enabled: flagSchema("enabled"),
+    ...idsSchema("users"),
+    ...idsSchema("permissions")
+};
+
+/**
+ * post /api/v1/role
+ */
+export const roleCreateSchema: Schema = {
+    title: {
+        in: ["body"],
+        isString: {errorMessage: ERROR_ROLE_EMPTY_TITLE},
+        notEmpty: {errorMessage: ERROR_ROLE_EMPTY_TITLE}
+    },
+    description: {
+        in: ["body"],
+        isString: {errorMessage: ERROR_ROLE_EMPTY_DESCRIPTION},
+        notEmpty: {errorMessage: ERROR_ROLE_EMPTY_DESCRIPTION}
+    },
+    enabled: flagSchema("enabled")
+};
+
+/**
+ * delete /api/v1/role
+ */
+export const roleDeleteSchema: Schema = {
+    id: idSchema("body")
+};
@@ -0,0 +1,38 @@
+import {Schema} from "express-validator";
+import {USER_LIST_SORT} from "../../db/interfaces/user.interface";
+import {flagSchema, idSchema, idsSchema, listSchema, textSchema} from "./list.schema";
+
+/**
+ * get /api/v1/user and get /api/v1/user/trash
+ */
+export const userListSchema: Schema = listSchema(USER_LIST_SORT);
+
+/**
+ * get /api/v1/user/:id, post /api/v1/user/:id/restore and delete /api/v1/user/:id/purge
+ */
+export const userIdSchema: Schema = {
+    id: idSchema("params")
+};
+
+/**
+ * put /api/v1/user, empty email and username keep current values, 2FA is reset by delete /api/v1/user/:id/2fa
+ */
+export const userUpdateSchema: Schema = {
+    id: idSchema("body"),
+    username: textSchema("username"),
+    email: {
+        in: ["body"],
+        optional: {options: {checkFalsy: true}},
+        isEmail: {errorMessage: "invalid email"}
+    },
+    enabled: flagSchema("enabled"),
+    ...idsSchema("roles"),
+    ...idsSchema("accounts")
+};
+
+/**
+ * delete /api/v1/user and delete /api/v1/auth
+ */
+export const userDeleteSchema: Schema = {
+    id: idSchema("body")
+};
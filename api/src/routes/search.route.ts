@@ -0,0 +1,15 @@
+import express from "express";
+import {SearchController} from "../controllers/dashboard/search.controller";
+import {authenticate} from "../middlewares/auth.middleware";
+import {rateLimitByMethod} from "../middlewares/rate.limit.middleware";
+
+// Define routes /api/v1
+const wrapper = () => {
+    const router = express.Router();
+    router.use(rateLimitByMethod());
+    const controller = new SearchController();
+    router.get("/", authenticate, controller.get);
+
+    return router;
+};
+export const searchRoutes = wrapper;
@@ -1,15 +1,54 @@
 import express from "express";
 import {UserController} from "../controllers/dashboard/user.controller";
+import {SessionController} from "../controllers/auth/session.controller";
+import {RecoveryController} from "../controllers/auth/recovery.controller";
+import {authorize, notImpersonating, permit} from "../middlewares/auth.middleware";
+import {USER_READ_PERMISSION, USER_WRITE_PERMISSION} from "../db/entities/permissions.entity";
+import {SUPERADMIN_ROLE_ID} from "../db/entities/roles.entity";
+import {validate} from "../middlewares/validation.middleware";
+import {signupSchema} from "./schemas/auth.schema";
+import {
+    userDeleteSchema,
+    userIdSchema,
+    userListSchema,
+    userUpdateSchema
+} from "./schemas/user.schema";
+import {RouterDocs} from "../services/swagger.service";
+import {rateLimitByMethod} from "../middlewares/rate.limit.middleware";
 
 // Define routes /api/v1
 const wrapper = () => {
     const router = express.Router();
+    router.use(rateLimitByMethod());
     const controller = new UserController();
-    router.get("/",    controller.get);
-    router.get("/:id", controller.getOne);
-    router.put("/",    controller.update);
-    router.post("/",   controller.create);
-    router.delete("/", controller.delete);
+    const sessionController = new SessionController();
+    const recoveryController = new RecoveryController();
+    router.get("/",                permit(USER_READ_PERMISSION), validate("user", userListSchema), controller.get);
+    router.get("/trash",           permit(USER_READ_PERMISSION), validate("user", userListSchema), controller.trash);
+    router.get("/:id",             permit(USER_READ_PERMISSION), validate("user", userIdSchema), controller.getOne);
+    router.put("/",                permit(USER_WRITE_PERMISSION), validate("user", userUpdateSchema), controller.update);
+    router.post("/",               permit(USER_WRITE_PERMISSION), validate("user", signupSchema), controller.create);
+    router.delete("/",             permit(USER_WRITE_PERMISSION), validate("user", userDeleteSchema), controller.delete);
+    router.post("/:id/restore",    permit(USER_WRITE_PERMISSION), validate("user", userIdSchema), controller.restore);
+    router.delete("/:id/purge",    authorize(SUPERADMIN_ROLE_ID), validate("user", userIdSchema), controller.purge);
+    router.delete("/:id/sessions", permit(USER_WRITE_PERMISSION), validate("user", userIdSchema), sessionController.revokeUser);
+    router.post("/:id/unlock",     permit(USER_WRITE_PERMISSION), validate("user", userIdSchema), controller.unlock);
+    router.delete("/:id/2fa",      notImpersonating, permit(USER_WRITE_PERMISSION), validate("user", userIdSchema), recoveryController.reset);
     return router;
 };
 export const userRoutes = wrapper;
+
+// Documentation of routes for /api-docs
+export const userDocs: RouterDocs = {
+    "get /":                {summary: "page of users", response: "userPage"},
+    "get /trash":           {summary: "page of removed users", response: "userPage"},
+    "get /:id":             {summary: "user by id", response: "userResponse"},
+    "put /":                {summary: "update user", response: "userResponse"},
+    "post /":               {summary: "create user", response: "userResponse"},
+    "delete /":             {summary: "remove user", response: "userResponse"},
+    "post /:id/restore":    {summary: "restore removed user", response: "userResponse"},
+    "delete /:id/purge":    {summary: "delete removed user permanently", response: "userResponse"},
+    "delete /:id/sessions": {summary: "revoke all sessions and tokens of user", response: "sessionsRevoked"},
+    "post /:id/unlock":     {summary: "unlock user locked by failed sign in attempts", response: "userResponse"},
+    "delete /:id/2fa":      {summary: "reset 2FA of user, next 2FA enrolls new authenticator", response: "ga2faReset"}
+};
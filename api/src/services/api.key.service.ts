@@ -0,0 +1,137 @@
+import crypto from "crypto";
+import {Service} from "./app.service";
+import {API_KEY_REPOSITORY_SERVICE, CONFIG_SERVICE, USER_REPOSITORY_SERVICE} from "./app.constants";
+import {bearer, TokenValidation} from "./token.service";
+import {Config} from "../util/secrets";
+import {toBase64Url} from "../util/webauthn";
+import {grantScopes, scopedUser, scopeRoles} from "../util/oauth";
+import {IApiKeyServiceRepository} from "../db/interfaces/api.key.interface";
+import {IUserServiceRepository} from "../db/interfaces/user.interface";
+import {ApiKeyEntity, PublicApiKey} from "../db/entities/api.key.entity";
+import {UserEntity} from "../db/entities/users.entity";
+import {ERROR_API_KEY_EXPIRES, ERROR_API_KEY_LIMIT} from "../controllers/auth/auth.error.codes";
+
+// keys start with this prefix so they are told apart from access tokens without lookup
+export const API_KEY_PREFIX = "ak_";
+
+/**
+ * Key with its secret value, value is shown only when key is created
+ */
+export interface ApiKeySecret {
+    key:   ApiKeyEntity
+    value: string
+}
+
+export const toPublicApiKey = (key: ApiKeyEntity): PublicApiKey => {
+    return {
+        id:       key.id,
+        name:     key.name,
+        prefix:   key.prefix,
+        scopes:   key.scopes,
+        expires:  key.expires || null,
+        lastUsed: key.lastUsed || null,
+        lastIp:   key.lastIp || null,
+        created:  key.created
+    };
+};
+
+/**
+ * API key Service interface for binding
+ */
+export interface IApiKeyService {
+    list(userId: number): Promise<ApiKeyEntity[]>
+    // scopes are limited to roles user acts with, expires is chosen by config.apiKeys.ttl when it is not given
+    create(user: UserEntity, name: string, scopes: string[], expires?: Date): Promise<ApiKeySecret>
+    revoke(userId: number, id: number): Promise<boolean>
+    // caller of API key in Authorization header, null when header has no valid key
+    validate(authorization: string, ip: string): Promise<TokenValidation>
+}
+
+/**
+ * Personal API keys accepted instead of access tokens
+ */
+export class ApiKeyService implements IApiKeyService {
+    private get config(): Config {
+        return Service.getService<Config>(CONFIG_SERVICE);
+    }
+    private get repository(): IApiKeyServiceRepository {
+        return Service.getService<IApiKeyServiceRepository>(API_KEY_REPOSITORY_SERVICE);
+    }
+    private get users(): IUserServiceRepository {
+        return Service.getService<IUserServiceRepository>(USER_REPOSITORY_SERVICE);
+    }
+
+    private static hash(value: string): string {
+        return crypto.createHash("sha256").update(value).digest("hex");
+    }
+
+    public list(userId: number): Promise<ApiKeyEntity[]> {
+        return this.repository.list(userId);
+    }
+
+    public create(user: UserEntity, name: string, scopes: string[], expires?: Date): Promise<ApiKeySecret> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                if ((await this.repository.list(user.id)).length >= this.config.apiKeys.max) {
+                    throw new Error(ERROR_API_KEY_LIMIT);
+                }
+                if (expires && expires.getTime() <= Date.now()) {
+                    throw new Error(ERROR_API_KEY_EXPIRES);
+                }
+                const mapping = this.config.oauth.scopes;
+                const roles = (user.roles || []).map(roleId => Number(roleId));
+                // every scope must be granted, key of fewer scopes than asked would surprise its script
+                const granted = grantScopes(scopes, Object.keys(mapping), roles, mapping);
+                if (granted.length !== scopes.length) {
+                    throw new Error(`scope ${scopes.filter(scope => granted.indexOf(scope) === -1).join(" ")} is not granted to roles of user`);
+                }
+                const ttl = this.config.apiKeys.ttl;
+                const value = `${API_KEY_PREFIX}${toBase64Url(crypto.randomBytes(32))}`;
+                const key = await this.repository.create(new ApiKeyEntity(
+                    undefined,
+                    user.id,
+                    name,
+                    value.slice(0, API_KEY_PREFIX.length + 6),
+                    ApiKeyService.hash(value),
+                    granted,
+                    expires || (ttl > 0 ? new Date(Date.now() + ttl * 24 * 60 * 60 * 1000) : null)
+                ));
+                resolve({key, value});
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public revoke(userId: number, id: number): Promise<boolean> {
+        return this.repository.revoke(userId, id);
+    }
+
+    public validate(authorization: string, ip: string): Promise<TokenValidation> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const value = bearer(authorization);
+                if (value.indexOf(API_KEY_PREFIX) !== 0) {
+                    return resolve(null);
+                }
+                const key = await this.repository.getByHash(ApiKeyService.hash(value));
+                if (!key || key.revoked || (key.expires && key.expires.getTime() <= Date.now())) {
+                    return resolve(null);
+                }
+                const user = await this.users.getById(key.userId);
+                if (!user) {
+                    return resolve(null);
+                }
+                await this.repository.used(key.id, ip);
+                const roles = scopeRoles(key.scopes, (user.roles || []).map(roleId => Number(roleId)), this.config.oauth.scopes);
+                resolve({
+                    user:        scopedUser(user, roles),
+                    accessToken: value,
+                    expiresIn:   key.expires ? Math.floor((key.expires.getTime() - Date.now()) / 1000) : null
+                });
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
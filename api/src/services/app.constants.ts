@@ -16,6 +16,32 @@ export const FETCH_JSON_SERVICE    = "fetchJSON";
 export const ROLE_REPOSITORY_SERVICE = "roleRepository";
 export const USER_REPOSITORY_SERVICE = "userRepository";
 export const ACCOUNT_REPOSITORY_SERVICE = "accountRepository";
+export const PERMISSION_REPOSITORY_SERVICE = "permissionRepository";
 
 
 
+export const SEARCH_REPOSITORY_SERVICE = "searchRepository";
+export const AUDIT_REPOSITORY_SERVICE = "auditRepository";
+export const TOKEN_REPOSITORY_SERVICE = "tokenRepository";
+export const TOKEN_SERVICE = "token";
+export const SESSION_STORE_SERVICE = "sessionStore";
+export const SESSION_SERVICE = "session";
+export const LOGIN_ATTEMPT_REPOSITORY_SERVICE = "loginAttemptRepository";
+export const LOCKOUT_SERVICE = "lockout";
+export const RATE_LIMIT_STORE_SERVICE = "rateLimitStore";
+export const MAIL_REPOSITORY_SERVICE = "mailRepository";
+export const MAIL_TRANSPORT_SERVICE = "mailTransport";
+export const MAIL_SERVICE = "mailService";
+export const RECOVERY_CODE_REPOSITORY_SERVICE = "recoveryCodeRepository";
+export const RECOVERY_CODE_SERVICE = "recoveryCodeService";
+export const WEBAUTHN_REPOSITORY_SERVICE = "webauthnRepository";
+export const WEBAUTHN_SERVICE = "webauthnService";
+export const TOTP_SERVICE = "totp";
+export const PASSWORD_HISTORY_REPOSITORY_SERVICE = "passwordHistoryRepository";
+export const PASSWORD_SERVICE = "passwordService";
+export const USER_IDENTITY_REPOSITORY_SERVICE = "userIdentityRepository";
+export const OIDC_SERVICE = "oidcService";
+export const OAUTH_REPOSITORY_SERVICE = "oauthRepository";
+export const OAUTH_SERVICE = "oauthService";
+export const API_KEY_REPOSITORY_SERVICE = "apiKeyRepository";
+export const API_KEY_SERVICE = "apiKeyService";
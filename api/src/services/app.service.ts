@@ -3,12 +3,12 @@ import express from "express";
 import cookieParser from "cookie-parser";
 import compression from "compression";
 import bodyParser from "body-parser";
-import swaggerJSDoc from "swagger-jsdoc";
 import swaggerUi from "swagger-ui-express";
 import { EventEmitter } from "events";
 import fetch from "node-fetch";
-import {Config} from "../util/secrets";
+import {Config, RATE_LIMIT_STORE_REDIS, SESSION_STORE_REDIS, TOKEN_PROVIDER_LOCAL} from "../util/secrets";
 import {PostgresFactory} from "../db/storage/postgres/postgres.factory";
+import {RedisFactory} from "../db/storage/redis.factory";
 
 import {
     CONFIG_SERVICE,
@@ -17,7 +17,34 @@ import {
     PROMETHEUS_SERVICE,
     EMITTER_SERVICE,
     ROLE_REPOSITORY_SERVICE,
-    USER_REPOSITORY_SERVICE, ACCOUNT_REPOSITORY_SERVICE, SERVER_SERVICE
+    USER_REPOSITORY_SERVICE, ACCOUNT_REPOSITORY_SERVICE, SERVER_SERVICE,
+    PERMISSION_REPOSITORY_SERVICE,
+    SEARCH_REPOSITORY_SERVICE,
+    AUDIT_REPOSITORY_SERVICE,
+    TOKEN_REPOSITORY_SERVICE,
+    TOKEN_SERVICE,
+    REDIS_SERVICE,
+    SESSION_STORE_SERVICE,
+    SESSION_SERVICE,
+    LOGIN_ATTEMPT_REPOSITORY_SERVICE,
+    LOCKOUT_SERVICE,
+    RATE_LIMIT_STORE_SERVICE,
+    MAIL_REPOSITORY_SERVICE,
+    MAIL_TRANSPORT_SERVICE,
+    MAIL_SERVICE,
+    RECOVERY_CODE_REPOSITORY_SERVICE,
+    RECOVERY_CODE_SERVICE,
+    WEBAUTHN_REPOSITORY_SERVICE,
+    WEBAUTHN_SERVICE,
+    TOTP_SERVICE,
+    PASSWORD_HISTORY_REPOSITORY_SERVICE,
+    PASSWORD_SERVICE,
+    USER_IDENTITY_REPOSITORY_SERVICE,
+    OIDC_SERVICE,
+    OAUTH_REPOSITORY_SERVICE,
+    OAUTH_SERVICE,
+    API_KEY_REPOSITORY_SERVICE,
+    API_KEY_SERVICE
 } from "./app.constants";
 import {Pool} from "pg";
 import {RedisClientType, RedisModules, RedisScripts} from "redis";
@@ -25,23 +52,67 @@ import {Mongoose} from "mongoose";
 import logger from "../util/logger";
 import lusca from "lusca";
 import errorHandler from "errorhandler";
-import {apiRoutes} from "../routes/api.route";
-import {getSwaggerOptions} from "./swagger.service";
+import {apiDocs, apiRoutes} from "../routes/api.route";
+import {getSwaggerDocument, RouterMount} from "./swagger.service";
 import { Prometheus } from "../monitoring/prometheus";
 import {RoleRepository} from "../db/storage/postgres/repository/role.repository";
 import {UserRepository} from "../db/storage/postgres/repository/user.repository";
-import {roleRoutes} from "../routes/role.route";
-import {userRoutes} from "../routes/user.route";
-import {authRoutes} from "../routes/auth.route";
+import {roleDocs, roleRoutes} from "../routes/role.route";
+import {userDocs, userRoutes} from "../routes/user.route";
+import {authDocs, authRoutes} from "../routes/auth.route";
 import passport from "passport";
 import session from "express-session";
 import {UserEntity} from "../db/entities/users.entity";
-import bcrypt from "bcrypt-nodejs";
 import {AccountRepository} from "../db/storage/postgres/repository/account.repository";
 import {IAccountServiceRepository} from "../db/interfaces/account.interface";
 import {IUserServiceRepository} from "../db/interfaces/user.interface";
 import {IRoleServiceRepository} from "../db/interfaces/role.interface";
-import {accountRoutes} from "../routes/account.route";
+import {accountDocs, accountRoutes} from "../routes/account.route";
+import {oauthDocs, oauthRoutes} from "../routes/oauth.route";
+import {PermissionRepository} from "../db/storage/postgres/repository/permission.repository";
+import {IPermissionServiceRepository} from "../db/interfaces/permission.interface";
+import {permissionRoutes} from "../routes/permission.route";
+import {SearchRepository} from "../db/storage/postgres/repository/search.repository";
+import {ISearchServiceRepository} from "../db/interfaces/search.interface";
+import {searchRoutes} from "../routes/search.route";
+import {AuditRepository} from "../db/storage/postgres/repository/audit.repository";
+import {IAuditServiceRepository} from "../db/interfaces/audit.interface";
+import {auditRoutes} from "../routes/audit.route";
+import {purgeRemoved} from "./retention.service";
+import {TokenRepository} from "../db/storage/postgres/repository/token.repository";
+import {ITokenServiceRepository} from "../db/interfaces/token.interface";
+import {ITokenService, LocalTokenService, ProviderTokenService} from "./token.service";
+import {createSessionStore, ISessionStore} from "../db/storage/session.store";
+import {describeSession, impersonation, ISessionService, SessionService} from "./session.service";
+import {LoginAttemptRepository} from "../db/storage/postgres/repository/login.attempt.repository";
+import {ILoginAttemptServiceRepository} from "../db/interfaces/login.attempt.interface";
+import {ILockoutService, LockoutService} from "./lockout.service";
+import {createRateLimitStore, IRateLimitStore} from "../db/storage/rate.limit.store";
+import {IMailServiceRepository} from "../db/interfaces/mail.interface";
+import {MailRepository} from "../db/storage/postgres/repository/mail.repository";
+import {createMailTransport, IMailTransport} from "../mail/transport";
+import {IMailService, MailService} from "./mail.service";
+import {IRecoveryCodeServiceRepository} from "../db/interfaces/recovery.code.interface";
+import {RecoveryCodeRepository} from "../db/storage/postgres/repository/recovery.code.repository";
+import {IRecoveryCodeService, RecoveryCodeService} from "./recovery.service";
+import {IWebAuthnCredentialServiceRepository} from "../db/interfaces/webauthn.credential.interface";
+import {WebAuthnCredentialRepository} from "../db/storage/postgres/repository/webauthn.credential.repository";
+import {IWebAuthnService, WebAuthnService} from "./webauthn.service";
+import {ITotpService, TotpService} from "./totp.service";
+import {IPasswordHistoryServiceRepository} from "../db/interfaces/password.history.interface";
+import {PasswordHistoryRepository} from "../db/storage/postgres/repository/password.history.repository";
+import {IPasswordService, PasswordService} from "./password.service";
+import {IUserIdentityServiceRepository} from "../db/interfaces/user.identity.interface";
+import {UserIdentityRepository} from "../db/storage/postgres/repository/user.identity.repository";
+import {IOidcService, OidcService} from "./oidc.service";
+import {IOAuthServiceRepository} from "../db/interfaces/oauth.interface";
+import {OAuthRepository} from "../db/storage/postgres/repository/oauth.repository";
+import {IOAuthService, OAuthService} from "./oauth.service";
+import {IApiKeyServiceRepository} from "../db/interfaces/api.key.interface";
+import {ApiKeyRepository} from "../db/storage/postgres/repository/api.key.repository";
+import {ApiKeyService, IApiKeyService} from "./api.key.service";
+import {scopedUser} from "../util/oauth";
+import {ERROR_AUTH_EMAIL_NOT_VERIFIED} from "../controllers/auth/auth.error.codes";
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const LocalStrategy = require("passport-local").Strategy;
@@ -54,35 +125,62 @@ passport.serializeUser(function(user: UserEntity, done) {
     }
 });
 
-passport.deserializeUser(async function(id, done){
+/**
+ * User of session, impersonated user acts only with roles of impersonation
+ */
+passport.deserializeUser(async function(req: express.Request, id: number, done: (err: unknown, user?: UserEntity) => void){
     const repository = Service.getService<UserRepository>(USER_REPOSITORY_SERVICE);
     try {
-        const user = await repository.getById(id as number);
-        done(null, user);
+        const impersonated = impersonation(req);
+        const user = await repository.getById(impersonated ? impersonated.userId : id);
+        done(null, impersonated && user ? scopedUser(user, impersonated.roles) : user);
     } catch (e) {
         done(e, null);
     }
 });
 /**
  * Sign in using Email and Password.
+ * Locked account or ip is rejected before password is compared, see LockoutService.
+ * Unverified email is rejected after password when config.verification.required.
+ * Hash of other algorithm or cost than configured one is replaced by new hash of matched password.
  */
 passport.use(new LocalStrategy(
     {
-        usernameField: "email"
-    }, async (email: string, password: string, done: any) => {
+        usernameField: "email",
+        passReqToCallback: true
+    }, async (req: express.Request, email: string, password: string, done: any) => {
         const repository = Service.getService<UserRepository>(USER_REPOSITORY_SERVICE);
+        const lockout = Service.getService<ILockoutService>(LOCKOUT_SERVICE);
         try {
             const user = await repository.getByName(email);
+            await lockout.check(user ? user.id : null, req.ip);
             if (user) {
                 user.comparePassword(password, (err: Error, isMatch: boolean) => {
                     if (err) { return done(err); }
                     if (isMatch) {
-                        return done(undefined, user);
+                        return lockout.succeed(user.id)
+                            .then(async () => {
+                                const config = Service.getService<Config>(CONFIG_SERVICE);
+                                if (config.verification.required && !user.emailVerified) {
+                                    return done(new Error(ERROR_AUTH_EMAIL_NOT_VERIFIED));
+                                }
+                                const passwords = Service.getService<IPasswordService>(PASSWORD_SERVICE);
+                                if (passwords.needsRehash(user.password)) {
+                                    user.password = await passwords.hash(password);
+                                    await user.save()
+                                        .catch(e => logger.error(`rehash password of ${user.username} ${e.message}`));
+                                }
+                                done(undefined, user);
+                            })
+                            .catch(e => done(e));
                     }
-                    return done(new Error("invalid email or password."), undefined);
+                    lockout.fail(user.id, req.ip)
+                        .then(() => done(new Error("invalid email or password."), undefined))
+                        .catch(e => done(e));
                 });
             }
             if (user === null) {
+                await lockout.fail(null, req.ip);
                 throw new Error("no user found");
             }
         } catch (e) {
@@ -98,9 +196,16 @@ passport.use(new LocalStrategy(
 export class Service {
     static service: {
         [name: string]: Config | Pool | RedisClientType<RedisModules, RedisScripts> | Mongoose | core.Express | Prometheus | EventEmitter |
-            IRoleServiceRepository | IUserServiceRepository | IAccountServiceRepository |
-            Promise<any> | any;
+            IRoleServiceRepository | IUserServiceRepository | IAccountServiceRepository | IPermissionServiceRepository |
+            ISearchServiceRepository | IAuditServiceRepository | ITokenServiceRepository | ITokenService | ISessionStore | ISessionService |
+            ILoginAttemptServiceRepository | ILockoutService | IRateLimitStore | IMailServiceRepository | IMailTransport |
+            IMailService | IRecoveryCodeServiceRepository | IRecoveryCodeService | IWebAuthnCredentialServiceRepository |
+            IWebAuthnService | ITotpService | IPasswordHistoryServiceRepository | IPasswordService |
+            IUserIdentityServiceRepository | IOidcService | IOAuthServiceRepository | IOAuthService | IApiKeyServiceRepository |
+            IApiKeyService | Promise<any> | any;
     };
+    // routers mounted to app, documented by swagger
+    private mounts: RouterMount[] = [];
 
     /**
      * fetch wrapper
@@ -129,25 +234,11 @@ export class Service {
     }
 
     /**
-     * generate password with bcrypt
+     * hash password by configured algorithm and cost, see PasswordService
      * @param password
-     * @private
      */
     static hash(password: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            bcrypt.genSalt(10, (e: Error, salt: string) => {
-                if (e) {
-                    reject(e);
-                }
-                bcrypt.hash(password, salt, undefined, (e: Error, hash: string) => {
-                    if (e) {
-                        reject(e);
-                    }
-                    resolve(hash);
-                });
-            });
-
-        });
+        return Service.getService<IPasswordService>(PASSWORD_SERVICE).hash(password);
     }
 
     /**
@@ -158,7 +249,12 @@ export class Service {
      */
     static addService<T extends Config | Pool | RedisClientType<RedisModules, RedisScripts> | Mongoose | core.Express |
         Prometheus | EventEmitter | IRoleServiceRepository | IUserServiceRepository | IAccountServiceRepository |
-        Promise<any>>(name: string, service: T): void {
+        IPermissionServiceRepository | ISearchServiceRepository | IAuditServiceRepository | ITokenServiceRepository | ITokenService |
+        ISessionStore | ISessionService | ILoginAttemptServiceRepository | ILockoutService | IRateLimitStore |
+        IMailServiceRepository | IMailTransport | IMailService | IRecoveryCodeServiceRepository | IRecoveryCodeService |
+        IWebAuthnCredentialServiceRepository | IWebAuthnService | ITotpService | IPasswordHistoryServiceRepository | IPasswordService |
+        IUserIdentityServiceRepository | IOidcService | IOAuthServiceRepository | IOAuthService | IApiKeyServiceRepository |
+        IApiKeyService | Promise<any>>(name: string, service: T): void {
         if (!Service.service) {
             Service.service = {};
         }
@@ -174,12 +270,20 @@ export class Service {
         return Service.service[name];
     }
 
-    bootstrap(): Service {
-        this.diSetup()
-            .setup()
+    /**
+     * @param overrides registers services replacing ones of diSetup before routes are created, e.g. fakes of test harness
+     */
+    bootstrap(overrides?: () => void): Service {
+        this.diSetup();
+        if (overrides) {
+            overrides();
+        }
+        this.setup()
             .router()
             .swagger()
             .prometheus()
+            .retention()
+            .mailQueue()
             .serve();
         return this;
     }
@@ -217,6 +321,13 @@ export class Service {
         const pool = PostgresFactory.createPoolFromEnv(config.connections.database.url);
         Service.addService(POSTGRES_SERVICE, pool);
 
+        if (config.sessions.store === SESSION_STORE_REDIS || config.rateLimit.store === RATE_LIMIT_STORE_REDIS) {
+            const redis = RedisFactory.createClientFromEnv(config.connections.redis);
+            // commands are queued until client is connected
+            redis.connect().catch(e => logger.error(`redis ${e.message}`));
+            Service.addService(REDIS_SERVICE, redis);
+        }
+
         const prometheus = new Prometheus();
         Service.addService(PROMETHEUS_SERVICE, prometheus);
 
@@ -226,6 +337,32 @@ export class Service {
         Service.addService(ROLE_REPOSITORY_SERVICE, new RoleRepository());
         Service.addService(USER_REPOSITORY_SERVICE, new UserRepository());
         Service.addService(ACCOUNT_REPOSITORY_SERVICE, new AccountRepository());
+        Service.addService(PERMISSION_REPOSITORY_SERVICE, new PermissionRepository());
+        Service.addService(SEARCH_REPOSITORY_SERVICE, new SearchRepository());
+        Service.addService(AUDIT_REPOSITORY_SERVICE, new AuditRepository());
+        Service.addService(TOKEN_REPOSITORY_SERVICE, new TokenRepository());
+        Service.addService(TOKEN_SERVICE, config.tokens.provider === TOKEN_PROVIDER_LOCAL ? new LocalTokenService() : new ProviderTokenService());
+        Service.addService(SESSION_STORE_SERVICE, createSessionStore(config));
+        Service.addService(SESSION_SERVICE, new SessionService());
+        Service.addService(LOGIN_ATTEMPT_REPOSITORY_SERVICE, new LoginAttemptRepository());
+        Service.addService(LOCKOUT_SERVICE, new LockoutService());
+        Service.addService(RATE_LIMIT_STORE_SERVICE, createRateLimitStore(config));
+        Service.addService(MAIL_REPOSITORY_SERVICE, new MailRepository());
+        Service.addService(MAIL_TRANSPORT_SERVICE, createMailTransport(config));
+        Service.addService(MAIL_SERVICE, new MailService());
+        Service.addService(RECOVERY_CODE_REPOSITORY_SERVICE, new RecoveryCodeRepository());
+        Service.addService(RECOVERY_CODE_SERVICE, new RecoveryCodeService());
+        Service.addService(WEBAUTHN_REPOSITORY_SERVICE, new WebAuthnCredentialRepository());
+        Service.addService(WEBAUTHN_SERVICE, new WebAuthnService());
+        Service.addService(TOTP_SERVICE, new TotpService());
+        Service.addService(PASSWORD_HISTORY_REPOSITORY_SERVICE, new PasswordHistoryRepository());
+        Service.addService(PASSWORD_SERVICE, new PasswordService());
+        Service.addService(USER_IDENTITY_REPOSITORY_SERVICE, new UserIdentityRepository());
+        Service.addService(OIDC_SERVICE, new OidcService());
+        Service.addService(OAUTH_REPOSITORY_SERVICE, new OAuthRepository());
+        Service.addService(OAUTH_SERVICE, new OAuthService());
+        Service.addService(API_KEY_REPOSITORY_SERVICE, new ApiKeyRepository());
+        Service.addService(API_KEY_SERVICE, new ApiKeyService());
 
         return this;
     }
@@ -240,17 +377,28 @@ export class Service {
         app.use(compression());
         app.use(bodyParser.json());
         app.use(bodyParser.urlencoded({ extended: true }));
-        const cookieExpirationDate = new Date();
-        const cookieExpirationDays = 365;
-        cookieExpirationDate.setDate(cookieExpirationDate.getDate() + cookieExpirationDays);
+        // secure cookies are sent by proxy terminating https
+        app.set("trust proxy", 1);
         app.use(session({
+            store: Service.getService<ISessionStore>(SESSION_STORE_SERVICE),
+            name: config.sessions.name,
             secret: config.app.secret,
-            resave: true,
-            saveUninitialized: true
+            resave: false,
+            saveUninitialized: false,
+            rolling: true,
+            cookie: {
+                httpOnly: true,
+                secure:   config.sessions.secure,
+                sameSite: config.sessions.sameSite,
+                maxAge:   config.sessions.ttl * 1000
+            }
         }));
         app.use(passport.initialize());
         app.use(passport.session());
-        app.set("trust proxy", 1);
+        app.use((req: express.Request, res: express.Response, next: express.NextFunction) => {
+            describeSession(req);
+            next();
+        });
 
         app.use(lusca.xframe("SAMEORIGIN"));
         app.use(lusca.xssProtection(true));
@@ -281,11 +429,18 @@ export class Service {
         if (process.env.NODE_ENV !== "test") {
             logger.info("configure express server routes");
         }
-        app.use("/api/v1",         apiRoutes());
-        app.use("/api/v1/auth",    authRoutes());
-        app.use("/api/v1/role",    roleRoutes());
-        app.use("/api/v1/user",    userRoutes());
-        app.use("/api/v1/account", accountRoutes());
+        this.mounts = [
+            {path: "/api/v1",            tag: "public",     router: apiRoutes(),        docs: apiDocs},
+            {path: "/api/v1/auth",       tag: "auth",       router: authRoutes(),       docs: authDocs},
+            {path: "/api/v1/role",       tag: "role",       router: roleRoutes(),       docs: roleDocs},
+            {path: "/api/v1/user",       tag: "user",       router: userRoutes(),       docs: userDocs},
+            {path: "/api/v1/account",    tag: "account",    router: accountRoutes(),    docs: accountDocs},
+            {path: "/api/v1/oauth",      tag: "oauth",      router: oauthRoutes(),      docs: oauthDocs},
+            {path: "/api/v1/permission", tag: "permission", router: permissionRoutes()},
+            {path: "/api/v1/search",     tag: "search",     router: searchRoutes()},
+            {path: "/api/v1/audit",      tag: "audit",      router: auditRoutes()}
+        ];
+        this.mounts.forEach(mount => app.use(mount.path, mount.router));
         return this;
     }
     swagger(): Service {
@@ -294,7 +449,8 @@ export class Service {
         if (process.env.NODE_ENV !== "test") {
             logger.info("configure express server swagger");
         }
-        const swaggerDocs = swaggerJSDoc(getSwaggerOptions(config));
+        const swaggerDocs = getSwaggerDocument(config, this.mounts);
+        app.get("/api-docs.json", (req: express.Request, res: express.Response) => res.json(swaggerDocs));
         app.use("/api-docs", swaggerUi.serve, swaggerUi.setup(swaggerDocs));
         return this;
     }
@@ -308,6 +464,27 @@ export class Service {
         prometheus.startCollection();
         return this;
     }
+    retention(): Service {
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        if (!config.retention.days) {
+            return this;
+        }
+        logger.info(`configure retention of removed records for ${config.retention.days} days`);
+        // scheduled job must not keep process alive
+        setInterval(() => purgeRemoved(config.retention.days).catch(() => undefined), config.retention.interval).unref();
+        return this;
+    }
+    mailQueue(): Service {
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        // 0 interval leaves failed mails in queue, mails are still sent once by mail.send
+        if (!config.mail.interval) {
+            return this;
+        }
+        logger.info(`configure ${config.mail.transport} mail delivery retries every ${config.mail.interval} ms`);
+        const mail = Service.getService<IMailService>(MAIL_SERVICE);
+        setInterval(() => mail.processQueue().catch(() => undefined), config.mail.interval).unref();
+        return this;
+    }
     serve(): Service {
         const app = Service.getService<core.Express>(APP_SERVICE);
         if (process.env.NODE_ENV !== "test") {
@@ -0,0 +1,161 @@
+import {Service} from "./app.service";
+import {CONFIG_SERVICE, LOGIN_ATTEMPT_REPOSITORY_SERVICE, MAIL_SERVICE, USER_REPOSITORY_SERVICE} from "./app.constants";
+import {Config} from "../util/secrets";
+import {ILoginAttemptServiceRepository} from "../db/interfaces/login.attempt.interface";
+import {
+    LOGIN_ATTEMPT_ACCOUNT_KEY,
+    LOGIN_ATTEMPT_IP_KEY,
+    LoginAttemptEntity
+} from "../db/entities/login.attempt.entity";
+import {ERROR_AUTH_LOCKED} from "../controllers/auth/auth.error.codes";
+import {IUserServiceRepository} from "../db/interfaces/user.interface";
+import {IMailService} from "./mail.service";
+import {MAIL_TEMPLATE_ACCOUNT_LOCKED} from "../mail/templates";
+import logger from "../util/logger";
+
+/**
+ * Attempt of locked account or ip, retryAfter is number of seconds before next attempt is allowed
+ */
+export class LockoutError extends Error {
+    constructor(public readonly retryAfter: number) {
+        super(ERROR_AUTH_LOCKED);
+    }
+}
+
+/**
+ * Free attempts and failures locking key of account or ip
+ */
+export interface LockoutPolicy {
+    freeAttempts: number
+    threshold:    number
+    delay:        number
+    duration:     number
+}
+
+/**
+ * seconds key is locked after failures: no wait for free attempts,
+ * then delay doubled on every failure up to duration, threshold of failures locks for duration
+ * @param failures
+ * @param policy
+ */
+export const lockoutDelay = (failures: number, policy: LockoutPolicy): number => {
+    if (failures < policy.freeAttempts) {
+        return 0;
+    }
+    if (failures >= policy.threshold) {
+        return policy.duration;
+    }
+    return Math.min(policy.duration, policy.delay * Math.pow(2, failures - policy.freeAttempts));
+};
+
+/**
+ * Lockout Service interface for binding
+ */
+export interface ILockoutService {
+    // reject with LockoutError when account or ip is locked, userId is null for unknown account
+    check(userId: number, ip: string): Promise<void>
+    // count failed attempt of account and ip and lock them by policy
+    fail(userId: number, ip: string): Promise<void>
+    // forget failures of account after successful attempt
+    succeed(userId: number): Promise<void>
+    // unlock account by admin, false when account has no failures
+    unlock(userId: number): Promise<boolean>
+}
+
+/**
+ * Brute force protection of sign in and 2FA by failed attempts of account and ip
+ */
+export class LockoutService implements ILockoutService {
+    private get config(): Config {
+        return Service.getService<Config>(CONFIG_SERVICE);
+    }
+    private get repository(): ILoginAttemptServiceRepository {
+        return Service.getService<ILoginAttemptServiceRepository>(LOGIN_ATTEMPT_REPOSITORY_SERVICE);
+    }
+
+    // tell user that account is locked for duration
+    private notify(userId: number, lockedUntil: Date): Promise<void> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const user = await Service.getService<IUserServiceRepository>(USER_REPOSITORY_SERVICE).getById(userId);
+                if (user && user.email) {
+                    await Service.getService<IMailService>(MAIL_SERVICE)
+                        .send(user.email, MAIL_TEMPLATE_ACCOUNT_LOCKED, {username: user.username, lockedUntil});
+                }
+                resolve();
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    private keys(userId: number, ip: string): string[] {
+        const keys = [`${LOGIN_ATTEMPT_IP_KEY}${ip}`];
+        if (userId) {
+            keys.push(`${LOGIN_ATTEMPT_ACCOUNT_KEY}${userId}`);
+        }
+        return keys;
+    }
+
+    private policy(key: string): LockoutPolicy {
+        const lockout = this.config.lockout;
+        return key.indexOf(LOGIN_ATTEMPT_IP_KEY) === 0
+            ? {freeAttempts: lockout.ipFreeAttempts, threshold: lockout.ipThreshold, delay: lockout.delay, duration: lockout.duration}
+            : {freeAttempts: lockout.freeAttempts, threshold: lockout.threshold, delay: lockout.delay, duration: lockout.duration};
+    }
+
+    public check(userId: number, ip: string): Promise<void> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const attempts = await this.repository.get(this.keys(userId, ip));
+                const retryAfter = attempts
+                    .filter((attempt: LoginAttemptEntity) => attempt.lockedUntil)
+                    .map((attempt: LoginAttemptEntity) => Math.ceil((new Date(attempt.lockedUntil).getTime() - Date.now()) / 1000))
+                    .reduce((max: number, seconds: number) => Math.max(max, seconds), 0);
+                if (retryAfter > 0) {
+                    throw new LockoutError(retryAfter);
+                }
+                resolve();
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public fail(userId: number, ip: string): Promise<void> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                for (const key of this.keys(userId, ip)) {
+                    const attempt = await this.repository.fail(key, this.config.lockout.window);
+                    const policy = this.policy(key);
+                    const delay = lockoutDelay(attempt.failures, policy);
+                    if (delay > 0) {
+                        const lockedUntil = new Date(Date.now() + delay * 1000);
+                        await this.repository.lock(key, lockedUntil);
+                        if (key.indexOf(LOGIN_ATTEMPT_ACCOUNT_KEY) === 0 && attempt.failures === policy.threshold) {
+                            this.notify(userId, lockedUntil).catch(e => logger.error(`lockout mail ${e.message}`));
+                        }
+                    }
+                }
+                resolve();
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public succeed(userId: number): Promise<void> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                await this.repository.reset(`${LOGIN_ATTEMPT_ACCOUNT_KEY}${userId}`);
+                resolve();
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public unlock(userId: number): Promise<boolean> {
+        return this.repository.reset(`${LOGIN_ATTEMPT_ACCOUNT_KEY}${userId}`);
+    }
+}
@@ -0,0 +1,101 @@
+import {Service} from "./app.service";
+import {CONFIG_SERVICE, MAIL_REPOSITORY_SERVICE, MAIL_TRANSPORT_SERVICE} from "./app.constants";
+import {Config} from "../util/secrets";
+import {IMailServiceRepository} from "../db/interfaces/mail.interface";
+import {MailEntity} from "../db/entities/mail.entity";
+import {IMailTransport} from "../mail/transport";
+import {MailData, render} from "../mail/templates";
+import logger from "../util/logger";
+
+/**
+ * seconds before next delivery attempt, delay is doubled on every failed attempt
+ * @param attempts failed attempts
+ * @param delay seconds after first failure
+ */
+export const mailRetryDelay = (attempts: number, delay: number): number => {
+    return delay * Math.pow(2, Math.max(0, attempts - 1));
+};
+
+/**
+ * Mail Service interface for binding
+ */
+export interface IMailService {
+    // render template with data, queue mail to address and try to deliver it at once
+    send(to: string, template: string, data: MailData): Promise<MailEntity>
+    // deliver queued mails due to retry, resolves number of delivered mails
+    processQueue(): Promise<number>
+}
+
+/**
+ * Templated mails queued in Postgres and delivered by transport selected by config.mail.transport
+ */
+export class MailService implements IMailService {
+    private get config(): Config {
+        return Service.getService<Config>(CONFIG_SERVICE);
+    }
+    private get repository(): IMailServiceRepository {
+        return Service.getService<IMailServiceRepository>(MAIL_REPOSITORY_SERVICE);
+    }
+    private get transport(): IMailTransport {
+        return Service.getService<IMailTransport>(MAIL_TRANSPORT_SERVICE);
+    }
+
+    // failed delivery stays queued for next attempt
+    private deliver(mail: MailEntity): Promise<boolean> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                await this.transport.send({
+                    from:    this.config.mail.from,
+                    to:      mail.recipient,
+                    subject: mail.subject,
+                    text:    mail.text,
+                    html:    mail.html
+                });
+                await this.repository.sent(mail.id);
+                resolve(true);
+            } catch (e) {
+                const attempts = mail.attempts + 1;
+                logger.warn(`mail ${mail.id} ${mail.template} attempt ${attempts} failed: ${e.message}`);
+                try {
+                    const delay = mailRetryDelay(attempts, this.config.mail.retryDelay);
+                    await this.repository.failed(mail.id, e.message, new Date(Date.now() + delay * 1000));
+                    resolve(false);
+                } catch (error) {
+                    reject(error);
+                }
+            }
+        });
+    }
+
+    public send(to: string, template: string, data: MailData): Promise<MailEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const content = render(template, data);
+                const mail = await this.repository.enqueue(new MailEntity(null, to, content.subject, content.text, content.html, template, 0));
+                // response does not wait for mail server
+                this.deliver(mail).catch(e => logger.error(`mail ${mail.id} ${e.message}`));
+                resolve(mail);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public processQueue(): Promise<number> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const mails = await this.repository.due(this.config.mail.retries, 50);
+                let delivered = 0;
+                for (const mail of mails) {
+                    if (await this.deliver(mail)) {
+                        delivered++;
+                    }
+                }
+                resolve(delivered);
+            } catch (e) {
+                logger.error(`mail queue ${e.message}`);
+                reject(e);
+            }
+        });
+    }
+}
@@ -0,0 +1,516 @@
+import crypto from "crypto";
+import {Service} from "./app.service";
+import {CONFIG_SERVICE, OAUTH_REPOSITORY_SERVICE, USER_REPOSITORY_SERVICE} from "./app.constants";
+import {bearer, TOKEN_TYPE, TokenValidation} from "./token.service";
+import {Config} from "../util/secrets";
+import {JWTPayload, sign, verify} from "../util/jwt";
+import {randomToken} from "../util/oidc";
+import {
+    ClientCredentials,
+    grantScopes,
+    OAUTH_ERROR_INVALID_CLIENT,
+    OAUTH_ERROR_INVALID_GRANT,
+    OAUTH_ERROR_INVALID_REQUEST,
+    OAUTH_ERROR_UNAUTHORIZED_CLIENT,
+    OAUTH_ERROR_UNSUPPORTED_GRANT_TYPE,
+    OAUTH_ERROR_UNSUPPORTED_RESPONSE_TYPE,
+    OAUTH_GRANT_AUTHORIZATION_CODE,
+    OAUTH_GRANT_CLIENT_CREDENTIALS,
+    OAuthError,
+    parseScope,
+    scopedUser,
+    scopeRoles,
+    verifyChallenge
+} from "../util/oauth";
+import {IOAuthServiceRepository} from "../db/interfaces/oauth.interface";
+import {IUserServiceRepository} from "../db/interfaces/user.interface";
+import {OAuthClientEntity, PublicOAuthClient} from "../db/entities/oauth.client.entity";
+import {OAuthCodeEntity} from "../db/entities/oauth.code.entity";
+import {UserEntity} from "../db/entities/users.entity";
+import {SUPERADMIN_ROLE_ID} from "../db/entities/roles.entity";
+import {
+    ERROR_OAUTH_CHALLENGE_REQUIRED,
+    ERROR_OAUTH_CLIENT_AUTHENTICATION,
+    ERROR_OAUTH_CLIENT_FORBIDDEN,
+    ERROR_OAUTH_CLIENT_NOT_FOUND,
+    ERROR_OAUTH_GRANT_NOT_ALLOWED,
+    ERROR_OAUTH_INVALID_CODE,
+    ERROR_OAUTH_INVALID_VERIFIER,
+    ERROR_OAUTH_PUBLIC_CLIENT_GRANT,
+    ERROR_OAUTH_REDIRECT_URI,
+    ERROR_OAUTH_REDIRECT_URI_REQUIRED,
+    ERROR_OAUTH_SCOPE_NOT_GRANTABLE,
+    ERROR_OAUTH_UNKNOWN_SCOPE
+} from "../controllers/auth/auth.error.codes";
+
+/**
+ * Client registered by administrator
+ */
+export interface OAuthClientRegistration {
+    name:         string
+    redirectUris: string[]
+    grants:       string[]
+    scopes:       string[]
+    // public clients, e.g. browser or native apps, have no secret
+    confidential: boolean
+}
+
+/**
+ * Client with its secret, secret is shown only when it is created
+ */
+export interface OAuthClientSecret {
+    client: OAuthClientEntity
+    secret: string
+}
+
+/**
+ * Query of authorization endpoint (RFC 6749 4.1.1, RFC 7636 4.3)
+ */
+export interface OAuthAuthorizationRequest {
+    response_type:          string
+    client_id:              string
+    redirect_uri?:          string
+    scope?:                 string
+    state?:                 string
+    code_challenge?:        string
+    code_challenge_method?: string
+}
+
+/**
+ * Body of token endpoint, client credentials are in Authorization header or in body
+ */
+export interface OAuthTokenRequest {
+    grant_type:     string
+    code?:          string
+    redirect_uri?:  string
+    code_verifier?: string
+    scope?:         string
+}
+
+/**
+ * Access token issued to client, there is no refresh token, clients repeat the grant
+ */
+export interface OAuthTokenData {
+    access_token: string
+    token_type:   string
+    expires_in:   number
+    scope:        string
+}
+
+/**
+ * Token state for resource servers (RFC 7662)
+ */
+export interface OAuthIntrospection {
+    active:      boolean
+    scope?:      string
+    client_id?:  string
+    username?:   string
+    sub?:        string
+    exp?:        number
+    iat?:        number
+    token_type?: string
+}
+
+/**
+ * Authorization server metadata (RFC 8414)
+ */
+export interface OAuthMetadata {
+    issuer:                           string
+    authorization_endpoint:           string
+    token_endpoint:                   string
+    introspection_endpoint:           string
+    grant_types_supported:            string[]
+    response_types_supported:         string[]
+    scopes_supported:                 string[]
+    code_challenge_methods_supported: string[]
+    token_endpoint_auth_methods_supported: string[]
+}
+
+export const toPublicClient = (client: OAuthClientEntity): PublicOAuthClient => {
+    return {
+        id:           client.id,
+        clientId:     client.clientId,
+        name:         client.name,
+        confidential: !!client.secretHash,
+        redirectUris: client.redirectUris,
+        grants:       client.grants,
+        scopes:       client.scopes,
+        userId:       client.userId,
+        created:      client.created
+    };
+};
+
+/**
+ * OAuth Service interface for binding
+ */
+export interface IOAuthService {
+    metadata(): OAuthMetadata
+    clients(): Promise<OAuthClientEntity[]>
+    // scopes of client grant only roles owner holds, superadmin registers any scope
+    register(registration: OAuthClientRegistration, owner: UserEntity): Promise<OAuthClientSecret>
+    // replace secret of confidential client, former secret stops working at once
+    // client is managed only by user who registered it or by superadmin
+    rotateSecret(id: number, caller: UserEntity): Promise<OAuthClientSecret>
+    remove(id: number, caller: UserEntity): Promise<boolean>
+    // client and redirect uri of authorization request, errors must not be redirected to unknown uri
+    client(clientId: string, redirectUri: string): Promise<{client: OAuthClientEntity, redirectUri: string}>
+    // scopes user is asked to consent to, request is checked as by authorize
+    consent(client: OAuthClientEntity, user: UserEntity, request: OAuthAuthorizationRequest): Promise<string[]>
+    // authorization code of user for client, issued once user consented
+    authorize(client: OAuthClientEntity, user: UserEntity, request: OAuthAuthorizationRequest): Promise<string>
+    token(request: OAuthTokenRequest, credentials: ClientCredentials): Promise<OAuthTokenData>
+    introspect(token: string, credentials: ClientCredentials): Promise<OAuthIntrospection>
+    // caller of access token issued to client, null when token is not issued by this service or is not valid
+    validate(authorization: string): Promise<TokenValidation>
+}
+
+/**
+ * The app as authorization server: authorization code grant with PKCE and client credentials grant.
+ * Access tokens are HS256 tokens of config.tokens.secret, user of token acts only with roles mapped to its scopes.
+ */
+export class OAuthService implements IOAuthService {
+    private get config(): Config {
+        return Service.getService<Config>(CONFIG_SERVICE);
+    }
+    private get repository(): IOAuthServiceRepository {
+        return Service.getService<IOAuthServiceRepository>(OAUTH_REPOSITORY_SERVICE);
+    }
+    private get users(): IUserServiceRepository {
+        return Service.getService<IUserServiceRepository>(USER_REPOSITORY_SERVICE);
+    }
+
+    private static hash(value: string): string {
+        return crypto.createHash("sha256").update(value).digest("hex");
+    }
+
+    // client of credentials, confidential client must present its secret
+    private authenticate(credentials: ClientCredentials): Promise<OAuthClientEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const client = credentials && credentials.clientId ? await this.repository.getClient(credentials.clientId) : null;
+                if (!client) {
+                    throw new OAuthError(OAUTH_ERROR_INVALID_CLIENT, ERROR_OAUTH_CLIENT_AUTHENTICATION);
+                }
+                if (client.secretHash) {
+                    const expected = Buffer.from(client.secretHash);
+                    const actual = Buffer.from(OAuthService.hash(credentials.clientSecret || ""));
+                    if (!credentials.clientSecret || !crypto.timingSafeEqual(expected, actual)) {
+                        throw new OAuthError(OAUTH_ERROR_INVALID_CLIENT, ERROR_OAUTH_CLIENT_AUTHENTICATION);
+                    }
+                }
+                resolve(client);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    private issue(client: OAuthClientEntity, user: UserEntity, scopes: string[]): OAuthTokenData {
+        const scope = scopes.join(" ");
+        return {
+            access_token: sign({sub: user.id, scope, cid: client.clientId}, this.config.tokens.secret, this.config.oauth.accessTtl),
+            token_type:   TOKEN_TYPE,
+            expires_in:   this.config.oauth.accessTtl,
+            scope
+        };
+    }
+
+    // claims, client and user of valid access token issued by this service, otherwise null
+    private active(token: string): Promise<{payload: JWTPayload, client: OAuthClientEntity, user: UserEntity}> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                let payload: JWTPayload;
+                try {
+                    payload = verify(token, this.config.tokens.secret);
+                } catch (e) {
+                    return resolve(null);
+                }
+                if (!payload.cid) {
+                    return resolve(null);
+                }
+                // tokens of removed client stop working at once
+                const client = await this.repository.getClient(payload.cid);
+                const user = client ? await this.users.getById(payload.sub) : null;
+                resolve(user && user.enabled && !user.removed ? {payload, client, user} : null);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    private grantAuthorizationCode(client: OAuthClientEntity, request: OAuthTokenRequest): Promise<OAuthTokenData> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const code = await this.repository.takeCode(OAuthService.hash(request.code || ""));
+                if (!code || code.clientId !== client.id || code.expires.getTime() <= Date.now()) {
+                    throw new OAuthError(OAUTH_ERROR_INVALID_GRANT, ERROR_OAUTH_INVALID_CODE);
+                }
+                if ((request.redirect_uri || "") !== code.redirectUri) {
+                    throw new OAuthError(OAUTH_ERROR_INVALID_GRANT, ERROR_OAUTH_REDIRECT_URI);
+                }
+                if (!verifyChallenge(request.code_verifier, code.challenge)) {
+                    throw new OAuthError(OAUTH_ERROR_INVALID_GRANT, ERROR_OAUTH_INVALID_VERIFIER);
+                }
+                const user = await this.users.getById(code.userId);
+                if (!user || !user.enabled || user.removed) {
+                    throw new OAuthError(OAUTH_ERROR_INVALID_GRANT, ERROR_OAUTH_INVALID_CODE);
+                }
+                resolve(this.issue(client, user, parseScope(code.scope)));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    private grantClientCredentials(client: OAuthClientEntity, request: OAuthTokenRequest): Promise<OAuthTokenData> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                if (!client.secretHash) {
+                    throw new OAuthError(OAUTH_ERROR_UNAUTHORIZED_CLIENT, ERROR_OAUTH_PUBLIC_CLIENT_GRANT);
+                }
+                const owner = await this.users.getById(client.userId);
+                if (!owner || !owner.enabled || owner.removed) {
+                    throw new OAuthError(OAUTH_ERROR_INVALID_CLIENT, ERROR_OAUTH_CLIENT_AUTHENTICATION);
+                }
+                const roles = (owner.roles || []).map(roleId => Number(roleId));
+                resolve(this.issue(client, owner, grantScopes(parseScope(request.scope), client.scopes, roles, this.config.oauth.scopes)));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public metadata(): OAuthMetadata {
+        const issuer = this.config.oauth.issuer.replace(/\/+$/, "");
+        return {
+            issuer,
+            authorization_endpoint:           `${issuer}/api/v1/oauth/authorize`,
+            token_endpoint:                   `${issuer}/api/v1/oauth/token`,
+            introspection_endpoint:           `${issuer}/api/v1/oauth/introspect`,
+            grant_types_supported:            [OAUTH_GRANT_AUTHORIZATION_CODE, OAUTH_GRANT_CLIENT_CREDENTIALS],
+            response_types_supported:         ["code"],
+            scopes_supported:                 Object.keys(this.config.oauth.scopes),
+            code_challenge_methods_supported: ["S256"],
+            token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post", "none"]
+        };
+    }
+
+    public clients(): Promise<OAuthClientEntity[]> {
+        return this.repository.listClients();
+    }
+
+    public register(registration: OAuthClientRegistration, owner: UserEntity): Promise<OAuthClientSecret> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const unknown = registration.scopes.filter(scope => !this.config.oauth.scopes[scope]);
+                if (unknown.length) {
+                    throw new Error(`${ERROR_OAUTH_UNKNOWN_SCOPE}: ${unknown.join(" ")}`);
+                }
+                const forbidden = OAuthService.ungrantable(owner, registration.scopes, this.config.oauth.scopes);
+                if (forbidden.length) {
+                    throw new Error(`${ERROR_OAUTH_SCOPE_NOT_GRANTABLE}: ${forbidden.join(" ")}`);
+                }
+                if (registration.grants.indexOf(OAUTH_GRANT_AUTHORIZATION_CODE) !== -1 && !registration.redirectUris.length) {
+                    throw new Error(ERROR_OAUTH_REDIRECT_URI_REQUIRED);
+                }
+                if (registration.grants.indexOf(OAUTH_GRANT_CLIENT_CREDENTIALS) !== -1 && !registration.confidential) {
+                    throw new Error(ERROR_OAUTH_PUBLIC_CLIENT_GRANT);
+                }
+                const secret = registration.confidential ? randomToken() : null;
+                const client = await this.repository.createClient(new OAuthClientEntity(
+                    undefined,
+                    crypto.randomBytes(16).toString("hex"),
+                    secret ? OAuthService.hash(secret) : null,
+                    registration.name,
+                    registration.redirectUris,
+                    registration.grants,
+                    registration.scopes,
+                    owner.id
+                ));
+                resolve({client, secret});
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    // scopes mapped to roles owner does not hold, codes of client would grant them to other users
+    private static ungrantable(owner: UserEntity, scopes: string[], mapping: {[scope: string]: number[]}): string[] {
+        const roles = (owner.roles || []).map(roleId => Number(roleId));
+        if (roles.indexOf(SUPERADMIN_ROLE_ID) !== -1) {
+            return [];
+        }
+        return scopes.filter(scope => !(mapping[scope] || []).every(roleId => roles.indexOf(roleId) !== -1));
+    }
+
+    private static manages(caller: UserEntity, client: OAuthClientEntity): boolean {
+        const roles = (caller.roles || []).map(roleId => Number(roleId));
+        return client.userId === caller.id || roles.indexOf(SUPERADMIN_ROLE_ID) !== -1;
+    }
+
+    public rotateSecret(id: number, caller: UserEntity): Promise<OAuthClientSecret> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const client = await this.repository.getClientById(id);
+                if (!client) {
+                    throw new Error(ERROR_OAUTH_CLIENT_NOT_FOUND);
+                }
+                if (!OAuthService.manages(caller, client)) {
+                    throw new Error(ERROR_OAUTH_CLIENT_FORBIDDEN);
+                }
+                if (!client.secretHash) {
+                    throw new Error(ERROR_OAUTH_PUBLIC_CLIENT_GRANT);
+                }
+                const secret = randomToken();
+                await this.repository.updateSecret(id, OAuthService.hash(secret));
+                resolve({client, secret});
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public remove(id: number, caller: UserEntity): Promise<boolean> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const client = await this.repository.getClientById(id);
+                if (!client) {
+                    return resolve(false);
+                }
+                if (!OAuthService.manages(caller, client)) {
+                    throw new Error(ERROR_OAUTH_CLIENT_FORBIDDEN);
+                }
+                resolve(await this.repository.removeClient(id));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public client(clientId: string, redirectUri: string): Promise<{client: OAuthClientEntity, redirectUri: string}> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const client = clientId ? await this.repository.getClient(clientId) : null;
+                if (!client) {
+                    throw new Error(ERROR_OAUTH_CLIENT_NOT_FOUND);
+                }
+                // redirect uri may be left out when client has only one
+                const uri = redirectUri || (client.redirectUris.length === 1 ? client.redirectUris[0] : null);
+                if (!uri || client.redirectUris.indexOf(uri) === -1) {
+                    throw new Error(ERROR_OAUTH_REDIRECT_URI);
+                }
+                resolve({client, redirectUri: uri});
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public consent(client: OAuthClientEntity, user: UserEntity, request: OAuthAuthorizationRequest): Promise<string[]> {
+        return new Promise((resolve, reject) => {
+            try {
+                if (request.response_type !== "code") {
+                    throw new OAuthError(OAUTH_ERROR_UNSUPPORTED_RESPONSE_TYPE, "response_type must be code");
+                }
+                if (client.grants.indexOf(OAUTH_GRANT_AUTHORIZATION_CODE) === -1) {
+                    throw new OAuthError(OAUTH_ERROR_UNAUTHORIZED_CLIENT, ERROR_OAUTH_GRANT_NOT_ALLOWED);
+                }
+                // plain challenge method is not accepted, see RFC 7636 4.2
+                if (!request.code_challenge || request.code_challenge_method !== "S256") {
+                    throw new OAuthError(OAUTH_ERROR_INVALID_REQUEST, ERROR_OAUTH_CHALLENGE_REQUIRED);
+                }
+                const roles = (user.roles || []).map(roleId => Number(roleId));
+                resolve(grantScopes(parseScope(request.scope), client.scopes, roles, this.config.oauth.scopes));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public authorize(client: OAuthClientEntity, user: UserEntity, request: OAuthAuthorizationRequest): Promise<string> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const scopes = await this.consent(client, user, request);
+                const code = randomToken();
+                await this.repository.createCode(new OAuthCodeEntity(
+                    undefined,
+                    OAuthService.hash(code),
+                    client.id,
+                    user.id,
+                    request.redirect_uri || "",
+                    scopes.join(" "),
+                    request.code_challenge,
+                    new Date(Date.now() + this.config.oauth.codeTtl * 1000)
+                ));
+                resolve(code);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public token(request: OAuthTokenRequest, credentials: ClientCredentials): Promise<OAuthTokenData> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                if ([OAUTH_GRANT_AUTHORIZATION_CODE, OAUTH_GRANT_CLIENT_CREDENTIALS].indexOf(request.grant_type) === -1) {
+                    throw new OAuthError(OAUTH_ERROR_UNSUPPORTED_GRANT_TYPE, `grant type ${request.grant_type} is not supported`);
+                }
+                const client = await this.authenticate(credentials);
+                if (client.grants.indexOf(request.grant_type) === -1) {
+                    throw new OAuthError(OAUTH_ERROR_UNAUTHORIZED_CLIENT, ERROR_OAUTH_GRANT_NOT_ALLOWED);
+                }
+                resolve(request.grant_type === OAUTH_GRANT_AUTHORIZATION_CODE
+                    ? await this.grantAuthorizationCode(client, request)
+                    : await this.grantClientCredentials(client, request));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public introspect(token: string, credentials: ClientCredentials): Promise<OAuthIntrospection> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                // only confidential clients, e.g. resource servers, may look into tokens
+                const caller = await this.authenticate(credentials);
+                if (!caller.secretHash) {
+                    throw new OAuthError(OAUTH_ERROR_INVALID_CLIENT, ERROR_OAUTH_CLIENT_AUTHENTICATION);
+                }
+                const active = await this.active(token);
+                if (!active) {
+                    return resolve({active: false});
+                }
+                resolve({
+                    active:     true,
+                    scope:      active.payload.scope,
+                    client_id:  active.client.clientId,
+                    username:   active.user.username,
+                    sub:        String(active.user.id),
+                    exp:        active.payload.exp,
+                    iat:        active.payload.iat,
+                    token_type: TOKEN_TYPE
+                });
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public validate(authorization: string): Promise<TokenValidation> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const accessToken = bearer(authorization);
+                const active = await this.active(accessToken);
+                if (!active) {
+                    return resolve(null);
+                }
+                const roles = scopeRoles(parseScope(active.payload.scope), (active.user.roles || []).map(roleId => Number(roleId)),
+                    this.config.oauth.scopes);
+                // guards see only roles of scopes
+                resolve({user: scopedUser(active.user, roles), accessToken, expiresIn: active.payload.exp - Math.floor(Date.now() / 1000)});
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
@@ -0,0 +1,258 @@
+import crypto from "crypto";
+import express from "express";
+import {Service} from "./app.service";
+import {CONFIG_SERVICE, USER_IDENTITY_REPOSITORY_SERVICE, USER_REPOSITORY_SERVICE} from "./app.constants";
+import {Config, OidcProvider} from "../util/secrets";
+import {emailVerified, IdTokenClaims, Jwk, pkceChallenge, randomToken, verifyIdToken} from "../util/oidc";
+import {IUserIdentityServiceRepository} from "../db/interfaces/user.identity.interface";
+import {IUserServiceRepository} from "../db/interfaces/user.interface";
+import {PublicUserIdentity, UserIdentityEntity} from "../db/entities/user.identity.entity";
+import {UserEntity} from "../db/entities/users.entity";
+import {
+    ERROR_AUTH_USER_DISABLED,
+    ERROR_OIDC_EMAIL_NOT_VERIFIED,
+    ERROR_OIDC_NO_USER,
+    ERROR_OIDC_UNKNOWN_PROVIDER
+} from "../controllers/auth/auth.error.codes";
+
+/**
+ * Endpoints of provider published by its discovery document
+ */
+export interface OidcDiscovery {
+    issuer:                 string
+    authorization_endpoint: string
+    token_endpoint:         string
+    jwks_uri:               string
+}
+
+/**
+ * Sign in started with provider, kept in session until provider redirects back
+ */
+export interface OidcAuthorization {
+    provider: string
+    state:    string
+    nonce:    string
+    verifier: string
+    expires:  number
+}
+
+/**
+ * User signed in by identity, linked is true when identity is linked by this sign in
+ */
+export interface OidcSignIn {
+    user:    UserEntity
+    linked:  boolean
+    created: boolean
+}
+
+export const toPublicIdentity = (identity: UserIdentityEntity): PublicUserIdentity => {
+    return {
+        id:       identity.id,
+        provider: identity.provider,
+        email:    identity.email,
+        lastUsed: identity.lastUsed || null,
+        created:  identity.created
+    };
+};
+
+/**
+ * keep authorization in session of client until provider redirects back
+ * @param req
+ * @param authorization
+ */
+export const keepAuthorization = (req: express.Request, authorization: OidcAuthorization): void => {
+    req.session.oidc = {...authorization};
+};
+
+/**
+ * authorization of state, it is removed so every authorization is completed once
+ * @param req
+ * @param state
+ */
+export const takeAuthorization = (req: express.Request, state: string): OidcAuthorization | null => {
+    const kept = req.session && req.session.oidc;
+    if (!kept) {
+        return null;
+    }
+    delete req.session.oidc;
+    return kept.state === state && kept.expires > Date.now() ? kept : null;
+};
+
+/**
+ * OpenID Connect Service interface for binding
+ */
+export interface IOidcService {
+    // configured providers as shown on sign in page
+    providers(): {name: string, label: string}[]
+    // url of provider sign in page, authorization must be kept until callback
+    authorize(provider: string): Promise<{url: string, authorization: OidcAuthorization}>
+    // claims of ID token issued for code of authorization
+    exchange(authorization: OidcAuthorization, code: string): Promise<IdTokenClaims>
+    // user of linked identity, otherwise identity is linked to user of verified email or to new user
+    signIn(provider: string, claims: IdTokenClaims): Promise<OidcSignIn>
+    list(userId: number): Promise<UserIdentityEntity[]>
+    unlink(userId: number, id: number): Promise<boolean>
+}
+
+/**
+ * Sign in with external OpenID Connect providers by authorization code flow with PKCE
+ */
+export class OidcService implements IOidcService {
+    private discoveries: {[issuer: string]: Promise<OidcDiscovery>} = {};
+    private get config(): Config {
+        return Service.getService<Config>(CONFIG_SERVICE);
+    }
+    private get identities(): IUserIdentityServiceRepository {
+        return Service.getService<IUserIdentityServiceRepository>(USER_IDENTITY_REPOSITORY_SERVICE);
+    }
+    private get users(): IUserServiceRepository {
+        return Service.getService<IUserServiceRepository>(USER_REPOSITORY_SERVICE);
+    }
+
+    private provider(name: string): OidcProvider {
+        const provider = this.config.oidc.providers[name];
+        if (!provider || !provider.issuer || !provider.clientId) {
+            throw new Error(ERROR_OIDC_UNKNOWN_PROVIDER);
+        }
+        return provider;
+    }
+
+    // discovery document is fetched once, failed fetch is repeated by next sign in
+    private discover(provider: OidcProvider): Promise<OidcDiscovery> {
+        if (!this.discoveries[provider.issuer]) {
+            this.discoveries[provider.issuer] = Service.fetchJSON(`${provider.issuer.replace(/\/+$/, "")}/.well-known/openid-configuration`)
+                .catch(e => {
+                    delete this.discoveries[provider.issuer];
+                    throw e;
+                });
+        }
+        return this.discoveries[provider.issuer];
+    }
+
+    // username of new user: preferred username or email name, suffixed while it is taken
+    private username(claims: IdTokenClaims): Promise<string> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const base = (claims.preferred_username || claims.email.split("@")[0]).replace(/[^a-zA-Z0-9_.-]/g, "_");
+                let username = base;
+                while (await this.users.getByUsername(username)) {
+                    username = `${base}_${crypto.randomBytes(2).toString("hex")}`;
+                }
+                resolve(username);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public providers(): {name: string, label: string}[] {
+        return Object.keys(this.config.oidc.providers).map(name => ({name, label: this.config.oidc.providers[name].label}));
+    }
+
+    public authorize(name: string): Promise<{url: string, authorization: OidcAuthorization}> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const provider = this.provider(name);
+                const discovery = await this.discover(provider);
+                const authorization: OidcAuthorization = {
+                    provider: name,
+                    state:    randomToken(),
+                    nonce:    randomToken(),
+                    verifier: randomToken(),
+                    expires:  Date.now() + this.config.oidc.stateTtl * 1000
+                };
+                const query = new URLSearchParams({
+                    response_type:         "code",
+                    client_id:             provider.clientId,
+                    redirect_uri:          this.config.oidc.redirectUri,
+                    scope:                 provider.scope,
+                    state:                 authorization.state,
+                    nonce:                 authorization.nonce,
+                    code_challenge:        pkceChallenge(authorization.verifier),
+                    code_challenge_method: "S256"
+                });
+                const separator = discovery.authorization_endpoint.indexOf("?") === -1 ? "?" : "&";
+                resolve({url: `${discovery.authorization_endpoint}${separator}${query.toString()}`, authorization});
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public exchange(authorization: OidcAuthorization, code: string): Promise<IdTokenClaims> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const provider = this.provider(authorization.provider);
+                const discovery = await this.discover(provider);
+                const tokens = await Service.fetchJSON(discovery.token_endpoint, {
+                    method: "POST",
+                    headers: {"Content-Type": "application/x-www-form-urlencoded", "Accept": "application/json"},
+                    body: new URLSearchParams({
+                        grant_type:    "authorization_code",
+                        code,
+                        redirect_uri:  this.config.oidc.redirectUri,
+                        client_id:     provider.clientId,
+                        client_secret: provider.clientSecret || "",
+                        code_verifier: authorization.verifier
+                    }).toString()
+                });
+                // keys are fetched for every sign in, providers rotate them
+                const jwks: {keys: Jwk[]} = await Service.fetchJSON(discovery.jwks_uri);
+                resolve(verifyIdToken(tokens.id_token, jwks.keys || [], {
+                    issuer:   discovery.issuer,
+                    audience: provider.clientId,
+                    nonce:    authorization.nonce
+                }));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public signIn(provider: string, claims: IdTokenClaims): Promise<OidcSignIn> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const identity = await this.identities.getBySubject(provider, claims.sub);
+                if (identity) {
+                    const user = await this.users.getById(identity.userId);
+                    if (!user || !user.enabled || user.removed) {
+                        throw new Error(ERROR_AUTH_USER_DISABLED);
+                    }
+                    await this.identities.used(identity.id);
+                    return resolve({user, linked: false, created: false});
+                }
+                // unverified email may belong to somebody else
+                if (!emailVerified(claims)) {
+                    throw new Error(ERROR_OIDC_EMAIL_NOT_VERIFIED);
+                }
+                let user = await this.users.getByName(claims.email);
+                let created = false;
+                if (user && (!user.enabled || user.removed)) {
+                    throw new Error(ERROR_AUTH_USER_DISABLED);
+                }
+                if (!user) {
+                    if (!this.config.oidc.signup) {
+                        throw new Error(ERROR_OIDC_NO_USER);
+                    }
+                    // password is unknown to anybody, user may set one by password reset
+                    const entity = new UserEntity(null, await this.username(claims), claims.email, randomToken(), true);
+                    entity.emailVerified = true;
+                    user = await this.users.create(entity, false);
+                    created = true;
+                }
+                await this.identities.create(new UserIdentityEntity(null, user.id, provider, claims.sub, claims.email));
+                resolve({user, linked: true, created});
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public list(userId: number): Promise<UserIdentityEntity[]> {
+        return this.identities.list(userId);
+    }
+
+    public unlink(userId: number, id: number): Promise<boolean> {
+        return this.identities.remove(userId, id);
+    }
+}
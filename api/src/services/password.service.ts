@@ -0,0 +1,158 @@
+import {Service} from "./app.service";
+import {CONFIG_SERVICE, PASSWORD_HISTORY_REPOSITORY_SERVICE} from "./app.constants";
+import {Config} from "../util/secrets";
+import {loadBreachedList, sha1Hex} from "../util/breached";
+import {createPasswordHashers, IPasswordHasher} from "../util/password.hasher";
+import {IPasswordHistoryServiceRepository} from "../db/interfaces/password.history.interface";
+import {
+    ERROR_PASSWORD_BREACHED,
+    ERROR_PASSWORD_CHARACTER_CLASSES,
+    ERROR_PASSWORD_PERSONAL,
+    ERROR_PASSWORD_REUSED,
+    ERROR_PASSWORD_TOO_SHORT
+} from "../controllers/auth/auth.error.codes";
+
+/**
+ * New password breaking policy, message is the first of violations
+ */
+export class PasswordPolicyError extends Error {
+    constructor(public readonly violations: string[]) {
+        super(violations[0]);
+    }
+}
+
+/**
+ * Rules of new password which do not depend on former passwords
+ */
+export interface PasswordPolicy {
+    minLength: number
+    classes:   number
+}
+
+/**
+ * User choosing password, id and current hash are known when password is changed
+ */
+export interface PasswordOwner {
+    id?:       number
+    username?: string
+    email?:    string
+    password?: string
+}
+
+/**
+ * number of kinds of characters: lower case and upper case letters, digits and symbols
+ * @param password
+ */
+export const characterClasses = (password: string): number => {
+    return [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter(kind => kind.test(password)).length;
+};
+
+/**
+ * violations of policy by password, empty when it is accepted
+ * @param password
+ * @param policy
+ * @param owner
+ * @param breached SHA-1 hashes of breached passwords
+ */
+export const passwordViolations = (password: string, policy: PasswordPolicy, owner: PasswordOwner, breached: Set<string>): string[] => {
+    const violations: string[] = [];
+    if (password.length < policy.minLength) {
+        violations.push(ERROR_PASSWORD_TOO_SHORT);
+    }
+    if (characterClasses(password) < Math.min(policy.classes, 4)) {
+        violations.push(ERROR_PASSWORD_CHARACTER_CLASSES);
+    }
+    const lower = password.toLowerCase();
+    // short names would reject too many passwords
+    const personal = [owner.username, (owner.email || "").split("@")[0]]
+        .filter(value => value && value.length >= 3)
+        .map(value => value.toLowerCase());
+    if (personal.some(value => lower.indexOf(value) !== -1)) {
+        violations.push(ERROR_PASSWORD_PERSONAL);
+    }
+    if (breached.has(sha1Hex(password)) || breached.has(sha1Hex(lower))) {
+        violations.push(ERROR_PASSWORD_BREACHED);
+    }
+    return violations;
+};
+
+/**
+ * Password Service interface for binding
+ */
+export interface IPasswordService {
+    // violations of policy and history by new password of owner, empty when it is accepted
+    check(password: string, owner: PasswordOwner): Promise<string[]>
+    hash(password: string): Promise<string>
+    verify(password: string, hash: string): Promise<boolean>
+    // hash is of another algorithm or cost than configured one
+    needsRehash(hash: string): boolean
+    // keep hash of new password of user in history
+    remember(userId: number, hash: string): Promise<void>
+}
+
+/**
+ * Policy, history and hashing of passwords
+ */
+export class PasswordService implements IPasswordService {
+    private breachedList: Set<string>;
+    // the first hasher creates new hashes, hash of any of them is verified
+    private get hashers(): IPasswordHasher[] {
+        return createPasswordHashers(this.config);
+    }
+    private get config(): Config {
+        return Service.getService<Config>(CONFIG_SERVICE);
+    }
+    private get repository(): IPasswordHistoryServiceRepository {
+        return Service.getService<IPasswordHistoryServiceRepository>(PASSWORD_HISTORY_REPOSITORY_SERVICE);
+    }
+    // list file is read once on first check
+    private get breached(): Set<string> {
+        if (!this.breachedList) {
+            this.breachedList = loadBreachedList(this.config.password.breachedList);
+        }
+        return this.breachedList;
+    }
+
+    public check(password: string, owner: PasswordOwner): Promise<string[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const policy = this.config.password;
+                const violations = passwordViolations(password, policy, owner, this.breached);
+                if (owner.id && policy.history > 0) {
+                    const hashes = await this.repository.recent(owner.id, policy.history);
+                    if (owner.password) {
+                        hashes.unshift(owner.password);
+                    }
+                    for (const hash of hashes) {
+                        if (await this.verify(password, hash)) {
+                            violations.push(ERROR_PASSWORD_REUSED);
+                            break;
+                        }
+                    }
+                }
+                resolve(violations);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public hash(password: string): Promise<string> {
+        return this.hashers[0].hash(password);
+    }
+
+    public verify(password: string, hash: string): Promise<boolean> {
+        const hasher = this.hashers.find(hasher => hasher.recognizes(hash));
+        return hasher ? hasher.verify(password, hash) : Promise.resolve(false);
+    }
+
+    public needsRehash(hash: string): boolean {
+        const hasher = this.hashers[0];
+        return !hasher.recognizes(hash) || hasher.needsRehash(hash);
+    }
+
+    public remember(userId: number, hash: string): Promise<void> {
+        const history = this.config.password.history;
+        return history > 0 ? this.repository.add(userId, hash, history) : Promise.resolve();
+    }
+}
@@ -0,0 +1,75 @@
+import crypto from "crypto";
+import {Service} from "./app.service";
+import {RECOVERY_CODE_REPOSITORY_SERVICE} from "./app.constants";
+import {IRecoveryCodeServiceRepository} from "../db/interfaces/recovery.code.interface";
+
+export const RECOVERY_CODES_COUNT = 10;
+
+/**
+ * code as typed by user: case and separators are ignored
+ * @param code
+ */
+export const normalizeRecoveryCode = (code: string): string => {
+    return String(code || "").toLowerCase().replace(/[^0-9a-f]/g, "");
+};
+
+export const hashRecoveryCode = (code: string): string => {
+    return crypto.createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+};
+
+/**
+ * random code of 10 hex digits shown as xxxxx-xxxxx
+ */
+export const createRecoveryCode = (): string => {
+    const code = crypto.randomBytes(5).toString("hex");
+    return `${code.substring(0, 5)}-${code.substring(5)}`;
+};
+
+/**
+ * Recovery code Service interface for binding
+ */
+export interface IRecoveryCodeService {
+    // replace codes of user by new ones, codes are returned only once
+    generate(userId: number): Promise<string[]>
+    // use code of user instead of 2FA code, false when code is wrong or used
+    redeem(userId: number, code: string): Promise<boolean>
+    remaining(userId: number): Promise<number>
+    // remove codes of user when 2FA is reset
+    remove(userId: number): Promise<number>
+}
+
+/**
+ * One-time codes replacing 2FA code when authenticator is lost
+ */
+export class RecoveryCodeService implements IRecoveryCodeService {
+    private get repository(): IRecoveryCodeServiceRepository {
+        return Service.getService<IRecoveryCodeServiceRepository>(RECOVERY_CODE_REPOSITORY_SERVICE);
+    }
+
+    public generate(userId: number): Promise<string[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const codes = Array.from({length: RECOVERY_CODES_COUNT}, () => createRecoveryCode());
+                await this.repository.replace(userId, codes.map(code => hashRecoveryCode(code)));
+                resolve(codes);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public redeem(userId: number, code: string): Promise<boolean> {
+        if (normalizeRecoveryCode(code).length === 0) {
+            return Promise.resolve(false);
+        }
+        return this.repository.redeem(userId, hashRecoveryCode(code));
+    }
+
+    public remaining(userId: number): Promise<number> {
+        return this.repository.remaining(userId);
+    }
+
+    public remove(userId: number): Promise<number> {
+        return this.repository.removeUser(userId);
+    }
+}
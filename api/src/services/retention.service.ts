@@ -0,0 +1,55 @@
+import {Service} from "./app.service";
+import {
+    ACCOUNT_REPOSITORY_SERVICE,
+    API_KEY_REPOSITORY_SERVICE,
+    LOGIN_ATTEMPT_REPOSITORY_SERVICE,
+    MAIL_REPOSITORY_SERVICE,
+    OAUTH_REPOSITORY_SERVICE,
+    ROLE_REPOSITORY_SERVICE,
+    SESSION_STORE_SERVICE,
+    TOKEN_REPOSITORY_SERVICE,
+    USER_REPOSITORY_SERVICE
+} from "./app.constants";
+import {IUserServiceRepository} from "../db/interfaces/user.interface";
+import {IRoleServiceRepository} from "../db/interfaces/role.interface";
+import {IAccountServiceRepository} from "../db/interfaces/account.interface";
+import {ITokenServiceRepository} from "../db/interfaces/token.interface";
+import {ISessionStore} from "../db/storage/session.store";
+import {ILoginAttemptServiceRepository} from "../db/interfaces/login.attempt.interface";
+import {IMailServiceRepository} from "../db/interfaces/mail.interface";
+import {IOAuthServiceRepository} from "../db/interfaces/oauth.interface";
+import {IApiKeyServiceRepository} from "../db/interfaces/api.key.interface";
+import logger from "../util/logger";
+
+/**
+ * permanently delete users, roles and accounts removed and refresh tokens expired more than days ago,
+ * expired sessions, failed login attempts, queued mails and OAuth codes older than days, OAuth clients removed before,
+ * API keys revoked or expired before
+ * @param days
+ * @return number of deleted records by entities
+ */
+export const purgeRemoved = (days: number): Promise<{[entities: string]: number}> => {
+    return new Promise(async (resolve, reject) => {
+        try {
+            const before = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+            const sessions = Service.getService<ISessionStore>(SESSION_STORE_SERVICE);
+            const purged = {
+                users:    await Service.getService<IUserServiceRepository>(USER_REPOSITORY_SERVICE).purgeRemoved(before),
+                roles:    await Service.getService<IRoleServiceRepository>(ROLE_REPOSITORY_SERVICE).purgeRemoved(before),
+                accounts: await Service.getService<IAccountServiceRepository>(ACCOUNT_REPOSITORY_SERVICE).purgeRemoved(before),
+                tokens:   await Service.getService<ITokenServiceRepository>(TOKEN_REPOSITORY_SERVICE).purgeExpired(before),
+                sessions: sessions && sessions.purgeExpired ? await sessions.purgeExpired() : 0,
+                attempts: await Service.getService<ILoginAttemptServiceRepository>(LOGIN_ATTEMPT_REPOSITORY_SERVICE).purgeExpired(before),
+                mails:    await Service.getService<IMailServiceRepository>(MAIL_REPOSITORY_SERVICE).purgeSent(before),
+                oauth:    await Service.getService<IOAuthServiceRepository>(OAUTH_REPOSITORY_SERVICE).purgeExpired(before),
+                apiKeys:  await Service.getService<IApiKeyServiceRepository>(API_KEY_REPOSITORY_SERVICE).purgeExpired(before)
+            };
+            logger.info(`retention purged ${purged.users} users, ${purged.roles} roles, ${purged.accounts} accounts removed ` +
+                `and ${purged.tokens} tokens expired before ${before.toISOString()}, ${purged.sessions} expired sessions, ${purged.attempts} login attempts, ${purged.mails} mails, ${purged.oauth} OAuth codes and clients, ${purged.apiKeys} API keys`);
+            resolve(purged);
+        } catch (e) {
+            logger.error(`retention ${e.message}`);
+            reject(e);
+        }
+    });
+};
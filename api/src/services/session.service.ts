@@ -0,0 +1,222 @@
+import crypto from "crypto";
+import express from "express";
+import {Service} from "./app.service";
+import {CONFIG_SERVICE, SESSION_STORE_SERVICE, TOKEN_SERVICE} from "./app.constants";
+import {Config} from "../util/secrets";
+import {ITokenService} from "./token.service";
+import {ISessionStore, StoredSession} from "../db/storage/session.store";
+
+/**
+ * Session of user as listed by /api/v1/auth/sessions, session cookie id is never exposed
+ */
+export interface SessionInfo {
+    id:       string
+    ip:       string
+    device:   string
+    signedIn: Date
+    lastSeen: Date
+    expires:  Date
+    current:  boolean
+    // user impersonated in session, see startImpersonation
+    impersonating: number
+}
+
+/**
+ * Session Service interface for binding
+ */
+export interface ISessionService {
+    // active sessions of user, current is session of request
+    list(userId: number, currentSid?: string): Promise<SessionInfo[]>
+    // revoke session of user by its public id, false when user has no such session
+    revoke(userId: number, id: string): Promise<boolean>
+    // revoke all sessions and tokens of user, e.g. when user is disabled or password is changed
+    revokeUser(userId: number): Promise<{sessions: number, tokens: number}>
+}
+
+/**
+ * record device of signed in session, session is saved only when device is changed
+ * @param req
+ */
+export const describeSession = (req: express.Request): void => {
+    if (!req.session || !req.user) {
+        return;
+    }
+    const userAgent = req.get("user-agent") || "";
+    if (req.session.ip !== req.ip || req.session.userAgent !== userAgent) {
+        req.session.ip = req.ip;
+        req.session.userAgent = userAgent;
+    }
+    if (!req.session.signedIn) {
+        req.session.signedIn = Date.now();
+    }
+};
+
+/**
+ * id of user signed in to session by password or identity provider, also while 2FA is pending, null without sign in
+ * @param req
+ */
+export const signedInUser = (req: express.Request): number => {
+    return req.session && req.session.passport && req.session.passport.user ? req.session.passport.user : null;
+};
+
+/**
+ * user signed in to session by password or identity provider passed 2FA,
+ * guards accept user of session only since then, see resolveUser
+ * @param req
+ * @param userId
+ */
+export const passSecondFactor = (req: express.Request, userId: number): void => {
+    req.session.secondFactor = userId;
+};
+
+/**
+ * user of session passed 2FA, false while 2FA of sign in is pending
+ * @param req
+ */
+export const secondFactorPassed = (req: express.Request): boolean => {
+    const signedIn = signedInUser(req);
+    return !!signedIn && req.session.secondFactor === signedIn;
+};
+
+/**
+ * Impersonation kept in session of superadmin
+ */
+export interface Impersonation {
+    actorId: number
+    userId:  number
+    roles:   number[]
+    expires: number
+}
+
+/**
+ * Impersonation of session as shown to superadmin
+ */
+export interface PublicImpersonation {
+    actorId: number
+    userId:  number
+    roles:   number[]
+    expires: Date
+}
+
+/**
+ * superadmin signed in to session acts as user with roles until config.impersonation.ttl passes,
+ * passport keeps superadmin as user of session so audit and sign out refer to real actor
+ * @param req
+ * @param actorId superadmin signed in to session
+ * @param userId impersonated user
+ * @param roles roles impersonated user acts with
+ */
+export const startImpersonation = (req: express.Request, actorId: number, userId: number, roles: number[]): Impersonation => {
+    const ttl = Service.getService<Config>(CONFIG_SERVICE).impersonation.ttl;
+    req.session.impersonation = {actorId, userId, roles, expires: Date.now() + ttl * 1000};
+    return req.session.impersonation;
+};
+
+/**
+ * active impersonation of session, it ends when it expires or when other user signs in to session
+ * @param req
+ */
+export const impersonation = (req: express.Request): Impersonation | null => {
+    const kept = req.session && req.session.impersonation;
+    if (!kept) {
+        return null;
+    }
+    const signedIn = req.session.passport && req.session.passport.user;
+    if (kept.actorId !== signedIn || kept.expires <= Date.now()) {
+        delete req.session.impersonation;
+        return null;
+    }
+    return kept;
+};
+
+/**
+ * end impersonation of session, superadmin is user of session again
+ * @param req
+ */
+export const stopImpersonation = (req: express.Request): Impersonation | null => {
+    const active = impersonation(req);
+    if (active) {
+        delete req.session.impersonation;
+    }
+    return active;
+};
+
+/**
+ * Sessions of users in session store selected by config.sessions.store
+ */
+export class SessionService implements ISessionService {
+    private get config(): Config {
+        return Service.getService<Config>(CONFIG_SERVICE);
+    }
+    private get store(): ISessionStore {
+        return Service.getService<ISessionStore>(SESSION_STORE_SERVICE);
+    }
+
+    // public id of session cookie id
+    private static publicId(sid: string): string {
+        return crypto.createHash("sha256").update(sid).digest("hex").substring(0, 32);
+    }
+
+    private destroy(sid: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.store.destroy(sid, (e?: unknown) => e ? reject(e) : resolve());
+        });
+    }
+
+    private info(stored: StoredSession, currentSid: string): SessionInfo {
+        const expires = new Date(stored.expires);
+        return {
+            id:       SessionService.publicId(stored.sid),
+            ip:       stored.session.ip || null,
+            device:   stored.session.userAgent || null,
+            signedIn: stored.session.signedIn ? new Date(stored.session.signedIn) : null,
+            // rolling sessions are prolonged by ttl on every request
+            lastSeen: new Date(expires.getTime() - this.config.sessions.ttl * 1000),
+            expires,
+            current:  stored.sid === currentSid,
+            impersonating: stored.session.impersonation && stored.session.impersonation.expires > Date.now()
+                ? stored.session.impersonation.userId : null
+        };
+    }
+
+    public list(userId: number, currentSid: string = null): Promise<SessionInfo[]> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const sessions = await this.store.sessionsOf(userId);
+                resolve(sessions.map(stored => this.info(stored, currentSid)));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public revoke(userId: number, id: string): Promise<boolean> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const stored = (await this.store.sessionsOf(userId)).filter(s => SessionService.publicId(s.sid) === id);
+                if (stored.length === 0) {
+                    return resolve(false);
+                }
+                await this.destroy(stored[0].sid);
+                resolve(true);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public revokeUser(userId: number): Promise<{sessions: number, tokens: number}> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const sessions = await this.store.sessionsOf(userId);
+                for (const stored of sessions) {
+                    await this.destroy(stored.sid);
+                }
+                const tokens = await Service.getService<ITokenService>(TOKEN_SERVICE).revokeUser(userId);
+                resolve({sessions: sessions.length, tokens});
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
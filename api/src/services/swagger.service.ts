@@ -1,191 +1,676 @@
-import swaggerJSDoc from "swagger-jsdoc";
+import express from "express";
+import {ParamSchema} from "express-validator";
 import {Config} from "../util/secrets";
-export const getSwaggerOptions = (config: Config) => {
-    const swaggerOptions: swaggerJSDoc.Options = {
-        "swaggerDefinition": {
-            "info": {
-                "title": "Risk Monitor API",
-                "description": "API Backend Information",
-                "version": "1.0.0"
-            },
-            "servers": [
-                {
-                    "url": `http://${config.app.domain}:${config.app.port}/api/v1`,
-                    "description": "API V1"
-                }
-            ],
-            "tags": [
-                {
-                    "name": "private"
-                },
-                {
-                    "name": "public"
-                },
-                {
-                    "name": "roles"
-                },
-                {
-                    "name": "account"
-                },
-                {
-                    "name": "individual collateral"
-                },
-                {
-                    "name": "synthetic currency"
-                },
-                {
-                    "name": "margin call"
-                },
-                {
-                    "name": "currency"
-                },
-                {
-                    "name": "customer portal"
-                },
-                {
-                    "name": "user"
-                },
-                {
-                    "name": "email"
-                },
-                {
-                    "name": "currency order"
-                },
-                {
-                    "name": "exchange order"
-                },
-                {
-                    "name": "snapshot"
-                },
-                {
-                    "name": "margin group"
-                },
+import {ValidationHandler} from "../middlewares/validation.middleware";
+import {GuardHandler} from "../middlewares/auth.middleware";
+import {RateLimitHandler} from "../middlewares/rate.limit.middleware";
 
-                {
-                    "name": "provider"
-                },
-                {
-                    "name": "subscribe"
-                },
-                {
-                    "name": "price"
-                },
+type JSONSchema = {[field: string]: any};
 
-            ],
-            "securityDefinitions": {
-                "Bearer": {
-                    "type": "apiKey",
-                    "name": "Authorization",
-                    "in": "header"
-                }
-            },
-            "basePath": "/",
-            "paths": {
-                "/api/v1": {
-                    "get": {
-                        "produces": [
-                            "application/json"
-                        ],
-                        "tags": [
-                            "public"
-                        ],
-                        "summary": "curl -X GET \"https://" + config.app.domain + "/api/v1\" -H  \"accept: application/json\"",
-                        "responses": {
-                            "200": {
-                                "description": "ping response",
-                                "schema": {
-                                    "$ref": "#/definitions/ping"
-                                }
-                            },
-                            "500": {
-                                "description": "When some error occurs",
-                                "schema": {
-                                    "$ref": "#/definitions/error"
-                                }
-                            }
-                        }
-                    }
-                },
-            },
-            "definitions": {
-                "ping": {
-                    "type": "object",
-                    "required": [
-                        "ping"
-                    ],
-                    "properties": {
-                        "ping": {
-                            "description": "{ping:pong}",
-                            "type": "string",
-                            "enum": [
-                                "pong"
-                            ]
-                        }
-                    }
-                },
-                "error": {
+/**
+ * Documentation of route, response is name of schema in components, several names are alternatives
+ */
+export interface RouteDoc {
+    summary:   string
+    response?: string | string[]
+}
+
+/**
+ * Documentation of router routes by "<method> <path>", e.g. "get /:id"
+ */
+export type RouterDocs = {[route: string]: RouteDoc};
+
+/**
+ * Router mounted to app with its documentation
+ */
+export interface RouterMount {
+    path:   string
+    tag:    string
+    router: express.Router
+    docs?:  RouterDocs
+}
+
+const ref = (name: string): JSONSchema => ({"$ref": `#/components/schemas/${name}`});
+
+// response with single entity, e.g. {user: {...}}
+const single = (entity: string): JSONSchema => ({
+    "type": "object",
+    "properties": {
+        [entity]: {...ref(entity), "nullable": true}
+    }
+});
+
+// page of list response, see BaseController.listResponse
+const page = (entity: string, entities: string): JSONSchema => ({
+    "type": "object",
+    "required": [entities, "total", "limit", "offset", "next"],
+    "properties": {
+        [entities]: {"type": "array", "items": ref(entity)},
+        "total":    {"type": "integer"},
+        "limit":    {"type": "integer"},
+        "offset":   {"type": "integer"},
+        "next":     {"type": "string", "format": "byte", "nullable": true, "description": "cursor of the next page"}
+    }
+});
+
+const SCHEMAS: {[name: string]: JSONSchema} = {
+    "ping": {
+        "type": "object",
+        "required": ["ping"],
+        "properties": {
+            "ping": {"type": "string", "enum": ["pong"]}
+        }
+    },
+    "error": {
+        "type": "object",
+        "required": ["message"],
+        "properties": {
+            "code":    {"type": "string", "example": "validation error"},
+            "error":   {"type": "boolean"},
+            "message": {"type": "string", "example": "something went wrong"},
+            "fields": {
+                "description": "message of every invalid field of rejected request",
+                "type": "object",
+                "additionalProperties": {"type": "string"},
+                "example": {"email": "invalid email"}
+            }
+        }
+    },
+    "user": {
+        "type": "object",
+        "properties": {
+            "id":            {"type": "integer"},
+            "username":      {"type": "string"},
+            "gravatar":      {"type": "string"},
+            "email":         {"type": "string", "format": "email"},
+            "enabled":       {"type": "boolean"},
+            "removed":       {"type": "boolean"},
+            "expired":       {"type": "integer", "nullable": true},
+            "token":         {"type": "string", "nullable": true},
+            "roles":         {"type": "array", "items": {"type": "integer"}},
+            "accounts":      {"type": "array", "items": {"type": "integer"}},
+            "locked":        {"type": "boolean", "description": "sign in is locked by failed attempts"},
+            "lockedUntil":   {"type": "string", "format": "date-time", "nullable": true},
+            "emailVerified": {"type": "boolean"}
+        }
+    },
+    "role": {
+        "type": "object",
+        "properties": {
+            "id":          {"type": "integer"},
+            "title":       {"type": "string"},
+            "description": {"type": "string"},
+            "enabled":     {"type": "boolean"},
+            "created":     {"type": "string", "format": "date-time"},
+            "updated":     {"type": "string", "format": "date-time"},
+            "removed":     {"type": "string", "format": "date-time", "nullable": true},
+            "users":       {"type": "array", "items": {"type": "integer"}},
+            "permissions": {"type": "array", "items": {"type": "integer"}}
+        }
+    },
+    "account": {
+        "type": "object",
+        "properties": {
+            "id":               {"type": "integer"},
+            "name":             {"type": "string"},
+            "email":            {"type": "string", "format": "email"},
+            "fid":              {"type": "string"},
+            "uid":              {"type": "string"},
+            "customerPortalId": {"type": "string"},
+            "type":             {"type": "string"},
+            "status":           {"type": "string"},
+            "enabled":          {"type": "boolean"},
+            "created":          {"type": "string", "format": "date-time"},
+            "updated":          {"type": "string", "format": "date-time"},
+            "removed":          {"type": "string", "format": "date-time", "nullable": true},
+            "users":            {"type": "array", "items": {"type": "integer"}}
+        }
+    },
+    "token": {
+        "type": "object",
+        "properties": {
+            "access_token":  {"type": "string"},
+            "expires_in":    {"type": "integer"},
+            "refresh_token": {"type": "string"},
+            "scope":         {"type": "string"},
+            "token_type":    {"type": "string"}
+        }
+    },
+    "ga2fa": {
+        "type": "object",
+        "description": "qr, secret and recovery codes on registration, provider token on verified code or authenticator, message when code is expected",
+        "properties": {
+            "qr":            {"type": "string"},
+            "secret":        {"type": "string"},
+            "recoveryCodes": {"type": "array", "items": {"type": "string"}},
+            "status":        {"type": "boolean"},
+            "data":          ref("token"),
+            "message":       {"type": "string"},
+            "webauthn":      {"type": "boolean", "description": "user registered authenticator"}
+        }
+    },
+    "recovery": {
+        "type": "object",
+        "description": "provider token on redeemed code and number of unused codes",
+        "properties": {
+            "status":    {"type": "boolean"},
+            "data":      ref("token"),
+            "remaining": {"type": "integer"}
+        }
+    },
+    "recoveryCodes": {
+        "type": "object",
+        "description": "new recovery codes, shown only once",
+        "properties": {
+            "recoveryCodes": {"type": "array", "items": {"type": "string"}}
+        }
+    },
+    "recoveryRemaining": {
+        "type": "object",
+        "properties": {
+            "remaining": {"type": "integer"}
+        }
+    },
+    "webauthnOptions": {
+        "type": "object",
+        "description": "options of navigator.credentials.create() or navigator.credentials.get(), binary fields are base64url",
+        "properties": {
+            "challenge":        {"type": "string"},
+            "timeout":          {"type": "integer"},
+            "rp":               {"type": "object"},
+            "rpId":             {"type": "string"},
+            "user":             {"type": "object"},
+            "pubKeyCredParams": {"type": "array", "items": {"type": "object"}},
+            "excludeCredentials": {"type": "array", "items": {"type": "object"}},
+            "allowCredentials": {"type": "array", "items": {"type": "object"}},
+            "userVerification": {"type": "string"},
+            "attestation":      {"type": "string"}
+        }
+    },
+    "webauthnCredential": {
+        "type": "object",
+        "properties": {
+            "id":         {"type": "integer"},
+            "name":       {"type": "string"},
+            "transports": {"type": "array", "items": {"type": "string"}},
+            "lastUsed":   {"type": "string", "format": "date-time", "nullable": true},
+            "created":    {"type": "string", "format": "date-time"}
+        }
+    },
+    "webauthnRegistered": {
+        "type": "object",
+        "description": "registered authenticator, recovery codes when it is the first second factor",
+        "properties": {
+            "credential":    ref("webauthnCredential"),
+            "recoveryCodes": {"type": "array", "items": {"type": "string"}}
+        }
+    },
+    "webauthnCredentialList": {
+        "type": "object",
+        "properties": {
+            "credentials": {"type": "array", "items": ref("webauthnCredential")}
+        }
+    },
+    "webauthnRemoved": {
+        "type": "object",
+        "properties": {
+            "removed": {"type": "boolean"}
+        }
+    },
+    "ga2faReset": {
+        "type": "object",
+        "properties": {
+            "reset": {"type": "boolean"}
+        }
+    },
+    "tokenResponse": {
+        "type": "object",
+        "properties": {
+            "data": ref("token")
+        }
+    },
+    "revoked": {
+        "type": "object",
+        "properties": {
+            "revoked": {"type": "boolean"}
+        }
+    },
+    "session": {
+        "type": "object",
+        "properties": {
+            "id":       {"type": "string"},
+            "ip":       {"type": "string", "nullable": true},
+            "device":   {"type": "string", "nullable": true, "description": "user agent"},
+            "signedIn": {"type": "string", "format": "date-time", "nullable": true},
+            "lastSeen": {"type": "string", "format": "date-time"},
+            "expires":  {"type": "string", "format": "date-time"},
+            "current":  {"type": "boolean", "description": "session of request"},
+            "impersonating": {"type": "integer", "nullable": true, "description": "user impersonated by superadmin of session"}
+        }
+    },
+    "sessionList": {
+        "type": "object",
+        "properties": {
+            "sessions": {"type": "array", "items": ref("session")}
+        }
+    },
+    "sessionsRevoked": {
+        "type": "object",
+        "properties": {
+            "sessions": {"type": "integer"},
+            "tokens":   {"type": "integer"}
+        }
+    },
+    "oidcSignIn": {
+        "type": "object",
+        "description": "user signed in by identity provider, linked is true when identity is linked by this sign in",
+        "properties": {
+            "user":     ref("user"),
+            "provider": {"type": "string"},
+            "linked":   {"type": "boolean"}
+        }
+    },
+    "oidcProviders": {
+        "type": "object",
+        "properties": {
+            "providers": {
+                "type": "array",
+                "items": {
                     "type": "object",
-                    "required": [
-                        "message",
-                        "code",
-                        "error"
-                    ],
                     "properties": {
-                        "code": {
-                            "type": "string",
-                            "example": "service error"
-                        },
-                        "error": {
-                            "type": "boolean"
-                        },
-                        "message": {
-                            "type": "string",
-                            "example": "something went wrong"
-                        }
+                        "name":  {"type": "string"},
+                        "label": {"type": "string"}
                     }
-                },
-                "success": {
-                    "type": "object",
-                    "required": [
-                        "error"
-                    ],
-                    "properties": {
-                        "error": {
-                            "type": "boolean",
-                            "description": "success response",
-                            "example": false
+                }
+            }
+        }
+    },
+    "userIdentity": {
+        "type": "object",
+        "properties": {
+            "id":       {"type": "integer"},
+            "provider": {"type": "string"},
+            "email":    {"type": "string"},
+            "lastUsed": {"type": "string", "format": "date-time", "nullable": true},
+            "created":  {"type": "string", "format": "date-time"}
+        }
+    },
+    "userIdentityList": {
+        "type": "object",
+        "properties": {
+            "identities": {"type": "array", "items": ref("userIdentity")}
+        }
+    },
+    "identityRemoved": {
+        "type": "object",
+        "properties": {
+            "removed": {"type": "boolean"}
+        }
+    },
+    "apiKey": {
+        "type": "object",
+        "properties": {
+            "id":       {"type": "integer"},
+            "name":     {"type": "string"},
+            "prefix":   {"type": "string", "description": "first characters of key to tell keys apart"},
+            "scopes":   {"type": "array", "items": {"type": "string"}},
+            "expires":  {"type": "string", "format": "date-time", "nullable": true},
+            "lastUsed": {"type": "string", "format": "date-time", "nullable": true},
+            "lastIp":   {"type": "string", "nullable": true},
+            "created":  {"type": "string", "format": "date-time"}
+        }
+    },
+    "apiKeyList": {
+        "type": "object",
+        "properties": {
+            "keys": {"type": "array", "items": ref("apiKey")}
+        }
+    },
+    "impersonationInfo": {
+        "type": "object",
+        "properties": {
+            "actorId": {"type": "integer", "description": "superadmin signed in to session"},
+            "userId":  {"type": "integer", "description": "impersonated user"},
+            "roles":   {"type": "array", "items": {"type": "integer"}},
+            "expires": {"type": "string", "format": "date-time"}
+        }
+    },
+    "impersonation": {
+        "type": "object",
+        "properties": {
+            "user":          ref("user"),
+            "impersonation": ref("impersonationInfo")
+        }
+    },
+    "impersonationState": {
+        "type": "object",
+        "properties": {
+            "impersonation": {...ref("impersonationInfo"), "nullable": true}
+        }
+    },
+    "apiKeySecret": {
+        "type": "object",
+        "properties": {
+            "key":    ref("apiKey"),
+            "secret": {"type": "string", "description": "send as bearer token of Authorization header, shown only once"}
+        }
+    },
+    "oauthMetadata": {
+        "type": "object",
+        "description": "authorization server metadata of RFC 8414",
+        "properties": {
+            "issuer":                                {"type": "string"},
+            "authorization_endpoint":                {"type": "string"},
+            "token_endpoint":                        {"type": "string"},
+            "introspection_endpoint":                {"type": "string"},
+            "grant_types_supported":                 {"type": "array", "items": {"type": "string"}},
+            "response_types_supported":              {"type": "array", "items": {"type": "string"}},
+            "scopes_supported":                      {"type": "array", "items": {"type": "string"}},
+            "code_challenge_methods_supported":      {"type": "array", "items": {"type": "string"}},
+            "token_endpoint_auth_methods_supported": {"type": "array", "items": {"type": "string"}}
+        }
+    },
+    "oauthToken": {
+        "type": "object",
+        "properties": {
+            "access_token": {"type": "string"},
+            "token_type":   {"type": "string", "example": "Bearer"},
+            "expires_in":   {"type": "integer"},
+            "scope":        {"type": "string"}
+        }
+    },
+    "oauthIntrospection": {
+        "type": "object",
+        "description": "only active is returned for token which is not active",
+        "properties": {
+            "active":     {"type": "boolean"},
+            "scope":      {"type": "string"},
+            "client_id":  {"type": "string"},
+            "username":   {"type": "string"},
+            "sub":        {"type": "string"},
+            "exp":        {"type": "integer"},
+            "iat":        {"type": "integer"},
+            "token_type": {"type": "string"}
+        }
+    },
+    "oauthClient": {
+        "type": "object",
+        "properties": {
+            "id":           {"type": "integer"},
+            "clientId":     {"type": "string"},
+            "name":         {"type": "string"},
+            "confidential": {"type": "boolean"},
+            "redirectUris": {"type": "array", "items": {"type": "string"}},
+            "grants":       {"type": "array", "items": {"type": "string", "enum": ["authorization_code", "client_credentials"]}},
+            "scopes":       {"type": "array", "items": {"type": "string"}},
+            "userId":       {"type": "integer"},
+            "created":      {"type": "string", "format": "date-time"}
+        }
+    },
+    "oauthConsent": {
+        "type": "object",
+        "description": "post parameters of request with consent true to authorize client",
+        "properties": {
+            "client":      {"type": "object", "properties": {"clientId": {"type": "string"}, "name": {"type": "string"}}},
+            "redirectUri": {"type": "string"},
+            "scopes":      {"type": "array", "items": {"type": "string"}}
+        }
+    },
+    "oauthClientList": {
+        "type": "object",
+        "properties": {
+            "clients": {"type": "array", "items": ref("oauthClient")}
+        }
+    },
+    "oauthClientSecret": {
+        "type": "object",
+        "description": "secret is null for public client",
+        "properties": {
+            "client": ref("oauthClient"),
+            "secret": {"type": "string", "nullable": true}
+        }
+    },
+    "oauthClientRemoved": {
+        "type": "object",
+        "properties": {
+            "removed": {"type": "boolean"}
+        }
+    },
+    "forgot": {
+        "type": "object",
+        "properties": {
+            "sent": {"type": "boolean"}
+        }
+    },
+    "verified": {
+        "type": "object",
+        "properties": {
+            "verified": {"type": "boolean"}
+        }
+    },
+    "userResponse":    single("user"),
+    "userPage":        page("user", "users"),
+    "roleResponse":    single("role"),
+    "rolePage":        page("role", "roles"),
+    "accountResponse": single("account"),
+    "accountPage":     page("account", "accounts")
+};
+
+// options of validator in schema, e.g. {min: 1} of isInt
+const options = (validator: true | {options?: unknown}): JSONSchema => {
+    return validator === true ? undefined : validator.options as JSONSchema;
+};
+
+/**
+ * JSON schema of express-validator field schema
+ * @param field
+ */
+const fieldSchema = (field: ParamSchema): JSONSchema => {
+    const schema: JSONSchema = {"type": "string"};
+    if (field.isInt) {
+        const range = options(field.isInt) || {};
+        schema["type"] = "integer";
+        if (range.min !== undefined) {
+            schema["minimum"] = range.min;
+        }
+        if (range.max !== undefined) {
+            schema["maximum"] = range.max;
+        }
+    }
+    if (field.isBoolean) {
+        schema["type"] = "boolean";
+    }
+    if (field.isArray) {
+        schema["type"] = "array";
+        schema["items"] = {};
+    }
+    if (field.isEmail) {
+        schema["format"] = "email";
+    }
+    if (field.isISO8601) {
+        schema["format"] = "date-time";
+    }
+    if (field.isBase64) {
+        schema["format"] = "byte";
+    }
+    if (field.isNumeric) {
+        schema["pattern"] = "^[0-9]+$";
+    }
+    if (field.isHexadecimal) {
+        schema["pattern"] = "^[0-9a-fA-F]+$";
+    }
+    if (field.isIn) {
+        schema["enum"] = options(field.isIn)[0];
+    }
+    if (field.notEmpty) {
+        schema["minLength"] = 1;
+    }
+    if (field.optional && field.optional !== true && field.optional.options && field.optional.options.nullable) {
+        schema["nullable"] = true;
+    }
+    return schema;
+};
+
+const location = (field: ParamSchema): string => {
+    return Array.isArray(field.in) ? field.in[0] : field.in;
+};
+
+/**
+ * OpenAPI operation of router route from its validation, guard and documentation
+ * @param mount
+ * @param method
+ * @param path
+ * @param handlers
+ */
+const operation = (mount: RouterMount, method: string, path: string, handlers: express.RequestHandler[]): JSONSchema => {
+    const doc: RouteDoc = (mount.docs || {})[`${method} ${path}`] || {summary: `${method.toUpperCase()} ${mount.path}${path}`};
+    const parameters: JSONSchema[] = [];
+    const body: JSONSchema = {"type": "object", "required": [], "properties": {}};
+    const responses: JSONSchema = {};
+    const names = Array.isArray(doc.response) ? doc.response : doc.response ? [doc.response] : [];
+    responses["200"] = {
+        "description": doc.summary,
+        "content": {
+            "application/json": {
+                "schema": names.length > 1 ? {"oneOf": names.map(name => ref(name))} : names.length ? ref(names[0]) : {"type": "object"}
+            }
+        }
+    };
+    const error = (description: string) => ({
+        "description": description,
+        "content": {"application/json": {"schema": ref("error")}}
+    });
+    const result: JSONSchema = {
+        "tags": [mount.tag],
+        "summary": doc.summary,
+        "responses": responses
+    };
+    const documented: string[] = [];
+    handlers.forEach(handle => {
+        if ((handle as ValidationHandler).schema) {
+            const validation = handle as ValidationHandler;
+            Object.keys(validation.schema).forEach(name => {
+                const field = validation.schema[name];
+                const where = location(field);
+                if (where === "body") {
+                    const wildcard = name.indexOf(".*");
+                    if (wildcard !== -1) {
+                        const list = body["properties"][name.substring(0, wildcard)];
+                        if (list) {
+                            list["items"] = fieldSchema(field);
                         }
+                        return;
                     }
-                },
-                "ok": {
-                    "type": "object",
-                    "required": [
-                        "result"
-                    ],
-                    "properties": {
-                        "result": {
-                            "description": "Result of method execution OK in case of success",
-                            "type": "string",
-                            "enum": [
-                                "ok"
-                            ]
-                        }
+                    body["properties"][name] = fieldSchema(field);
+                    if (!field.optional) {
+                        body["required"].push(name);
                     }
-                },
-                "parameters": {},
-                "schemas": {
-                    /*
-                     "id": {
-                     "type": "string", // data type
-                     "description": "An id of a todo", // desc
-                     "example": "tyVgf" // example of an id
-                     },
-                     // error model
-                     , */
+                } else {
+                    documented.push(name);
+                    parameters.push({
+                        "name": name,
+                        "in": where === "params" ? "path" : where,
+                        "required": where === "params" || !field.optional,
+                        "schema": fieldSchema(field)
+                    });
                 }
-            }
+            });
+            responses[String(validation.code)] = error("invalid parameters");
+        }
+        if (Array.isArray((handle as GuardHandler).permissions)) {
+            const guard = handle as GuardHandler;
+            result["security"] = [{"bearer": []}, {"session": []}];
+            result["description"] = guard.permissions.length > 0
+                ? `requires permissions ${guard.permissions.join(", ")}`
+                : guard.roles.length > 0 ? `requires one of roles ${guard.roles.join(", ")}` : "requires enabled user";
+            responses["401"] = error("unauthorized");
+            responses["403"] = error("access denied");
+        }
+        if (Array.isArray((handle as RateLimitHandler).policies)) {
+            responses["429"] = error(`too many requests by ${(handle as RateLimitHandler).policies.join(" or ")} rate limit`);
+        }
+    });
+    // path parameters without validation
+    (path.match(/:\w+/g) || []).map(parameter => parameter.substring(1))
+        .filter(name => documented.indexOf(name) === -1)
+        .forEach(name => parameters.push({"name": name, "in": "path", "required": true, "schema": {"type": "string"}}));
+    if (parameters.length > 0) {
+        result["parameters"] = parameters;
+    }
+    if (Object.keys(body["properties"]).length > 0) {
+        if (body["required"].length === 0) {
+            delete body["required"];
+        }
+        result["requestBody"] = {
+            "required": !!body["required"],
+            "content": {"application/json": {"schema": body}}
+        };
+    }
+    return result;
+};
+
+/**
+ * OpenAPI paths of mounted routers
+ * @param mounts
+ */
+const compilePaths = (mounts: RouterMount[]): JSONSchema => {
+    const paths: JSONSchema = {};
+    mounts.forEach(mount => {
+        // middlewares of router, e.g. rate limiter, apply to all its routes
+        const middlewares = mount.router.stack
+            .filter(layer => !layer.route)
+            .map(layer => layer.handle);
+        mount.router.stack
+            .filter(layer => !!layer.route)
+            .forEach(layer => {
+                const route = layer.route;
+                const path = `${mount.path}${route.path === "/" ? "" : route.path}`.replace(/:(\w+)/g, "{$1}");
+                paths[path] = paths[path] || {};
+                Object.keys(route.methods).forEach(method => {
+                    paths[path][method] = operation(mount, method, route.path,
+                        middlewares.concat(route.stack.map((h: {handle: express.RequestHandler}) => h.handle)));
+                });
+            });
+    });
+    return paths;
+};
+
+/**
+ * OpenAPI document of mounted routers, generated from their validation schemas, guards and documentation
+ * @param config
+ * @param mounts
+ */
+export const getSwaggerDocument = (config: Config, mounts: RouterMount[]): JSONSchema => {
+    return {
+        "openapi": "3.0.3",
+        "info": {
+            "title": "Risk Monitor API",
+            "description": "API Backend Information",
+            "version": "1.0.0"
         },
-        apis: ["./api/src/app.ts", "./api/dist/src/app.js"]
+        "servers": [
+            {
+                "url": `http://${config.app.domain}:${config.app.port}`,
+                "description": "API V1"
+            }
+        ],
+        "tags": mounts.map(mount => mount.tag)
+            .filter((tag, i, tags) => tags.indexOf(tag) === i)
+            .map(tag => ({"name": tag})),
+        "paths": compilePaths(mounts),
+        "components": {
+            "securitySchemes": {
+                "bearer": {
+                    "type": "http",
+                    "scheme": "bearer"
+                },
+                "session": {
+                    "type": "apiKey",
+                    "in": "cookie",
+                    "name": config.sessions.name
+                }
+            },
+            "schemas": SCHEMAS
+        }
     };
-    return swaggerOptions;
 };
@@ -0,0 +1,249 @@
+import crypto from "crypto";
+import oauth, {Token} from "client-oauth2";
+import {Service} from "./app.service";
+import {CONFIG_SERVICE, TOKEN_REPOSITORY_SERVICE, USER_REPOSITORY_SERVICE} from "./app.constants";
+import {Config} from "../util/secrets";
+import {sign, verify} from "../util/jwt";
+import {UserEntity} from "../db/entities/users.entity";
+import {RefreshTokenEntity} from "../db/entities/tokens.entity";
+import {IUserServiceRepository} from "../db/interfaces/user.interface";
+import {ITokenServiceRepository} from "../db/interfaces/token.interface";
+import {
+    ERROR_AUTH_USER_DISABLED,
+    ERROR_TOKEN_INVALID,
+    ERROR_TOKEN_NOT_SUPPORTED,
+    ERROR_TOKEN_REVOKED
+} from "../controllers/auth/auth.error.codes";
+
+export const TOKEN_SCOPE = "all";
+export const TOKEN_TYPE = "Bearer";
+
+/**
+ * Credentials issued after 2FA, same fields as oauth provider token
+ */
+export interface TokenData {
+    access_token:  string
+    expires_in:    number
+    refresh_token: string
+    scope:         string
+    token_type:    string
+}
+
+/**
+ * Caller of valid access token
+ */
+export interface TokenValidation {
+    user:        UserEntity
+    accessToken: string
+    expiresIn:   number
+}
+
+/**
+ * Token Service interface for binding, implementation is selected by config.tokens.provider
+ */
+export interface ITokenService {
+    // credentials of user passed 2FA
+    issue(user: UserEntity): Promise<TokenData>
+    // caller of Authorization header, null when token is not valid
+    validate(authorization: string): Promise<TokenValidation>
+    // rotate refresh token, used token is revoked
+    refresh(refreshToken: string): Promise<TokenData>
+    // revoke refresh token and access tokens issued with it
+    revoke(refreshToken: string): Promise<void>
+    // revoke all tokens of user
+    revokeUser(userId: number): Promise<number>
+}
+
+// access token of Authorization header, "Bearer" prefix is optional
+export const bearer = (authorization: string): string => {
+    return (authorization || "").replace(/^Bearer\s+/i, "").trim();
+};
+
+/**
+ * Tokens signed by the app: HS256 access tokens and rotating refresh tokens stored as sha256 hashes.
+ * Reuse of rotated refresh token revokes its whole family.
+ */
+export class LocalTokenService implements ITokenService {
+    private get config(): Config {
+        return Service.getService<Config>(CONFIG_SERVICE);
+    }
+    private get repository(): ITokenServiceRepository {
+        return Service.getService<ITokenServiceRepository>(TOKEN_REPOSITORY_SERVICE);
+    }
+    private get users(): IUserServiceRepository {
+        return Service.getService<IUserServiceRepository>(USER_REPOSITORY_SERVICE);
+    }
+
+    private static hash(token: string): string {
+        return crypto.createHash("sha256").update(token).digest("hex");
+    }
+
+    /**
+     * new refresh token of family and access token bound to it
+     * @param user
+     * @param family
+     */
+    private compile(user: UserEntity, family: string): Promise<TokenData> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const refreshToken = crypto.randomBytes(32).toString("hex");
+                await this.repository.create(new RefreshTokenEntity(
+                    undefined,
+                    user.id,
+                    family,
+                    LocalTokenService.hash(refreshToken),
+                    new Date(Date.now() + this.config.tokens.refreshTtl * 1000)
+                ));
+                resolve({
+                    access_token:  sign({sub: user.id, fam: family, scope: TOKEN_SCOPE}, this.config.tokens.secret, this.config.tokens.accessTtl),
+                    expires_in:    this.config.tokens.accessTtl,
+                    refresh_token: refreshToken,
+                    scope:         TOKEN_SCOPE,
+                    token_type:    TOKEN_TYPE
+                });
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public issue(user: UserEntity): Promise<TokenData> {
+        return this.compile(user, crypto.randomBytes(16).toString("hex"));
+    }
+
+    public validate(authorization: string): Promise<TokenValidation> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const accessToken = bearer(authorization);
+                let payload;
+                try {
+                    payload = verify(accessToken, this.config.tokens.secret);
+                } catch (e) {
+                    return resolve(null);
+                }
+                // tokens of OAuth clients are validated by OAuthService
+                if (payload.cid || !await this.repository.isActive(payload.fam)) {
+                    return resolve(null);
+                }
+                const user = await this.users.getById(payload.sub);
+                resolve(user ? {user, accessToken, expiresIn: payload.exp - Math.floor(Date.now() / 1000)} : null);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public refresh(refreshToken: string): Promise<TokenData> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const token = await this.repository.getByHash(LocalTokenService.hash(refreshToken));
+                if (!token || token.expires.getTime() <= Date.now()) {
+                    throw new Error(ERROR_TOKEN_INVALID);
+                }
+                if (token.revoked || !await this.repository.revoke(token.id)) {
+                    // rotated token is used again, credentials of the family may be stolen
+                    await this.repository.revokeFamily(token.family);
+                    throw new Error(ERROR_TOKEN_REVOKED);
+                }
+                const user = await this.users.getById(token.userId);
+                if (!user || !user.enabled || user.removed) {
+                    await this.repository.revokeFamily(token.family);
+                    throw new Error(ERROR_AUTH_USER_DISABLED);
+                }
+                resolve(await this.compile(user, token.family));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public revoke(refreshToken: string): Promise<void> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const token = await this.repository.getByHash(LocalTokenService.hash(refreshToken));
+                if (!token) {
+                    throw new Error(ERROR_TOKEN_INVALID);
+                }
+                await this.repository.revokeFamily(token.family);
+                resolve();
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public revokeUser(userId: number): Promise<number> {
+        return this.repository.revokeUser(userId);
+    }
+}
+
+/**
+ * Tokens of remote oauth provider config.services.provider
+ */
+export class ProviderTokenService implements ITokenService {
+    private get config(): Config {
+        return Service.getService<Config>(CONFIG_SERVICE);
+    }
+
+    public issue(user: UserEntity): Promise<TokenData> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const provider = this.config.services.provider;
+                const credentials = await Service.fetchJSON(`${provider}/api/v1/credentials?domain=${this.config.app.domain}&client_id=${user.email}`);
+                const auth = new oauth({
+                    clientId: credentials.client_id,
+                    clientSecret: credentials.client_secret,
+                    accessTokenUri: `${provider}/api/v1/token`,
+                    authorizationUri: `${provider}/api/v1/authorize`,
+                    redirectUri: `//${this.config.app.domain}:${this.config.app.port}/api/v1/auth/callback`,
+                    scopes: [TOKEN_SCOPE],
+                    state: "xyz"
+                });
+                const callback = await Service.fetchJSON(auth.code.getUri(), {method: "GET"});
+                const token: Token = await auth.code.getToken(callback.originalUrl, {
+                    query: {
+                        "client_id": credentials.client_id,
+                        "client_secret": credentials.client_secret
+                    }
+                });
+                resolve(token.data as unknown as TokenData);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public validate(authorization: string): Promise<TokenValidation> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const r = await Service.fetchJSON(`${this.config.services.provider}/api/v1/validate`, {
+                    method: "GET",
+                    headers: {
+                        "Content-Type": "application/json",
+                        "Authorization": `${TOKEN_TYPE} ${bearer(authorization)}`
+                    }
+                });
+                if (typeof r === "string" || !r["user_id"]) {
+                    return resolve(null);
+                }
+                const user = await Service.getService<IUserServiceRepository>(USER_REPOSITORY_SERVICE).getByName(r["user_id"]);
+                resolve(user ? {user, accessToken: r["access_token"], expiresIn: r["expires_in"]} : null);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public refresh(): Promise<TokenData> {
+        return Promise.reject(new Error(ERROR_TOKEN_NOT_SUPPORTED));
+    }
+
+    public revoke(): Promise<void> {
+        return Promise.reject(new Error(ERROR_TOKEN_NOT_SUPPORTED));
+    }
+
+    // provider tokens are not stored by the app, nothing to revoke
+    public revokeUser(): Promise<number> {
+        return Promise.resolve(0);
+    }
+}
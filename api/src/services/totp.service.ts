@@ -0,0 +1,38 @@
+import speakeasy from "speakeasy";
+import Passport2faTotp from "passport-2fa-totp";
+
+const GoogleAuthenticator = Passport2faTotp.GoogeAuthenticator;
+
+/**
+ * secret of user and QR code of it for authenticator app
+ */
+export interface TotpRegistration {
+    secret: string
+    qr:     string
+}
+
+/**
+ * TOTP Service interface for binding
+ */
+export interface ITotpService {
+    register(email: string): TotpRegistration
+    // false when code is not current code of secret
+    verify(secret: string, code: string): boolean
+}
+
+/**
+ * Time-based one-time codes of Google Authenticator compatible apps
+ */
+export class TotpService implements ITotpService {
+    public register(email: string): TotpRegistration {
+        const qrInfo = GoogleAuthenticator.register(email);
+        return {secret: qrInfo.secret, qr: qrInfo.qr};
+    }
+
+    public verify(secret: string, code: string): boolean {
+        if (!secret) {
+            return false;
+        }
+        return speakeasy.totp.verify({secret, encoding: "base32", token: code});
+    }
+}
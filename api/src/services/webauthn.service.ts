@@ -0,0 +1,250 @@
+import crypto from "crypto";
+import express from "express";
+import {Service} from "./app.service";
+import {CONFIG_SERVICE, WEBAUTHN_REPOSITORY_SERVICE} from "./app.constants";
+import {Config} from "../util/secrets";
+import {IWebAuthnCredentialServiceRepository} from "../db/interfaces/webauthn.credential.interface";
+import {PublicWebAuthnCredential, WebAuthnCredentialEntity} from "../db/entities/webauthn.credential.entity";
+import {UserEntity} from "../db/entities/users.entity";
+import {
+    COSE_ALGORITHMS,
+    ERROR_WEBAUTHN_INVALID,
+    fromBase64Url,
+    toBase64Url,
+    verifyAssertion,
+    verifyRegistration,
+    WebAuthnExpectation
+} from "../util/webauthn";
+
+export const ERROR_WEBAUTHN_REGISTERED = "authenticator is already registered";
+
+/**
+ * PublicKeyCredential as serialized by client, binary fields are base64url
+ */
+export interface WebAuthnCredentialResponse {
+    id:          string
+    type?:       string
+    transports?: string[]
+    response: {
+        clientDataJSON:     string
+        attestationObject?: string
+        authenticatorData?: string
+        signature?:         string
+        userHandle?:        string
+    }
+}
+
+/**
+ * authenticator of user the options refer to
+ */
+export type WebAuthnCredentialDescriptor = {
+    type:        string
+    id:          string
+    transports?: string[]
+};
+
+/**
+ * options of navigator.credentials.create() or navigator.credentials.get(), binary fields are base64url
+ */
+export type WebAuthnOptions = {
+    challenge: string
+    timeout:   number
+    // navigator.credentials.create()
+    rp?:                     {id: string, name: string}
+    user?:                   {id: string, name: string, displayName: string}
+    pubKeyCredParams?:       {type: string, alg: number}[]
+    excludeCredentials?:     WebAuthnCredentialDescriptor[]
+    authenticatorSelection?: {userVerification: string}
+    attestation?:            string
+    // navigator.credentials.get()
+    rpId?:             string
+    allowCredentials?: WebAuthnCredentialDescriptor[]
+    userVerification?: string
+};
+
+export const toPublicCredential = (credential: WebAuthnCredentialEntity): PublicWebAuthnCredential => {
+    return {
+        id:         credential.id,
+        name:       credential.name,
+        transports: credential.transports,
+        lastUsed:   credential.lastUsed || null,
+        created:    credential.created
+    };
+};
+
+export const WEBAUTHN_PURPOSE_REGISTER = "register";
+export const WEBAUTHN_PURPOSE_LOGIN = "login";
+
+/**
+ * keep challenge of options in session of client until it is answered or expires
+ * @param req
+ * @param purpose registration or login
+ * @param userId
+ * @param options
+ */
+export const keepChallenge = (req: express.Request, purpose: string, userId: number, options: WebAuthnOptions): void => {
+    req.session.webauthn = {purpose, userId, challenge: options.challenge, expires: Date.now() + options.timeout};
+};
+
+/**
+ * challenge kept for purpose and user, it is removed so every challenge is answered once
+ * @param req
+ * @param purpose
+ * @param userId
+ */
+export const takeChallenge = (req: express.Request, purpose: string, userId: number): string | null => {
+    const kept = req.session && req.session.webauthn;
+    if (!kept) {
+        return null;
+    }
+    delete req.session.webauthn;
+    return kept.purpose === purpose && kept.userId === userId && kept.expires > Date.now() ? kept.challenge : null;
+};
+
+/**
+ * WebAuthn Service interface for binding
+ */
+export interface IWebAuthnService {
+    // options for registration of new authenticator of user, challenge must be kept until register
+    registrationOptions(user: UserEntity): Promise<WebAuthnOptions>
+    register(user: UserEntity, credential: WebAuthnCredentialResponse, challenge: string, name?: string): Promise<WebAuthnCredentialEntity>
+    // options for assertion by any authenticator of user, challenge must be kept until verify
+    assertionOptions(userId: number): Promise<WebAuthnOptions>
+    // false when assertion is not signed by authenticator of user for challenge
+    verify(userId: number, credential: WebAuthnCredentialResponse, challenge: string): Promise<boolean>
+    list(userId: number): Promise<WebAuthnCredentialEntity[]>
+    remove(userId: number, id: number): Promise<boolean>
+    // remove authenticators of user when 2FA is reset
+    removeUser(userId: number): Promise<number>
+}
+
+/**
+ * Hardware keys and passkeys as second factor, see util/webauthn for verification
+ */
+export class WebAuthnService implements IWebAuthnService {
+    private get config(): Config {
+        return Service.getService<Config>(CONFIG_SERVICE);
+    }
+    private get repository(): IWebAuthnCredentialServiceRepository {
+        return Service.getService<IWebAuthnCredentialServiceRepository>(WEBAUTHN_REPOSITORY_SERVICE);
+    }
+
+    private expectation(challenge: string): WebAuthnExpectation {
+        return {
+            challenge,
+            origin:           this.config.webauthn.origin,
+            rpId:             this.config.webauthn.rpId,
+            userVerification: this.config.webauthn.userVerification
+        };
+    }
+
+    private static challenge(): string {
+        return toBase64Url(crypto.randomBytes(32));
+    }
+
+    public registrationOptions(user: UserEntity): Promise<WebAuthnOptions> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const credentials = await this.repository.list(user.id);
+                resolve({
+                    challenge: WebAuthnService.challenge(),
+                    timeout:   this.config.webauthn.timeout,
+                    rp:        {id: this.config.webauthn.rpId, name: this.config.webauthn.rpName},
+                    user:      {id: toBase64Url(Buffer.from(String(user.id))), name: user.email, displayName: user.username},
+                    pubKeyCredParams: COSE_ALGORITHMS.map(alg => ({type: "public-key", alg})),
+                    // authenticator registered once per user
+                    excludeCredentials: credentials.map(c => ({type: "public-key", id: c.credentialId, transports: c.transports})),
+                    authenticatorSelection: {
+                        userVerification: this.config.webauthn.userVerification ? "required" : "preferred"
+                    },
+                    attestation: "none"
+                });
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public register(user: UserEntity, credential: WebAuthnCredentialResponse, challenge: string, name?: string): Promise<WebAuthnCredentialEntity> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                if (!credential || !credential.response || !credential.response.attestationObject) {
+                    throw new Error(ERROR_WEBAUTHN_INVALID);
+                }
+                const verified = verifyRegistration(
+                    fromBase64Url(credential.response.attestationObject),
+                    fromBase64Url(credential.response.clientDataJSON),
+                    this.expectation(challenge)
+                );
+                if (await this.repository.getByCredentialId(verified.credentialId)) {
+                    throw new Error(ERROR_WEBAUTHN_REGISTERED);
+                }
+                resolve(await this.repository.create(new WebAuthnCredentialEntity(null, user.id, verified.credentialId,
+                    verified.publicKey, verified.signCount, Array.isArray(credential.transports) ? credential.transports : [],
+                    name || "authenticator")));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public assertionOptions(userId: number): Promise<WebAuthnOptions> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const credentials = await this.repository.list(userId);
+                resolve({
+                    challenge: WebAuthnService.challenge(),
+                    timeout:   this.config.webauthn.timeout,
+                    rpId:      this.config.webauthn.rpId,
+                    allowCredentials: credentials.map(c => ({type: "public-key", id: c.credentialId, transports: c.transports})),
+                    userVerification: this.config.webauthn.userVerification ? "required" : "preferred"
+                });
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public verify(userId: number, credential: WebAuthnCredentialResponse, challenge: string): Promise<boolean> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                if (!credential || !credential.id || !credential.response) {
+                    return resolve(false);
+                }
+                const stored = await this.repository.getByCredentialId(credential.id);
+                if (!stored || stored.userId !== userId) {
+                    return resolve(false);
+                }
+                let signCount: number;
+                try {
+                    signCount = verifyAssertion(
+                        fromBase64Url(credential.response.authenticatorData),
+                        fromBase64Url(credential.response.clientDataJSON),
+                        fromBase64Url(credential.response.signature),
+                        stored.publicKey,
+                        stored.signCount,
+                        this.expectation(challenge)
+                    );
+                } catch (e) {
+                    return resolve(false);
+                }
+                await this.repository.used(stored.id, signCount);
+                resolve(true);
+            } catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    public list(userId: number): Promise<WebAuthnCredentialEntity[]> {
+        return this.repository.list(userId);
+    }
+
+    public remove(userId: number, id: number): Promise<boolean> {
+        return this.repository.remove(userId, id);
+    }
+
+    public removeUser(userId: number): Promise<number> {
+        return this.repository.removeUser(userId);
+    }
+}
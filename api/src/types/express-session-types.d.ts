@@ -8,5 +8,19 @@ import session from "api/src/types/express-session-types";
 declare module "express-session" {
     export interface SessionData {
         returnTo: string;
+        // user id serialized by passport
+        passport?: {user: number};
+        // user of passport.user who passed 2FA, session is signed in only since then, see passSecondFactor
+        secondFactor?: number;
+        // device of session, see describeSession
+        ip?:        string;
+        userAgent?: string;
+        signedIn?:  number;
+        // challenge of WebAuthn options until it is answered, see keepChallenge
+        webauthn?: {purpose: string, userId: number, challenge: string, expires: number};
+        // sign in with identity provider until it redirects back, see keepAuthorization
+        oidc?: {provider: string, state: string, nonce: string, verifier: string, expires: number};
+        // superadmin of passport.user acts as other user until expires, see startImpersonation
+        impersonation?: {actorId: number, userId: number, roles: number[], expires: number};
     }
 }
@@ -0,0 +1,79 @@
+import express from "express";
+import {Service} from "../services/app.service";
+import {AUDIT_REPOSITORY_SERVICE} from "../services/app.constants";
+import {IAuditServiceRepository} from "../db/interfaces/audit.interface";
+import {AuditChange, AuditEntity, AuditSnapshot} from "../db/entities/audit.entity";
+import {UserEntity} from "../db/entities/users.entity";
+import {impersonation} from "../services/session.service";
+import logger from "./logger";
+
+// credentials never reach the audit log
+const HIDDEN_FIELDS = ["password", "secret", "passwordResetToken", "passwordResetExpires", "emailVerifyToken", "emailVerifyExpires"];
+
+/**
+ * plain copy of entity without methods and credentials
+ * @param entity
+ */
+export const snapshot = (entity: unknown): AuditSnapshot => {
+    if (!entity) {
+        return null;
+    }
+    const copy = JSON.parse(JSON.stringify(entity));
+    HIDDEN_FIELDS.forEach(field => delete copy[field]);
+    return copy;
+};
+
+/**
+ * fields changed between snapshots
+ * @param before
+ * @param after
+ */
+export const diff = (before: AuditSnapshot, after: AuditSnapshot): {[field: string]: AuditChange} => {
+    const changes: {[field: string]: AuditChange} = {};
+    const fields = Object.keys(before || {}).concat(Object.keys(after || {}));
+    fields.forEach(field => {
+        const previous = before && before[field] !== undefined ? before[field] : null;
+        const next = after && after[field] !== undefined ? after[field] : null;
+        if (JSON.stringify(previous) !== JSON.stringify(next)) {
+            changes[field] = {before: previous, after: next};
+        }
+    });
+    return changes;
+};
+
+/**
+ * write audit log entry of request caller, failures are logged and never break the request
+ * @param req
+ * @param entity e.g. user
+ * @param action e.g. update
+ * @param entityId
+ * @param before entity before the change
+ * @param after entity after the change
+ * @param actorId caller when request is not authenticated yet, e.g. signin
+ */
+export const audit = (req: express.Request, entity: string, action: string, entityId: number,
+                      before: unknown = null, after: unknown = null, actorId: number = null): Promise<AuditEntity> => {
+    const previous = snapshot(before);
+    const next = snapshot(after);
+    const user = req.user as UserEntity;
+    // superadmin impersonating user is actor of entry
+    const impersonated = impersonation(req);
+    return Service.getService<IAuditServiceRepository>(AUDIT_REPOSITORY_SERVICE)
+        .create(new AuditEntity(
+            undefined,
+            impersonated ? impersonated.actorId : user ? user.id : actorId,
+            req.ip,
+            entity,
+            entityId,
+            action,
+            previous,
+            next,
+            diff(previous, next),
+            undefined,
+            impersonated ? impersonated.userId : null
+        ))
+        .catch(e => {
+            logger.error(`audit.${entity}.${action} ${e.message}`);
+            return null;
+        });
+};
@@ -0,0 +1,44 @@
+import crypto from "crypto";
+import fs from "fs";
+
+// most common passwords of public breach corpora, used when no list file is configured
+export const COMMON_PASSWORDS = [
+    "123456", "123456789", "12345678", "password", "qwerty", "123123", "12345", "1234567890", "1234567", "111111",
+    "000000", "qwerty123", "1q2w3e4r", "abc123", "password1", "123321", "654321", "666666", "987654321", "121212",
+    "iloveyou", "qwertyuiop", "1qaz2wsx", "aa123456", "dragon", "monkey", "princess", "sunshine", "football", "baseball",
+    "welcome", "welcome1", "admin", "admin123", "letmein", "master", "login", "starwars", "passw0rd", "trustno1",
+    "superman", "shadow", "michael", "charlie", "jennifer", "hunter2", "zaq12wsx", "asdfghjkl", "qazwsx", "1q2w3e",
+    "1q2w3e4r5t", "q1w2e3r4", "q1w2e3r4t5y6", "p@ssw0rd", "p@ssword", "Password1", "Password123", "password123",
+    "Passw0rd!", "Qwerty123!", "Welcome1!", "changeme", "default", "secret", "access", "whatever", "freedom", "matrix",
+    "computer", "internet", "samsung", "pokemon", "liverpool", "chelsea", "arsenal", "soccer", "hockey", "killer",
+    "ashley", "bailey", "buster", "daniel", "jessica", "jordan", "thomas", "andrew", "tigger", "ginger", "pepper",
+    "summer", "flower", "cookie", "banana", "orange", "chocolate", "blink182", "zxcvbnm", "zxcvbnm123", "asdf1234",
+    "11111111", "88888888", "12341234", "123qwe", "qwe123", "1234qwer", "qwer1234", "abcd1234", "a1b2c3d4", "987654"
+];
+
+/**
+ * uppercase hex SHA-1 as published by breached password lists
+ * @param password
+ */
+export const sha1Hex = (password: string): string => {
+    return crypto.createHash("sha1").update(password).digest("hex").toUpperCase();
+};
+
+/**
+ * SHA-1 hashes of breached passwords of list file, one password or SHA-1 hash (optionally as "HASH:count") per line,
+ * built-in common passwords when file is not set
+ * @param file
+ */
+export const loadBreachedList = (file?: string): Set<string> => {
+    const lines = file ? fs.readFileSync(file, "utf8").split(/\r?\n/) : COMMON_PASSWORDS;
+    const hashes = new Set<string>();
+    for (const line of lines) {
+        const entry = line.trim();
+        if (!entry) {
+            continue;
+        }
+        const hash = entry.split(":")[0];
+        hashes.add(/^[0-9a-fA-F]{40}$/.test(hash) ? hash.toUpperCase() : sha1Hex(entry));
+    }
+    return hashes;
+};
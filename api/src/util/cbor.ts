@@ -0,0 +1,108 @@
+/**
+ * Minimal CBOR (RFC 8949) decoder for WebAuthn attestation objects and COSE keys:
+ * integers, byte and text strings, arrays, maps, simple values, definite lengths only
+ */
+
+export const ERROR_CBOR = "invalid cbor";
+
+/**
+ * Decoded item, byte strings are buffers, keys of COSE maps are integers
+ */
+export type CborValue = number | string | boolean | null | Buffer | CborValue[] | Map<CborValue, CborValue>;
+
+interface Decoded {
+    value: CborValue
+    offset: number
+}
+
+const length = (buffer: Buffer, info: number, offset: number): {value: number, offset: number} => {
+    if (info < 24) {
+        return {value: info, offset};
+    }
+    switch (info) {
+        case 24:
+            return {value: buffer.readUInt8(offset), offset: offset + 1};
+        case 25:
+            return {value: buffer.readUInt16BE(offset), offset: offset + 2};
+        case 26:
+            return {value: buffer.readUInt32BE(offset), offset: offset + 4};
+        case 27:
+            return {value: buffer.readUInt32BE(offset) * 0x100000000 + buffer.readUInt32BE(offset + 4), offset: offset + 8};
+        default:
+            throw new Error(ERROR_CBOR);
+    }
+};
+
+const item = (buffer: Buffer, offset: number): Decoded => {
+    if (offset >= buffer.length) {
+        throw new Error(ERROR_CBOR);
+    }
+    const initial = buffer.readUInt8(offset);
+    const major = initial >> 5;
+    const header = length(buffer, initial & 0x1f, offset + 1);
+    let next = header.offset;
+    switch (major) {
+        case 0:
+            return {value: header.value, offset: next};
+        case 1:
+            return {value: -1 - header.value, offset: next};
+        case 2:
+        case 3: {
+            if (next + header.value > buffer.length) {
+                throw new Error(ERROR_CBOR);
+            }
+            const bytes = buffer.slice(next, next + header.value);
+            return {value: major === 2 ? Buffer.from(bytes) : bytes.toString("utf8"), offset: next + header.value};
+        }
+        case 4: {
+            const array: CborValue[] = [];
+            for (let i = 0; i < header.value; i++) {
+                const element = item(buffer, next);
+                array.push(element.value);
+                next = element.offset;
+            }
+            return {value: array, offset: next};
+        }
+        case 5: {
+            // keys of COSE maps are integers, so Map keeps them as they are
+            const map = new Map<CborValue, CborValue>();
+            for (let i = 0; i < header.value; i++) {
+                const key = item(buffer, next);
+                const value = item(buffer, key.offset);
+                map.set(key.value, value.value);
+                next = value.offset;
+            }
+            return {value: map, offset: next};
+        }
+        case 7:
+            switch (initial & 0x1f) {
+                case 20: return {value: false, offset: next};
+                case 21: return {value: true, offset: next};
+                case 22: return {value: null, offset: next};
+                default: throw new Error(ERROR_CBOR);
+            }
+        default:
+            throw new Error(ERROR_CBOR);
+    }
+};
+
+/**
+ * decode first item of buffer, offset is end of the item, e.g. start of extensions after COSE key
+ * @param buffer
+ * @param offset
+ */
+export const decodeFirst = (buffer: Buffer, offset = 0): Decoded => {
+    return item(buffer, offset);
+};
+
+/**
+ * decode buffer holding exactly one item
+ * @param buffer
+ */
+export const decode = (buffer: Buffer): CborValue => {
+    const decoded = item(buffer, 0);
+    if (decoded.offset !== buffer.length) {
+        throw new Error(ERROR_CBOR);
+    }
+    return decoded.value;
+};
@@ -0,0 +1,84 @@
+import crypto from "crypto";
+import {ERROR_TOKEN_EXPIRED, ERROR_TOKEN_INVALID} from "../controllers/auth/auth.error.codes";
+
+/**
+ * Claims of access token
+ */
+export interface JWTPayload {
+    // user id
+    sub:    number
+    // refresh token family the access token was issued with, tokens of OAuth clients have none
+    fam?:   string
+    // OAuth client the access token was issued to
+    cid?:   string
+    scope:  string
+    jti?:   string
+    iat?:   number
+    exp?:   number
+}
+
+/**
+ * Header of token
+ */
+export interface JWTHeader {
+    alg: string
+    typ: string
+}
+
+const HEADER: JWTHeader = {alg: "HS256", typ: "JWT"};
+
+const base64url = (value: Buffer): string => {
+    return value.toString("base64").replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+};
+
+const encode = (value: JWTHeader | JWTPayload): string => base64url(Buffer.from(JSON.stringify(value)));
+
+// header or claims as sent, they are checked by verify
+const decode = (part: string): Partial<JWTHeader & JWTPayload> => {
+    return JSON.parse(Buffer.from(part.replace(/-/g, "+").replace(/_/g, "/"), "base64").toString());
+};
+
+const signature = (data: string, secret: string): string => base64url(crypto.createHmac("sha256", secret).update(data).digest());
+
+/**
+ * HS256 signed token expiring in ttl seconds
+ * @param payload
+ * @param secret
+ * @param ttl seconds
+ */
+export const sign = (payload: JWTPayload, secret: string, ttl: number): string => {
+    const iat = Math.floor(Date.now() / 1000);
+    const data = `${encode(HEADER)}.${encode({...payload, jti: crypto.randomBytes(8).toString("hex"), iat, exp: iat + ttl})}`;
+    return `${data}.${signature(data, secret)}`;
+};
+
+/**
+ * claims of token with valid signature, otherwise error is thrown
+ * @param token
+ * @param secret
+ */
+export const verify = (token: string, secret: string): JWTPayload => {
+    const parts = (token || "").split(".");
+    if (parts.length !== 3) {
+        throw new Error(ERROR_TOKEN_INVALID);
+    }
+    const expected = Buffer.from(signature(`${parts[0]}.${parts[1]}`, secret));
+    const actual = Buffer.from(parts[2]);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        throw new Error(ERROR_TOKEN_INVALID);
+    }
+    let header: Partial<JWTHeader>, payload: Partial<JWTPayload>;
+    try {
+        header = decode(parts[0]);
+        payload = decode(parts[1]);
+    } catch (e) {
+        throw new Error(ERROR_TOKEN_INVALID);
+    }
+    if (header.alg !== HEADER.alg || !payload.sub) {
+        throw new Error(ERROR_TOKEN_INVALID);
+    }
+    if (!payload.exp || payload.exp <= Math.floor(Date.now() / 1000)) {
+        throw new Error(ERROR_TOKEN_EXPIRED);
+    }
+    return payload as JWTPayload;
+};
@@ -0,0 +1,114 @@
+import {pkceChallenge} from "./oidc";
+import {UserEntity} from "../db/entities/users.entity";
+
+// error codes of RFC 6749 returned to clients as error field
+export const OAUTH_ERROR_INVALID_REQUEST = "invalid_request";
+export const OAUTH_ERROR_INVALID_CLIENT = "invalid_client";
+export const OAUTH_ERROR_INVALID_GRANT = "invalid_grant";
+export const OAUTH_ERROR_UNAUTHORIZED_CLIENT = "unauthorized_client";
+export const OAUTH_ERROR_UNSUPPORTED_GRANT_TYPE = "unsupported_grant_type";
+export const OAUTH_ERROR_UNSUPPORTED_RESPONSE_TYPE = "unsupported_response_type";
+export const OAUTH_ERROR_INVALID_SCOPE = "invalid_scope";
+export const OAUTH_ERROR_ACCESS_DENIED = "access_denied";
+
+export const OAUTH_GRANT_AUTHORIZATION_CODE = "authorization_code";
+export const OAUTH_GRANT_CLIENT_CREDENTIALS = "client_credentials";
+export const OAUTH_GRANTS = [OAUTH_GRANT_AUTHORIZATION_CODE, OAUTH_GRANT_CLIENT_CREDENTIALS];
+
+/**
+ * Rejected request of OAuth client, error is code of RFC 6749 and message describes it
+ */
+export class OAuthError extends Error {
+    constructor(public readonly error: string, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Credentials of client from Basic Authorization header or from body
+ */
+export interface ClientCredentials {
+    clientId:     string
+    clientSecret: string
+}
+
+/**
+ * credentials of Basic Authorization header, client id and secret are form encoded (RFC 6749 2.3.1)
+ * @param authorization
+ */
+export const basicCredentials = (authorization: string): ClientCredentials | null => {
+    const match = /^Basic\s+(\S+)$/i.exec(authorization || "");
+    if (!match) {
+        return null;
+    }
+    const decoded = Buffer.from(match[1], "base64").toString();
+    const separator = decoded.indexOf(":");
+    if (separator === -1) {
+        return null;
+    }
+    try {
+        return {
+            clientId:     decodeURIComponent(decoded.slice(0, separator).replace(/\+/g, " ")),
+            clientSecret: decodeURIComponent(decoded.slice(separator + 1).replace(/\+/g, " "))
+        };
+    } catch (e) {
+        return null;
+    }
+};
+
+/**
+ * unique scopes of space delimited scope parameter
+ * @param scope
+ */
+export const parseScope = (scope: string): string[] => {
+    return (scope || "").split(" ").filter((value, index, values) => !!value && values.indexOf(value) === index);
+};
+
+/**
+ * scopes granted to client acting for user with roles: requested ones or all scopes of client when nothing is requested,
+ * scopes mapped to none of roles are left out
+ * @param requested
+ * @param allowed scopes of client
+ * @param roles roles of user
+ * @param mapping roles of every scope, see config.oauth.scopes
+ */
+export const grantScopes = (requested: string[], allowed: string[], roles: number[], mapping: {[scope: string]: number[]}): string[] => {
+    const unknown = requested.filter(scope => allowed.indexOf(scope) === -1 || !mapping[scope]);
+    if (unknown.length) {
+        throw new OAuthError(OAUTH_ERROR_INVALID_SCOPE, `scope ${unknown.join(" ")} is not allowed`);
+    }
+    const granted = (requested.length ? requested : allowed)
+        .filter(scope => (mapping[scope] || []).some(roleId => roles.indexOf(roleId) !== -1));
+    if (!granted.length) {
+        throw new OAuthError(OAUTH_ERROR_INVALID_SCOPE, "no scope is granted to roles of user");
+    }
+    return granted;
+};
+
+/**
+ * roles of user the token acts with, only roles mapped to granted scopes are kept
+ * @param scopes
+ * @param roles roles of user
+ * @param mapping
+ */
+export const scopeRoles = (scopes: string[], roles: number[], mapping: {[scope: string]: number[]}): number[] => {
+    return roles.filter(roleId => scopes.some(scope => (mapping[scope] || []).indexOf(roleId) !== -1));
+};
+
+/**
+ * copy of user acting only with roles, methods of entity are kept
+ * @param user
+ * @param roles
+ */
+export const scopedUser = (user: UserEntity, roles: number[]): UserEntity => {
+    return Object.assign(Object.create(Object.getPrototypeOf(user)), user, {roles});
+};
+
+/**
+ * PKCE code verifier of 43 to 128 unreserved characters matches S256 challenge (RFC 7636)
+ * @param verifier
+ * @param challenge
+ */
+export const verifyChallenge = (verifier: string, challenge: string): boolean => {
+    return /^[A-Za-z0-9._~-]{43,128}$/.test(verifier || "") && pkceChallenge(verifier) === challenge;
+};
@@ -0,0 +1,141 @@
+import crypto from "crypto";
+import {fromBase64Url, toBase64Url} from "./webauthn";
+
+export const ERROR_OIDC_INVALID_TOKEN = "invalid id token";
+export const ERROR_OIDC_ALGORITHM = "id token algorithm is not supported";
+
+// clocks of provider and app may differ by this number of seconds
+const CLOCK_SKEW = 60;
+
+// digest and signature encoding of supported JWS algorithms
+const ALGORITHMS: {[alg: string]: {digest: string, ecdsa: boolean}} = {
+    RS256: {digest: "sha256", ecdsa: false},
+    RS384: {digest: "sha384", ecdsa: false},
+    RS512: {digest: "sha512", ecdsa: false},
+    ES256: {digest: "sha256", ecdsa: true},
+    ES384: {digest: "sha384", ecdsa: true}
+};
+
+/**
+ * Public key of provider as published by its jwks_uri
+ */
+export interface Jwk {
+    kty:  string
+    kid?: string
+    use?: string
+    alg?: string
+    [parameter: string]: unknown
+}
+
+/**
+ * JOSE header of ID token
+ */
+interface IdTokenHeader {
+    alg:  string
+    kid?: string
+    typ?: string
+}
+
+/**
+ * Claims of ID token used to sign in
+ */
+export interface IdTokenClaims {
+    iss:   string
+    sub:   string
+    aud:   string | string[]
+    exp:   number
+    iat?:  number
+    azp?:  string
+    nonce?: string
+    email?: string
+    email_verified?: boolean | string
+    name?: string
+    preferred_username?: string
+}
+
+/**
+ * Issuer, client and nonce the ID token must be issued for
+ */
+export interface IdTokenExpectation {
+    issuer:   string
+    audience: string
+    nonce:    string
+}
+
+/**
+ * random url safe value of state, nonce and PKCE code verifier
+ */
+export const randomToken = (): string => toBase64Url(crypto.randomBytes(32));
+
+/**
+ * S256 PKCE code challenge of code verifier (RFC 7636)
+ * @param verifier
+ */
+export const pkceChallenge = (verifier: string): string => {
+    return toBase64Url(crypto.createHash("sha256").update(verifier).digest());
+};
+
+const decodePart = (part: string): unknown => {
+    try {
+        return JSON.parse(fromBase64Url(part).toString());
+    } catch (e) {
+        throw new Error(ERROR_OIDC_INVALID_TOKEN);
+    }
+};
+
+/**
+ * claims of ID token signed by one of keys and issued as expected, otherwise error is thrown
+ * @param token
+ * @param keys
+ * @param expected
+ */
+export const verifyIdToken = (token: string, keys: Jwk[], expected: IdTokenExpectation): IdTokenClaims => {
+    const parts = (token || "").split(".");
+    if (parts.length !== 3) {
+        throw new Error(ERROR_OIDC_INVALID_TOKEN);
+    }
+    const header = decodePart(parts[0]) as IdTokenHeader;
+    const algorithm = ALGORITHMS[header.alg];
+    if (!algorithm) {
+        throw new Error(ERROR_OIDC_ALGORITHM);
+    }
+    const candidates = keys.filter(key => (!header.kid || key.kid === header.kid) && (!key.use || key.use === "sig"));
+    if (candidates.length === 0) {
+        throw new Error(ERROR_OIDC_INVALID_TOKEN);
+    }
+    const data = Buffer.from(`${parts[0]}.${parts[1]}`);
+    const signature = fromBase64Url(parts[2]);
+    const signed = candidates.some(jwk => {
+        try {
+            // @types/node of this repo does not know jwk key format
+            const key = crypto.createPublicKey({key: jwk, format: "jwk"} as unknown as crypto.PublicKeyInput);
+            return crypto.verify(algorithm.digest, data, algorithm.ecdsa ? {key, dsaEncoding: "ieee-p1363"} : key, signature);
+        } catch (e) {
+            return false;
+        }
+    });
+    if (!signed) {
+        throw new Error(ERROR_OIDC_INVALID_TOKEN);
+    }
+    const claims = decodePart(parts[1]) as IdTokenClaims;
+    const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    const now = Math.floor(Date.now() / 1000);
+    if (claims.iss !== expected.issuer || audience.indexOf(expected.audience) === -1 || !claims.sub) {
+        throw new Error(ERROR_OIDC_INVALID_TOKEN);
+    }
+    if (audience.length > 1 && claims.azp !== expected.audience) {
+        throw new Error(ERROR_OIDC_INVALID_TOKEN);
+    }
+    if (!claims.exp || claims.exp + CLOCK_SKEW <= now || claims.nonce !== expected.nonce) {
+        throw new Error(ERROR_OIDC_INVALID_TOKEN);
+    }
+    return claims;
+};
+
+/**
+ * providers send email_verified as boolean or as string
+ * @param claims
+ */
+export const emailVerified = (claims: IdTokenClaims): boolean => {
+    return !!claims.email && (claims.email_verified === true || claims.email_verified === "true");
+};
@@ -0,0 +1,113 @@
+import argon2 from "argon2";
+import bcrypt from "bcrypt-nodejs";
+import {Config, PASSWORD_HASH_BCRYPT} from "./secrets";
+
+/**
+ * Cost of argon2id hash: memory in KiB, iterations and lanes
+ */
+export interface Argon2Options {
+    memoryCost:  number
+    timeCost:    number
+    parallelism: number
+}
+
+/**
+ * Password hashing algorithm for binding, hashes of every algorithm are verified,
+ * new ones are created by algorithm of config.password.algorithm
+ */
+export interface IPasswordHasher {
+    // hash is created by this algorithm with any cost
+    recognizes(hash: string): boolean
+    hash(password: string): Promise<string>
+    verify(password: string, hash: string): Promise<boolean>
+    // hash of this algorithm has other cost than configured one
+    needsRehash(hash: string): boolean
+}
+
+/**
+ * cost of bcrypt hash, 0 when hash is of another algorithm
+ * @param hash
+ */
+export const bcryptCost = (hash: string): number => {
+    const match = /^\$2[abxy]?\$(\d{2})\$/.exec(hash || "");
+    return match ? Number(match[1]) : 0;
+};
+
+/**
+ * bcrypt hashes of users created before argon2id
+ */
+export class BcryptHasher implements IPasswordHasher {
+    constructor(private readonly cost: number) {
+    }
+
+    public recognizes(hash: string): boolean {
+        return bcryptCost(hash) > 0;
+    }
+
+    public hash(password: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            bcrypt.genSalt(this.cost, (e: Error, salt: string) => {
+                if (e) {
+                    return reject(e);
+                }
+                bcrypt.hash(password, salt, undefined, (e: Error, hash: string) => {
+                    if (e) {
+                        return reject(e);
+                    }
+                    resolve(hash);
+                });
+            });
+        });
+    }
+
+    public verify(password: string, hash: string): Promise<boolean> {
+        return new Promise((resolve, reject) => {
+            bcrypt.compare(password, hash, (e: Error, isMatch: boolean) => {
+                if (e) {
+                    return reject(e);
+                }
+                resolve(isMatch);
+            });
+        });
+    }
+
+    public needsRehash(hash: string): boolean {
+        return bcryptCost(hash) !== this.cost;
+    }
+}
+
+/**
+ * argon2id hashes encoded in PHC string format
+ */
+export class Argon2Hasher implements IPasswordHasher {
+    constructor(private readonly options: Argon2Options) {
+    }
+
+    public recognizes(hash: string): boolean {
+        return (hash || "").indexOf("$argon2id$") === 0;
+    }
+
+    public hash(password: string): Promise<string> {
+        return argon2.hash(password, {...this.options, type: argon2.argon2id});
+    }
+
+    public verify(password: string, hash: string): Promise<boolean> {
+        return argon2.verify(hash, password);
+    }
+
+    public needsRehash(hash: string): boolean {
+        return argon2.needsRehash(hash, this.options);
+    }
+}
+
+/**
+ * hashers of every supported algorithm, the first one is selected by config.password.algorithm
+ * @param config
+ */
+export const createPasswordHashers = (config: Config): IPasswordHasher[] => {
+    const bcryptHasher = new BcryptHasher(config.password.cost);
+    const argon2Hasher = new Argon2Hasher(config.password.argon2);
+    return config.password.algorithm === PASSWORD_HASH_BCRYPT
+        ? [bcryptHasher, argon2Hasher]
+        : [argon2Hasher, bcryptHasher];
+};
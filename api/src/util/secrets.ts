@@ -15,6 +15,72 @@ if (fs.existsSync(".env")) {
     dotenv.config({ path: ".env.example" });  // you can delete this after you create your own .env file!
 }
 
+export const TOKEN_PROVIDER_LOCAL = "local";
+export const TOKEN_PROVIDER_REMOTE = "remote";
+export const SESSION_STORE_MEMORY = "memory";
+export const SESSION_STORE_POSTGRES = "postgres";
+export const SESSION_STORE_REDIS = "redis";
+export const RATE_LIMIT_STORE_MEMORY = "memory";
+export const RATE_LIMIT_STORE_REDIS = "redis";
+export const MAIL_TRANSPORT_SMTP = "smtp";
+export const MAIL_TRANSPORT_FILE = "file";
+export const PASSWORD_HASH_ARGON2ID = "argon2id";
+export const PASSWORD_HASH_BCRYPT = "bcrypt";
+
+/**
+ * Number of requests allowed in window of seconds
+ */
+export interface RateLimitPolicy {
+    limit:  number;
+    window: number;
+}
+
+// policy of "<limit>/<window seconds>" env value, e.g. 10/900
+const ratePolicy = (value: string, defaults: RateLimitPolicy): RateLimitPolicy => {
+    const [limit, window] = (value || "").split("/").map(Number);
+    return {
+        limit:  limit > 0 ? limit : defaults.limit,
+        window: window > 0 ? window : defaults.window
+    };
+};
+
+/**
+ * OpenID Connect provider users sign in with, endpoints are discovered from issuer
+ */
+export interface OidcProvider {
+    label:        string;
+    issuer:       string;
+    clientId:     string;
+    clientSecret: string;
+    scope:        string;
+}
+
+// providers of OIDC_PROVIDERS=<name,name> configured by OIDC_<NAME>_ISSUER, _CLIENT_ID, _CLIENT_SECRET, _SCOPE and _LABEL
+const oidcProviders = (names: string): {[name: string]: OidcProvider} => {
+    const providers: {[name: string]: OidcProvider} = {};
+    for (const name of (names || "").split(",").map(value => value.trim().toLowerCase()).filter(value => !!value)) {
+        const prefix = `OIDC_${name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_`;
+        providers[name] = {
+            label:        process.env[`${prefix}LABEL`] || name,
+            issuer:       process.env[`${prefix}ISSUER`],
+            clientId:     process.env[`${prefix}CLIENT_ID`],
+            clientSecret: process.env[`${prefix}CLIENT_SECRET`],
+            scope:        process.env[`${prefix}SCOPE`] || "openid email profile"
+        };
+    }
+    return providers;
+};
+
+// roles of scopes of OAUTH_SCOPES=<scope:role id|role id,scope:role id>, e.g. admin:1|2
+const oauthScopes = (value: string): {[scope: string]: number[]} => {
+    const scopes: {[scope: string]: number[]} = {};
+    for (const entry of (value || "").split(",").map(item => item.trim()).filter(item => !!item)) {
+        const [scope, roles] = entry.split(":");
+        scopes[scope.trim()] = (roles || "").split("|").map(Number).filter(roleId => roleId > 0);
+    }
+    return scopes;
+};
+
 export class Config {
     services: {
         [name: string]: string;
@@ -37,12 +103,95 @@ export class Config {
         email:    string;
         password: string;
     }
-    testUser: {
-        username: string;
-        email:    string;
-        password: string;
-        secret:   string;
-        code:     string;
+    retention: {
+        days:     number;
+        interval: number;
+    }
+    tokens: {
+        provider:   string;
+        secret:     string;
+        accessTtl:  number;
+        refreshTtl: number;
+    }
+    sessions: {
+        store:    string;
+        name:     string;
+        ttl:      number;
+        secure:   boolean;
+        sameSite: "lax" | "strict" | "none";
+    }
+    lockout: {
+        window:         number;
+        delay:          number;
+        duration:       number;
+        freeAttempts:   number;
+        threshold:      number;
+        ipFreeAttempts: number;
+        ipThreshold:    number;
+    }
+    rateLimit: {
+        enabled:  boolean;
+        store:    string;
+        policies: {[name: string]: RateLimitPolicy};
+    }
+    verification: {
+        required: boolean;
+        ttl:      number;
+    }
+    password: {
+        minLength:    number;
+        classes:      number;
+        history:      number;
+        breachedList: string;
+        algorithm:    string;
+        cost:         number;
+        argon2: {
+            memoryCost:  number;
+            timeCost:    number;
+            parallelism: number;
+        }
+    }
+    oidc: {
+        redirectUri: string;
+        signup:      boolean;
+        stateTtl:    number;
+        providers:   {[name: string]: OidcProvider};
+    }
+    oauth: {
+        issuer:    string;
+        codeTtl:   number;
+        accessTtl: number;
+        scopes:    {[scope: string]: number[]};
+    }
+    apiKeys: {
+        ttl: number;
+        max: number;
+    }
+    impersonation: {
+        ttl: number;
+    }
+    webauthn: {
+        rpId:             string;
+        rpName:           string;
+        origin:           string;
+        timeout:          number;
+        userVerification: boolean;
+    }
+    mail: {
+        transport:  string;
+        from:       string;
+        outbox:     string;
+        link:       string;
+        retries:    number;
+        retryDelay: number;
+        interval:   number;
+        smtp: {
+            host:     string;
+            port:     number;
+            secure:   boolean;
+            user:     string;
+            password: string;
+        }
     }
     constructor () {
         const databaseConfig = {
@@ -56,7 +205,7 @@ export class Config {
 
         this.connections = {
             database: databaseConfig,
-            // redis:    redisConfig,
+            redis:    process.env["REDIS_URL"] ? {url: process.env["REDIS_URL"]} : undefined,
             // mongodb:  mongodbConfig
         };
 
@@ -72,12 +221,136 @@ export class Config {
             password: process.env["DEFAULT_USER_PASSWORD"]
         };
 
-        this.testUser = {
-            username: process.env["TEST_USER_USERNAME"],
-            email:    process.env["TEST_USER_EMAIL"],
-            password: process.env["TEST_USER_PASSWORD"],
-            secret:   process.env["TEST_USER_SECRET"],
-            code:     process.env["TEST_USER_2FA_CODE"]
+        // removed records older than RETENTION_DAYS are purged every RETENTION_INTERVAL ms, 0 days (default) keeps them forever
+        this.retention = {
+            days:     Number(process.env["RETENTION_DAYS"] || 0),
+            interval: Number(process.env["RETENTION_INTERVAL"] || 24 * 60 * 60 * 1000)
+        };
+
+        // TOKEN_PROVIDER=local issues and validates tokens by the app itself, remote uses provider of PROVIDER_URL
+        this.tokens = {
+            provider:   process.env["TOKEN_PROVIDER"] || TOKEN_PROVIDER_REMOTE,
+            secret:     process.env["TOKEN_SECRET"] || process.env["SESSION_SECRET"],
+            accessTtl:  Number(process.env["ACCESS_TOKEN_TTL"] || 15 * 60),
+            refreshTtl: Number(process.env["REFRESH_TOKEN_TTL"] || 30 * 24 * 60 * 60)
+        };
+
+        // SESSION_STORE=postgres|redis keeps sessions across restarts and app instances, memory is for single process only
+        this.sessions = {
+            store:    process.env["SESSION_STORE"] || SESSION_STORE_POSTGRES,
+            name:     process.env["SESSION_NAME"] || "connect.sid",
+            ttl:      Number(process.env["SESSION_TTL"] || 24 * 60 * 60),
+            secure:   process.env["SESSION_COOKIE_SECURE"] ? process.env["SESSION_COOKIE_SECURE"] === "true" : process.env.NODE_ENV === "production",
+            sameSite: (process.env["SESSION_COOKIE_SAME_SITE"] || "lax") as "lax" | "strict" | "none"
+        };
+
+        // failed sign in and 2FA attempts of account and ip: after free attempts every next attempt waits
+        // twice longer starting from LOCKOUT_DELAY seconds, threshold of failures locks for LOCKOUT_DURATION seconds
+        this.lockout = {
+            window:         Number(process.env["LOCKOUT_WINDOW"] || 24 * 60 * 60),
+            delay:          Number(process.env["LOCKOUT_DELAY"] || 1),
+            duration:       Number(process.env["LOCKOUT_DURATION"] || 15 * 60),
+            freeAttempts:   Number(process.env["LOCKOUT_FREE_ATTEMPTS"] || 3),
+            threshold:      Number(process.env["LOCKOUT_THRESHOLD"] || 10),
+            ipFreeAttempts: Number(process.env["LOCKOUT_IP_FREE_ATTEMPTS"] || 20),
+            ipThreshold:    Number(process.env["LOCKOUT_IP_THRESHOLD"] || 100)
+        };
+
+        // RATE_LIMIT_<POLICY>=<limit>/<window seconds>, strict is for sign in, sign up and password recovery
+        this.rateLimit = {
+            enabled:  process.env["RATE_LIMIT_ENABLED"] !== "false",
+            store:    process.env["RATE_LIMIT_STORE"] || RATE_LIMIT_STORE_MEMORY,
+            policies: {
+                strict: ratePolicy(process.env["RATE_LIMIT_STRICT"], {limit: 10, window: 15 * 60}),
+                read:   ratePolicy(process.env["RATE_LIMIT_READ"], {limit: 300, window: 60}),
+                write:  ratePolicy(process.env["RATE_LIMIT_WRITE"], {limit: 60, window: 60})
+            }
+        };
+
+        // EMAIL_VERIFICATION_REQUIRED=true rejects sign in and 2FA of users who did not follow link sent at sign up,
+        // link expires in EMAIL_VERIFICATION_TTL seconds
+        this.verification = {
+            required: process.env["EMAIL_VERIFICATION_REQUIRED"] === "true",
+            ttl:      Number(process.env["EMAIL_VERIFICATION_TTL"] || 2 * 24 * 60 * 60)
+        };
+
+        // new passwords have PASSWORD_MIN_LENGTH characters of PASSWORD_CLASSES kinds of lower and upper case letters,
+        // digits and symbols, differ from PASSWORD_HISTORY last ones and are not in PASSWORD_BREACHED_LIST file,
+        // new hashes are of PASSWORD_HASH_ALGORITHM=argon2id|bcrypt, hashes of other algorithm or cost are replaced on sign in,
+        // PASSWORD_HASH_COST is bcrypt cost
+        this.password = {
+            minLength:    Number(process.env["PASSWORD_MIN_LENGTH"] || 8),
+            classes:      Number(process.env["PASSWORD_CLASSES"] || 2),
+            history:      Number(process.env["PASSWORD_HISTORY"] || 5),
+            breachedList: process.env["PASSWORD_BREACHED_LIST"],
+            algorithm:    process.env["PASSWORD_HASH_ALGORITHM"] || PASSWORD_HASH_ARGON2ID,
+            cost:         Number(process.env["PASSWORD_HASH_COST"] || 10),
+            argon2: {
+                memoryCost:  Number(process.env["PASSWORD_ARGON2_MEMORY"] || 64 * 1024),
+                timeCost:    Number(process.env["PASSWORD_ARGON2_TIME"] || 3),
+                parallelism: Number(process.env["PASSWORD_ARGON2_PARALLELISM"] || 4)
+            }
+        };
+
+        // users sign in with OIDC_PROVIDERS which redirect back to OIDC_REDIRECT_URI, identities are linked to users
+        // of the same verified email, OIDC_SIGNUP=false does not create users for other emails
+        this.oidc = {
+            redirectUri: process.env["OIDC_REDIRECT_URI"]
+                || `${process.env["MAIL_LINK_URL"] || `http://localhost:${process.env["SERVER_PORT"] || 3000}`}/api/v1/auth/callback`,
+            signup:      process.env["OIDC_SIGNUP"] !== "false",
+            stateTtl:    Number(process.env["OIDC_STATE_TTL"] || 10 * 60),
+            providers:   oidcProviders(process.env["OIDC_PROVIDERS"])
+        };
+
+        // the app is OAUTH_ISSUER authorization server of registered OAuth clients, code expires in OAUTH_CODE_TTL seconds,
+        // access token in OAUTH_ACCESS_TOKEN_TTL seconds, token acts only with roles of user mapped to its OAUTH_SCOPES
+        this.oauth = {
+            issuer:    process.env["OAUTH_ISSUER"] || process.env["MAIL_LINK_URL"] || `http://localhost:${process.env["SERVER_PORT"] || 3000}`,
+            codeTtl:   Number(process.env["OAUTH_CODE_TTL"] || 60),
+            accessTtl: Number(process.env["OAUTH_ACCESS_TOKEN_TTL"] || 60 * 60),
+            scopes:    oauthScopes(process.env["OAUTH_SCOPES"] || "user:3,manager:4,admin:2,superadmin:1")
+        };
+
+        // personal API keys expire in API_KEY_TTL days unless expiry is chosen, 0 keeps them until revoked,
+        // user has at most API_KEYS_MAX keys
+        this.apiKeys = {
+            ttl: Number(process.env["API_KEY_TTL"] || 90),
+            max: Number(process.env["API_KEYS_MAX"] || 20)
+        };
+
+        // superadmin acts as other user for IMPERSONATION_TTL seconds, then session returns to superadmin
+        this.impersonation = {
+            ttl: Number(process.env["IMPERSONATION_TTL"] || 60 * 60)
+        };
+
+        // authenticators are bound to WEBAUTHN_RP_ID domain and answer only pages of WEBAUTHN_ORIGIN,
+        // challenge of registration or assertion expires in WEBAUTHN_TIMEOUT ms
+        this.webauthn = {
+            rpId:             process.env["WEBAUTHN_RP_ID"] || process.env["SERVER_DOMAIN"] || "localhost",
+            rpName:           process.env["WEBAUTHN_RP_NAME"] || "vue-express-postgres-starter",
+            origin:           process.env["WEBAUTHN_ORIGIN"] || process.env["MAIL_LINK_URL"] || `http://localhost:${process.env["SERVER_PORT"] || 3000}`,
+            timeout:          Number(process.env["WEBAUTHN_TIMEOUT"] || 60 * 1000),
+            userVerification: process.env["WEBAUTHN_USER_VERIFICATION"] === "true"
+        };
+
+        // MAIL_TRANSPORT=smtp delivers by SMTP_HOST, file writes messages to MAIL_OUTBOX directory, e.g. for tests,
+        // failed messages are retried MAIL_RETRIES times waiting twice longer every time starting from MAIL_RETRY_DELAY seconds
+        // by queue processed every MAIL_QUEUE_INTERVAL ms, 0 turns retries off
+        this.mail = {
+            transport:  process.env["MAIL_TRANSPORT"] || (process.env["SMTP_HOST"] ? MAIL_TRANSPORT_SMTP : MAIL_TRANSPORT_FILE),
+            from:       process.env["MAIL_FROM"] || `no-reply@${process.env["SERVER_DOMAIN"] || "localhost"}`,
+            outbox:     process.env["MAIL_OUTBOX"] || "outbox",
+            link:       process.env["MAIL_LINK_URL"] || `http://localhost:${process.env["SERVER_PORT"] || 3000}`,
+            retries:    Number(process.env["MAIL_RETRIES"] || 5),
+            retryDelay: Number(process.env["MAIL_RETRY_DELAY"] || 60),
+            interval:   Number(process.env["MAIL_QUEUE_INTERVAL"] || 30 * 1000),
+            smtp: {
+                host:     process.env["SMTP_HOST"],
+                port:     Number(process.env["SMTP_PORT"] || 587),
+                secure:   process.env["SMTP_SECURE"] === "true",
+                user:     process.env["SMTP_USER"],
+                password: process.env["SMTP_PASSWORD"]
+            }
         };
 
         this.services = {
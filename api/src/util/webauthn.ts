@@ -0,0 +1,222 @@
+import crypto from "crypto";
+import {CborValue, decode, decodeFirst} from "./cbor";
+
+/**
+ * WebAuthn (https://www.w3.org/TR/webauthn-2/) verification of authenticator responses.
+ * Attestation statements are not verified: registration asks for "none" attestation,
+ * authenticator is trusted by signature of its key created for this relying party.
+ */
+
+export const ERROR_WEBAUTHN_INVALID = "invalid authenticator response";
+export const ERROR_WEBAUTHN_CHALLENGE = "authenticator challenge is invalid or expired";
+export const ERROR_WEBAUTHN_ALGORITHM = "authenticator key algorithm is not supported";
+
+// COSE algorithms offered to authenticators: ES256, EdDSA and RS256
+export const COSE_ALGORITHMS = [-7, -8, -257];
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_DATA = 0x40;
+
+export interface AuthenticatorData {
+    rpIdHash:      Buffer
+    userPresent:   boolean
+    userVerified:  boolean
+    signCount:     number
+    credentialId?: Buffer
+    publicKey?:    Buffer
+}
+
+/**
+ * Relying party values the response must match
+ */
+export interface WebAuthnExpectation {
+    challenge: string
+    origin:    string
+    rpId:      string
+    // require user verification, e.g. PIN or biometrics
+    userVerification?: boolean
+}
+
+export interface VerifiedRegistration {
+    credentialId: string
+    publicKey:    string
+    signCount:    number
+}
+
+export const toBase64Url = (buffer: Buffer): string => {
+    return buffer.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+export const fromBase64Url = (value: string): Buffer => {
+    return Buffer.from(String(value || "").replace(/-/g, "+").replace(/_/g, "/"), "base64");
+};
+
+const sha256 = (data: Buffer | string): Buffer => crypto.createHash("sha256").update(data).digest();
+
+// DER element of tag with definite length
+const der = (tag: number, ...content: Buffer[]): Buffer => {
+    const body = Buffer.concat(content);
+    const size = body.length;
+    const header = size < 0x80
+        ? Buffer.from([tag, size])
+        : size < 0x100 ? Buffer.from([tag, 0x81, size]) : Buffer.from([tag, 0x82, size >> 8, size & 0xff]);
+    return Buffer.concat([header, body]);
+};
+
+// DER positive integer
+const derInteger = (value: Buffer): Buffer => der(0x02, value[0] & 0x80 ? Buffer.concat([Buffer.from([0]), value]) : value);
+
+const oid = (hex: string): Buffer => Buffer.from(hex, "hex");
+
+// byte string of COSE key parameter
+const keyBytes = (key: Map<CborValue, CborValue>, label: number): Buffer => {
+    const value = key.get(label);
+    if (!Buffer.isBuffer(value)) {
+        throw new Error(ERROR_WEBAUTHN_INVALID);
+    }
+    return value;
+};
+
+/**
+ * PEM of SubjectPublicKeyInfo of COSE key (RFC 8152) of supported algorithm
+ * @param cose
+ */
+export const coseToPem = (cose: Buffer): string => {
+    const key = decode(cose);
+    if (!(key instanceof Map)) {
+        throw new Error(ERROR_WEBAUTHN_INVALID);
+    }
+    let spki: Buffer;
+    switch (key.get(1)) {
+        // EC2 P-256
+        case 2:
+            if (key.get(-1) !== 1) {
+                throw new Error(ERROR_WEBAUTHN_ALGORITHM);
+            }
+            spki = der(0x30,
+                der(0x30, oid("06072a8648ce3d0201"), oid("06082a8648ce3d030107")),
+                der(0x03, Buffer.from([0, 4]), keyBytes(key, -2), keyBytes(key, -3)));
+            break;
+        // OKP Ed25519
+        case 1:
+            if (key.get(-1) !== 6) {
+                throw new Error(ERROR_WEBAUTHN_ALGORITHM);
+            }
+            spki = der(0x30, der(0x30, oid("06032b6570")), der(0x03, Buffer.from([0]), keyBytes(key, -2)));
+            break;
+        // RSA
+        case 3:
+            spki = der(0x30,
+                der(0x30, oid("06092a864886f70d010101"), Buffer.from([0x05, 0x00])),
+                der(0x03, Buffer.from([0]), der(0x30, derInteger(keyBytes(key, -1)), derInteger(keyBytes(key, -2)))));
+            break;
+        default:
+            throw new Error(ERROR_WEBAUTHN_ALGORITHM);
+    }
+    return crypto.createPublicKey({key: spki, format: "der", type: "spki"}).export({format: "pem", type: "spki"}).toString();
+};
+
+/**
+ * authenticator data: rp id hash, flags, sign count and attested credential of registration
+ * @param data
+ */
+export const parseAuthenticatorData = (data: Buffer): AuthenticatorData => {
+    if (data.length < 37) {
+        throw new Error(ERROR_WEBAUTHN_INVALID);
+    }
+    const flags = data.readUInt8(32);
+    const parsed: AuthenticatorData = {
+        rpIdHash:     data.slice(0, 32),
+        userPresent:  !!(flags & FLAG_USER_PRESENT),
+        userVerified: !!(flags & FLAG_USER_VERIFIED),
+        signCount:    data.readUInt32BE(33)
+    };
+    if (flags & FLAG_ATTESTED_DATA) {
+        // aaguid of 16 bytes precedes credential id length
+        const idLength = data.readUInt16BE(53);
+        parsed.credentialId = data.slice(55, 55 + idLength);
+        const key = decodeFirst(data, 55 + idLength);
+        parsed.publicKey = data.slice(55 + idLength, key.offset);
+    }
+    return parsed;
+};
+
+const verifyClientData = (clientDataJSON: Buffer, type: string, expected: WebAuthnExpectation): void => {
+    let clientData: {type: string, challenge: string, origin: string};
+    try {
+        clientData = JSON.parse(clientDataJSON.toString("utf8"));
+    } catch (e) {
+        throw new Error(ERROR_WEBAUTHN_INVALID);
+    }
+    if (clientData.type !== type || clientData.origin !== expected.origin) {
+        throw new Error(ERROR_WEBAUTHN_INVALID);
+    }
+    if (!expected.challenge || clientData.challenge !== expected.challenge) {
+        throw new Error(ERROR_WEBAUTHN_CHALLENGE);
+    }
+};
+
+const verifyFlags = (data: AuthenticatorData, expected: WebAuthnExpectation): void => {
+    if (!data.rpIdHash.equals(sha256(expected.rpId)) || !data.userPresent || (expected.userVerification && !data.userVerified)) {
+        throw new Error(ERROR_WEBAUTHN_INVALID);
+    }
+};
+
+/**
+ * verify response of navigator.credentials.create()
+ * @param attestationObject
+ * @param clientDataJSON
+ * @param expected
+ */
+export const verifyRegistration = (attestationObject: Buffer, clientDataJSON: Buffer,
+                                   expected: WebAuthnExpectation): VerifiedRegistration => {
+    verifyClientData(clientDataJSON, "webauthn.create", expected);
+    let attestation: CborValue;
+    try {
+        attestation = decode(attestationObject);
+    } catch (e) {
+        throw new Error(ERROR_WEBAUTHN_INVALID);
+    }
+    const authData = attestation instanceof Map ? attestation.get("authData") : null;
+    if (!Buffer.isBuffer(authData)) {
+        throw new Error(ERROR_WEBAUTHN_INVALID);
+    }
+    const data = parseAuthenticatorData(authData);
+    verifyFlags(data, expected);
+    if (!data.credentialId || !data.publicKey) {
+        throw new Error(ERROR_WEBAUTHN_INVALID);
+    }
+    return {
+        credentialId: toBase64Url(data.credentialId),
+        publicKey:    coseToPem(data.publicKey),
+        signCount:    data.signCount
+    };
+};
+
+/**
+ * verify response of navigator.credentials.get() by public key of registered credential
+ * @param authenticatorData
+ * @param clientDataJSON
+ * @param signature
+ * @param publicKey PEM of credential
+ * @param signCount last known sign count of credential
+ * @param expected
+ * @return new sign count
+ */
+export const verifyAssertion = (authenticatorData: Buffer, clientDataJSON: Buffer, signature: Buffer,
+                                publicKey: string, signCount: number, expected: WebAuthnExpectation): number => {
+    verifyClientData(clientDataJSON, "webauthn.get", expected);
+    const data = parseAuthenticatorData(authenticatorData);
+    verifyFlags(data, expected);
+    const key = crypto.createPublicKey(publicKey);
+    const signed = Buffer.concat([authenticatorData, sha256(clientDataJSON)]);
+    if (!crypto.verify(key.asymmetricKeyType === "ed25519" ? null : "sha256", signed, key, signature)) {
+        throw new Error(ERROR_WEBAUTHN_INVALID);
+    }
+    // counter which does not grow means cloned authenticator, authenticators without counter always send 0
+    if ((data.signCount > 0 || signCount > 0) && data.signCount <= signCount) {
+        throw new Error(ERROR_WEBAUTHN_INVALID);
+    }
+    return data.signCount;
+};
@@ -5,6 +5,7 @@ export const REMOVE_USER = 'REMOVE_USER'
 
 export const SET_USER = 'SET_USER'
 export const SET_USER_ENABLE = 'SET_USER_ENABLE'
+export const RESET_USER_2FA = 'RESET_USER_2FA'
 export const GET_USERS_SUCCESS = 'GET_USERS_SUCCESS'
 export const SET_USER_SUCCESS = 'SET_USER_SUCCESS'
 export const GET_USERS_ERROR = 'GET_USERS_ERROR'
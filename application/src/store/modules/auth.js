@@ -94,7 +94,7 @@ const actions = {
             commit(USER_FORGOT_ERROR)
             reject(r)
           }
-          if (r.token) {
+          if (r.sent) {
             resolve(r)
           }
         })
@@ -3,7 +3,7 @@ import {
     GET_USERS,
     GET_USERS_ERROR,
     GET_USERS_SUCCESS,
-    REMOVE_USER, SET_USER,
+    REMOVE_USER, RESET_USER_2FA, SET_USER,
     SET_USER_ENABLE,
     SET_USER_ERROR,
     SET_USER_SUCCESS
@@ -33,9 +33,9 @@ const actions = {
             })
             .then(r => r.json())
             .then(r => {
-                if (r.length > 0) {
-                    commit(GET_USERS_SUCCESS, r)
-                    resolve(r)
+                if (r.users) {
+                    commit(GET_USERS_SUCCESS, r.users)
+                    resolve(r.users)
                 }
                 if (r.message) {
                     commit(GET_USERS_ERROR, r.message)
@@ -159,6 +159,31 @@ const actions = {
             })
         })
     },
+    [RESET_USER_2FA]: ({ commit }, {url, user}) => {
+        return new Promise((resolve, reject) => {
+            commit(RESET_USER_2FA)
+            fetch(`${url}/api/v1/user/${user.id}/2fa`, {
+                method: 'DELETE',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${state.token}`
+                }
+            })
+                .then(r => r.json())
+                .then(r => {
+                    if (r.reset) {
+                        resolve(r)
+                    }
+                    if (r.message) {
+                        commit(SET_USER_ERROR, r.message)
+                        reject(r)
+                    }
+                })
+                .catch(e => {
+                    reject(e)
+                })
+        })
+    },
     [REMOVE_USER]: ({ commit }, {url, user}) => {
         return new Promise((resolve, reject) => {
             commit(REMOVE_USER)
@@ -198,6 +223,9 @@ const mutations = {
     [REMOVE_USER]: (state) => {
         state.status = 'loading'
     },
+    [RESET_USER_2FA]: (state) => {
+        state.status = 'loading'
+    },
     [SET_USER_ENABLE]: (state) => {
         state.status = 'loading'
     },
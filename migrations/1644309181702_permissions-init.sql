@@ -0,0 +1,20 @@
+-- Up Migration
+CREATE TABLE IF NOT EXISTS permissions (
+    id          SERIAL PRIMARY KEY,
+    title       varchar(255) UNIQUE NOT NULL,
+    description text NOT NULL,
+    enabled     bool NOT NULL DEFAULT TRUE,
+    created    TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated    TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    removed    TIMESTAMP WITH TIME ZONE DEFAULT NULL
+);
+INSERT INTO permissions (title, description, enabled) VALUES ( 'user:read',        'view users', true) ON CONFLICT (title) DO NOTHING;
+INSERT INTO permissions (title, description, enabled) VALUES ( 'user:write',       'create, edit and delete users', true) ON CONFLICT (title) DO NOTHING;
+INSERT INTO permissions (title, description, enabled) VALUES ( 'role:read',        'view roles', true) ON CONFLICT (title) DO NOTHING;
+INSERT INTO permissions (title, description, enabled) VALUES ( 'role:write',       'create, edit and delete roles', true) ON CONFLICT (title) DO NOTHING;
+INSERT INTO permissions (title, description, enabled) VALUES ( 'account:read',     'view accounts', true) ON CONFLICT (title) DO NOTHING;
+INSERT INTO permissions (title, description, enabled) VALUES ( 'account:write',    'create, edit and delete accounts', true) ON CONFLICT (title) DO NOTHING;
+INSERT INTO permissions (title, description, enabled) VALUES ( 'permission:read',  'view permissions', true) ON CONFLICT (title) DO NOTHING;
+INSERT INTO permissions (title, description, enabled) VALUES ( 'permission:write', 'create, edit and delete permissions', true) ON CONFLICT (title) DO NOTHING;
+-- Down Migration
+DROP TABLE IF EXISTS permissions;
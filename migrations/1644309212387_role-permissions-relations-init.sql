@@ -0,0 +1,22 @@
+-- Up Migration
+CREATE TABLE role_permission (
+    role_id       INT NOT NULL,
+    permission_id INT NOT NULL,
+    PRIMARY KEY (role_id, permission_id),
+    CONSTRAINT fk_role FOREIGN KEY(role_id) REFERENCES roles(id) ON UPDATE CASCADE ON DELETE CASCADE,
+    CONSTRAINT fk_permission FOREIGN KEY(permission_id) REFERENCES permissions(id) ON UPDATE CASCADE ON DELETE CASCADE
+);
+-- superadmin
+INSERT INTO role_permission SELECT r.id, p.id FROM roles r, permissions p
+    WHERE r.title = 'superadmin' ON CONFLICT DO NOTHING;
+-- admin
+INSERT INTO role_permission SELECT r.id, p.id FROM roles r, permissions p
+    WHERE r.title = 'admin' AND p.title IN ('user:read', 'user:write', 'role:read', 'account:read', 'account:write', 'permission:read') ON CONFLICT DO NOTHING;
+-- user
+INSERT INTO role_permission SELECT r.id, p.id FROM roles r, permissions p
+    WHERE r.title = 'user' AND p.title IN ('account:read') ON CONFLICT DO NOTHING;
+-- manager
+INSERT INTO role_permission SELECT r.id, p.id FROM roles r, permissions p
+    WHERE r.title = 'manager' AND p.title IN ('account:read', 'account:write') ON CONFLICT DO NOTHING;
+-- Down Migration
+DROP TABLE IF EXISTS role_permission;
@@ -0,0 +1,25 @@
+-- Up Migration
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE INDEX IF NOT EXISTS users_search_idx ON users
+    USING GIN (to_tsvector('simple', coalesce(username, '') || ' ' || coalesce(email, '')));
+CREATE INDEX IF NOT EXISTS users_username_trgm_idx ON users USING GIN (username gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS users_email_trgm_idx ON users USING GIN (email gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS accounts_search_idx ON accounts
+    USING GIN (to_tsvector('simple', coalesce(name, '') || ' ' || coalesce(email, '') || ' ' || coalesce(uid, '') || ' ' ||
+                                     coalesce(fid, '') || ' ' || coalesce(customer_portal_id, '')));
+CREATE INDEX IF NOT EXISTS accounts_name_trgm_idx ON accounts USING GIN (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS accounts_email_trgm_idx ON accounts USING GIN (email gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS accounts_uid_trgm_idx ON accounts USING GIN (uid gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS accounts_fid_trgm_idx ON accounts USING GIN (fid gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS accounts_customer_portal_id_trgm_idx ON accounts USING GIN (customer_portal_id gin_trgm_ops);
+-- Down Migration
+DROP INDEX IF EXISTS accounts_customer_portal_id_trgm_idx;
+DROP INDEX IF EXISTS accounts_fid_trgm_idx;
+DROP INDEX IF EXISTS accounts_uid_trgm_idx;
+DROP INDEX IF EXISTS accounts_email_trgm_idx;
+DROP INDEX IF EXISTS accounts_name_trgm_idx;
+DROP INDEX IF EXISTS accounts_search_idx;
+DROP INDEX IF EXISTS users_email_trgm_idx;
+DROP INDEX IF EXISTS users_username_trgm_idx;
+DROP INDEX IF EXISTS users_search_idx;
+DROP EXTENSION IF EXISTS pg_trgm;
@@ -0,0 +1,23 @@
+-- Up Migration
+CREATE TABLE IF NOT EXISTS audit_log (
+    id        SERIAL PRIMARY KEY,
+    actor_id  INT,
+    ip        varchar(64),
+    entity    varchar(64) NOT NULL,
+    entity_id INT,
+    action    varchar(64) NOT NULL,
+    before    jsonb,
+    after     jsonb,
+    diff      jsonb,
+    created   TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS audit_log_entity_idx ON audit_log (entity, entity_id);
+CREATE INDEX IF NOT EXISTS audit_log_actor_idx ON audit_log (actor_id);
+CREATE INDEX IF NOT EXISTS audit_log_created_idx ON audit_log (created);
+INSERT INTO permissions (title, description, enabled) VALUES ( 'audit:read', 'view audit log', true) ON CONFLICT (title) DO NOTHING;
+-- superadmin, admin
+INSERT INTO role_permission SELECT r.id, p.id FROM roles r, permissions p
+    WHERE r.title IN ('superadmin', 'admin') AND p.title = 'audit:read' ON CONFLICT DO NOTHING;
+-- Down Migration
+DELETE FROM permissions WHERE title = 'audit:read';
+DROP TABLE IF EXISTS audit_log;
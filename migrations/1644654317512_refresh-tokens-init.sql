@@ -0,0 +1,14 @@
+-- Up Migration
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+    id         SERIAL PRIMARY KEY,
+    user_id    INT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    family     varchar(64) NOT NULL,
+    token_hash varchar(64) NOT NULL UNIQUE,
+    expires    TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked    TIMESTAMP WITH TIME ZONE,
+    created    TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS refresh_tokens_user_idx ON refresh_tokens (user_id);
+CREATE INDEX IF NOT EXISTS refresh_tokens_family_idx ON refresh_tokens (family);
+-- Down Migration
+DROP TABLE IF EXISTS refresh_tokens;
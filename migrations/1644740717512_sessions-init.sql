@@ -0,0 +1,9 @@
+-- Up Migration
+CREATE TABLE IF NOT EXISTS sessions (
+    sid     varchar(255) PRIMARY KEY,
+    sess    jsonb NOT NULL,
+    expire  TIMESTAMP WITH TIME ZONE NOT NULL
+);
+CREATE INDEX IF NOT EXISTS sessions_expire_idx ON sessions (expire);
+-- Down Migration
+DROP TABLE IF EXISTS sessions;
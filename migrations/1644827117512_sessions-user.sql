@@ -0,0 +1,6 @@
+-- Up Migration
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS user_id INT REFERENCES users (id) ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS sessions_user_idx ON sessions (user_id);
+-- Down Migration
+DROP INDEX IF EXISTS sessions_user_idx;
+ALTER TABLE sessions DROP COLUMN IF EXISTS user_id;
@@ -0,0 +1,10 @@
+-- Up Migration
+CREATE TABLE IF NOT EXISTS login_attempts (
+    key          varchar(255) PRIMARY KEY,
+    failures     INT NOT NULL DEFAULT 0,
+    locked_until TIMESTAMP WITH TIME ZONE,
+    last_failure TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS login_attempts_last_failure_idx ON login_attempts (last_failure);
+-- Down Migration
+DROP TABLE IF EXISTS login_attempts;
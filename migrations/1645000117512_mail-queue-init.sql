@@ -0,0 +1,17 @@
+-- Up Migration
+CREATE TABLE IF NOT EXISTS mail_queue (
+    id           SERIAL PRIMARY KEY,
+    recipient    varchar(255) NOT NULL,
+    subject      varchar(255) NOT NULL,
+    text         TEXT NOT NULL,
+    html         TEXT NOT NULL,
+    template     varchar(50) NOT NULL,
+    attempts     INT NOT NULL DEFAULT 0,
+    next_attempt TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_error   TEXT,
+    sent_at      TIMESTAMP WITH TIME ZONE,
+    created_at   TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS mail_queue_due_idx ON mail_queue (next_attempt) WHERE sent_at IS NULL;
+-- Down Migration
+DROP TABLE IF EXISTS mail_queue;
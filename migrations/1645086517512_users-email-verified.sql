@@ -0,0 +1,12 @@
+-- Up Migration
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verify_token varchar(255);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verify_expires BIGINT;
+-- users signed up before verification are trusted
+UPDATE users SET email_verified = true;
+CREATE INDEX IF NOT EXISTS users_email_verify_token_idx ON users (email_verify_token);
+-- Down Migration
+DROP INDEX IF EXISTS users_email_verify_token_idx;
+ALTER TABLE users DROP COLUMN IF EXISTS email_verify_expires;
+ALTER TABLE users DROP COLUMN IF EXISTS email_verify_token;
+ALTER TABLE users DROP COLUMN IF EXISTS email_verified;
@@ -0,0 +1,11 @@
+-- Up Migration
+CREATE TABLE IF NOT EXISTS recovery_codes (
+    id        SERIAL PRIMARY KEY,
+    user_id   INT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    code_hash varchar(64) NOT NULL,
+    used      TIMESTAMP WITH TIME ZONE,
+    created   TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS recovery_codes_user_idx ON recovery_codes (user_id);
+-- Down Migration
+DROP TABLE IF EXISTS recovery_codes;
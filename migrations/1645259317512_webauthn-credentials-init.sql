@@ -0,0 +1,15 @@
+-- Up Migration
+CREATE TABLE IF NOT EXISTS webauthn_credentials (
+    id            SERIAL PRIMARY KEY,
+    user_id       INT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    credential_id varchar(1024) NOT NULL UNIQUE,
+    public_key    text NOT NULL,
+    sign_count    BIGINT NOT NULL DEFAULT 0,
+    transports    varchar(255),
+    name          varchar(255),
+    last_used     TIMESTAMP WITH TIME ZONE,
+    created       TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS webauthn_credentials_user_idx ON webauthn_credentials (user_id);
+-- Down Migration
+DROP TABLE IF EXISTS webauthn_credentials;
@@ -0,0 +1,10 @@
+-- Up Migration
+CREATE TABLE IF NOT EXISTS password_history (
+    id            SERIAL PRIMARY KEY,
+    user_id       INT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    password_hash varchar(255) NOT NULL,
+    created       TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS password_history_user_idx ON password_history (user_id, created DESC);
+-- Down Migration
+DROP TABLE IF EXISTS password_history;
@@ -0,0 +1,14 @@
+-- Up Migration
+CREATE TABLE IF NOT EXISTS user_identities (
+    id        SERIAL PRIMARY KEY,
+    user_id   INT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    provider  varchar(64) NOT NULL,
+    subject   varchar(255) NOT NULL,
+    email     varchar(255),
+    last_used TIMESTAMP WITH TIME ZONE,
+    created   TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (provider, subject)
+);
+CREATE INDEX IF NOT EXISTS user_identities_user_idx ON user_identities (user_id);
+-- Down Migration
+DROP TABLE IF EXISTS user_identities;
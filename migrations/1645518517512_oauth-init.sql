@@ -0,0 +1,28 @@
+-- Up Migration
+CREATE TABLE IF NOT EXISTS oauth_clients (
+    id            SERIAL PRIMARY KEY,
+    client_id     varchar(64) NOT NULL UNIQUE,
+    secret_hash   varchar(64),
+    name          varchar(255) NOT NULL,
+    redirect_uris TEXT[] NOT NULL DEFAULT '{}',
+    grants        TEXT[] NOT NULL DEFAULT '{}',
+    scopes        TEXT[] NOT NULL DEFAULT '{}',
+    user_id       INT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    created       TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    removed       TIMESTAMP WITH TIME ZONE
+);
+CREATE TABLE IF NOT EXISTS oauth_codes (
+    id           SERIAL PRIMARY KEY,
+    code_hash    varchar(64) NOT NULL UNIQUE,
+    client_id    INT NOT NULL REFERENCES oauth_clients (id) ON DELETE CASCADE,
+    user_id      INT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    redirect_uri TEXT NOT NULL,
+    scope        varchar(255) NOT NULL,
+    challenge    varchar(128) NOT NULL,
+    expires      TIMESTAMP WITH TIME ZONE NOT NULL,
+    used         TIMESTAMP WITH TIME ZONE
+);
+CREATE INDEX IF NOT EXISTS oauth_codes_expires_idx ON oauth_codes (expires);
+-- Down Migration
+DROP TABLE IF EXISTS oauth_codes;
+DROP TABLE IF EXISTS oauth_clients;
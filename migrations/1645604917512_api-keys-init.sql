@@ -0,0 +1,17 @@
+-- Up Migration
+CREATE TABLE IF NOT EXISTS api_keys (
+    id        SERIAL PRIMARY KEY,
+    user_id   INT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    name      varchar(255) NOT NULL,
+    prefix    varchar(16) NOT NULL,
+    key_hash  varchar(64) NOT NULL UNIQUE,
+    scopes    TEXT[] NOT NULL DEFAULT '{}',
+    expires   TIMESTAMP WITH TIME ZONE,
+    last_used TIMESTAMP WITH TIME ZONE,
+    last_ip   varchar(64),
+    created   TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    revoked   TIMESTAMP WITH TIME ZONE
+);
+CREATE INDEX IF NOT EXISTS api_keys_user_idx ON api_keys (user_id);
+-- Down Migration
+DROP TABLE IF EXISTS api_keys;
@@ -0,0 +1,7 @@
+-- Up Migration
+-- user impersonated by actor of entry
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS impersonated_id INT;
+CREATE INDEX IF NOT EXISTS audit_log_impersonated_idx ON audit_log (impersonated_id);
+-- Down Migration
+DROP INDEX IF EXISTS audit_log_impersonated_idx;
+ALTER TABLE audit_log DROP COLUMN IF EXISTS impersonated_id;
@@ -0,0 +1,23 @@
+import {MemoryRateLimitStore} from "../../../../../api/src/db/storage/rate.limit.store";
+
+describe("Service test api/src/db/storage/rate.limit.store", () => {
+    it("1 MemoryRateLimitStore should count hits of key in window", async () => {
+        const store = new MemoryRateLimitStore();
+        const first = await store.hit("strict:ip:127.0.0.1", 60000);
+        const second = await store.hit("strict:ip:127.0.0.1", 60000);
+        expect(first.count).toBe(1);
+        expect(second.count).toBe(2);
+        expect(second.reset).toBe(first.reset);
+    });
+    it("2 MemoryRateLimitStore should count keys separately", async () => {
+        const store = new MemoryRateLimitStore();
+        await store.hit("read:user:1", 60000);
+        expect((await store.hit("read:user:2", 60000)).count).toBe(1);
+    });
+    it("3 MemoryRateLimitStore should start new window after reset", async () => {
+        const store = new MemoryRateLimitStore();
+        await store.hit("write:user:1", 10);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        expect((await store.hit("write:user:1", 10)).count).toBe(1);
+    });
+});
@@ -0,0 +1,28 @@
+import {ITotpService, TotpRegistration} from "../../../../api/src/services/totp.service";
+import {ProviderTokenService, TokenData} from "../../../../api/src/services/token.service";
+import {providerTokenFixture, UserFixture} from "./fixtures";
+
+/**
+ * TOTP of fixture: registration always returns secret of fixture and code of fixture is always current
+ */
+export class FakeTotpService implements ITotpService {
+    constructor(private readonly fixture: UserFixture) {
+    }
+
+    public register(email: string): TotpRegistration {
+        return {secret: this.fixture.secret, qr: `otpauth://totp/${encodeURIComponent(email)}?secret=${this.fixture.secret}`};
+    }
+
+    public verify(secret: string, code: string): boolean {
+        return !!secret && secret === this.fixture.secret && code === this.fixture.code;
+    }
+}
+
+/**
+ * Provider tokens without provider: issue resolves fixture credentials
+ */
+export class FakeProviderTokenService extends ProviderTokenService {
+    public issue(): Promise<TokenData> {
+        return Promise.resolve({...providerTokenFixture});
+    }
+}
@@ -0,0 +1,75 @@
+import {Pool} from "pg";
+import {Service} from "../../../../api/src/services/app.service";
+import {POSTGRES_SERVICE, USER_REPOSITORY_SERVICE} from "../../../../api/src/services/app.constants";
+import {IUserServiceRepository} from "../../../../api/src/db/interfaces/user.interface";
+import {UserEntity} from "../../../../api/src/db/entities/users.entity";
+import {TokenData} from "../../../../api/src/services/token.service";
+
+/**
+ * User of tests, secret and code are accepted by FakeTotpService
+ */
+export interface UserFixture {
+    username: string
+    email:    string
+    password: string
+    secret:   string
+    code:     string
+}
+
+export const testUserFixture: UserFixture = {
+    username: process.env["TEST_USER_USERNAME"],
+    email:    process.env["TEST_USER_EMAIL"],
+    password: process.env["TEST_USER_PASSWORD"],
+    secret:   process.env["TEST_USER_SECRET"],
+    code:     process.env["TEST_USER_2FA_CODE"]
+};
+
+/**
+ * credentials issued by FakeProviderTokenService
+ */
+export const providerTokenFixture: TokenData = {
+    access_token:  "TCA4GO3ENTOCMGKIUXJG8Q",
+    expires_in:    7200,
+    refresh_token: "3N_LWVCQW6ACL54LVGISLA",
+    scope:         "all",
+    token_type:    "Bearer"
+};
+
+/**
+ * create user of fixture unless it exists, email of seeded user is verified
+ * @param fixture
+ */
+export const seedUser = (fixture: UserFixture): Promise<UserEntity> => {
+    return new Promise(async (resolve, reject) => {
+        try {
+            const repository = Service.getService<IUserServiceRepository>(USER_REPOSITORY_SERVICE);
+            const user = await repository.getByUsername(fixture.username);
+            if (user) {
+                return resolve(user);
+            }
+            resolve(await repository.create(new UserEntity(null, fixture.username, fixture.email, fixture.password, true,
+                null, null, null, null, null, null, null, null, null, null, true), false));
+        } catch (e) {
+            reject(e);
+        }
+    });
+};
+
+/**
+ * delete rows created by tests, repositories only mark rows removed,
+ * relations of deleted rows are deleted by cascade
+ * @param table
+ * @param column
+ * @param values
+ */
+export const purgeFixtures = (table: string, column: string, values: (string | number)[]): Promise<number> => {
+    return new Promise(async (resolve, reject) => {
+        try {
+            const result = await Service.getService<Pool>(POSTGRES_SERVICE)
+                .query(`DELETE FROM ${table} WHERE ${column} = ANY($1)`, [values]);
+            resolve(result.rowCount);
+        } catch (e) {
+            reject(e);
+        }
+    });
+};
@@ -0,0 +1,24 @@
+import {Service} from "../../../../api/src/services/app.service";
+import {CONFIG_SERVICE, TOKEN_SERVICE, TOTP_SERVICE} from "../../../../api/src/services/app.constants";
+import {Config, TOKEN_PROVIDER_LOCAL} from "../../../../api/src/util/secrets";
+import {FakeProviderTokenService, FakeTotpService} from "./fakes";
+import {testUserFixture} from "./fixtures";
+
+export * from "./fixtures";
+export * from "./fakes";
+export * from "./session";
+
+/**
+ * replace services depending on outside world by fakes and turn off scheduled jobs, pass to service.bootstrap()
+ */
+export const registerTestHarness = (): void => {
+    const config = Service.getService<Config>(CONFIG_SERVICE);
+    // suites neither purge removed records nor deliver queued mails in background
+    config.retention.days = 0;
+    config.mail.interval = 0;
+    Service.addService(TOTP_SERVICE, new FakeTotpService(testUserFixture));
+    // local tokens are issued by the app itself
+    if (config.tokens.provider !== TOKEN_PROVIDER_LOCAL) {
+        Service.addService(TOKEN_SERVICE, new FakeProviderTokenService());
+    }
+};
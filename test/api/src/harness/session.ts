@@ -0,0 +1,26 @@
+import request from "supertest";
+import {testUserFixture} from "./fixtures";
+
+/**
+ * sign in agent by password and pass 2FA by code of fixture, guards accept session only after 2FA,
+ * TOTP secret of fixture is registered first when user has none
+ * @param agent
+ * @param email
+ * @param password
+ */
+export const signIn = (agent: request.SuperAgentTest, email: string, password: string): Promise<request.Response> => {
+    return new Promise(async (resolve, reject) => {
+        try {
+            const res = await agent.post("/api/v1/auth/signin")
+                .send({email, password});
+            if (res.status !== 200) {
+                return resolve(res);
+            }
+            await agent.post("/api/v1/auth/2fa");
+            resolve(await agent.post("/api/v1/auth/2fa")
+                .send({code: testUserFixture.code}));
+        } catch (e) {
+            reject(e);
+        }
+    });
+};
@@ -0,0 +1,75 @@
+import fs from "fs";
+import net from "net";
+import os from "os";
+import path from "path";
+import {FileTransport, MailMessage, SmtpTransport} from "../../../../api/src/mail/transport";
+import {MAIL_TEMPLATE_PASSWORD_RESET, render} from "../../../../api/src/mail/templates";
+
+describe("Service test api/src/mail/transport", () => {
+    const message: MailMessage = {
+        from:    "no-reply@example.com",
+        to:      "user@example.com",
+        subject: "Reset your password",
+        text:    "reset\n.\n",
+        html:    "<p>reset</p>"
+    };
+    it("1 render should escape html and keep link in text", () => {
+        const content = render(MAIL_TEMPLATE_PASSWORD_RESET, {username: "<b>user</b>", link: "http://localhost/auth/reset-password/abc"});
+        expect(content.html).toContain("&lt;b&gt;user&lt;/b&gt;");
+        expect(content.text).toContain("http://localhost/auth/reset-password/abc");
+    });
+    it("2 render should reject unknown template", () => {
+        expect(() => render("unknown", {})).toThrow();
+    });
+    it("3 FileTransport should write message to outbox", async () => {
+        const outbox = fs.mkdtempSync(path.join(os.tmpdir(), "outbox-"));
+        await new FileTransport(outbox).send(message);
+        const files = fs.readdirSync(outbox);
+        expect(files.length).toBe(1);
+        expect(JSON.parse(fs.readFileSync(path.join(outbox, files[0]), "utf8")).to).toBe(message.to);
+    });
+    it("4 SmtpTransport should deliver message to SMTP server", async () => {
+        const commands: string[] = [];
+        const server = net.createServer(socket => {
+            let data = false;
+            let buffer = "";
+            socket.write("220 localhost ESMTP\r\n");
+            socket.on("data", chunk => {
+                buffer += chunk.toString();
+                let end: number;
+                while ((end = buffer.indexOf("\r\n")) !== -1) {
+                    const line = buffer.substring(0, end);
+                    buffer = buffer.substring(end + 2);
+                    if (data) {
+                        if (line === ".") {
+                            data = false;
+                            socket.write("250 queued\r\n");
+                        }
+                        continue;
+                    }
+                    commands.push(line.split(" ")[0]);
+                    if (line.indexOf("EHLO") === 0) {
+                        socket.write("250-localhost\r\n250 AUTH PLAIN\r\n");
+                    } else if (line.indexOf("AUTH") === 0) {
+                        socket.write("235 ok\r\n");
+                    } else if (line === "DATA") {
+                        data = true;
+                        socket.write("354 go ahead\r\n");
+                    } else if (line === "QUIT") {
+                        socket.end("221 bye\r\n");
+                    } else {
+                        socket.write("250 ok\r\n");
+                    }
+                }
+            });
+        });
+        await new Promise(resolve => server.listen(0, "127.0.0.1", () => resolve({})));
+        const port = (server.address() as net.AddressInfo).port;
+        try {
+            await new SmtpTransport({host: "127.0.0.1", port, secure: false, user: "user", password: "password"}).send(message);
+            expect(commands).toEqual(["EHLO", "AUTH", "MAIL", "RCPT", "DATA", "QUIT"]);
+        } finally {
+            server.close();
+        }
+    });
+});
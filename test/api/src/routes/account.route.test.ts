@@ -1,7 +1,7 @@
 import {Service} from "../../../../api/src/services/app.service";
 import {
     ACCOUNT_REPOSITORY_SERVICE,
-    APP_SERVICE, CONFIG_SERVICE, ROLE_REPOSITORY_SERVICE,
+    APP_SERVICE, CONFIG_SERVICE,
     SERVER_SERVICE, USER_REPOSITORY_SERVICE,
 } from "../../../../api/src/services/app.constants";
 import * as core from "express-serve-static-core";
@@ -9,49 +9,45 @@ import request from "supertest";
 import http from "http";
 import {Config} from "../../../../api/src/util/secrets";
 import {UserRepository} from "../../../../api/src/db/storage/postgres/repository/user.repository";
-import {RoleRepository} from "../../../../api/src/db/storage/postgres/repository/role.repository";
 import {AccountRepository} from "../../../../api/src/db/storage/postgres/repository/account.repository";
+import {ERROR_VALIDATION_CODE} from "../../../../api/src/middlewares/validation.middleware";
+import {purgeFixtures, registerTestHarness, signIn, testUserFixture} from "../harness";
+import {ACCOUNTS_TABLE} from "../../../../api/src/db/storage/postgres/repository/constants.repository";
 
 describe("Service test api/src/routes/account.route", () => {
     jest.setTimeout(30000);
     const service = new Service();
-    beforeAll( () => {
-        service.bootstrap();
+    let agent: request.SuperAgentTest;
+    beforeAll(async () => {
+        service.bootstrap(registerTestHarness);
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(agent, config.defaultUser.email, config.defaultUser.password);
     });
     afterAll(async () => {
-        const repository = Service.getService<AccountRepository>(ACCOUNT_REPOSITORY_SERVICE);
-        const updatedAccount = await repository
-            .getByName("updated_test_account");
-        if (updatedAccount) {
-            await repository.remove(updatedAccount);
-        }
-        const account = await repository
-            .getByName("test_account");
-        if (account) {
-            await repository.remove(account);
-        }
+        await purgeFixtures(ACCOUNTS_TABLE, "name", ["test_account", "updated_test_account"]);
         await Service.getService<http.Server>(SERVER_SERVICE).close();
         await new Promise(resolve => setTimeout(() => resolve({}), 10000));
     });
     it("1 GET /api/v1/account should return 200 OK", (done) => {
-        request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/account")
+        agent.get("/api/v1/account")
             .expect(200, done);
     });
     // root should exist
     it("2 GET /api/v1/account/1 should return 200 OK", (done) => {
-        request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/account/1")
+        agent.get("/api/v1/account/1")
             .expect(200, done);
     });
     it("3 PUT /api/v1/account should return 401 without parameters", (done) => {
-        request(Service.getService<core.Express>(APP_SERVICE)).put("/api/v1/account")
+        agent.put("/api/v1/account")
             .expect(400, done);
     });
     it("4 POST /api/v1/account should return 401 without parameters", (done) => {
-        request(Service.getService<core.Express>(APP_SERVICE)).put("/api/v1/account")
+        agent.put("/api/v1/account")
             .expect(400, done);
     });
     it("5 DELETE /api/v1/account should return 401 without parameters", (done) => {
-        request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/account")
+        agent.delete("/api/v1/account")
             .expect(400, done);
     });
 
@@ -62,7 +58,7 @@ describe("Service test api/src/routes/account.route", () => {
             const account = await repository
                 .getByName("test_account");
             if (account === null) {
-                request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/account")
+                agent.post("/api/v1/account")
                     .send({
                         name: "test_account",
                         email: "test.account@example.com",
@@ -90,7 +86,7 @@ describe("Service test api/src/routes/account.route", () => {
             const account = await repository
                 .getByName("test_account");
             if (account) {
-                request(Service.getService<core.Express>(APP_SERVICE)).put("/api/v1/account")
+                agent.put("/api/v1/account")
                     .send({
                         id: account.id,
                         name: "updated_test_account",
@@ -119,7 +115,7 @@ describe("Service test api/src/routes/account.route", () => {
             const account = await repository
                 .getByName("updated_test_account");
             if (account) {
-                request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/account/")
+                agent.delete("/api/v1/account/")
                     .send({
                         id: account.id
                     })
@@ -134,4 +130,61 @@ describe("Service test api/src/routes/account.route", () => {
             expect(e).toMatch("error");
         }
     });
-});
\ No newline at end of file
+    it("9 GET /api/v1/account should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/account")
+            .expect(401, done);
+    });
+    it("10 DELETE /api/v1/account should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/account")
+            .expect(401, done);
+    });
+    it("11 GET /api/v1/account should return only member accounts for not superadmin user", async () => {
+        try {
+            const testUser = testUserFixture;
+            const repository = Service.getService<UserRepository>(USER_REPOSITORY_SERVICE);
+            const user = await repository
+                .getByUsername(testUser.username);
+            if (user) {
+                const memberAgent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+                await signIn(memberAgent, testUser.email, testUser.password);
+                const res = await memberAgent.get("/api/v1/account");
+                if (res.status === 200) {
+                    res.body.accounts.forEach((account: {users: number[]}) => {
+                        expect(account.users).toContain(user.id);
+                    });
+                }
+            } else {
+                expect(user).toBe(null);
+            }
+        } catch (e) {
+            expect(e).toMatch("error");
+        }
+    });
+    it("12 GET /api/v1/account/trash should return page of removed accounts", async () => {
+        const res = await agent.get("/api/v1/account/trash");
+        expect(res.status).toBe(200);
+        res.body.accounts.forEach((account: {removed: Date}) => {
+            expect(!!account.removed).toBe(true);
+        });
+    });
+    it("13 POST /api/v1/account/1/restore should return 400 for not removed account", (done) => {
+        agent.post("/api/v1/account/1/restore")
+            .expect(400, done);
+    });
+    it("14 DELETE /api/v1/account/1/purge should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/account/1/purge")
+            .expect(401, done);
+    });
+    it("15 PUT /api/v1/account should return message of every invalid field", async () => {
+        const res = await agent.put("/api/v1/account")
+            .send({
+                id: "first",
+                email: "invalid email",
+                enabled: "maybe"
+            });
+        expect(res.status).toBe(400);
+        expect(res.body.error).toBe(true);
+        expect(res.body.code).toBe(ERROR_VALIDATION_CODE);
+        expect(Object.keys(res.body.fields).sort()).toEqual(["email", "enabled", "id"]);
+    });
+});
@@ -6,11 +6,12 @@ import {
 import * as core from "express-serve-static-core";
 import request from "supertest";
 import http from "http";
+import {registerTestHarness} from "../harness";
 
 describe("Service test api/src/routes/api.route", () => {
     const service = new Service();
     beforeAll( () => {
-        service.bootstrap();
+        service.bootstrap(registerTestHarness);
     });
     afterAll(async () => {
         await Service.getService<http.Server>(SERVER_SERVICE).close();
@@ -19,4 +20,18 @@ describe("Service test api/src/routes/api.route", () => {
         request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1")
             .expect(200, done);
     });
+    it("2 GET /api-docs.json should return generated OpenAPI document", async () => {
+        const res = await request(Service.getService<core.Express>(APP_SERVICE)).get("/api-docs.json");
+        expect(res.status).toBe(200);
+        expect(res.body.openapi).toMatch(/^3\./);
+        ["/api/v1/auth/signin", "/api/v1/user/{id}", "/api/v1/role/{id}/restore", "/api/v1/account/trash"].forEach(path => {
+            expect(res.body.paths[path]).not.toBe(undefined);
+        });
+        const update = res.body.paths["/api/v1/user"].put;
+        expect(update.requestBody.content["application/json"].schema.required).toEqual(["id"]);
+        expect(update.responses["400"].content["application/json"].schema.$ref).toBe("#/components/schemas/error");
+        expect(res.body.paths["/api/v1/account/{id}"].get.parameters[0].schema.type).toBe("integer");
+        expect(res.body.paths["/api/v1/auth/signin"].post.responses["429"]).not.toBe(undefined);
+        expect(update.responses["429"]).not.toBe(undefined);
+    });
 });
\ No newline at end of file
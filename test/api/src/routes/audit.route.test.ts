@@ -0,0 +1,63 @@
+import {Service} from "../../../../api/src/services/app.service";
+import {
+    APP_SERVICE, CONFIG_SERVICE,
+    SERVER_SERVICE,
+} from "../../../../api/src/services/app.constants";
+import * as core from "express-serve-static-core";
+import request from "supertest";
+import http from "http";
+import {Config} from "../../../../api/src/util/secrets";
+import {purgeFixtures, registerTestHarness, signIn} from "../harness";
+import {ROLES_TABLE} from "../../../../api/src/db/storage/postgres/repository/constants.repository";
+
+describe("Service test api/src/routes/audit.route", () => {
+    jest.setTimeout(30000);
+    const service = new Service();
+    let agent: request.SuperAgentTest;
+    beforeAll(async () => {
+        service.bootstrap(registerTestHarness);
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(agent, config.defaultUser.email, config.defaultUser.password);
+    });
+    afterAll(async () => {
+        await purgeFixtures(ROLES_TABLE, "title", ["audit_test_role"]);
+        await Service.getService<http.Server>(SERVER_SERVICE).close();
+        await new Promise(resolve => setTimeout(() => resolve({}), 10000));
+    });
+    it("1 GET /api/v1/audit should return 200 OK", (done) => {
+        agent.get("/api/v1/audit")
+            .expect(200, done);
+    });
+    it("2 GET /api/v1/audit should return signin of root user", async () => {
+        const res = await agent.get("/api/v1/audit?entity=user&action=signin&limit=10");
+        expect(res.status).toBe(200);
+        expect(res.body.entries.length).toBeGreaterThan(0);
+        res.body.entries.forEach((entry: {entity: string, action: string, actorId: number}) => {
+            expect(entry.entity).toBe("user");
+            expect(entry.action).toBe("signin");
+            expect(!!entry.actorId).toBe(true);
+        });
+    });
+    it("3 GET /api/v1/audit should return role update with diff", async () => {
+        const created = await agent.post("/api/v1/role")
+            .send({title: "audit_test_role", description: "audit_test_role_description", enabled: true});
+        if (created.status === 200) {
+            await agent.put("/api/v1/role")
+                .send({id: created.body.role.id, description: "audit_test_role_updated", enabled: true});
+            const res = await agent.get(`/api/v1/audit?entity=role&entityId=${created.body.role.id}&action=update`);
+            expect(res.status).toBe(200);
+            expect(res.body.entries[0].diff.description.before).toBe("audit_test_role_description");
+            expect(res.body.entries[0].diff.description.after).toBe("audit_test_role_updated");
+            await agent.delete("/api/v1/role").send({id: created.body.role.id});
+        }
+    });
+    it("4 GET /api/v1/audit should return 400 with invalid actor", (done) => {
+        agent.get("/api/v1/audit?actorId=root")
+            .expect(400, done);
+    });
+    it("5 GET /api/v1/audit should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/audit")
+            .expect(401, done);
+    });
+});
@@ -7,16 +7,41 @@ import {
 import * as core from "express-serve-static-core";
 import request from "supertest";
 import http from "http";
-import {ERROR_AUTH_USERNAME} from "../../../../api/src/controllers/auth/auth.error.codes";
+import {
+    ERROR_API_KEY_EXPIRES,
+    ERROR_AUTH_EMPTY_EMAIL,
+    ERROR_AUTH_EMPTY_PASSWORD_CREDENTIALS,
+    ERROR_AUTH_USERNAME,
+    ERROR_AUTH_USER_REMOVED,
+    ERROR_GA2FA_NO_SESSION,
+    ERROR_IMPERSONATION_FORBIDDEN,
+    ERROR_IMPERSONATION_NOT_ACTIVE,
+    ERROR_IMPERSONATION_USER,
+    ERROR_PASSWORD_BREACHED,
+    ERROR_PASSWORD_CHARACTER_CLASSES
+} from "../../../../api/src/controllers/auth/auth.error.codes";
+import {ERROR_VALIDATION_CODE} from "../../../../api/src/middlewares/validation.middleware";
+import {ERROR_RATE_LIMITED} from "../../../../api/src/middlewares/rate.limit.middleware";
 import {UserRepository} from "../../../../api/src/db/storage/postgres/repository/user.repository";
+import {purgeFixtures, registerTestHarness, seedUser, signIn, testUserFixture, UserFixture} from "../harness";
+import {USERS_TABLE} from "../../../../api/src/db/storage/postgres/repository/constants.repository";
+import {SUPERADMIN_ROLE_ID} from "../../../../api/src/db/entities/roles.entity";
 
 describe("Service test api/src/routes/auth.route", () => {
     jest.setTimeout(60000);
     const service = new Service();
+    const impersonatedFixture: UserFixture = {...testUserFixture, username: "impersonated_test_user", email: "impersonated_test_user@example.com"};
+    const superadminFixture: UserFixture = {...testUserFixture, username: "superadmin_auth_test_user", email: "superadmin_auth_test_user@example.com"};
+    // session of test user passing 2FA
+    let twoFactorAgent: request.SuperAgentTest;
     beforeAll( () => {
-        service.bootstrap();
+        service.bootstrap(registerTestHarness);
+        twoFactorAgent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        // every test of suite signs in from the same address
+        Service.getService<Config>(CONFIG_SERVICE).rateLimit.policies.strict = {limit: 100, window: 900};
     });
     afterAll(async () => {
+        await purgeFixtures(USERS_TABLE, "username", [impersonatedFixture.username, superadminFixture.username]);
         await Service.getService<http.Server>(SERVER_SERVICE).close();
         await new Promise(resolve => setTimeout(() => resolve({}), 30000));
     });
@@ -24,9 +49,9 @@ describe("Service test api/src/routes/auth.route", () => {
         request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/auth")
             .expect(200, done);
     });
-    it("2    GET  /api/v1/auth/callback        should return 200 OK", (done) => {
-        request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/auth/callback")
-            .expect(200, done);
+    it("2    GET  /api/v1/auth/callback        should return 401 without sign in state", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/auth/callback?code=code&state=state")
+            .expect(401, done);
     });
     it("3    POST /api/v1/auth/check           should return 401 without parameters", (done) => {
         request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/check")
@@ -36,11 +61,12 @@ describe("Service test api/src/routes/auth.route", () => {
         request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/signup")
             .expect(401, done);
     });
-    it("5    POST /api/v1/auth/2fa             should return 401 without parameters", (done) => {
+    it("5    POST /api/v1/auth/2fa             should return 401 without signed in session", (done) => {
         request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/2fa")
             .end((err, res) => {
                 expect(err).toBe(null);
-                expect(res.body.message === "2FA code is incorrect").toBe(true);
+                expect(res.status).toBe(401);
+                expect(res.body.message).toBe(ERROR_GA2FA_NO_SESSION);
                 done();
             });
     });
@@ -56,37 +82,32 @@ describe("Service test api/src/routes/auth.route", () => {
         request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/reset/:token")
             .expect(401, done);
     });
-    it("9    DELETE /api/v1/auth/              should return 400 without parameters", (done) => {
+    it("9    DELETE /api/v1/auth/              should return 401 without authorization", (done) => {
         request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/auth/")
-            .expect(400, done);
+            .expect(401, done);
     });
     it("10   DELETE /api/v1/auth/              should return 200 with parameters", async () => {
-        try {
-            const config = Service.getService<Config>(CONFIG_SERVICE);
-            const testUser = config.testUser;
-            const repository = Service.getService<UserRepository>(USER_REPOSITORY_SERVICE);
-            const user = await repository
-                .getByUsername(testUser.username);
-            if (user) {
-                expect(user.username === testUser.username).toBe(true);
-                request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/auth/")
-                    .send({
-                        id: user.id
-                    })
-                    .end((err, res) => {
-                        expect(err).toBe(null);
-                        expect(res.body.user.removed).toBe(true);
-                    });
-            } else {
-                expect(user).toBe(null);
-            }
-        } catch (e) {
-            expect(e).toMatch("error");
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        const testUser = testUserFixture;
+        const repository = Service.getService<UserRepository>(USER_REPOSITORY_SERVICE);
+        const user = await repository
+            .getByUsername(testUser.username);
+        if (user) {
+            expect(user.username === testUser.username).toBe(true);
+            const agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+            await signIn(agent, config.defaultUser.email, config.defaultUser.password);
+            const res = await agent.delete("/api/v1/auth/")
+                .send({
+                    id: user.id
+                });
+            expect(res.status).toBe(200);
+            expect(res.body.user.removed).toBe(true);
+        } else {
+            expect(user).toBe(null);
         }
     });
     it("11   POST /api/v1/auth/signup          should return error if password not matchs", (done) => {
-        const config = Service.getService<Config>(CONFIG_SERVICE);
-        const user = config.testUser;
+        const user = testUserFixture;
         request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/signup")
             .send({
                 username: user.username,
@@ -98,105 +119,315 @@ describe("Service test api/src/routes/auth.route", () => {
                 done();
             });
     });
-    it("12   POST /api/v1/auth/signup          should return new user with parameters", (done) => {
+    it("12   POST /api/v1/auth/signup          should return new user with parameters", async () => {
         const config = Service.getService<Config>(CONFIG_SERVICE);
-        const user = config.testUser;
-        request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/signup")
+        const user = testUserFixture;
+        const res = await request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/signup")
             .send({
                 username: user.username,
                 email: user.email,
                 password: user.password,
                 confirm:  user.password
-            })
-            .end((err, res) => {
-                if (res.body.message) {
-                    // already registered
-                    expect(res.body.message).toBe(user.username + " " + ERROR_AUTH_USERNAME);
-                    done();
-                } else {
-                    expect(res.body.user).not.toBe(undefined);
-                    expect(res.body.user.removed).toBe(false);
-                    expect(res.body.user.username === user.username).toBe(true);
-                    done();
-                }
             });
+        const existing = await Service.getService<UserRepository>(USER_REPOSITORY_SERVICE).getByUsername(user.username);
+        if (existing && existing.removed) {
+            // removed by 10, only admin brings it back
+            expect(res.status).toBe(409);
+            expect(res.body.message).toBe(ERROR_AUTH_USER_REMOVED);
+            const agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+            await signIn(agent, config.defaultUser.email, config.defaultUser.password);
+            const restored = await agent.post(`/api/v1/user/${existing.id}/restore`);
+            expect(restored.status).toBe(200);
+        } else if (res.body.message) {
+            // already registered
+            expect(res.body.message).toBe(user.username + " " + ERROR_AUTH_USERNAME);
+        } else {
+            expect(res.body.user).not.toBe(undefined);
+            expect(res.body.user.removed).toBe(false);
+            expect(res.body.user.username === user.username).toBe(true);
+        }
     });
     it("13   POST /api/v1/auth/signin          for test user should return undefined", (done) => {
-        const config = Service.getService<Config>(CONFIG_SERVICE);
-        const user = config.testUser;
+        const user = testUserFixture;
         request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/signin")
             .send({
                 email: user.email,
                 password: user.password
             })
             .end((err, res) => {
-                expect(res.body.user.username).toBe(config.testUser.username);
-                expect(res.body.user.email).toBe(config.testUser.email);
+                expect(res.body.user.username).toBe(testUserFixture.username);
+                expect(res.body.user.email).toBe(testUserFixture.email);
                 done();
             });
     });
-    it("14   POST /api/v1/auth/2fa             should return 200 with parameters", async () => {
-        try {
-            const config = Service.getService<Config>(CONFIG_SERVICE);
-            const testUser = config.testUser;
-            const repository = Service.getService<UserRepository>(USER_REPOSITORY_SERVICE);
-            const user = await repository
-                .getByUsername(testUser.username);
-            if (user) {
-                expect(user.username === testUser.username).toBe(true);
-                request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/2fa")
-                    .send({
-                        id: user.id
-                    })
-                    .end((err, res) => {
-                        if (res.body.secret) {
-                            expect(!!res.body.secret).toBe(true);
-                            expect(!!res.body.qr).toBe(true);
-                        }
-                        if (res.body.message) {
-                            console.log(res.body);
-                            expect(res.body.message === "no 2FA code was provided").toBe(true);
-                        }
-                        expect(err).toBe(null);
-                    });
+    it("14   POST /api/v1/auth/2fa             should return 200 for signed in session", async () => {
+        const testUser = testUserFixture;
+        const signin = await twoFactorAgent.post("/api/v1/auth/signin")
+            .send({
+                email: testUser.email,
+                password: testUser.password
+            });
+        const res = await twoFactorAgent.post("/api/v1/auth/2fa");
+        if (signin.status === 200) {
+            expect(res.status).toBe(200);
+            if (res.body.secret) {
+                expect(!!res.body.qr).toBe(true);
             } else {
-                expect(user).toBe(null);
+                expect(res.body.message === "no 2FA code was provided").toBe(true);
             }
-        } catch (e) {
-            expect(e).toMatch("error");
+        } else {
+            expect(res.status).toBe(401);
         }
     });
     it("18   POST /api/v1/auth/2fa             should return 200 with code", async () => {
-        try {
-            const config = Service.getService<Config>(CONFIG_SERVICE);
-            const testUser = config.testUser;
-            const repository = Service.getService<UserRepository>(USER_REPOSITORY_SERVICE);
-            const user = await repository
-                .getByUsername(testUser.username);
-            if (user) {
-                expect(user.username === testUser.username).toBe(true);
-                request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/2fa")
-                    .send({
-                        id: user.id,
-                        code: testUser.code
-                    })
-                    .end(async (err, res) => {
-                        if (res.body.data) {
-                            expect(!!res.body.data.access_token).toBe(true);
-                            expect(!!res.body.data.expires_in).toBe(true);
-                            expect(!!res.body.data.refresh_token).toBe(true);
-                            expect(!!res.body.data.scope).toBe(true);
-                            expect(!!res.body.data.token_type).toBe(true);
-                        } else {
-                            expect(res.body.message === "2FA code is incorrect").toBe(true);
-                        }
-                        expect(err).toBe(null);
-                    });
-            } else {
-                expect(user).toBe(null);
-            }
-        } catch (e) {
-            expect(e).toMatch("error");
+        const res = await twoFactorAgent.post("/api/v1/auth/2fa")
+            .send({
+                code: testUserFixture.code
+            });
+        if (res.body.data) {
+            expect(!!res.body.data.access_token).toBe(true);
+            expect(!!res.body.data.expires_in).toBe(true);
+            expect(!!res.body.data.refresh_token).toBe(true);
+            expect(!!res.body.data.scope).toBe(true);
+            expect(!!res.body.data.token_type).toBe(true);
+        } else {
+            expect(res.status).toBe(401);
         }
     });
-});
\ No newline at end of file
+    it("19   POST /api/v1/auth/signup          should return message of every invalid field", async () => {
+        const res = await request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/signup")
+            .send({
+                username: "invalid_signup_user",
+                email: "invalid email"
+            });
+        expect(res.status).toBe(401);
+        expect(res.body.error).toBe(true);
+        expect(res.body.code).toBe(ERROR_VALIDATION_CODE);
+        expect(res.body.message).toBe("invalid email");
+        expect(res.body.fields.email).toBe("invalid email");
+        expect(res.body.fields.password).toBe(ERROR_AUTH_EMPTY_PASSWORD_CREDENTIALS);
+    });
+    it("20   POST /api/v1/auth/token           should return 401 with invalid refresh token", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/token")
+            .send({refresh_token: "not a token"})
+            .expect(401, done);
+    });
+    it("21   POST /api/v1/auth/revoke          should return 400 without parameters", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/revoke")
+            .expect(400, done);
+    });
+    it("22   POST /api/v1/auth/signin          should return 429 with Retry-After over strict rate limit", async () => {
+        Service.getService<Config>(CONFIG_SERVICE).rateLimit.policies.strict = {limit: 1, window: 60};
+        const app = Service.getService<core.Express>(APP_SERVICE);
+        await request(app).post("/api/v1/auth/signin");
+        const res = await request(app).post("/api/v1/auth/signin");
+        expect(res.status).toBe(429);
+        expect(res.body.message).toBe(ERROR_RATE_LIMITED);
+        expect(res.header["ratelimit-limit"]).toBe("1");
+        expect(res.header["ratelimit-remaining"]).toBe("0");
+        expect(Number(res.header["retry-after"])).toBeGreaterThan(0);
+    });
+    it("23   GET  /api/v1/auth/verify/:token   should return 401 with unknown token", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/auth/verify/0123456789abcdef")
+            .expect(401, done);
+    });
+    it("24   POST /api/v1/auth/verify/resend   should return 401 without email", async () => {
+        Service.getService<Config>(CONFIG_SERVICE).rateLimit.policies.strict = {limit: 100, window: 900};
+        const res = await request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/verify/resend");
+        expect(res.status).toBe(401);
+        expect(res.body.message).toBe(ERROR_AUTH_EMPTY_EMAIL);
+    });
+    it("25   POST /api/v1/auth/2fa/recovery    should return 401 without parameters", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/2fa/recovery")
+            .expect(401, done);
+    });
+    it("26   POST /api/v1/auth/2fa/recovery-codes should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/2fa/recovery-codes")
+            .expect(401, done);
+    });
+    it("27   POST /api/v1/auth/webauthn/register/options should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/webauthn/register/options")
+            .expect(401, done);
+    });
+    it("28   POST /api/v1/auth/webauthn/login  should return 401 without credential", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/webauthn/login").send({credential: {id: "credential"}})
+            .expect(401, done);
+    });
+    it("29   POST /api/v1/auth/signup          should return 401 with violations of weak password", async () => {
+        const res = await request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/signup")
+            .send({
+                username: "weak_password_user",
+                email:    "weak_password_user@example.com",
+                password: "password",
+                confirm:  "password"
+            });
+        expect(res.status).toBe(401);
+        expect(res.body.message).toBe(ERROR_PASSWORD_CHARACTER_CLASSES);
+        expect(res.body.violations).toContain(ERROR_PASSWORD_BREACHED);
+    });
+    it("30   GET  /api/v1/auth/oidc/providers  should return 200 with configured providers", async () => {
+        const res = await request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/auth/oidc/providers");
+        expect(res.status).toBe(200);
+        expect(Array.isArray(res.body.providers)).toBe(true);
+    });
+    it("31   GET  /api/v1/auth/identities      should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/auth/identities")
+            .expect(401, done);
+    });
+    it("32   GET  /api/v1/auth/api-keys        should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/auth/api-keys")
+            .expect(401, done);
+    });
+    it("33   POST /api/v1/auth/api-keys        should create key accepted as bearer token until revoked", async () => {
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        const agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(agent, config.defaultUser.email, config.defaultUser.password);
+        const res = await agent.post("/api/v1/auth/api-keys")
+            .send({name: "auth_test_key", scopes: ["superadmin"]});
+        expect(res.status).toBe(200);
+        expect(res.body.key.scopes).toEqual(["superadmin"]);
+        expect(res.body.secret.indexOf(res.body.key.prefix)).toBe(0);
+        const clients = await request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/oauth/clients")
+            .set("Authorization", `Bearer ${res.body.secret}`);
+        expect(clients.status).toBe(200);
+        const revoked = await agent.delete(`/api/v1/auth/api-keys/${res.body.key.id}`);
+        expect(revoked.status).toBe(200);
+        const rejected = await request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/oauth/clients")
+            .set("Authorization", `Bearer ${res.body.secret}`);
+        expect(rejected.status).toBe(401);
+    });
+    it("34   POST /api/v1/auth/api-keys        should return 400 for past expiry", async () => {
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        const agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(agent, config.defaultUser.email, config.defaultUser.password);
+        const res = await agent.post("/api/v1/auth/api-keys")
+            .send({name: "auth_test_key", scopes: ["superadmin"], expires: "2000-01-01T00:00:00Z"});
+        expect(res.status).toBe(400);
+        expect(res.body.message).toBe(ERROR_API_KEY_EXPIRES);
+    });
+    it("35   POST /api/v1/auth/impersonate/:userId should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/impersonate/1")
+            .expect(401, done);
+    });
+    it("36   POST /api/v1/auth/impersonate/stop should return 400 when no user is impersonated", async () => {
+        const res = await request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/impersonate/stop");
+        expect(res.status).toBe(400);
+        expect(res.body.message).toBe(ERROR_IMPERSONATION_NOT_ACTIVE);
+    });
+    it("37   POST /api/v1/auth/impersonate/:userId should act as user without changes of credentials until stopped", async () => {
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        const user = await seedUser(impersonatedFixture);
+        const agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(agent, config.defaultUser.email, config.defaultUser.password);
+        const res = await agent.post(`/api/v1/auth/impersonate/${user.id}`);
+        expect(res.status).toBe(200);
+        expect(res.body.user.id).toBe(user.id);
+        const state = await agent.get("/api/v1/auth/impersonate");
+        expect(state.body.impersonation.userId).toBe(user.id);
+        expect(state.body.impersonation.actorId).toBe(res.body.impersonation.actorId);
+        const codes = await agent.post("/api/v1/auth/2fa/recovery-codes");
+        expect(codes.status).toBe(403);
+        expect(codes.body.message).toBe(ERROR_IMPERSONATION_FORBIDDEN);
+        const stopped = await agent.post("/api/v1/auth/impersonate/stop");
+        expect(stopped.status).toBe(200);
+        expect(stopped.body.user.id).toBe(res.body.impersonation.actorId);
+        const after = await agent.get("/api/v1/auth/impersonate");
+        expect(after.body.impersonation).toBe(null);
+    });
+    it("38   GET  /api/v1/auth/api-keys        should return 401 for session signed in by password until 2FA passes", async () => {
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        const agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        const res = await agent.post("/api/v1/auth/signin")
+            .send({email: config.defaultUser.email, password: config.defaultUser.password});
+        expect(res.status).toBe(200);
+        const pending = await agent.get("/api/v1/auth/api-keys");
+        expect(pending.status).toBe(401);
+        await signIn(agent, config.defaultUser.email, config.defaultUser.password);
+        const passed = await agent.get("/api/v1/auth/api-keys");
+        expect(passed.status).toBe(200);
+    });
+    it("39   POST /api/v1/auth/2fa/recovery    should return 401 without signed in session", async () => {
+        const res = await request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/2fa/recovery")
+            .send({code: "recovery-code"});
+        expect(res.status).toBe(401);
+        expect(res.body.message).toBe(ERROR_GA2FA_NO_SESSION);
+    });
+    it("40   POST /api/v1/auth/webauthn/register/options should return 403 for API key", async () => {
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        const agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(agent, config.defaultUser.email, config.defaultUser.password);
+        const key = await agent.post("/api/v1/auth/api-keys")
+            .send({name: "auth_test_key", scopes: ["superadmin"]});
+        expect(key.status).toBe(200);
+        const res = await request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/webauthn/register/options")
+            .set("Authorization", `Bearer ${key.body.secret}`);
+        expect(res.status).toBe(403);
+        const options = await agent.post("/api/v1/auth/webauthn/register/options");
+        expect(options.status).toBe(200);
+        await agent.delete(`/api/v1/auth/api-keys/${key.body.key.id}`);
+    });
+    it("41   POST /api/v1/auth/api-keys        should return 403 for API key creating or revoking keys", async () => {
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        const agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(agent, config.defaultUser.email, config.defaultUser.password);
+        const key = await agent.post("/api/v1/auth/api-keys")
+            .send({name: "auth_test_key", scopes: ["superadmin"]});
+        expect(key.status).toBe(200);
+        const created = await request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/api-keys")
+            .set("Authorization", `Bearer ${key.body.secret}`)
+            .send({name: "auth_test_key", scopes: ["superadmin"]});
+        expect(created.status).toBe(403);
+        const revoked = await request(Service.getService<core.Express>(APP_SERVICE)).delete(`/api/v1/auth/api-keys/${key.body.key.id}`)
+            .set("Authorization", `Bearer ${key.body.secret}`);
+        expect(revoked.status).toBe(403);
+        await agent.delete(`/api/v1/auth/api-keys/${key.body.key.id}`);
+    });
+    it("42   POST /api/v1/auth/2fa/recovery-codes should return 403 for API key", async () => {
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        const agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(agent, config.defaultUser.email, config.defaultUser.password);
+        const key = await agent.post("/api/v1/auth/api-keys")
+            .send({name: "auth_test_key", scopes: ["superadmin"]});
+        expect(key.status).toBe(200);
+        const res = await request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/auth/2fa/recovery-codes")
+            .set("Authorization", `Bearer ${key.body.secret}`);
+        expect(res.status).toBe(403);
+        expect(res.body.codes).toBe(undefined);
+        await agent.delete(`/api/v1/auth/api-keys/${key.body.key.id}`);
+    });
+    it("43   DELETE /api/v1/auth/webauthn/credentials/:id should return 403 for API key", async () => {
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        const agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(agent, config.defaultUser.email, config.defaultUser.password);
+        const key = await agent.post("/api/v1/auth/api-keys")
+            .send({name: "auth_test_key", scopes: ["superadmin"]});
+        expect(key.status).toBe(200);
+        const res = await request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/auth/webauthn/credentials/1")
+            .set("Authorization", `Bearer ${key.body.secret}`);
+        expect(res.status).toBe(403);
+        await agent.delete(`/api/v1/auth/api-keys/${key.body.key.id}`);
+    });
+    it("44   DELETE /api/v1/auth/identities/:id should return 403 for API key", async () => {
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        const agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(agent, config.defaultUser.email, config.defaultUser.password);
+        const key = await agent.post("/api/v1/auth/api-keys")
+            .send({name: "auth_test_key", scopes: ["superadmin"]});
+        expect(key.status).toBe(200);
+        const res = await request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/auth/identities/1")
+            .set("Authorization", `Bearer ${key.body.secret}`);
+        expect(res.status).toBe(403);
+        await agent.delete(`/api/v1/auth/api-keys/${key.body.key.id}`);
+    });
+    it("45   POST /api/v1/auth/impersonate/:userId should return 400 for other superadmin", async () => {
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        const superadmin = await seedUser(superadminFixture);
+        superadmin.roles = [SUPERADMIN_ROLE_ID];
+        await superadmin.save();
+        const agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(agent, config.defaultUser.email, config.defaultUser.password);
+        const res = await agent.post(`/api/v1/auth/impersonate/${superadmin.id}`);
+        expect(res.status).toBe(400);
+        expect(res.body.message).toBe(ERROR_IMPERSONATION_USER);
+    });
+});
@@ -0,0 +1,222 @@
+import crypto from "crypto";
+import {Service} from "../../../../api/src/services/app.service";
+import {
+    APP_SERVICE, CONFIG_SERVICE,
+    SERVER_SERVICE,
+} from "../../../../api/src/services/app.constants";
+import * as core from "express-serve-static-core";
+import request from "supertest";
+import http from "http";
+import {Config} from "../../../../api/src/util/secrets";
+import {purgeFixtures, registerTestHarness, seedUser, signIn, testUserFixture, UserFixture} from "../harness";
+import {OAUTH_CLIENTS_TABLE, USERS_TABLE} from "../../../../api/src/db/storage/postgres/repository/constants.repository";
+import {ADMIN_ROLE_ID, USER_ROLE_ID} from "../../../../api/src/db/entities/roles.entity";
+import {
+    ERROR_OAUTH_CLIENT_FORBIDDEN,
+    ERROR_OAUTH_SCOPE_NOT_GRANTABLE
+} from "../../../../api/src/controllers/auth/auth.error.codes";
+import {toBase64Url} from "../../../../api/src/util/webauthn";
+import {
+    OAUTH_ERROR_ACCESS_DENIED,
+    OAUTH_ERROR_INVALID_CLIENT,
+    OAUTH_ERROR_INVALID_GRANT,
+    OAUTH_ERROR_INVALID_REQUEST,
+    OAUTH_ERROR_INVALID_SCOPE
+} from "../../../../api/src/util/oauth";
+
+describe("Service test api/src/routes/oauth.route", () => {
+    jest.setTimeout(30000);
+    const service = new Service();
+    const redirectUri = "http://localhost:8080/oauth/callback";
+    const verifier = toBase64Url(crypto.randomBytes(32));
+    const challenge = toBase64Url(crypto.createHash("sha256").update(verifier).digest());
+    const adminFixture: UserFixture = {...testUserFixture, username: "oauth_admin_test_user", email: "oauth_admin_test_user@example.com"};
+    let agent: request.SuperAgentTest;
+    let client: {id: number, clientId: string};
+    let secret: string;
+    let accessToken: string;
+    let code: string;
+    // parameters of authorization request of client, client id is known once client is registered
+    let authorization: {[name: string]: string};
+    const basic = () => `Basic ${Buffer.from(`${client.clientId}:${secret}`).toString("base64")}`;
+    beforeAll(async () => {
+        service.bootstrap(registerTestHarness);
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(agent, config.defaultUser.email, config.defaultUser.password);
+    });
+    afterAll(async () => {
+        await purgeFixtures(OAUTH_CLIENTS_TABLE, "name", ["oauth_test_client"]);
+        await purgeFixtures(USERS_TABLE, "username", [adminFixture.username]);
+        await Service.getService<http.Server>(SERVER_SERVICE).close();
+        await new Promise(resolve => setTimeout(() => resolve({}), 10000));
+    });
+    it("1  GET    /api/v1/oauth should return authorization server metadata", async () => {
+        const res = await request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/oauth");
+        expect(res.status).toBe(200);
+        expect(res.body.token_endpoint).toMatch(/\/api\/v1\/oauth\/token$/);
+        expect(res.body.code_challenge_methods_supported).toEqual(["S256"]);
+    });
+    it("2  GET    /api/v1/oauth/clients should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/oauth/clients")
+            .expect(401, done);
+    });
+    it("3  POST   /api/v1/oauth/clients should register client with secret", async () => {
+        const res = await agent.post("/api/v1/oauth/clients")
+            .send({
+                name: "oauth_test_client",
+                redirectUris: [redirectUri],
+                grants: ["authorization_code", "client_credentials"],
+                scopes: ["superadmin", "user"]
+            });
+        expect(res.status).toBe(200);
+        expect(res.body.client.confidential).toBe(true);
+        expect(typeof res.body.secret).toBe("string");
+        client = res.body.client;
+        secret = res.body.secret;
+        authorization = {
+            response_type: "code",
+            client_id: client.clientId,
+            redirect_uri: redirectUri,
+            scope: "superadmin",
+            state: "state",
+            code_challenge: challenge,
+            code_challenge_method: "S256"
+        };
+    });
+    it("4  POST   /api/v1/oauth/clients should return 400 for unknown grant", (done) => {
+        agent.post("/api/v1/oauth/clients")
+            .send({name: "oauth_test_client", grants: ["password"], scopes: ["user"]})
+            .expect(400, done);
+    });
+    it("5  POST   /api/v1/oauth/token should issue token of client credentials", async () => {
+        const res = await request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/oauth/token")
+            .set("Authorization", basic())
+            .type("form")
+            .send({grant_type: "client_credentials", scope: "superadmin"});
+        expect(res.status).toBe(200);
+        expect(res.body.token_type).toBe("Bearer");
+        expect(res.body.scope).toBe("superadmin");
+        accessToken = res.body.access_token;
+    });
+    it("6  POST   /api/v1/oauth/token should return 401 for wrong secret", async () => {
+        const res = await request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/oauth/token")
+            .send({grant_type: "client_credentials", client_id: client.clientId, client_secret: "wrong"});
+        expect(res.status).toBe(401);
+        expect(res.body.error).toBe(OAUTH_ERROR_INVALID_CLIENT);
+    });
+    it("7  POST   /api/v1/oauth/token should not grant scope of role user does not have", async () => {
+        const res = await request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/oauth/token")
+            .set("Authorization", basic())
+            .send({grant_type: "client_credentials", scope: "user"});
+        expect(res.status).toBe(400);
+        expect(res.body.error).toBe(OAUTH_ERROR_INVALID_SCOPE);
+    });
+    it("8  POST   /api/v1/oauth/introspect should return active token", async () => {
+        const res = await request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/oauth/introspect")
+            .set("Authorization", basic())
+            .send({token: accessToken});
+        expect(res.status).toBe(200);
+        expect(res.body.active).toBe(true);
+        expect(res.body.client_id).toBe(client.clientId);
+    });
+    it("9  GET    /api/v1/oauth/clients should accept token with role of its scope", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/oauth/clients")
+            .set("Authorization", `Bearer ${accessToken}`)
+            .expect(200, done);
+    });
+    it("10 GET    /api/v1/oauth/authorize should redirect error without code challenge", async () => {
+        const res = await agent.get("/api/v1/oauth/authorize")
+            .query({response_type: "code", client_id: client.clientId, redirect_uri: redirectUri, state: "state"});
+        expect(res.status).toBe(302);
+        const location = new URL(res.header.location);
+        expect(location.searchParams.get("error")).toBe(OAUTH_ERROR_INVALID_REQUEST);
+        expect(location.searchParams.get("state")).toBe("state");
+    });
+    it("11 GET    /api/v1/oauth/authorize should return 400 for redirect uri of other client", (done) => {
+        agent.get("/api/v1/oauth/authorize")
+            .query({response_type: "code", client_id: client.clientId, redirect_uri: "http://localhost:9999/callback"})
+            .expect(400, done);
+    });
+    it("12 GET    /api/v1/oauth/authorize should return client and scopes to consent to", async () => {
+        const res = await agent.get("/api/v1/oauth/authorize")
+            .query(authorization);
+        expect(res.status).toBe(200);
+        expect(res.body.client.clientId).toBe(client.clientId);
+        expect(res.body.redirectUri).toBe(redirectUri);
+        expect(res.body.scopes).toEqual(["superadmin"]);
+    });
+    it("13 POST   /api/v1/oauth/authorize should redirect access_denied without consent", async () => {
+        const res = await agent.post("/api/v1/oauth/authorize")
+            .send({...authorization, consent: false});
+        expect(res.status).toBe(302);
+        const location = new URL(res.header.location);
+        expect(location.searchParams.get("error")).toBe(OAUTH_ERROR_ACCESS_DENIED);
+        expect(location.searchParams.get("code")).toBe(null);
+    });
+    it("14 POST   /api/v1/oauth/authorize should return 403 for bearer token", async () => {
+        const res = await request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/oauth/authorize")
+            .set("Authorization", `Bearer ${accessToken}`)
+            .send({...authorization, consent: true});
+        expect(res.status).toBe(403);
+    });
+    it("15 POST   /api/v1/oauth/authorize should redirect code once signed in user consented", async () => {
+        const res = await agent.post("/api/v1/oauth/authorize")
+            .send({...authorization, consent: true});
+        expect(res.status).toBe(302);
+        const location = new URL(res.header.location);
+        expect(`${location.origin}${location.pathname}`).toBe(redirectUri);
+        expect(location.searchParams.get("state")).toBe("state");
+        code = location.searchParams.get("code");
+        expect(!!code).toBe(true);
+    });
+    it("16 POST   /api/v1/oauth/token should exchange code by code verifier once", async () => {
+        const exchange = () => request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/oauth/token")
+            .set("Authorization", basic())
+            .send({grant_type: "authorization_code", code, redirect_uri: redirectUri, code_verifier: verifier});
+        const res = await exchange();
+        expect(res.status).toBe(200);
+        expect(res.body.scope).toBe("superadmin");
+        const reused = await exchange();
+        expect(reused.status).toBe(400);
+        expect(reused.body.error).toBe(OAUTH_ERROR_INVALID_GRANT);
+    });
+    it("17 POST   /api/v1/oauth/clients/:id/secret and DELETE should return 403 for client of other user", async () => {
+        const admin = await seedUser(adminFixture);
+        admin.roles = [ADMIN_ROLE_ID, USER_ROLE_ID];
+        await admin.save();
+        const adminAgent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(adminAgent, adminFixture.email, adminFixture.password);
+        const rotated = await adminAgent.post(`/api/v1/oauth/clients/${client.id}/secret`);
+        expect(rotated.status).toBe(403);
+        expect(rotated.body.message).toBe(ERROR_OAUTH_CLIENT_FORBIDDEN);
+        const removed = await adminAgent.delete(`/api/v1/oauth/clients/${client.id}`);
+        expect(removed.status).toBe(403);
+        expect(removed.body.message).toBe(ERROR_OAUTH_CLIENT_FORBIDDEN);
+    });
+    it("18 POST   /api/v1/oauth/clients should return 403 for scope of role admin does not hold", async () => {
+        const adminAgent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(adminAgent, adminFixture.email, adminFixture.password);
+        const res = await adminAgent.post("/api/v1/oauth/clients")
+            .send({
+                name: "oauth_test_client",
+                redirectUris: [redirectUri],
+                grants: ["authorization_code"],
+                scopes: ["superadmin"]
+            });
+        expect(res.status).toBe(403);
+        expect(res.body.message.indexOf(ERROR_OAUTH_SCOPE_NOT_GRANTABLE)).toBe(0);
+    });
+    it("19 DELETE /api/v1/oauth/clients/:id should remove client and stop its tokens", async () => {
+        const res = await agent.delete(`/api/v1/oauth/clients/${client.id}`);
+        expect(res.status).toBe(200);
+        expect(res.body.removed).toBe(true);
+        const introspection = await request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/oauth/introspect")
+            .set("Authorization", basic())
+            .send({token: accessToken});
+        expect(introspection.status).toBe(401);
+        const clients = await request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/oauth/clients")
+            .set("Authorization", `Bearer ${accessToken}`);
+        expect(clients.status).toBe(401);
+    });
+});
@@ -0,0 +1,124 @@
+import {Service} from "../../../../api/src/services/app.service";
+import {
+    APP_SERVICE, CONFIG_SERVICE, PERMISSION_REPOSITORY_SERVICE,
+    SERVER_SERVICE,
+} from "../../../../api/src/services/app.constants";
+import * as core from "express-serve-static-core";
+import request from "supertest";
+import http from "http";
+import {Config} from "../../../../api/src/util/secrets";
+import {PermissionRepository} from "../../../../api/src/db/storage/postgres/repository/permission.repository";
+import {purgeFixtures, registerTestHarness, signIn} from "../harness";
+import {PERMISSIONS_TABLE} from "../../../../api/src/db/storage/postgres/repository/constants.repository";
+
+describe("Service test api/src/routes/permission.route", () => {
+    jest.setTimeout(30000);
+    const service = new Service();
+    let agent: request.SuperAgentTest;
+    beforeAll(async () => {
+        service.bootstrap(registerTestHarness);
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(agent, config.defaultUser.email, config.defaultUser.password);
+    });
+    afterAll(async () => {
+        await purgeFixtures(PERMISSIONS_TABLE, "title", ["test_permission", "updated_test_permission"]);
+        await Service.getService<http.Server>(SERVER_SERVICE).close();
+        await new Promise(resolve => setTimeout(() => resolve({}), 10000));
+    });
+    it("1 GET /api/v1/permission should return 200 OK", (done) => {
+        agent.get("/api/v1/permission")
+            .expect(200, done);
+    });
+    it("2 PUT /api/v1/permission should return 401 without parameters", (done) => {
+        agent.put("/api/v1/permission")
+            .expect(400, done);
+    });
+    it("3 POST /api/v1/permission should return 401 without parameters", (done) => {
+        agent.put("/api/v1/permission")
+            .expect(400, done);
+    });
+    it("4 DELETE /api/v1/permission should return 401 without parameters", (done) => {
+        agent.delete("/api/v1/permission")
+            .expect(400, done);
+    });
+    // create
+    it("5 POST /api/v1/permission create should return 200 with parameters", async () => {
+        try {
+            const repository = Service.getService<PermissionRepository>(PERMISSION_REPOSITORY_SERVICE);
+            const permission = await repository
+                .getByName("test_permission");
+            if (permission === null) {
+                agent.post("/api/v1/permission")
+                    .send({
+                        title: "test_permission",
+                        description: "test_permission_description"
+                    })
+                    .end(async (err, res) => {
+                        expect(res.body.permission.title === "test_permission").toBe(true);
+                        expect(res.body.permission.description === "test_permission_description").toBe(true);
+                        expect(res.body.permission.enabled === true).toBe(true);
+                        expect(err).toBe(null);
+                    });
+            } else {
+                expect(permission).not.toBe(null);
+            }
+        } catch (e) {
+            expect(e).toMatch("error");
+        }
+    });
+    // update
+    it("6 PUT /api/v1/permission update should return 200 with parameters", async () => {
+        try {
+            const repository = Service.getService<PermissionRepository>(PERMISSION_REPOSITORY_SERVICE);
+            const permission = await repository
+                .getByName("test_permission");
+            if (permission) {
+                agent.put("/api/v1/permission")
+                    .send({
+                        id: permission.id,
+                        title: "updated_" + permission.title,
+                        description: "updated_" + permission.description
+                    })
+                    .end(async (err, res) => {
+                        console.log(res.body);
+                        expect(err).toBe(null);
+                    });
+            } else {
+                expect(permission).toBe(null);
+            }
+        } catch (e) {
+            expect(e).toMatch("error");
+        }
+    });
+    // delete
+    it("7 DELETE /api/v1/permission/ updated_test_permission should return 200 with parameters", async () => {
+        try {
+            const repository = Service.getService<PermissionRepository>(PERMISSION_REPOSITORY_SERVICE);
+            const permission = await repository
+                .getByName("updated_test_permission");
+            if (permission) {
+                agent.delete("/api/v1/permission/")
+                    .send({
+                        id: permission.id
+                    })
+                    .end((err, res) => {
+                        console.log(res.body);
+                        expect(err).toBe(null);
+                    });
+            } else {
+                expect(permission).toBe(null);
+            }
+        } catch (e) {
+            expect(e).toMatch("error");
+        }
+    });
+    it("8 GET /api/v1/permission should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/permission")
+            .expect(401, done);
+    });
+    it("9 DELETE /api/v1/permission should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/permission")
+            .expect(401, done);
+    });
+});
\ No newline at end of file
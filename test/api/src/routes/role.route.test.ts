@@ -1,51 +1,45 @@
 import {Service} from "../../../../api/src/services/app.service";
 import {
     APP_SERVICE, CONFIG_SERVICE, ROLE_REPOSITORY_SERVICE,
-    SERVER_SERVICE, USER_REPOSITORY_SERVICE,
+    SERVER_SERVICE,
 } from "../../../../api/src/services/app.constants";
 import * as core from "express-serve-static-core";
 import request from "supertest";
 import http from "http";
 import {Config} from "../../../../api/src/util/secrets";
-import {UserRepository} from "../../../../api/src/db/storage/postgres/repository/user.repository";
 import {RoleRepository} from "../../../../api/src/db/storage/postgres/repository/role.repository";
+import {purgeFixtures, registerTestHarness, signIn} from "../harness";
+import {ROLES_TABLE} from "../../../../api/src/db/storage/postgres/repository/constants.repository";
 
 describe("Service test api/src/routes/role.route", () => {
     jest.setTimeout(30000);
     const service = new Service();
-    beforeAll( () => {
-        service.bootstrap();
+    let agent: request.SuperAgentTest;
+    beforeAll(async () => {
+        service.bootstrap(registerTestHarness);
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(agent, config.defaultUser.email, config.defaultUser.password);
     });
     afterAll(async () => {
-        const repository = Service.getService<RoleRepository>(ROLE_REPOSITORY_SERVICE);
-        const role = await repository
-            .getByName("test_role");
-        if (role) {
-            await repository.remove(role);
-        }
-        const updatedRole = await repository
-            .getByName("updated_test_role");
-        if (updatedRole) {
-            await repository.remove(updatedRole);
-        }
-
+        await purgeFixtures(ROLES_TABLE, "title", ["test_role", "updated_test_role"]);
         await Service.getService<http.Server>(SERVER_SERVICE).close();
         await new Promise(resolve => setTimeout(() => resolve({}), 10000));
     });
     it("1 GET /api/v1/role should return 200 OK", (done) => {
-        request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/role")
+        agent.get("/api/v1/role")
             .expect(200, done);
     });
     it("2 PUT /api/v1/role should return 401 without parameters", (done) => {
-        request(Service.getService<core.Express>(APP_SERVICE)).put("/api/v1/role")
+        agent.put("/api/v1/role")
             .expect(400, done);
     });
     it("3 POST /api/v1/role should return 401 without parameters", (done) => {
-        request(Service.getService<core.Express>(APP_SERVICE)).put("/api/v1/role")
+        agent.put("/api/v1/role")
             .expect(400, done);
     });
     it("4 DELETE /api/v1/role should return 401 without parameters", (done) => {
-        request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/role")
+        agent.delete("/api/v1/role")
             .expect(400, done);
     });
     // create
@@ -55,7 +49,7 @@ describe("Service test api/src/routes/role.route", () => {
             const role = await repository
                 .getByName("test_role");
             if (role === null) {
-                request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/role")
+                agent.post("/api/v1/role")
                     .send({
                         title: "test_role",
                         description: "test_role_description"
@@ -80,7 +74,7 @@ describe("Service test api/src/routes/role.route", () => {
             const role = await repository
                 .getByName("test_role");
             if (role) {
-                request(Service.getService<core.Express>(APP_SERVICE)).put("/api/v1/role")
+                agent.put("/api/v1/role")
                     .send({
                         id: role.id,
                         title: "updated_" + role.title,
@@ -104,7 +98,7 @@ describe("Service test api/src/routes/role.route", () => {
             const role = await repository
                 .getByName("updated_test_role");
             if (role) {
-                request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/role/")
+                agent.delete("/api/v1/role/")
                     .send({
                         id: role.id
                     })
@@ -119,4 +113,35 @@ describe("Service test api/src/routes/role.route", () => {
             expect(e).toMatch("error");
         }
     });
-});
\ No newline at end of file
+    it("8 GET /api/v1/role should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/role")
+            .expect(401, done);
+    });
+    it("9 DELETE /api/v1/role should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/role")
+            .expect(401, done);
+    });
+    it("10 GET /api/v1/role should return only enabled roles with enabled filter", async () => {
+        const res = await agent.get("/api/v1/role?enabled=true");
+        expect(res.status).toBe(200);
+        res.body.roles.forEach((role: {enabled: boolean, removed: Date}) => {
+            expect(role.enabled).toBe(true);
+            expect(role.removed).toBe(null);
+        });
+    });
+    it("11 GET /api/v1/role/trash should return page of removed roles", async () => {
+        const res = await agent.get("/api/v1/role/trash");
+        expect(res.status).toBe(200);
+        res.body.roles.forEach((role: {removed: Date}) => {
+            expect(!!role.removed).toBe(true);
+        });
+    });
+    it("12 POST /api/v1/role/1/restore should return 400 for not removed role", (done) => {
+        agent.post("/api/v1/role/1/restore")
+            .expect(400, done);
+    });
+    it("13 DELETE /api/v1/role/1/purge should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/role/1/purge")
+            .expect(401, done);
+    });
+});
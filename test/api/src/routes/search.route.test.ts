@@ -0,0 +1,52 @@
+import {Service} from "../../../../api/src/services/app.service";
+import {
+    APP_SERVICE, CONFIG_SERVICE,
+    SERVER_SERVICE,
+} from "../../../../api/src/services/app.constants";
+import * as core from "express-serve-static-core";
+import request from "supertest";
+import http from "http";
+import {Config} from "../../../../api/src/util/secrets";
+import {registerTestHarness, signIn} from "../harness";
+
+describe("Service test api/src/routes/search.route", () => {
+    jest.setTimeout(30000);
+    const service = new Service();
+    let agent: request.SuperAgentTest;
+    beforeAll(async () => {
+        service.bootstrap(registerTestHarness);
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(agent, config.defaultUser.email, config.defaultUser.password);
+    });
+    afterAll(async () => {
+        await Service.getService<http.Server>(SERVER_SERVICE).close();
+        await new Promise(resolve => setTimeout(() => resolve({}), 10000));
+    });
+    it("1 GET /api/v1/search should return 400 without query", (done) => {
+        agent.get("/api/v1/search")
+            .expect(400, done);
+    });
+    it("2 GET /api/v1/search should return ranked root user by username", async () => {
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        const res = await agent.get(`/api/v1/search?q=${encodeURIComponent(config.defaultUser.username)}`);
+        expect(res.status).toBe(200);
+        const user = res.body.results.find((result: {type: string, name: string}) => result.type === "user" && result.name === config.defaultUser.username);
+        expect(!!user).toBe(true);
+        res.body.results.reduce((previous: number, result: {rank: number}) => {
+            expect(result.rank <= previous).toBe(true);
+            return result.rank;
+        }, Number.MAX_VALUE);
+    });
+    it("3 GET /api/v1/search should return only accounts with account type", async () => {
+        const res = await agent.get("/api/v1/search?q=test&type=account");
+        expect(res.status).toBe(200);
+        res.body.results.forEach((result: {type: string}) => {
+            expect(result.type).toBe("account");
+        });
+    });
+    it("4 GET /api/v1/search should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/search?q=test")
+            .expect(401, done);
+    });
+});
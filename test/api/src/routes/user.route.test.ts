@@ -8,63 +8,53 @@ import request from "supertest";
 import http from "http";
 import {Config} from "../../../../api/src/util/secrets";
 import {UserRepository} from "../../../../api/src/db/storage/postgres/repository/user.repository";
+import {purgeFixtures, registerTestHarness, seedUser, signIn, testUserFixture, UserFixture} from "../harness";
+import {ADMIN_ROLE_ID, MANAGER_ROLE_ID, SUPERADMIN_ROLE_ID, USER_ROLE_ID} from "../../../../api/src/db/entities/roles.entity";
+import {ERROR_ROLE_NOT_GRANTABLE, ERROR_USER_NOT_MANAGEABLE} from "../../../../api/src/controllers/auth/auth.error.codes";
+import {USERS_TABLE} from "../../../../api/src/db/storage/postgres/repository/constants.repository";
 
 describe("Service test api/src/routes/user.route", () => {
     jest.setTimeout(30000);
     const service = new Service();
-    beforeAll( () => {
-        service.bootstrap();
+    let agent: request.SuperAgentTest;
+    const adminFixture: UserFixture = {...testUserFixture, username: "admin_test_user", email: "admin_test_user@example.com"};
+    const removedFixture: UserFixture = {...testUserFixture, username: "removed_test_user", email: "removed_test_user@example.com"};
+    const superadminFixture: UserFixture = {...testUserFixture, username: "superadmin_test_user", email: "superadmin_test_user@example.com"};
+    const unverifiedFixture: UserFixture = {...testUserFixture, username: "unverified_test_user", email: "unverified_test_user@example.com"};
+    beforeAll(async () => {
+        service.bootstrap(registerTestHarness);
+        // created users are copies of seeded test user
+        await seedUser(testUserFixture);
+        const config = Service.getService<Config>(CONFIG_SERVICE);
+        agent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(agent, config.defaultUser.email, config.defaultUser.password);
     });
     afterAll(async () => {
-        const repository = Service.getService<UserRepository>(USER_REPOSITORY_SERVICE);
-        const config = Service.getService<Config>(CONFIG_SERVICE);
-        const testUser = config.testUser;
-        try {
-            const user = await repository.getByUsername(testUser.username);
-            if (user) {
-                await repository.remove(user);
-            }
-        } catch (e) {
-            console.log(e);
-        }
-        try {
-            const updatedCreatedUser = await repository.getByUsername("updated_created_" + testUser.username);
-            if (updatedCreatedUser) {
-                await repository.remove(updatedCreatedUser);
-            }
-        } catch (e) {
-            console.log(e);
-        }
-        try {
-            const createdUser = await repository.getByUsername("created_" + testUser.username);
-            if (createdUser) {
-                await repository.remove(createdUser);
-            }
-        } catch (e) {
-            console.log(e);
-        }
+        const testUser = testUserFixture;
+        await purgeFixtures(USERS_TABLE, "username",
+            [testUser.username, "created_" + testUser.username, "updated_created_" + testUser.username, adminFixture.username, removedFixture.username,
+             superadminFixture.username, unverifiedFixture.username]);
         await Service.getService<http.Server>(SERVER_SERVICE).close();
         await new Promise(resolve => setTimeout(() => resolve({}), 10000));
     });
     it("1 GET /api/v1/user should return 200 OK", (done) => {
-        request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/user")
+        agent.get("/api/v1/user")
             .expect(200, done);
     });
     // root should exist
     it("2 GET /api/v1/user/1 should return 200 OK", (done) => {
-        request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/user/1")
+        agent.get("/api/v1/user/1")
             .expect(200, done);
     });
     // create
     it("4 POST /api/v1/user create should return 200 with parameters", async () => {
         try {
-            const config = Service.getService<Config>(CONFIG_SERVICE);
-            const testUser = config.testUser;
+            const testUser = testUserFixture;
             const repository = Service.getService<UserRepository>(USER_REPOSITORY_SERVICE);
             const user = await repository
                 .getByUsername(testUser.username);
             if (user) {
-                request(Service.getService<core.Express>(APP_SERVICE)).post("/api/v1/user")
+                agent.post("/api/v1/user")
                     .send({
                         email: "created_" + testUser.email,
                         username: "created_" + testUser.username,
@@ -88,19 +78,17 @@ describe("Service test api/src/routes/user.route", () => {
     // update
     it("3 PUT /api/v1/user update should return 200 with parameters", async () => {
         try {
-            const config = Service.getService<Config>(CONFIG_SERVICE);
-            const testUser = config.testUser;
+            const testUser = testUserFixture;
             const repository = Service.getService<UserRepository>(USER_REPOSITORY_SERVICE);
             const user = await repository
                 .getByUsername("created_" + testUser.username);
             if (user) {
-                request(Service.getService<core.Express>(APP_SERVICE)).put("/api/v1/user")
+                agent.put("/api/v1/user")
                     .send({
                         id: user.id,
                         email: "updated_" + user.email,
                         username: "updated_" + user.username,
-                        enabled: !user.enabled,
-                        secret: config.testUser.secret
+                        enabled: !user.enabled
                     })
                     .end(async (err, res) => {
                         expect(res.body.user.email === "updated_" + user.email).toBe(true);
@@ -117,13 +105,12 @@ describe("Service test api/src/routes/user.route", () => {
 
     it("5 DELETE /api/v1/user/ updated_created_test user should return 200 with parameters", async () => {
         try {
-            const config = Service.getService<Config>(CONFIG_SERVICE);
-            const testUser = config.testUser;
+            const testUser = testUserFixture;
             const repository = Service.getService<UserRepository>(USER_REPOSITORY_SERVICE);
             const user = await repository
                 .getByUsername("updated_created_" + testUser.username);
             if (user) {
-                request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/user/")
+                agent.delete("/api/v1/user/")
                     .send({
                         id: user.id
                     })
@@ -141,13 +128,12 @@ describe("Service test api/src/routes/user.route", () => {
     });
     it("6 DELETE /api/v1/user/ created_test user should return 200 with parameters", async () => {
         try {
-            const config = Service.getService<Config>(CONFIG_SERVICE);
-            const testUser = config.testUser;
+            const testUser = testUserFixture;
             const repository = Service.getService<UserRepository>(USER_REPOSITORY_SERVICE);
             const user = await repository
                 .getByUsername("created_" + testUser.username);
             if (user) {
-                request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/user/")
+                agent.delete("/api/v1/user/")
                     .send({
                         id: user.id
                     })
@@ -165,13 +151,12 @@ describe("Service test api/src/routes/user.route", () => {
     });
     it("7 DELETE /api/v1/user/ test user should return 200 with parameters", async () => {
         try {
-            const config = Service.getService<Config>(CONFIG_SERVICE);
-            const testUser = config.testUser;
+            const testUser = testUserFixture;
             const repository = Service.getService<UserRepository>(USER_REPOSITORY_SERVICE);
             const user = await repository
                 .getByUsername(testUser.username);
             if (user) {
-                request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/user/")
+                agent.delete("/api/v1/user/")
                     .send({
                         id: user.id
                     })
@@ -189,11 +174,153 @@ describe("Service test api/src/routes/user.route", () => {
     });
 
     it("9 POST /api/v1/user should return 401 without parameters", (done) => {
-        request(Service.getService<core.Express>(APP_SERVICE)).put("/api/v1/user")
+        agent.put("/api/v1/user")
             .expect(400, done);
     });
     it("10 DELETE /api/v1/user should return 401 without parameters", (done) => {
+        agent.delete("/api/v1/user")
+            .expect(400, done);
+    });
+    it("11 GET /api/v1/user should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).get("/api/v1/user")
+            .expect(401, done);
+    });
+    it("12 DELETE /api/v1/user should return 401 without authorization", (done) => {
         request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/user")
+            .expect(401, done);
+    });
+    it("13 GET /api/v1/user should return page of users with cursor of next page", async () => {
+        const res = await agent.get("/api/v1/user?limit=1&sort=username&order=desc");
+        expect(res.status).toBe(200);
+        expect(res.body.users.length).toBeLessThanOrEqual(1);
+        expect(res.body.limit).toBe(1);
+        expect(res.body.offset).toBe(0);
+        if (res.body.total > 1) {
+            const next = await agent.get(`/api/v1/user?limit=1&sort=username&order=desc&cursor=${res.body.next}`);
+            expect(next.status).toBe(200);
+            expect(next.body.offset).toBe(1);
+            expect(next.body.users[0].username <= res.body.users[0].username).toBe(true);
+        } else {
+            expect(res.body.next).toBe(null);
+        }
+    });
+    it("14 GET /api/v1/user should return 400 with invalid sort field", (done) => {
+        agent.get("/api/v1/user?sort=password")
+            .expect(400, done);
+    });
+    it("15 GET /api/v1/user/trash should return page of removed users", async () => {
+        const res = await agent.get("/api/v1/user/trash");
+        expect(res.status).toBe(200);
+        res.body.users.forEach((user: {removed: Date}) => {
+            expect(!!user.removed).toBe(true);
+        });
+    });
+    it("16 POST /api/v1/user/1/restore should return 400 for not removed user", (done) => {
+        agent.post("/api/v1/user/1/restore")
             .expect(400, done);
     });
-});
\ No newline at end of file
+    it("17 DELETE /api/v1/user/1/purge should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/user/1/purge")
+            .expect(401, done);
+    });
+    it("18 GET /api/v1/auth/sessions should return sessions of signed in user", async () => {
+        const res = await agent.get("/api/v1/auth/sessions");
+        expect(res.status).toBe(200);
+        expect(res.body.sessions.filter((session: {current: boolean}) => session.current).length).toBe(1);
+    });
+    it("19 DELETE /api/v1/auth/sessions/:id should return 400 for unknown session", (done) => {
+        agent.delete("/api/v1/auth/sessions/0123456789abcdef")
+            .expect(400, done);
+    });
+    it("20 DELETE /api/v1/user/1/sessions should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/user/1/sessions")
+            .expect(401, done);
+    });
+    it("21 POST /api/v1/user/1/unlock should return unlocked user", async () => {
+        const res = await agent.post("/api/v1/user/1/unlock");
+        expect(res.status).toBe(200);
+        expect(res.body.user.locked).toBe(false);
+        expect(res.body.user.lockedUntil).toBe(null);
+    });
+    it("22 DELETE /api/v1/user/1/2fa should return 401 without authorization", (done) => {
+        request(Service.getService<core.Express>(APP_SERVICE)).delete("/api/v1/user/1/2fa")
+            .expect(401, done);
+    });
+    it("23 PUT /api/v1/user should return 403 when admin grants role admin does not hold", async () => {
+        const admin = await seedUser(adminFixture);
+        admin.roles = [ADMIN_ROLE_ID, USER_ROLE_ID];
+        await admin.save();
+        const adminAgent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(adminAgent, adminFixture.email, adminFixture.password);
+        const res = await adminAgent.put("/api/v1/user")
+            .send({
+                id: admin.id,
+                username: admin.username,
+                email: admin.email,
+                enabled: true,
+                roles: [SUPERADMIN_ROLE_ID, ADMIN_ROLE_ID, USER_ROLE_ID]
+            });
+        expect(res.status).toBe(403);
+        expect(res.body.message).toBe(ERROR_ROLE_NOT_GRANTABLE);
+    });
+    it("24 POST /api/v1/user/:id/restore should return user with roles it had before removal", async () => {
+        const user = await seedUser(removedFixture);
+        user.roles = [MANAGER_ROLE_ID, USER_ROLE_ID];
+        await user.save();
+        const removed = await agent.delete("/api/v1/user")
+            .send({id: user.id});
+        expect(removed.status).toBe(200);
+        const restored = await agent.post(`/api/v1/user/${user.id}/restore`);
+        expect(restored.status).toBe(200);
+        expect(restored.body.user.roles.map((roleId: number) => Number(roleId)).sort()).toEqual([USER_ROLE_ID, MANAGER_ROLE_ID].sort());
+    });
+    it("25 PUT and DELETE /api/v1/user should return 403 when admin changes superadmin of shared account", async () => {
+        const admin = await seedUser(adminFixture);
+        admin.roles = [ADMIN_ROLE_ID, USER_ROLE_ID];
+        admin.accounts = [1];
+        await admin.save();
+        const superadmin = await seedUser(superadminFixture);
+        superadmin.roles = [SUPERADMIN_ROLE_ID];
+        superadmin.accounts = [1];
+        await superadmin.save();
+        const adminAgent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(adminAgent, adminFixture.email, adminFixture.password);
+        const updated = await adminAgent.put("/api/v1/user")
+            .send({
+                id: superadmin.id,
+                username: superadmin.username,
+                email: "taken_" + superadmin.email,
+                enabled: true
+            });
+        expect(updated.status).toBe(403);
+        expect(updated.body.message).toBe(ERROR_USER_NOT_MANAGEABLE);
+        const removed = await adminAgent.delete("/api/v1/user")
+            .send({id: superadmin.id});
+        expect(removed.status).toBe(403);
+        expect(removed.body.message).toBe(ERROR_USER_NOT_MANAGEABLE);
+    });
+    it("26 DELETE /api/v1/user/:id/2fa should return 403 when admin resets 2FA of superadmin", async () => {
+        const superadmin = await seedUser(superadminFixture);
+        const adminAgent = request.agent(Service.getService<core.Express>(APP_SERVICE));
+        await signIn(adminAgent, adminFixture.email, adminFixture.password);
+        const res = await adminAgent.delete(`/api/v1/user/${superadmin.id}/2fa`);
+        expect(res.status).toBe(403);
+        expect(res.body.message).toBe(ERROR_USER_NOT_MANAGEABLE);
+    });
+    it("27 GET /api/v1/user should not return pending email verification token", async () => {
+        const user = await seedUser(unverifiedFixture);
+        user.emailVerified = false;
+        user.emailVerifyToken = "pending_verify_token";
+        user.emailVerifyExpires = Date.now() + 3600000;
+        await user.save();
+        const one = await agent.get(`/api/v1/user/${user.id}`);
+        expect(one.status).toBe(200);
+        expect(one.body.user.emailVerifyToken).toBeFalsy();
+        const page = await agent.get("/api/v1/user")
+            .query({limit: 1000});
+        expect(page.status).toBe(200);
+        expect(page.body.users.filter((u: {emailVerifyToken: string}) => u.emailVerifyToken)).toEqual([]);
+        const verified = await Service.getService<UserRepository>(USER_REPOSITORY_SERVICE).getByEmailVerifyToken("pending_verify_token");
+        expect(verified.id).toBe(user.id);
+    });
+});
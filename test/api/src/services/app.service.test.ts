@@ -8,6 +8,32 @@ import {
     ROLE_REPOSITORY_SERVICE,
     USER_REPOSITORY_SERVICE,
     ACCOUNT_REPOSITORY_SERVICE, SERVER_SERVICE,
+    PERMISSION_REPOSITORY_SERVICE,
+    SEARCH_REPOSITORY_SERVICE,
+    AUDIT_REPOSITORY_SERVICE,
+    TOKEN_REPOSITORY_SERVICE,
+    TOKEN_SERVICE,
+    SESSION_STORE_SERVICE,
+    SESSION_SERVICE,
+    LOGIN_ATTEMPT_REPOSITORY_SERVICE,
+    LOCKOUT_SERVICE,
+    RATE_LIMIT_STORE_SERVICE,
+    MAIL_REPOSITORY_SERVICE,
+    MAIL_TRANSPORT_SERVICE,
+    MAIL_SERVICE,
+    RECOVERY_CODE_REPOSITORY_SERVICE,
+    RECOVERY_CODE_SERVICE,
+    WEBAUTHN_REPOSITORY_SERVICE,
+    WEBAUTHN_SERVICE,
+    TOTP_SERVICE,
+    PASSWORD_HISTORY_REPOSITORY_SERVICE,
+    PASSWORD_SERVICE,
+    USER_IDENTITY_REPOSITORY_SERVICE,
+    OIDC_SERVICE,
+    OAUTH_REPOSITORY_SERVICE,
+    OAUTH_SERVICE,
+    API_KEY_REPOSITORY_SERVICE,
+    API_KEY_SERVICE,
 } from "../../../../api/src/services/app.constants";
 import {Config} from "../../../../api/src/util/secrets";
 import {Pool} from "pg";
@@ -17,13 +43,41 @@ import {EventEmitter} from "events";
 import {RoleRepository}    from "../../../../api/src/db/storage/postgres/repository/role.repository";
 import {UserRepository}    from "../../../../api/src/db/storage/postgres/repository/user.repository";
 import {AccountRepository} from "../../../../api/src/db/storage/postgres/repository/account.repository";
+import {PermissionRepository} from "../../../../api/src/db/storage/postgres/repository/permission.repository";
+import {SearchRepository} from "../../../../api/src/db/storage/postgres/repository/search.repository";
+import {AuditRepository} from "../../../../api/src/db/storage/postgres/repository/audit.repository";
+import {TokenRepository} from "../../../../api/src/db/storage/postgres/repository/token.repository";
+import {ITokenService} from "../../../../api/src/services/token.service";
+import {ISessionStore} from "../../../../api/src/db/storage/session.store";
+import {ISessionService} from "../../../../api/src/services/session.service";
+import {LoginAttemptRepository} from "../../../../api/src/db/storage/postgres/repository/login.attempt.repository";
+import {ILockoutService} from "../../../../api/src/services/lockout.service";
+import {IRateLimitStore} from "../../../../api/src/db/storage/rate.limit.store";
+import {MailRepository} from "../../../../api/src/db/storage/postgres/repository/mail.repository";
+import {IMailTransport} from "../../../../api/src/mail/transport";
+import {IMailService} from "../../../../api/src/services/mail.service";
+import {RecoveryCodeRepository} from "../../../../api/src/db/storage/postgres/repository/recovery.code.repository";
+import {IRecoveryCodeService} from "../../../../api/src/services/recovery.service";
+import {WebAuthnCredentialRepository} from "../../../../api/src/db/storage/postgres/repository/webauthn.credential.repository";
+import {IWebAuthnService} from "../../../../api/src/services/webauthn.service";
+import {ITotpService} from "../../../../api/src/services/totp.service";
+import {FakeTotpService} from "../harness/fakes";
+import {PasswordHistoryRepository} from "../../../../api/src/db/storage/postgres/repository/password.history.repository";
+import {IPasswordService} from "../../../../api/src/services/password.service";
+import {UserIdentityRepository} from "../../../../api/src/db/storage/postgres/repository/user.identity.repository";
+import {IOidcService} from "../../../../api/src/services/oidc.service";
+import {OAuthRepository} from "../../../../api/src/db/storage/postgres/repository/oauth.repository";
+import {IOAuthService} from "../../../../api/src/services/oauth.service";
+import {ApiKeyRepository} from "../../../../api/src/db/storage/postgres/repository/api.key.repository";
+import {IApiKeyService} from "../../../../api/src/services/api.key.service";
 
 import http from "http";
+import {registerTestHarness, testUserFixture} from "../harness";
 
 describe("Service test api/src/services/app", () => {
     const service = new Service();
     beforeAll( () => {
-        service.bootstrap();
+        service.bootstrap(registerTestHarness);
     });
     afterAll(async () => {
         await Service.getService<http.Server>(SERVER_SERVICE).close();
@@ -90,25 +144,25 @@ describe("Service test api/src/services/app", () => {
         expect(!!Service.getService<Config>(CONFIG_SERVICE).defaultUser.password).toBe(true);
         expect(Service.getService<Config>(CONFIG_SERVICE).defaultUser.password === process.env["DEFAULT_USER_PASSWORD"]).toBe(true);
     });
-    it ("18 config.test.username exists", () => {
-        expect(!!Service.getService<Config>(CONFIG_SERVICE).testUser.username).toBe(true);
-        expect(Service.getService<Config>(CONFIG_SERVICE).testUser.username === process.env["TEST_USER_USERNAME"]).toBe(true);
+    it ("18 harness testUserFixture.username exists", () => {
+        expect(!!testUserFixture.username).toBe(true);
+        expect(testUserFixture.username === process.env["TEST_USER_USERNAME"]).toBe(true);
     });
-    it ("19 config.test.email exists", () => {
-        expect(!!Service.getService<Config>(CONFIG_SERVICE).testUser.email).toBe(true);
-        expect(Service.getService<Config>(CONFIG_SERVICE).testUser.email === process.env["TEST_USER_EMAIL"]).toBe(true);
+    it ("19 harness testUserFixture.email exists", () => {
+        expect(!!testUserFixture.email).toBe(true);
+        expect(testUserFixture.email === process.env["TEST_USER_EMAIL"]).toBe(true);
     });
-    it ("20 config.test.password exists", () => {
-        expect(!!Service.getService<Config>(CONFIG_SERVICE).testUser.password).toBe(true);
-        expect(Service.getService<Config>(CONFIG_SERVICE).testUser.password === process.env["TEST_USER_PASSWORD"]).toBe(true);
+    it ("20 harness testUserFixture.password exists", () => {
+        expect(!!testUserFixture.password).toBe(true);
+        expect(testUserFixture.password === process.env["TEST_USER_PASSWORD"]).toBe(true);
     });
-    it ("21 config.test.secret exists", () => {
-        expect(!!Service.getService<Config>(CONFIG_SERVICE).testUser.secret).toBe(true);
-        expect(Service.getService<Config>(CONFIG_SERVICE).testUser.secret === process.env["TEST_USER_SECRET"]).toBe(true);
+    it ("21 harness testUserFixture.secret exists", () => {
+        expect(!!testUserFixture.secret).toBe(true);
+        expect(testUserFixture.secret === process.env["TEST_USER_SECRET"]).toBe(true);
     });
-    it ("22 config.test.code exists", () => {
-        expect(!!Service.getService<Config>(CONFIG_SERVICE).testUser.code).toBe(true);
-        expect(Service.getService<Config>(CONFIG_SERVICE).testUser.code === process.env["TEST_USER_2FA_CODE"]).toBe(true);
+    it ("22 harness testUserFixture.code exists", () => {
+        expect(!!testUserFixture.code).toBe(true);
+        expect(testUserFixture.code === process.env["TEST_USER_2FA_CODE"]).toBe(true);
     });
     it ("23 config.services.provider exists", () => {
         expect(!!Service.getService<Config>(CONFIG_SERVICE).services.provider).toBe(true);
@@ -135,4 +189,82 @@ describe("Service test api/src/services/app", () => {
     it ("30 service account repository exists", () => {
         expect(!!Service.getService<AccountRepository>(ACCOUNT_REPOSITORY_SERVICE)).toBe(true);
     });
-});
\ No newline at end of file
+    it ("31 service permission repository exists", () => {
+        expect(!!Service.getService<PermissionRepository>(PERMISSION_REPOSITORY_SERVICE)).toBe(true);
+    });
+    it ("32 service search repository exists", () => {
+        expect(!!Service.getService<SearchRepository>(SEARCH_REPOSITORY_SERVICE)).toBe(true);
+    });
+    it ("33 service audit repository exists", () => {
+        expect(!!Service.getService<AuditRepository>(AUDIT_REPOSITORY_SERVICE)).toBe(true);
+    });
+    it ("34 service token repository exists", () => {
+        expect(!!Service.getService<TokenRepository>(TOKEN_REPOSITORY_SERVICE)).toBe(true);
+    });
+    it ("35 service token service exists", () => {
+        expect(typeof Service.getService<ITokenService>(TOKEN_SERVICE).issue).toBe("function");
+    });
+    it ("36 service session store exists", () => {
+        expect(typeof Service.getService<ISessionStore>(SESSION_STORE_SERVICE).get).toBe("function");
+    });
+    it ("37 service session service exists", () => {
+        expect(typeof Service.getService<ISessionService>(SESSION_SERVICE).revokeUser).toBe("function");
+    });
+    it ("38 service login attempt repository exists", () => {
+        expect(!!Service.getService<LoginAttemptRepository>(LOGIN_ATTEMPT_REPOSITORY_SERVICE)).toBe(true);
+    });
+    it ("39 service lockout service exists", () => {
+        expect(typeof Service.getService<ILockoutService>(LOCKOUT_SERVICE).check).toBe("function");
+    });
+    it ("40 service rate limit store exists", () => {
+        expect(typeof Service.getService<IRateLimitStore>(RATE_LIMIT_STORE_SERVICE).hit).toBe("function");
+    });
+    it ("41 service mail repository exists", () => {
+        expect(!!Service.getService<MailRepository>(MAIL_REPOSITORY_SERVICE)).toBe(true);
+    });
+    it ("42 service mail transport exists", () => {
+        expect(typeof Service.getService<IMailTransport>(MAIL_TRANSPORT_SERVICE).send).toBe("function");
+    });
+    it ("43 service mail service exists", () => {
+        expect(typeof Service.getService<IMailService>(MAIL_SERVICE).send).toBe("function");
+    });
+    it ("44 service recovery code repository exists", () => {
+        expect(!!Service.getService<RecoveryCodeRepository>(RECOVERY_CODE_REPOSITORY_SERVICE)).toBe(true);
+    });
+    it ("45 service recovery code service exists", () => {
+        expect(typeof Service.getService<IRecoveryCodeService>(RECOVERY_CODE_SERVICE).redeem).toBe("function");
+    });
+    it ("46 service webauthn credential repository exists", () => {
+        expect(!!Service.getService<WebAuthnCredentialRepository>(WEBAUTHN_REPOSITORY_SERVICE)).toBe(true);
+    });
+    it ("47 service webauthn service exists", () => {
+        expect(typeof Service.getService<IWebAuthnService>(WEBAUTHN_SERVICE).verify).toBe("function");
+    });
+    it ("48 service totp service is replaced by fake of test harness", () => {
+        expect(Service.getService<ITotpService>(TOTP_SERVICE) instanceof FakeTotpService).toBe(true);
+    });
+    it ("49 service password history repository exists", () => {
+        expect(!!Service.getService<PasswordHistoryRepository>(PASSWORD_HISTORY_REPOSITORY_SERVICE)).toBe(true);
+    });
+    it ("50 service password service exists", () => {
+        expect(typeof Service.getService<IPasswordService>(PASSWORD_SERVICE).check).toBe("function");
+    });
+    it ("51 service user identity repository exists", () => {
+        expect(!!Service.getService<UserIdentityRepository>(USER_IDENTITY_REPOSITORY_SERVICE)).toBe(true);
+    });
+    it ("52 service oidc service exists", () => {
+        expect(typeof Service.getService<IOidcService>(OIDC_SERVICE).signIn).toBe("function");
+    });
+    it ("53 service oauth repository exists", () => {
+        expect(!!Service.getService<OAuthRepository>(OAUTH_REPOSITORY_SERVICE)).toBe(true);
+    });
+    it ("54 service oauth service exists", () => {
+        expect(typeof Service.getService<IOAuthService>(OAUTH_SERVICE).validate).toBe("function");
+    });
+    it ("55 service api key repository exists", () => {
+        expect(!!Service.getService<ApiKeyRepository>(API_KEY_REPOSITORY_SERVICE)).toBe(true);
+    });
+    it ("56 service api key service exists", () => {
+        expect(typeof Service.getService<IApiKeyService>(API_KEY_SERVICE).validate).toBe("function");
+    });
+});
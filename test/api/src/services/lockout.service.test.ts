@@ -0,0 +1,21 @@
+import {lockoutDelay, LockoutPolicy} from "../../../../api/src/services/lockout.service";
+
+describe("Service test api/src/services/lockout.service", () => {
+    const policy: LockoutPolicy = {freeAttempts: 3, threshold: 10, delay: 1, duration: 900};
+    it("1 lockoutDelay should not delay free attempts", () => {
+        expect(lockoutDelay(0, policy)).toBe(0);
+        expect(lockoutDelay(2, policy)).toBe(0);
+    });
+    it("2 lockoutDelay should double delay after free attempts", () => {
+        expect(lockoutDelay(3, policy)).toBe(1);
+        expect(lockoutDelay(4, policy)).toBe(2);
+        expect(lockoutDelay(9, policy)).toBe(64);
+    });
+    it("3 lockoutDelay should lock for duration after threshold", () => {
+        expect(lockoutDelay(10, policy)).toBe(900);
+        expect(lockoutDelay(50, policy)).toBe(900);
+    });
+    it("4 lockoutDelay should not exceed duration", () => {
+        expect(lockoutDelay(9, {...policy, duration: 30})).toBe(30);
+    });
+});
@@ -0,0 +1,11 @@
+import {mailRetryDelay} from "../../../../api/src/services/mail.service";
+
+describe("Service test api/src/services/mail.service", () => {
+    it("1 mailRetryDelay should wait delay after first failure", () => {
+        expect(mailRetryDelay(1, 60)).toBe(60);
+    });
+    it("2 mailRetryDelay should double delay on every failure", () => {
+        expect(mailRetryDelay(2, 60)).toBe(120);
+        expect(mailRetryDelay(4, 60)).toBe(480);
+    });
+});
@@ -0,0 +1,52 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+    characterClasses,
+    PasswordPolicy,
+    passwordViolations
+} from "../../../../api/src/services/password.service";
+import {loadBreachedList, sha1Hex} from "../../../../api/src/util/breached";
+import {
+    ERROR_PASSWORD_BREACHED,
+    ERROR_PASSWORD_CHARACTER_CLASSES,
+    ERROR_PASSWORD_PERSONAL,
+    ERROR_PASSWORD_TOO_SHORT
+} from "../../../../api/src/controllers/auth/auth.error.codes";
+
+describe("Service test api/src/services/password.service", () => {
+    const policy: PasswordPolicy = {minLength: 8, classes: 3};
+    const owner = {username: "alice", email: "alice.smith@example.com"};
+    const breached = loadBreachedList();
+    it("1 characterClasses should count lower, upper, digits and symbols", () => {
+        expect(characterClasses("abc")).toBe(1);
+        expect(characterClasses("abcDEF12")).toBe(3);
+        expect(characterClasses("aB3$")).toBe(4);
+    });
+    it("2 passwordViolations should accept strong password", () => {
+        expect(passwordViolations("Tulip-Harbor-42", policy, owner, breached)).toEqual([]);
+    });
+    it("3 passwordViolations should reject short password of few classes", () => {
+        expect(passwordViolations("tulip", policy, owner, breached))
+            .toEqual([ERROR_PASSWORD_TOO_SHORT, ERROR_PASSWORD_CHARACTER_CLASSES]);
+    });
+    it("4 passwordViolations should reject password containing username or email", () => {
+        expect(passwordViolations("Alice-2024!", policy, owner, breached)).toEqual([ERROR_PASSWORD_PERSONAL]);
+        expect(passwordViolations("x-ALICE.SMITH-9", policy, {email: owner.email}, breached)).toEqual([ERROR_PASSWORD_PERSONAL]);
+    });
+    it("5 passwordViolations should reject breached password", () => {
+        expect(passwordViolations("Password123", policy, owner, breached)).toEqual([ERROR_PASSWORD_BREACHED]);
+    });
+    it("6 loadBreachedList should read passwords and SHA-1 hashes of file", () => {
+        const file = path.join(os.tmpdir(), `breached-${process.pid}.txt`);
+        fs.writeFileSync(file, `Tulip-Harbor-42\n${sha1Hex("Another-Secret-7").toLowerCase()}:31\n\n`);
+        try {
+            const list = loadBreachedList(file);
+            expect(list.size).toBe(2);
+            expect(list.has(sha1Hex("Tulip-Harbor-42"))).toBe(true);
+            expect(list.has(sha1Hex("Another-Secret-7"))).toBe(true);
+        } finally {
+            fs.unlinkSync(file);
+        }
+    });
+});
@@ -0,0 +1,21 @@
+import {
+    createRecoveryCode,
+    hashRecoveryCode,
+    normalizeRecoveryCode
+} from "../../../../api/src/services/recovery.service";
+
+describe("Service test api/src/services/recovery.service", () => {
+    it("1 createRecoveryCode should create code of 10 hex digits", () => {
+        expect(createRecoveryCode()).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+    });
+    it("2 createRecoveryCode should create different codes", () => {
+        expect(createRecoveryCode()).not.toBe(createRecoveryCode());
+    });
+    it("3 normalizeRecoveryCode should ignore case and separators", () => {
+        expect(normalizeRecoveryCode(" AB12C-3d4E5 ")).toBe("ab12c3d4e5");
+    });
+    it("4 hashRecoveryCode should hash normalized code", () => {
+        expect(hashRecoveryCode("AB12C 3D4E5")).toBe(hashRecoveryCode("ab12c-3d4e5"));
+        expect(hashRecoveryCode("ab12c-3d4e5")).toMatch(/^[0-9a-f]{64}$/);
+    });
+});
@@ -0,0 +1,23 @@
+import speakeasy from "speakeasy";
+import {TotpService} from "../../../../api/src/services/totp.service";
+
+describe("Service test api/src/services/totp.service", () => {
+    const totp = new TotpService();
+    it("1 register should return base32 secret and qr code", () => {
+        const registration = totp.register("totp@example.com");
+        expect(registration.secret).toMatch(/^[A-Z2-7]+=*$/);
+        expect(!!registration.qr).toBe(true);
+    });
+    it("2 verify should accept current code of secret", () => {
+        const {secret} = totp.register("totp@example.com");
+        expect(totp.verify(secret, speakeasy.totp({secret, encoding: "base32"}))).toBe(true);
+    });
+    it("3 verify should reject code of another secret", () => {
+        const {secret} = totp.register("totp@example.com");
+        const other = totp.register("other@example.com").secret;
+        expect(totp.verify(secret, speakeasy.totp({secret: other, encoding: "base32"}))).toBe(false);
+    });
+    it("4 verify should reject user without secret", () => {
+        expect(totp.verify(null, "123456")).toBe(false);
+    });
+});
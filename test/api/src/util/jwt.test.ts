@@ -0,0 +1,24 @@
+import {sign, verify} from "../../../../api/src/util/jwt";
+import {ERROR_TOKEN_EXPIRED, ERROR_TOKEN_INVALID} from "../../../../api/src/controllers/auth/auth.error.codes";
+
+describe("Util test api/src/util/jwt", () => {
+    const secret = "jwt test secret";
+    it("1 verify should return claims of signed token", () => {
+        const payload = verify(sign({sub: 1, fam: "family", scope: "all"}, secret, 60), secret);
+        expect(payload.sub).toBe(1);
+        expect(payload.fam).toBe("family");
+        expect(payload.exp - payload.iat).toBe(60);
+    });
+    it("2 verify should throw on token signed by another secret", () => {
+        const token = sign({sub: 1, fam: "family", scope: "all"}, "another secret", 60);
+        expect(() => verify(token, secret)).toThrow(ERROR_TOKEN_INVALID);
+    });
+    it("3 verify should throw on changed claims", () => {
+        const [header, , signature] = sign({sub: 1, fam: "family", scope: "all"}, secret, 60).split(".");
+        const claims = Buffer.from(JSON.stringify({sub: 2, fam: "family", scope: "all", exp: 9999999999})).toString("base64");
+        expect(() => verify(`${header}.${claims}.${signature}`, secret)).toThrow(ERROR_TOKEN_INVALID);
+    });
+    it("4 verify should throw on expired token", () => {
+        expect(() => verify(sign({sub: 1, fam: "family", scope: "all"}, secret, -1), secret)).toThrow(ERROR_TOKEN_EXPIRED);
+    });
+});
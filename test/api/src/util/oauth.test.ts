@@ -0,0 +1,45 @@
+import {
+    basicCredentials,
+    grantScopes,
+    OAUTH_ERROR_INVALID_SCOPE,
+    OAuthError,
+    parseScope,
+    scopeRoles,
+    verifyChallenge
+} from "../../../../api/src/util/oauth";
+
+describe("Util test api/src/util/oauth", () => {
+    const mapping = {user: [3], manager: [4], admin: [2], superadmin: [1]};
+
+    it("1 basicCredentials should decode form encoded client id and secret", () => {
+        const header = `Basic ${Buffer.from("client%3Aid:se+cret").toString("base64")}`;
+        expect(basicCredentials(header)).toEqual({clientId: "client:id", clientSecret: "se cret"});
+        expect(basicCredentials("Bearer token")).toBe(null);
+    });
+    it("2 parseScope should split unique scopes", () => {
+        expect(parseScope("user  admin user")).toEqual(["user", "admin"]);
+        expect(parseScope(undefined)).toEqual([]);
+    });
+    it("3 grantScopes should leave out scopes of roles user does not have", () => {
+        expect(grantScopes([], ["user", "admin"], [3], mapping)).toEqual(["user"]);
+        expect(grantScopes(["admin", "user"], ["user", "admin"], [2, 3], mapping)).toEqual(["admin", "user"]);
+    });
+    it("4 grantScopes should reject scope not allowed for client or granted to none of roles", () => {
+        expect(() => grantScopes(["admin"], ["user"], [2], mapping)).toThrow(OAuthError);
+        let error: OAuthError;
+        try {
+            grantScopes(["admin"], ["admin"], [3], mapping);
+        } catch (e) {
+            error = e;
+        }
+        expect(error.error).toBe(OAUTH_ERROR_INVALID_SCOPE);
+    });
+    it("5 scopeRoles should keep only roles mapped to scopes", () => {
+        expect(scopeRoles(["user"], [1, 3], mapping)).toEqual([3]);
+        expect(scopeRoles(["user", "superadmin"], [1, 3], mapping)).toEqual([1, 3]);
+    });
+    it("6 verifyChallenge should match S256 challenge of RFC 7636", () => {
+        expect(verifyChallenge("dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk", "E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM")).toBe(true);
+        expect(verifyChallenge("short", "E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM")).toBe(false);
+    });
+});
@@ -0,0 +1,69 @@
+import crypto from "crypto";
+import {
+    emailVerified,
+    ERROR_OIDC_ALGORITHM,
+    ERROR_OIDC_INVALID_TOKEN,
+    IdTokenClaims,
+    IdTokenExpectation,
+    Jwk,
+    pkceChallenge,
+    verifyIdToken
+} from "../../../../api/src/util/oidc";
+import {toBase64Url} from "../../../../api/src/util/webauthn";
+
+describe("Util test api/src/util/oidc", () => {
+    const expected: IdTokenExpectation = {issuer: "https://id.example.com", audience: "client", nonce: "nonce"};
+    const rsa = crypto.generateKeyPairSync("rsa", {modulusLength: 2048});
+    const ec = crypto.generateKeyPairSync("ec", {namedCurve: "prime256v1"});
+    // @types/node of this repo does not know jwk key format
+    const jwk = (key: crypto.KeyObject, kid: string): Jwk => ({
+        ...(key as unknown as {export(options: {format: "jwk"}): Jwk}).export({format: "jwk"}),
+        kid,
+        use: "sig"
+    });
+    const keys: Jwk[] = [jwk(rsa.publicKey, "rsa"), jwk(ec.publicKey, "ec")];
+    const claims = (changes: Partial<IdTokenClaims> = {}): IdTokenClaims => ({
+        iss:   expected.issuer,
+        sub:   "subject",
+        aud:   expected.audience,
+        exp:   Math.floor(Date.now() / 1000) + 300,
+        nonce: expected.nonce,
+        email: "oidc_user@example.com",
+        email_verified: true,
+        ...changes
+    });
+    const sign = (payload: IdTokenClaims, alg = "RS256", kid = "rsa"): string => {
+        const data = `${toBase64Url(Buffer.from(JSON.stringify({alg, kid})))}.${toBase64Url(Buffer.from(JSON.stringify(payload)))}`;
+        const signature = alg === "ES256"
+            ? crypto.sign("sha256", Buffer.from(data), {key: ec.privateKey, dsaEncoding: "ieee-p1363"})
+            : crypto.sign("sha256", Buffer.from(data), rsa.privateKey);
+        return `${data}.${toBase64Url(signature)}`;
+    };
+
+    it("1 pkceChallenge should match example of RFC 7636", () => {
+        expect(pkceChallenge("dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk")).toBe("E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM");
+    });
+    it("2 verifyIdToken should return claims of RS256 and ES256 tokens", () => {
+        expect(verifyIdToken(sign(claims()), keys, expected).sub).toBe("subject");
+        expect(verifyIdToken(sign(claims(), "ES256", "ec"), keys, expected).sub).toBe("subject");
+    });
+    it("3 verifyIdToken should reject token of another nonce or audience", () => {
+        expect(() => verifyIdToken(sign(claims({nonce: "other"})), keys, expected)).toThrow(ERROR_OIDC_INVALID_TOKEN);
+        expect(() => verifyIdToken(sign(claims({aud: "other"})), keys, expected)).toThrow(ERROR_OIDC_INVALID_TOKEN);
+    });
+    it("4 verifyIdToken should reject expired token", () => {
+        const exp = Math.floor(Date.now() / 1000) - 120;
+        expect(() => verifyIdToken(sign(claims({exp})), keys, expected)).toThrow(ERROR_OIDC_INVALID_TOKEN);
+    });
+    it("5 verifyIdToken should reject token of changed claims or unsupported algorithm", () => {
+        const [header, , signature] = sign(claims()).split(".");
+        const changed = toBase64Url(Buffer.from(JSON.stringify(claims({sub: "other"}))));
+        expect(() => verifyIdToken(`${header}.${changed}.${signature}`, keys, expected)).toThrow(ERROR_OIDC_INVALID_TOKEN);
+        expect(() => verifyIdToken(sign(claims(), "HS256"), keys, expected)).toThrow(ERROR_OIDC_ALGORITHM);
+    });
+    it("6 emailVerified should accept boolean and string flag", () => {
+        expect(emailVerified(claims())).toBe(true);
+        expect(emailVerified(claims({email_verified: "true"}))).toBe(true);
+        expect(emailVerified(claims({email_verified: false}))).toBe(false);
+    });
+});
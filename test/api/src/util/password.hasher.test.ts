@@ -0,0 +1,36 @@
+import {Argon2Hasher, bcryptCost, BcryptHasher} from "../../../../api/src/util/password.hasher";
+
+describe("Util test api/src/util/password.hasher", () => {
+    jest.setTimeout(30000);
+    const argon2 = new Argon2Hasher({memoryCost: 1024, timeCost: 2, parallelism: 1});
+    const bcrypt = new BcryptHasher(4);
+    it("1 bcryptCost should read cost of bcrypt hash only", () => {
+        expect(bcryptCost("$2a$12$abcdefghijklmnopqrstuu")).toBe(12);
+        expect(bcryptCost("$argon2id$v=19$m=65536,t=3,p=4$abc$def")).toBe(0);
+    });
+    it("2 Argon2Hasher should create argon2id hash and verify password", async () => {
+        const hash = await argon2.hash("Tulip-Harbor-42");
+        expect(hash.indexOf("$argon2id$")).toBe(0);
+        expect(await argon2.verify("Tulip-Harbor-42", hash)).toBe(true);
+        expect(await argon2.verify("Tulip-Harbor-43", hash)).toBe(false);
+    });
+    it("3 BcryptHasher should verify password of bcrypt hash", async () => {
+        const hash = await bcrypt.hash("Tulip-Harbor-42");
+        expect(bcryptCost(hash)).toBe(4);
+        expect(await bcrypt.verify("Tulip-Harbor-42", hash)).toBe(true);
+        expect(await bcrypt.verify("Tulip-Harbor-43", hash)).toBe(false);
+    });
+    it("4 hashers should recognize hashes of own algorithm only", async () => {
+        const hash = await bcrypt.hash("Tulip-Harbor-42");
+        expect(bcrypt.recognizes(hash)).toBe(true);
+        expect(argon2.recognizes(hash)).toBe(false);
+        expect(argon2.recognizes(await argon2.hash("Tulip-Harbor-42"))).toBe(true);
+    });
+    it("5 hashers should rehash hashes of other cost", async () => {
+        expect(bcrypt.needsRehash(await bcrypt.hash("Tulip-Harbor-42"))).toBe(false);
+        expect(new BcryptHasher(5).needsRehash(await bcrypt.hash("Tulip-Harbor-42"))).toBe(true);
+        const hash = await argon2.hash("Tulip-Harbor-42");
+        expect(argon2.needsRehash(hash)).toBe(false);
+        expect(new Argon2Hasher({memoryCost: 2048, timeCost: 2, parallelism: 1}).needsRehash(hash)).toBe(true);
+    });
+});
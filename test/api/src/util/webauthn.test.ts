@@ -0,0 +1,100 @@
+import crypto from "crypto";
+import {CborValue, decode, ERROR_CBOR} from "../../../../api/src/util/cbor";
+import {
+    coseToPem,
+    ERROR_WEBAUTHN_CHALLENGE,
+    ERROR_WEBAUTHN_INVALID,
+    fromBase64Url,
+    toBase64Url,
+    verifyAssertion,
+    verifyRegistration,
+    WebAuthnExpectation
+} from "../../../../api/src/util/webauthn";
+
+// CBOR of integers, byte and text strings and maps, enough to act as authenticator
+const head = (major: number, value: number): Buffer => {
+    if (value < 24) {
+        return Buffer.from([major << 5 | value]);
+    }
+    if (value < 0x100) {
+        return Buffer.from([major << 5 | 24, value]);
+    }
+    return Buffer.from([major << 5 | 25, value >> 8, value & 0xff]);
+};
+const encode = (value: CborValue): Buffer => {
+    if (typeof value === "number") {
+        return value < 0 ? head(1, -1 - value) : head(0, value);
+    }
+    if (typeof value === "string") {
+        return Buffer.concat([head(3, Buffer.byteLength(value)), Buffer.from(value)]);
+    }
+    if (Buffer.isBuffer(value)) {
+        return Buffer.concat([head(2, value.length), value]);
+    }
+    if (!(value instanceof Map)) {
+        throw new Error(ERROR_CBOR);
+    }
+    const entries = Array.from(value.entries());
+    return Buffer.concat([head(5, entries.length), ...entries.map(([k, v]) => Buffer.concat([encode(k), encode(v)]))]);
+};
+
+describe("Util test api/src/util/webauthn", () => {
+    const expected: WebAuthnExpectation = {challenge: toBase64Url(crypto.randomBytes(32)), origin: "http://localhost:3000", rpId: "localhost"};
+    const {publicKey, privateKey} = crypto.generateKeyPairSync("ec", {namedCurve: "prime256v1"});
+    // uncompressed point 04 || x || y ends SubjectPublicKeyInfo of P-256 key
+    const point = (publicKey.export({format: "der", type: "spki"}) as Buffer).slice(-64);
+    const cose = encode(new Map<CborValue, CborValue>([[1, 2], [3, -7], [-1, 1], [-2, point.slice(0, 32)], [-3, point.slice(32)]]));
+    const credentialId = crypto.randomBytes(16);
+    const rpIdHash = crypto.createHash("sha256").update("localhost").digest();
+    const clientData = (type: string, challenge = expected.challenge) => Buffer.from(JSON.stringify({type, challenge, origin: expected.origin}));
+    const authenticatorData = (flags: number, signCount: number, attested?: Buffer) => {
+        const counter = Buffer.alloc(4);
+        counter.writeUInt32BE(signCount, 0);
+        return Buffer.concat([rpIdHash, Buffer.from([flags]), counter, attested || Buffer.alloc(0)]);
+    };
+    const assertion = (signCount: number, challenge = expected.challenge) => {
+        const data = authenticatorData(0x01, signCount);
+        const client = clientData("webauthn.get", challenge);
+        const hash = crypto.createHash("sha256").update(client).digest();
+        return {data, client, signature: crypto.sign("sha256", Buffer.concat([data, hash]), privateKey)};
+    };
+    const register = () => {
+        const length = Buffer.from([0, credentialId.length]);
+        const attested = Buffer.concat([Buffer.alloc(16), length, credentialId, cose]);
+        const attestation = encode(new Map<CborValue, CborValue>([["fmt", "none"], ["attStmt", new Map()], ["authData", authenticatorData(0x41, 0, attested)]]));
+        return verifyRegistration(attestation, clientData("webauthn.create"), expected);
+    };
+
+    it("1 base64url should round trip bytes", () => {
+        const bytes = crypto.randomBytes(33);
+        expect(toBase64Url(bytes)).not.toMatch(/[+/=]/);
+        expect(fromBase64Url(toBase64Url(bytes)).equals(bytes)).toBe(true);
+    });
+    it("2 decode should reject truncated cbor", () => {
+        expect(() => decode(cose.slice(0, cose.length - 1))).toThrow(ERROR_CBOR);
+    });
+    it("3 coseToPem should convert P-256 key", () => {
+        expect(coseToPem(cose)).toBe(publicKey.export({format: "pem", type: "spki"}).toString());
+    });
+    it("4 verifyRegistration should return credential id and key", () => {
+        const registered = register();
+        expect(fromBase64Url(registered.credentialId).equals(credentialId)).toBe(true);
+        expect(registered.signCount).toBe(0);
+    });
+    it("5 verifyRegistration should reject another challenge", () => {
+        expect(() => verifyRegistration(Buffer.alloc(0), clientData("webauthn.create", "other"), expected)).toThrow(ERROR_WEBAUTHN_CHALLENGE);
+    });
+    it("6 verifyAssertion should return sign count of signed assertion", () => {
+        const {data, client, signature} = assertion(5);
+        expect(verifyAssertion(data, client, signature, register().publicKey, 0, expected)).toBe(5);
+    });
+    it("7 verifyAssertion should reject signature of changed data", () => {
+        const {client, signature} = assertion(5);
+        expect(() => verifyAssertion(authenticatorData(0x01, 6), client, signature, register().publicKey, 0, expected))
+            .toThrow(ERROR_WEBAUTHN_INVALID);
+    });
+    it("8 verifyAssertion should reject sign count which did not grow", () => {
+        const {data, client, signature} = assertion(5);
+        expect(() => verifyAssertion(data, client, signature, register().publicKey, 5, expected)).toThrow(ERROR_WEBAUTHN_INVALID);
+    });
+});